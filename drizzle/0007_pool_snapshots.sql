@@ -0,0 +1,39 @@
+CREATE TABLE IF NOT EXISTS "pool_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pool_address" text NOT NULL,
+	"recorded_at" timestamp with time zone NOT NULL,
+	"current_price" double precision NOT NULL,
+	"liquidity" double precision NOT NULL,
+	"volume_30m" double precision DEFAULT 0 NOT NULL,
+	"volume_1h" double precision DEFAULT 0 NOT NULL,
+	"volume_24h" double precision DEFAULT 0 NOT NULL,
+	"fees_30m" double precision DEFAULT 0 NOT NULL,
+	"fees_1h" double precision DEFAULT 0 NOT NULL,
+	"fees_24h" double precision DEFAULT 0 NOT NULL,
+	"apr" double precision DEFAULT 0 NOT NULL,
+	"active_bin_id" integer,
+	"active_bin_price" double precision,
+	"data" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "pool_snapshots_hourly" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pool_address" text NOT NULL,
+	"bucket_start" timestamp with time zone NOT NULL,
+	"samples" integer NOT NULL,
+	"price_open" double precision NOT NULL,
+	"price_high" double precision NOT NULL,
+	"price_low" double precision NOT NULL,
+	"price_close" double precision NOT NULL,
+	"liquidity_avg" double precision NOT NULL,
+	"volume_1h_avg" double precision NOT NULL,
+	"fees_1h_avg" double precision NOT NULL,
+	"apr_avg" double precision NOT NULL,
+	"active_bin_id" integer,
+	"data" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pool_snapshots_pool_time_idx" ON "pool_snapshots" USING btree ("pool_address","recorded_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pool_snapshots_recorded_at_idx" ON "pool_snapshots" USING btree ("recorded_at");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "pool_snapshots_hourly_pool_bucket_idx" ON "pool_snapshots_hourly" USING btree ("pool_address","bucket_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pool_snapshots_hourly_bucket_idx" ON "pool_snapshots_hourly" USING btree ("bucket_start");
@@ -0,0 +1,2 @@
+ALTER TABLE "bots" ADD COLUMN "scorer" text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "scorer_params" jsonb;
\ No newline at end of file
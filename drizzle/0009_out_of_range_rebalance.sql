@@ -0,0 +1,5 @@
+ALTER TABLE "bots" ADD COLUMN "out_of_range_action" text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "out_of_range_minutes" integer DEFAULT 30 NOT NULL;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "rebalance_id" text;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "rebalanced_from_position_id" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "positions_rebalance_id_idx" ON "positions" USING btree ("rebalance_id");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "bots" ADD COLUMN "strategy_type" text DEFAULT 'spot' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "deposit_mode" text DEFAULT 'one-sided' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "bins_below" integer;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "bins_above" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "strategy_type" text DEFAULT 'spot' NOT NULL;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "deposit_mode" text DEFAULT 'one-sided' NOT NULL;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "bins_below" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "bins_above" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "trade_log" ADD COLUMN "stream_type" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "trade_log_user_stream_idx" ON "trade_log" USING btree ("user_id","id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "orchestrator_instances" (
+	"instance_id" text PRIMARY KEY NOT NULL,
+	"hostname" text NOT NULL,
+	"pid" integer NOT NULL,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_heartbeat_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bot_leases" (
+	"bot_id" text PRIMARY KEY NOT NULL,
+	"instance_id" text NOT NULL,
+	"acquired_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"renewed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"command" text,
+	"command_requested_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "bot_leases" ADD CONSTRAINT "bot_leases_bot_id_bots_bot_id_fk" FOREIGN KEY ("bot_id") REFERENCES "public"."bots"("bot_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bot_leases_instance_id_idx" ON "bot_leases" USING btree ("instance_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "bot_leases_expires_at_idx" ON "bot_leases" USING btree ("expires_at");
@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS "position_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" text NOT NULL,
+	"idempotency_key" text NOT NULL,
+	"bot_id" text NOT NULL,
+	"user_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"mode" text NOT NULL,
+	"instance_id" text NOT NULL,
+	"position_id" text,
+	"pool_address" text NOT NULL,
+	"on_chain_position_key" text,
+	"params" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"tx_signatures" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"error" text,
+	"resolution" text,
+	"submitted_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "position_jobs_job_id_unique" UNIQUE("job_id"),
+	CONSTRAINT "position_jobs_idempotency_key_unique" UNIQUE("idempotency_key")
+);
+--> statement-breakpoint
+ALTER TABLE "position_jobs" ADD CONSTRAINT "position_jobs_bot_id_bots_bot_id_fk" FOREIGN KEY ("bot_id") REFERENCES "public"."bots"("bot_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_jobs" ADD CONSTRAINT "position_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "position_jobs_bot_id_idx" ON "position_jobs" USING btree ("bot_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "position_jobs_status_idx" ON "position_jobs" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "user_risk_limits" (
+	"user_id" integer PRIMARY KEY NOT NULL,
+	"max_total_exposure_sol" double precision,
+	"max_daily_loss_sol" double precision,
+	"max_concurrent_positions" integer,
+	"max_token_exposure_sol" double precision,
+	"token_exposure_caps" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"risk_state" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_risk_limits" ADD CONSTRAINT "user_risk_limits_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
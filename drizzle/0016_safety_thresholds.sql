@@ -0,0 +1,21 @@
+ALTER TABLE "bots" ADD COLUMN "max_total_loss_sol" double precision;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_consecutive_losses" integer DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_tx_failures_per_hour" integer DEFAULT 10 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_api_errors_per_hour" integer DEFAULT 50 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_positions_per_pool" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_single_position_sol" double precision;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_total_exposure_sol" double precision;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_tx_per_minute" integer DEFAULT 10 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "min_time_between_trades_ms" integer DEFAULT 5000 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bots" ADD COLUMN "max_api_calls_per_minute" integer DEFAULT 60 NOT NULL;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_daily_loss_sol" double precision;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_total_loss_sol" double precision;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_consecutive_losses" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_tx_failures_per_hour" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_api_errors_per_hour" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_positions_per_pool" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_single_position_sol" double precision;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_total_exposure_sol" double precision;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_tx_per_minute" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "min_time_between_trades_ms" integer;--> statement-breakpoint
+ALTER TABLE "strategy_presets" ADD COLUMN "max_api_calls_per_minute" integer;
\ No newline at end of file
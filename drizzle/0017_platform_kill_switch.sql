@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "platform_kill_switch" (
+	"id" integer PRIMARY KEY DEFAULT 1 NOT NULL,
+	"active" boolean DEFAULT false NOT NULL,
+	"reason" text,
+	"close_positions" boolean DEFAULT false NOT NULL,
+	"updated_by" text,
+	"activated_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
\ No newline at end of file
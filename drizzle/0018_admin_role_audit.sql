@@ -0,0 +1,17 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "role" text DEFAULT 'user' NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "admin_audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"admin_user_id" integer NOT NULL,
+	"wallet_address" text NOT NULL,
+	"action" text NOT NULL,
+	"target" text,
+	"details" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "admin_audit_log" ADD CONSTRAINT "admin_audit_log_admin_user_id_users_id_fk" FOREIGN KEY ("admin_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "admin_audit_log_created_at_idx" ON "admin_audit_log" USING btree ("created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "admin_audit_log_admin_user_id_idx" ON "admin_audit_log" USING btree ("admin_user_id");
\ No newline at end of file
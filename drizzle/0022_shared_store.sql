@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "shared_store" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" text,
+	"hits" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "shared_store_expires_at_idx" ON "shared_store" USING btree ("expires_at");
\ No newline at end of file
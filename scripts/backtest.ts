@@ -0,0 +1,136 @@
+/**
+ * backtest.ts — Replay a local pool snapshot file through the trading engine.
+ *
+ * Runs fully offline: no RPC, no Meteora API, no database.
+ * Config defaults match POST /bot/create; override with flags or a JSON file.
+ *
+ * Run:
+ *   LOG_LEVEL=warn npx tsx scripts/backtest.ts --snapshots data/backtests/week.jsonl
+ *   npx tsx scripts/backtest.ts --snapshots snap.json --threshold 170 --tp 5 --sl 8
+ *   npx tsx scripts/backtest.ts --snapshots snap.json --config bot.json --out report.json
+ *
+ * Flags:
+ *   --snapshots <file>   Snapshot file (.json or .jsonl) — required
+ *   --config <file>      JSON object of BotConfig fields to override,
+ *                        e.g. { "scorer": { "name": "fee-yield", "params": {} } }
+ *   --balance <sol>      Initial balance (default: 10)
+ *   --threshold <n>      entryScoreThreshold
+ *   --tp <pct>           profitTargetPercent
+ *   --sl <pct>           stopLossPercent
+ *   --from / --to <iso>  Replay window
+ *   --out <file>         Write the full report as JSON
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { loadSnapshotFile, runBacktest } from "../src/engine/backtest.js";
+import type { BotConfig } from "../src/engine/types.js";
+
+// ═══════════════════════════════════════════════════════════════
+// Config
+// ═══════════════════════════════════════════════════════════════
+
+/** Mirrors the createBotSchema defaults in src/routes/bot.ts */
+const DEFAULT_CONFIG: BotConfig = {
+  mode: "SIMULATION",
+  rpcEndpoint: "",
+  strategyMode: "rule-based",
+  entryScoreThreshold: 150,
+  minVolume24h: 1000,
+  minLiquidity: 100,
+  maxLiquidity: 1_000_000,
+  solPairsOnly: true,
+  blacklist: [],
+  positionSizeSOL: 1,
+  maxPositionSOL: 2,
+  minPositionSOL: 0.05,
+  defaultBinRange: 10,
+  strategyType: "spot",
+  depositMode: "one-sided",
+  profitTargetPercent: 8,
+  stopLossPercent: 12,
+  maxHoldTimeMinutes: 240,
+  maxConcurrentPositions: 5,
+  maxDailyLossSOL: 2,
+  cooldownMinutes: 79,
+  outOfRangeAction: "none",
+  outOfRangeMinutes: 30,
+  cronIntervalSeconds: 30,
+  positionCheckIntervalSeconds: 10,
+  simulation: { initialBalanceSOL: 10 },
+};
+
+// ═══════════════════════════════════════════════════════════════
+// Main
+// ═══════════════════════════════════════════════════════════════
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      snapshots: { type: "string" },
+      config: { type: "string" },
+      balance: { type: "string" },
+      threshold: { type: "string" },
+      tp: { type: "string" },
+      sl: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      out: { type: "string" },
+    },
+  });
+
+  if (!values.snapshots) {
+    console.error("Usage: npx tsx scripts/backtest.ts --snapshots <file> [flags]");
+    process.exit(1);
+  }
+
+  const fileOverrides: Partial<BotConfig> = values.config
+    ? JSON.parse(await readFile(values.config, "utf8"))
+    : {};
+
+  const botConfig: BotConfig = { ...DEFAULT_CONFIG, ...fileOverrides };
+  if (values.threshold) botConfig.entryScoreThreshold = Number(values.threshold);
+  if (values.tp) botConfig.profitTargetPercent = Number(values.tp);
+  if (values.sl) botConfig.stopLossPercent = Number(values.sl);
+
+  const snapshots = await loadSnapshotFile(values.snapshots, {
+    from: values.from ? Date.parse(values.from) : undefined,
+    to: values.to ? Date.parse(values.to) : undefined,
+  });
+  if (snapshots.length === 0) {
+    console.error("No snapshots in the requested window");
+    process.exit(1);
+  }
+
+  const report = await runBacktest({
+    config: botConfig,
+    snapshots,
+    initialBalanceSol: values.balance ? Number(values.balance) : undefined,
+    label: "cli-backtest",
+  });
+
+  console.log("═".repeat(60));
+  console.log("  Backtest Report");
+  console.log("═".repeat(60));
+  console.log(`  Window:       ${new Date(report.startTime).toISOString()} → ${new Date(report.endTime).toISOString()}`);
+  console.log(`  Snapshots:    ${report.snapshotCount} (${report.scans} scans)`);
+  console.log(`  Threshold:    ${report.config.entryScoreThreshold}  TP ${report.config.profitTargetPercent}%  SL ${report.config.stopLossPercent}%`);
+  console.log(`  Balance:      ${report.initialBalanceSol.toFixed(4)} → ${report.finalEquitySol.toFixed(4)} SOL`);
+  console.log(`  P&L:          ${report.totalPnlSol.toFixed(4)} SOL (${report.returnPercent.toFixed(2)}%)`);
+  console.log(`  Trades:       ${report.totalTrades} (${report.wins}W / ${report.losses}L, ${report.winRate.toFixed(1)}% win rate)`);
+  console.log(`  Max drawdown: ${report.maxDrawdownSol.toFixed(4)} SOL (${report.maxDrawdownPercent.toFixed(2)}%)`);
+  if (report.emergencyStopTriggered) {
+    console.log("  ⚠️  Emergency stop triggered during replay");
+  }
+  console.log("═".repeat(60));
+
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify(report, null, 2));
+    console.log(`Full report written to ${values.out}`);
+  }
+}
+
+main().catch((err) => {
+  console.error("❌ Backtest failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
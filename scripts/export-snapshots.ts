@@ -0,0 +1,90 @@
+/**
+ * export-snapshots.ts — Dump recorded pool history to a backtest snapshot file.
+ *
+ * Reads raw pool_snapshots rows (one tick = one snapshot) and writes JSONL
+ * that scripts/backtest.ts and POST /bot/:botId/backtest can replay.
+ *
+ * Run:
+ *   npx tsx scripts/export-snapshots.ts --from 2026-03-01T00:00:00Z --to 2026-03-02T00:00:00Z \
+ *     --out data/backtests/mar-01.jsonl
+ *   npx tsx scripts/export-snapshots.ts --hourly --from ... --out data/backtests/march.jsonl
+ *
+ * Flags:
+ *   --from / --to <iso>  Window (default: last 24h)
+ *   --hourly             Export hourly rollups instead of raw samples
+ *   --out <file>         Output path (required)
+ */
+
+import { createWriteStream } from "node:fs";
+import { parseArgs } from "node:util";
+import { and, asc, gte, lte } from "drizzle-orm";
+import { db, closeDatabase } from "../src/db/index.js";
+import { poolSnapshots, poolSnapshotsHourly } from "../src/db/schema.js";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      hourly: { type: "boolean", default: false },
+      out: { type: "string" },
+    },
+  });
+
+  if (!values.out) {
+    console.error("Usage: npx tsx scripts/export-snapshots.ts --out <file> [--from iso] [--to iso] [--hourly]");
+    process.exit(1);
+  }
+
+  const to = values.to ? new Date(values.to) : new Date();
+  const from = values.from
+    ? new Date(values.from)
+    : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+  // Group rows by tick: { timestamp → { pools, activeBins } }
+  const ticks = new Map<
+    number,
+    { pools: unknown[]; activeBins: Record<string, { binId: number }> }
+  >();
+
+  const addRow = (ts: Date, poolAddress: string, data: unknown, binId: number | null) => {
+    const key = ts.getTime();
+    let tick = ticks.get(key);
+    if (!tick) {
+      tick = { pools: [], activeBins: {} };
+      ticks.set(key, tick);
+    }
+    tick.pools.push(data);
+    if (binId !== null) tick.activeBins[poolAddress] = { binId };
+  };
+
+  if (values.hourly) {
+    const rows = await db
+      .select()
+      .from(poolSnapshotsHourly)
+      .where(and(gte(poolSnapshotsHourly.bucketStart, from), lte(poolSnapshotsHourly.bucketStart, to)))
+      .orderBy(asc(poolSnapshotsHourly.bucketStart));
+    for (const r of rows) addRow(r.bucketStart, r.poolAddress, r.data, r.activeBinId);
+  } else {
+    const rows = await db
+      .select()
+      .from(poolSnapshots)
+      .where(and(gte(poolSnapshots.recordedAt, from), lte(poolSnapshots.recordedAt, to)))
+      .orderBy(asc(poolSnapshots.recordedAt));
+    for (const r of rows) addRow(r.recordedAt, r.poolAddress, r.data, r.activeBinId);
+  }
+
+  const out = createWriteStream(values.out);
+  for (const [timestamp, tick] of ticks) {
+    out.write(JSON.stringify({ timestamp, ...tick }) + "\n");
+  }
+  await new Promise<void>((resolve) => out.end(resolve));
+
+  console.log(`✅ Exported ${ticks.size} snapshots to ${values.out}`);
+  await closeDatabase();
+}
+
+main().catch((err) => {
+  console.error("❌ Export failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+/**
+ * rotate-secrets.ts — Encrypt / re-wrap bot secret keys under the current
+ * master key.
+ *
+ * The server runs the same pass on startup; use this to re-wrap without
+ * waiting for a restart, or to confirm nothing is left under a key before
+ * retiring it.
+ *
+ * Run:
+ *   npm run kms:rotate                   # re-wrap under the current key
+ *   npm run kms:rotate -- --new-key      # add a key to KMS_KEY_FILE, make it current, re-wrap
+ *
+ * With KMS_MASTER_KEYS, rotate by putting the new key first in the list
+ * (keep the old one after it), then run this.
+ *
+ * Running servers can decrypt rows re-wrapped under a new key-file key
+ * (they reload the file on an unknown key id), but keep wrapping new
+ * secrets under the key they started with. Restart them, run this again,
+ * and only retire the old key once it reports nothing re-wrapped.
+ */
+
+import { parseArgs } from "node:util";
+import config from "../src/config.js";
+import { closeDatabase } from "../src/db/index.js";
+import { addKeyFileMasterKey, migrateBotSecrets } from "../src/services/kms.js";
+
+async function main() {
+  const { values } = parseArgs({
+    options: { "new-key": { type: "boolean", default: false } },
+  });
+
+  if (values["new-key"]) {
+    if (config.KMS_MASTER_KEYS) {
+      throw new Error("--new-key only manages KMS_KEY_FILE; KMS_MASTER_KEYS is set");
+    }
+    const keyId = addKeyFileMasterKey();
+    console.log(`🔑 Added master key ${keyId} to ${config.KMS_KEY_FILE} (now current)`);
+  }
+
+  const result = await migrateBotSecrets();
+  console.log(
+    `✅ ${result.scanned} bots scanned — ${result.encrypted} secrets encrypted, ` +
+    `${result.rewrapped} re-wrapped, ${result.failed} failed`
+  );
+  if (result.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((err) => {
+    console.error("❌ Rotation failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -104,6 +104,133 @@ const envSchema = z.object({
     .string()
     .optional()
     .describe("OpenAI API key for speech-to-text (gpt-4o-mini-transcribe)"),
+
+  // ── Backtesting ──────────────────────────────────────
+  BACKTEST_DATA_DIR: z
+    .string()
+    .default("./data/backtests")
+    .describe("Directory holding pool snapshot files for POST /bot/:botId/backtest"),
+
+  // ── Pool Snapshot Recorder ──────────────────────────────────────
+  SNAPSHOT_RECORDER_ENABLED: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true")
+    .describe("Record Meteora pool history into pool_snapshots"),
+  SNAPSHOT_INTERVAL_SECONDS: z.coerce
+    .number()
+    .int()
+    .min(15)
+    .default(60)
+    .describe("Seconds between pool samples"),
+  SNAPSHOT_MAX_POOLS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(200)
+    .describe("Record the top N pools by 24h volume (plus any pool with an open position)"),
+  SNAPSHOT_ACTIVE_BIN_POOLS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(20)
+    .describe("Fetch on-chain active bins for the top N recorded pools each tick"),
+  SNAPSHOT_RAW_RETENTION_HOURS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(48)
+    .describe("Raw samples older than this are downsampled to hourly rows"),
+  SNAPSHOT_HOURLY_RETENTION_DAYS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(90)
+    .describe("Hourly rows older than this are deleted"),
+
+  // ── Webhooks ──────────────────────────────────────
+  WEBHOOK_ALLOW_PRIVATE_URLS: z
+    .enum(["true", "false"])
+    .default(process.env.NODE_ENV === "production" ? "false" : "true")
+    .transform((v) => v === "true")
+    .describe(
+      "Allow http:// and localhost / private-network webhook URLs (for local stubs). " +
+      "When false, webhooks must be https and resolve to public addresses"
+    ),
+  WEBHOOK_TIMEOUT_MS: z.coerce
+    .number()
+    .int()
+    .min(1000)
+    .max(30_000)
+    .default(10_000)
+    .describe("Per-attempt HTTP timeout for webhook deliveries"),
+
+  // ── On-chain Reconciliation ──────────────────────────────────────
+  RECONCILER_ENABLED: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((v) => v === "true")
+    .describe("Periodically reconcile live positions against on-chain DLMM accounts"),
+  RECONCILE_INTERVAL_SECONDS: z.coerce
+    .number()
+    .int()
+    .min(30)
+    .default(300)
+    .describe("Seconds between reconciliation passes"),
+
+  // ── Multi-instance ──────────────────────────────────────
+  INSTANCE_ID: z
+    .string()
+    .min(1)
+    .max(64)
+    .optional()
+    .describe(
+      "Stable name for this backend replica (bot leases are held under it). " +
+      "Defaults to <hostname>-<pid>"
+    ),
+  BOT_LEASE_TTL_SECONDS: z.coerce
+    .number()
+    .int()
+    .min(10)
+    .max(600)
+    .default(30)
+    .describe(
+      "A bot lease not renewed for this long is taken over by another instance. " +
+      "Leases are renewed every TTL/3"
+    ),
+  SHARED_STORE: z
+    .enum(["postgres", "memory"])
+    .default("postgres")
+    .describe(
+      "Backend for rate-limit counters and sign-in nonces. " +
+      "memory is per-process — only for tests and single-instance development"
+    ),
+
+  // ── Secrets at Rest ──────────────────────────────────────
+  KMS_MASTER_KEYS: z
+    .string()
+    .optional()
+    .describe(
+      "Master keys wrapping the per-secret data keys, as <id>:<base64 32 bytes>, comma-separated. " +
+      "The first is current; the rest only decrypt until rotation re-wraps their rows"
+    ),
+  KMS_KEY_FILE: z
+    .string()
+    .default("./data/kms-keyring.json")
+    .describe(
+      "Local file-based KMS stand-in, used when KMS_MASTER_KEYS is unset. " +
+      "Created with a fresh key on first use outside production"
+    ),
+
+  // ── Admin ──────────────────────────────────────
+  ADMIN_WALLETS: z
+    .string()
+    .default("")
+    .transform((v) => v.split(",").map((w) => w.trim()).filter(Boolean))
+    .describe(
+      "Comma-separated wallet addresses allowed to use /admin routes. " +
+      "Bootstrap admins — others are granted users.role = admin via PUT /admin/users/:userId/role"
+    ),
 });
 
 const parsed = envSchema.safeParse(process.env);
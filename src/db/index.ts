@@ -65,4 +65,5 @@ export async function closeDatabase(): Promise<void> {
 }
 
 export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
 export default db;
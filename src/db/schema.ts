@@ -3,11 +3,26 @@
  *
  * Tables:
  *  - users: wallet-authenticated users
+ *  - sessions: one signed-in device per row (refresh-token family)
+ *  - api_keys: scoped keys for scripts / headless access (hash only)
  *  - bots: per-user bot instances with config
  *  - positions: tracked LP positions (active + historical)
  *  - trade_log: individual trade entries (append-only event log)
  *  - strategy_presets: system + user-defined strategy templates
  *  - conversations: AI chat conversation history
+ *  - pool_snapshots: raw Meteora pool samples (short retention)
+ *  - pool_snapshots_hourly: downsampled hourly pool history (long retention)
+ *  - webhooks: user-registered outbound notification endpoints
+ *  - webhook_deliveries: one row per event sent to a webhook (retry state)
+ *  - webhook_delivery_attempts: every HTTP attempt, for inspection
+ *  - orchestrator_instances: backend replicas and their last heartbeat
+ *  - bot_leases: which instance is running which bot (expiring lease)
+ *  - position_jobs: journal of open / close / rebalance executions (crash recovery)
+ *  - user_risk_limits: per-user portfolio limits across bots + daily P&L state
+ *  - platform_kill_switch: operator-wide halt of new entries (single row)
+ *  - admin_audit_log: every action taken through the admin API
+ *  - audit_log: every state-changing user action, with before/after diffs
+ *  - shared_store: rate-limit counters + sign-in nonces shared by all replicas
  *
  * Production notes:
  *  - PostgreSQL for durability, replication, and Railway-native backups
@@ -55,8 +70,14 @@ export const users = pgTable(
     authNonce: text("auth_nonce"),
     /** Nonce expiry (unix timestamp seconds) */
     authNonceExpiresAt: integer("auth_nonce_expires_at"),
-    /** Refresh token hash (for token rotation) */
+    /**
+     * Refresh token hash from before per-device sessions. Accepted once on
+     * refresh (converted into a `sessions` row), then cleared.
+     * @deprecated — see sessions.refreshTokenHash
+     */
     refreshTokenHash: text("refresh_token_hash"),
+    /** "admin" unlocks /admin routes (as does listing the wallet in ADMIN_WALLETS) */
+    role: text("role", { enum: ["user", "admin"] }).notNull().default("user"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -69,6 +90,79 @@ export const users = pgTable(
   ]
 );
 
+// ═══════════════════════════════════════════════════════════════
+// Sessions — one row per signed-in device. The row is a refresh-token
+// family: every refresh rotates the token, and presenting a rotated
+// (already used) token revokes the whole family.
+// ═══════════════════════════════════════════════════════════════
+
+export const sessions = pgTable(
+  "sessions",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    /** Client-supplied name at sign-in ("Pixel 8") */
+    deviceName: text("device_name"),
+    userAgent: text("user_agent"),
+    /** IP at sign-in */
+    createdIp: text("created_ip"),
+    /** IP of the most recent refresh */
+    lastIp: text("last_ip"),
+    /** SHA-256 of the only refresh token of this family still accepted */
+    refreshTokenHash: text("refresh_token_hash").notNull(),
+    /** Rotation count — carried in the refresh token as `gen` */
+    generation: integer("generation").notNull().default(0),
+    lastSeenAt: timestamp("last_seen_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    /** Expiry of the current refresh token */
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    revokedReason: text("revoked_reason", {
+      enum: ["user_revoked", "token_reuse"],
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("sessions_user_id_idx").on(table.userId),
+  ]
+);
+
+// ═══════════════════════════════════════════════════════════════
+// API Keys — scoped bearer keys for scripts (see services/api-keys.ts)
+// ═══════════════════════════════════════════════════════════════
+
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    name: text("name").notNull(),
+    /** First characters of the key, for recognising it in lists */
+    prefix: text("prefix").notNull(),
+    /** SHA-256 of the full key — the key itself is shown once and never stored */
+    keyHash: text("key_hash").notNull().unique(),
+    /** API_KEY_SCOPES values */
+    scopes: jsonb("scopes").$type<string[]>().notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    lastUsedIp: text("last_used_ip"),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("api_keys_user_id_idx").on(table.userId),
+  ]
+);
+
 // ═══════════════════════════════════════════════════════════════
 // Bots
 // ═══════════════════════════════════════════════════════════════
@@ -110,6 +204,10 @@ export const bots = pgTable(
     maxLiquidity: doublePrecision("max_liquidity")
       .notNull()
       .default(1_000_000),
+    /** Named pool scorer from the scoring registry (src/engine/scoring.ts) */
+    scorer: text("scorer").notNull().default("default"),
+    /** Scorer params (JSONB), validated against the scorer's schema. Null = defaults */
+    scorerParams: jsonb("scorer_params"),
 
     // ── Position Sizing ──
     positionSizeSOL: doublePrecision("position_size_sol")
@@ -120,6 +218,23 @@ export const bots = pgTable(
       .default(5),
     defaultBinRange: integer("default_bin_range").notNull().default(10),
 
+    // ── Liquidity Distribution ──
+    /** DLMM liquidity shape: spot, curve, bidask */
+    strategyType: text("strategy_type", {
+      enum: ["spot", "curve", "bidask"],
+    })
+      .notNull()
+      .default("spot"),
+    /** one-sided = SOL only, balanced = swap part of the SOL to token X */
+    depositMode: text("deposit_mode", {
+      enum: ["one-sided", "balanced"],
+    })
+      .notNull()
+      .default("one-sided"),
+    /** Bins below / above the active bin. Null = defaultBinRange */
+    binsBelow: integer("bins_below"),
+    binsAbove: integer("bins_above"),
+
     // ── Risk Management ──
     profitTargetPercent: doublePrecision("profit_target_percent")
       .notNull()
@@ -134,6 +249,31 @@ export const bots = pgTable(
       .notNull()
       .default(2),
     cooldownMinutes: integer("cooldown_minutes").notNull().default(79),
+    /** What to do once the active bin has left the range: none, close, rebalance */
+    outOfRangeAction: text("out_of_range_action", {
+      enum: ["none", "close", "rebalance"],
+    })
+      .notNull()
+      .default("none"),
+    /** Minutes out of range before outOfRangeAction fires */
+    outOfRangeMinutes: integer("out_of_range_minutes").notNull().default(30),
+
+    // ── Safety Thresholds (EmergencyStop / CircuitBreaker) ──
+    /** Total net loss before the emergency stop halts. Null = 3× maxDailyLossSOL */
+    maxTotalLossSOL: doublePrecision("max_total_loss_sol"),
+    maxConsecutiveLosses: integer("max_consecutive_losses").notNull().default(5),
+    maxTxFailuresPerHour: integer("max_tx_failures_per_hour").notNull().default(10),
+    maxApiErrorsPerHour: integer("max_api_errors_per_hour").notNull().default(50),
+    maxPositionsPerPool: integer("max_positions_per_pool").notNull().default(1),
+    /** Max SOL in one position. Null = 2× positionSizeSOL */
+    maxSinglePositionSOL: doublePrecision("max_single_position_sol"),
+    /** Max SOL across open positions. Null = maxSinglePositionSOL × maxConcurrentPositions */
+    maxTotalExposureSOL: doublePrecision("max_total_exposure_sol"),
+    maxTxPerMinute: integer("max_tx_per_minute").notNull().default(10),
+    minTimeBetweenTradesMs: integer("min_time_between_trades_ms")
+      .notNull()
+      .default(5000),
+    maxApiCallsPerMinute: integer("max_api_calls_per_minute").notNull().default(60),
 
     // ── Scheduler ──
     cronIntervalSeconds: integer("cron_interval_seconds")
@@ -182,7 +322,7 @@ export const bots = pgTable(
     /**
      * Base64-encoded 64-byte agent keypair (seed + pubkey).
      * Generated server-side so the backend can sign CreateSession TXs.
-     * ⚠️ SENSITIVE — should be encrypted at rest in production.
+     * ⚠️ SENSITIVE — envelope-encrypted at rest ("enc:v1:…", services/kms.ts).
      */
     agentSecretKey: text("agent_secret_key"),
     /**
@@ -205,7 +345,7 @@ export const bots = pgTable(
     /**
      * Base64-encoded 64-byte session keypair (seed + pubkey).
      * Generated server-side so the orchestrator can sign trades.
-     * ⚠️ SENSITIVE — should be encrypted at rest in production.
+     * ⚠️ SENSITIVE — envelope-encrypted at rest ("enc:v1:…", services/kms.ts).
      */
     sessionSecretKey: text("session_secret_key"),
 
@@ -298,6 +438,13 @@ export const positions = pgTable(
     exitTxSignature: text("exit_tx_signature"),
     exitReason: text("exit_reason"),
     realizedPnlLamports: bigint("realized_pnl_lamports", { mode: "number" }),
+
+    // ── Rebalance Linkage ──
+    /** Shared by the closed leg and the re-opened leg of a rebalance */
+    rebalanceId: text("rebalance_id"),
+    /** Position this one replaced (set on the re-opened leg only) */
+    rebalancedFromPositionId: text("rebalanced_from_position_id"),
+
     feesEarnedXLamports: bigint("fees_earned_x_lamports", { mode: "number" }),
     feesEarnedYLamports: bigint("fees_earned_y_lamports", { mode: "number" }),
     txCostLamports: bigint("tx_cost_lamports", { mode: "number" }),
@@ -316,6 +463,7 @@ export const positions = pgTable(
     index("positions_status_idx").on(table.status),
     index("positions_pool_address_idx").on(table.poolAddress),
     index("positions_on_chain_key_idx").on(table.onChainPositionKey),
+    index("positions_rebalance_id_idx").on(table.rebalanceId),
   ]
 );
 
@@ -344,10 +492,20 @@ export const tradeLog = pgTable(
         "bot_stopped",
         "bot_error",
         "scan_completed",
+        "stats_updated",
+        "position_reconciled",
+        "position_adopted",
+        "safety_reset",
       ],
     }).notNull(),
     /** JSON payload with event details */
     details: text("details"), // JSON string
+    /**
+     * EventBus event type (e.g. "position:opened") for rows written by
+     * EventJournal. These rows form the replayable event stream and their
+     * id is the event's seq. Null for rows logged directly by routes.
+     */
+    streamType: text("stream_type"),
     timestamp: timestamp("timestamp", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -356,6 +514,7 @@ export const tradeLog = pgTable(
     index("trade_log_bot_id_idx").on(table.botId),
     index("trade_log_user_id_idx").on(table.userId),
     index("trade_log_timestamp_idx").on(table.timestamp),
+    index("trade_log_user_stream_idx").on(table.userId, table.id),
   ]
 );
 
@@ -385,6 +544,31 @@ export const strategyPresets = pgTable(
     stopLossPercent: doublePrecision("stop_loss_percent").notNull(),
     maxHoldTimeMinutes: integer("max_hold_time_minutes").notNull(),
     cooldownMinutes: integer("cooldown_minutes").notNull(),
+    strategyType: text("strategy_type", {
+      enum: ["spot", "curve", "bidask"],
+    })
+      .notNull()
+      .default("spot"),
+    depositMode: text("deposit_mode", {
+      enum: ["one-sided", "balanced"],
+    })
+      .notNull()
+      .default("one-sided"),
+    binsBelow: integer("bins_below"),
+    binsAbove: integer("bins_above"),
+
+    // ── Safety thresholds — null = the bot defaults ──
+    maxDailyLossSOL: doublePrecision("max_daily_loss_sol"),
+    maxTotalLossSOL: doublePrecision("max_total_loss_sol"),
+    maxConsecutiveLosses: integer("max_consecutive_losses"),
+    maxTxFailuresPerHour: integer("max_tx_failures_per_hour"),
+    maxApiErrorsPerHour: integer("max_api_errors_per_hour"),
+    maxPositionsPerPool: integer("max_positions_per_pool"),
+    maxSinglePositionSOL: doublePrecision("max_single_position_sol"),
+    maxTotalExposureSOL: doublePrecision("max_total_exposure_sol"),
+    maxTxPerMinute: integer("max_tx_per_minute"),
+    minTimeBetweenTradesMs: integer("min_time_between_trades_ms"),
+    maxApiCallsPerMinute: integer("max_api_calls_per_minute"),
 
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
@@ -437,3 +621,429 @@ export const conversations = pgTable(
     index("conversations_type_idx").on(table.type),
   ]
 );
+
+// ═══════════════════════════════════════════════════════════════
+// Pool Snapshots (market history time series)
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Raw pool samples written by the snapshot recorder.
+ * Rows older than SNAPSHOT_RAW_RETENTION_HOURS are folded into
+ * pool_snapshots_hourly and deleted.
+ */
+export const poolSnapshots = pgTable(
+  "pool_snapshots",
+  {
+    id: serial("id").primaryKey(),
+    poolAddress: text("pool_address").notNull(),
+    recordedAt: timestamp("recorded_at", { withTimezone: true }).notNull(),
+
+    // ── Headline metrics (queryable without unpacking data) ──
+    currentPrice: doublePrecision("current_price").notNull(),
+    liquidity: doublePrecision("liquidity").notNull(),
+    volume30m: doublePrecision("volume_30m").notNull().default(0),
+    volume1h: doublePrecision("volume_1h").notNull().default(0),
+    volume24h: doublePrecision("volume_24h").notNull().default(0),
+    fees30m: doublePrecision("fees_30m").notNull().default(0),
+    fees1h: doublePrecision("fees_1h").notNull().default(0),
+    fees24h: doublePrecision("fees_24h").notNull().default(0),
+    apr: doublePrecision("apr").notNull().default(0),
+
+    // ── Active bin (null when not sampled on-chain this tick) ──
+    activeBinId: integer("active_bin_id"),
+    activeBinPrice: doublePrecision("active_bin_price"),
+
+    /** Full MeteoraPairData as returned by the API — replayable by the backtester */
+    data: jsonb("data").notNull(),
+  },
+  (table) => [
+    index("pool_snapshots_pool_time_idx").on(table.poolAddress, table.recordedAt),
+    index("pool_snapshots_recorded_at_idx").on(table.recordedAt),
+  ]
+);
+
+/**
+ * Hourly OHLC-style rollup of pool_snapshots.
+ * One row per (pool, hour); `data` is the last raw sample in the bucket.
+ */
+export const poolSnapshotsHourly = pgTable(
+  "pool_snapshots_hourly",
+  {
+    id: serial("id").primaryKey(),
+    poolAddress: text("pool_address").notNull(),
+    /** Start of the hour bucket (UTC) */
+    bucketStart: timestamp("bucket_start", { withTimezone: true }).notNull(),
+    /** Number of raw samples folded into this bucket */
+    samples: integer("samples").notNull(),
+
+    // ── Price (OHLC) ──
+    priceOpen: doublePrecision("price_open").notNull(),
+    priceHigh: doublePrecision("price_high").notNull(),
+    priceLow: doublePrecision("price_low").notNull(),
+    priceClose: doublePrecision("price_close").notNull(),
+
+    // ── Averages over the bucket ──
+    liquidityAvg: doublePrecision("liquidity_avg").notNull(),
+    volume1hAvg: doublePrecision("volume_1h_avg").notNull(),
+    fees1hAvg: doublePrecision("fees_1h_avg").notNull(),
+    aprAvg: doublePrecision("apr_avg").notNull(),
+
+    /** Last sampled active bin in the bucket */
+    activeBinId: integer("active_bin_id"),
+    /** Last raw MeteoraPairData in the bucket */
+    data: jsonb("data").notNull(),
+  },
+  (table) => [
+    uniqueIndex("pool_snapshots_hourly_pool_bucket_idx").on(
+      table.poolAddress,
+      table.bucketStart
+    ),
+    index("pool_snapshots_hourly_bucket_idx").on(table.bucketStart),
+  ]
+);
+
+// ═══════════════════════════════════════════════════════════════
+// Webhooks (outbound notifications)
+// ═══════════════════════════════════════════════════════════════
+
+export const webhooks = pgTable(
+  "webhooks",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    url: text("url").notNull(),
+    /** HMAC-SHA256 signing secret (needed in plaintext to sign) */
+    secret: text("secret").notNull(),
+    description: text("description"),
+    /** Webhook event names to deliver (see WEBHOOK_EVENT_TYPES) */
+    events: jsonb("events").$type<string[]>().notNull(),
+    /** Only deliver events for these bots. Null = all of the user's bots */
+    botIds: jsonb("bot_ids").$type<string[]>(),
+    isActive: boolean("is_active").notNull().default(true),
+    /** Deliveries that exhausted their retries in a row — auto-disables at a limit */
+    consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("webhooks_user_id_idx").on(table.userId)]
+);
+
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    /** Sent as X-Sage-Delivery — stable across retries so receivers can dedupe */
+    deliveryId: text("delivery_id").notNull().unique(),
+    webhookId: integer("webhook_id")
+      .notNull()
+      .references(() => webhooks.id, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    event: text("event").notNull(),
+    /** Exact JSON body — every retry sends identical bytes */
+    payload: text("payload").notNull(),
+    status: text("status", {
+      enum: ["pending", "sending", "retrying", "delivered", "failed"],
+    })
+      .notNull()
+      .default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("webhook_deliveries_webhook_id_idx").on(table.webhookId),
+    index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  ]
+);
+
+export const webhookDeliveryAttempts = pgTable(
+  "webhook_delivery_attempts",
+  {
+    id: serial("id").primaryKey(),
+    deliveryId: integer("delivery_id")
+      .notNull()
+      .references(() => webhookDeliveries.id, { onDelete: "cascade" }),
+    attempt: integer("attempt").notNull(),
+    /** HTTP status, null if the request never got a response */
+    responseStatus: integer("response_status"),
+    /** First 1KB of the response body */
+    responseBody: text("response_body"),
+    error: text("error"),
+    durationMs: integer("duration_ms").notNull(),
+    attemptedAt: timestamp("attempted_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("webhook_delivery_attempts_delivery_id_idx").on(table.deliveryId),
+  ]
+);
+
+// ═══════════════════════════════════════════════════════════════
+// Multi-instance (bot leasing)
+// ═══════════════════════════════════════════════════════════════
+
+export const orchestratorInstances = pgTable("orchestrator_instances", {
+  /** INSTANCE_ID, or <hostname>-<pid> */
+  instanceId: text("instance_id").primaryKey(),
+  hostname: text("hostname").notNull(),
+  pid: integer("pid").notNull(),
+  startedAt: timestamp("started_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  lastHeartbeatAt: timestamp("last_heartbeat_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/**
+ * One row per bot currently held by an instance. A lease past expiresAt
+ * belongs to a dead instance and may be taken over.
+ */
+export const botLeases = pgTable(
+  "bot_leases",
+  {
+    botId: text("bot_id")
+      .primaryKey()
+      .references(() => bots.botId),
+    instanceId: text("instance_id").notNull(),
+    acquiredAt: timestamp("acquired_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    renewedAt: timestamp("renewed_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    /** Set by another instance; the owner runs it on its next heartbeat */
+    command: text("command", { enum: ["stop", "emergency_stop"] }),
+    commandRequestedAt: timestamp("command_requested_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("bot_leases_instance_id_idx").on(table.instanceId),
+    index("bot_leases_expires_at_idx").on(table.expiresAt),
+  ]
+);
+
+// ═══════════════════════════════════════════════════════════════
+// Position Jobs (durable open / close / rebalance journal)
+// ═══════════════════════════════════════════════════════════════
+
+/** What the resumer needs to finish an open whose process died. */
+export interface PositionJobParams {
+  poolName?: string;
+  tokenXMint?: string;
+  tokenYMint?: string;
+  binStep?: number;
+  amountXLamports?: string;
+  amountYLamports?: string;
+  minBinId?: number;
+  maxBinId?: number;
+  /** Close / rebalance reason passed to the executor */
+  reason?: string;
+  rebalanceId?: string;
+  profitTargetPercent?: number;
+  stopLossPercent?: number;
+  maxHoldTimeMinutes?: number;
+}
+
+/**
+ * Written before an executor call, updated as transactions go out.
+ * queued → submitted → confirmed | failed. Jobs left queued / submitted by
+ * a dead process are settled against the chain on startup.
+ */
+export const positionJobs = pgTable(
+  "position_jobs",
+  {
+    id: serial("id").primaryKey(),
+    jobId: text("job_id").notNull().unique(),
+    /** close:<positionId>, rebalance-open:<rebalanceId>, … — one live job per key */
+    idempotencyKey: text("idempotency_key").notNull().unique(),
+    botId: text("bot_id")
+      .notNull()
+      .references(() => bots.botId),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    kind: text("kind", { enum: ["open", "close", "rebalance"] }).notNull(),
+    status: text("status", {
+      enum: ["queued", "submitted", "confirmed", "failed"],
+    })
+      .notNull()
+      .default("queued"),
+    mode: text("mode", { enum: ["simulation", "live"] }).notNull(),
+    /** Instance that ran the job */
+    instanceId: text("instance_id").notNull(),
+    /** Target position for close / rebalance; the new position for open */
+    positionId: text("position_id"),
+    poolAddress: text("pool_address").notNull(),
+    /** DLMM position account — recorded before the create tx is sent */
+    onChainPositionKey: text("on_chain_position_key"),
+    params: jsonb("params").$type<PositionJobParams>().notNull().default({}),
+    /** Every signature sent for this job, in order (retries re-sign) */
+    txSignatures: jsonb("tx_signatures").$type<string[]>().notNull().default([]),
+    attempts: integer("attempts").notNull().default(1),
+    error: text("error"),
+    /** How the startup resumer settled the job, if it had to */
+    resolution: text("resolution"),
+    submittedAt: timestamp("submitted_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("position_jobs_bot_id_idx").on(table.botId),
+    index("position_jobs_status_idx").on(table.status),
+  ]
+);
+
+// ═══════════════════════════════════════════════════════════════
+// Portfolio Risk (per-user limits across all bots)
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * One row per user. Null limits are off. Simulation and live bots are
+ * accounted separately, so virtual losses never block real trading.
+ */
+export const userRiskLimits = pgTable("user_risk_limits", {
+  userId: integer("user_id")
+    .primaryKey()
+    .references(() => users.id),
+  /** Max SOL in open positions across all the user's bots */
+  maxTotalExposureSol: doublePrecision("max_total_exposure_sol"),
+  /** Max net loss per UTC day across all bots — entries stop once hit */
+  maxDailyLossSol: doublePrecision("max_daily_loss_sol"),
+  /** Max open positions across all bots */
+  maxConcurrentPositions: integer("max_concurrent_positions"),
+  /** Default cap on SOL in positions of any one token (X mint) */
+  maxTokenExposureSol: doublePrecision("max_token_exposure_sol"),
+  /** Per-mint overrides of maxTokenExposureSol */
+  tokenExposureCaps: jsonb("token_exposure_caps")
+    .$type<Record<string, number>>()
+    .notNull()
+    .default({}),
+  /** Serialized PortfolioRiskState — daily P&L across bots (survives restarts) */
+  riskState: text("risk_state"),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Platform Kill Switch — one row (id = 1), read by every instance
+// ═══════════════════════════════════════════════════════════════
+
+export const platformKillSwitch = pgTable("platform_kill_switch", {
+  id: integer("id").primaryKey().default(1),
+  active: boolean("active").notNull().default(false),
+  reason: text("reason"),
+  /** Whether activation also closed every open position */
+  closePositions: boolean("close_positions").notNull().default(false),
+  /** Admin wallet that last activated / deactivated it */
+  updatedBy: text("updated_by"),
+  activatedAt: timestamp("activated_at", { withTimezone: true }),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Admin Audit Log — append-only record of admin API actions
+// ═══════════════════════════════════════════════════════════════
+
+export const adminAuditLog = pgTable(
+  "admin_audit_log",
+  {
+    id: serial("id").primaryKey(),
+    adminUserId: integer("admin_user_id")
+      .notNull()
+      .references(() => users.id),
+    /** Wallet the admin authenticated with */
+    walletAddress: text("wallet_address").notNull(),
+    /** e.g. "bot.force_stop", "kill_switch.activate", "ml.reload" */
+    action: text("action").notNull(),
+    /** Bot ID, user ID, … the action applied to */
+    target: text("target"),
+    details: jsonb("details").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("admin_audit_log_created_at_idx").on(table.createdAt),
+    index("admin_audit_log_admin_user_id_idx").on(table.adminUserId),
+  ]
+);
+
+// ═══════════════════════════════════════════════════════════════
+// Audit Log — append-only record of state-changing user actions
+// (a DB trigger rejects UPDATE / DELETE)
+// ═══════════════════════════════════════════════════════════════
+
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    walletAddress: text("wallet_address").notNull(),
+    /** e.g. "bot.config_update", "bot.start", "wallet.prepare_withdraw" */
+    action: text("action").notNull(),
+    /** "bot", "position", "webhook", "session", … */
+    targetType: text("target_type"),
+    targetId: text("target_id"),
+    /** Changed fields only — secrets redacted */
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    /** X-Request-Id of the request that made the change */
+    requestId: text("request_id"),
+    ip: text("ip"),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("audit_log_user_id_created_at_idx").on(table.userId, table.createdAt),
+  ]
+);
+
+// ═══════════════════════════════════════════════════════════════
+// Shared Store — expiring keys shared by all replicas
+// (rate-limit counters, sign-in nonces — see services/shared-store.ts)
+// ═══════════════════════════════════════════════════════════════
+
+export const sharedStoreEntries = pgTable(
+  "shared_store",
+  {
+    /** Namespaced, e.g. "rl:auth:ip:1.2.3.4", "nonce:<hex>" */
+    key: text("key").primaryKey(),
+    /** Payload for put / take entries; null for counters */
+    value: text("value"),
+    /** Hits in the current window, for counters */
+    hits: integer("hits").notNull().default(0),
+    /** Compared with the database clock; expired rows are purged */
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  },
+  (table) => [
+    index("shared_store_expires_at_idx").on(table.expiresAt),
+  ]
+);
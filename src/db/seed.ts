@@ -9,7 +9,7 @@ import db from "./index.js";
 import { strategyPresets } from "./schema.js";
 import { eq, and } from "drizzle-orm";
 
-const SYSTEM_PRESETS = [
+const SYSTEM_PRESETS: (typeof strategyPresets.$inferInsert)[] = [
   {
     name: "FreesolGames",
     description:
@@ -25,6 +25,8 @@ const SYSTEM_PRESETS = [
     stopLossPercent: 12,
     maxHoldTimeMinutes: 240,
     cooldownMinutes: 79,
+    strategyType: "spot",
+    depositMode: "one-sided",
   },
   {
     name: "Conservative",
@@ -41,6 +43,12 @@ const SYSTEM_PRESETS = [
     stopLossPercent: 8,
     maxHoldTimeMinutes: 120,
     cooldownMinutes: 120,
+    strategyType: "spot",
+    depositMode: "balanced",
+    binsBelow: 12,
+    binsAbove: 12,
+    maxDailyLossSOL: 1,
+    maxConsecutiveLosses: 3,
   },
   {
     name: "Heart Attack",
@@ -57,6 +65,13 @@ const SYSTEM_PRESETS = [
     stopLossPercent: 20,
     maxHoldTimeMinutes: 480,
     cooldownMinutes: 30,
+    strategyType: "bidask",
+    depositMode: "one-sided",
+    binsBelow: 20,
+    binsAbove: 5,
+    maxDailyLossSOL: 5,
+    maxConsecutiveLosses: 8,
+    maxPositionsPerPool: 2,
   },
   {
     name: "Slow & Steady",
@@ -73,6 +88,12 @@ const SYSTEM_PRESETS = [
     stopLossPercent: 5,
     maxHoldTimeMinutes: 60,
     cooldownMinutes: 180,
+    strategyType: "curve",
+    depositMode: "balanced",
+    binsBelow: 6,
+    binsAbove: 6,
+    maxDailyLossSOL: 0.5,
+    maxConsecutiveLosses: 3,
   },
 ];
 
@@ -0,0 +1,495 @@
+/**
+ * Backtest — Replays recorded pool snapshots through the real engine.
+ *
+ * Feeds a time series of MeteoraPairData (+ optional active bins) through
+ * the unmodified TradingEngine + SimulationExecutor on a VirtualClock.
+ * Scans and position checks fire on the bot's own cadence, measured in
+ * snapshot time, so a week of history replays in seconds.
+ *
+ * Runs fully offline — no RPC, no Meteora API, no DB.
+ *
+ * Snapshot file formats (see loadSnapshotFile):
+ *  - JSON:  { "snapshots": [ PoolSnapshot, ... ] }  or a bare array
+ *  - JSONL: one PoolSnapshot per line
+ *
+ * Limitations:
+ *  - ML strategy modes are scored rule-based (no ML service offline)
+ *  - P&L uses the SimulationExecutor model, same as paper trading
+ */
+
+import { readFile } from "node:fs/promises";
+import BN from "bn.js";
+import type {
+  BotConfig,
+  IMarketDataProvider,
+  MeteoraPairData,
+  MarketScore,
+  BinLiquidity,
+} from "./types.js";
+import { LAMPORTS_PER_SOL } from "./types.js";
+import { TradingEngine } from "./trading-engine.js";
+import { SimulationExecutor } from "./simulation-executor.js";
+import { EmergencyStop, emergencyStopConfigFor } from "./emergency-stop.js";
+import { CircuitBreaker, circuitBreakerConfigFor } from "./circuit-breaker.js";
+import { VirtualClock } from "./clock.js";
+import { isPoolEligible, syntheticActiveBin } from "./market-data.js";
+import { createScoreFn, type ScoreFn } from "./scoring.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "backtest" });
+
+// ═══════════════════════════════════════════════════════════════
+// Snapshot format
+// ═══════════════════════════════════════════════════════════════
+
+export interface SnapshotActiveBin {
+  binId: number;
+  /** Price per token (UI units) — falls back to pool.current_price */
+  pricePerToken?: string | number;
+}
+
+export interface PoolSnapshot {
+  /** Epoch milliseconds (or ISO string in the file) */
+  timestamp: number;
+  pools: MeteoraPairData[];
+  /** Active bin per pool address — derived from current_price if absent */
+  activeBins?: Record<string, SnapshotActiveBin>;
+}
+
+/**
+ * Load and normalise a snapshot file (JSON or JSONL).
+ * Snapshots are sorted by timestamp; an optional [from, to] window trims them.
+ */
+export async function loadSnapshotFile(
+  path: string,
+  window?: { from?: number; to?: number }
+): Promise<PoolSnapshot[]> {
+  const raw = await readFile(path, "utf8");
+  return parseSnapshots(raw, path.endsWith(".jsonl"), window);
+}
+
+export function parseSnapshots(
+  raw: string,
+  jsonLines: boolean,
+  window?: { from?: number; to?: number }
+): PoolSnapshot[] {
+  let entries: unknown[];
+
+  if (jsonLines) {
+    entries = raw
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  } else {
+    const parsed = JSON.parse(raw) as unknown;
+    entries = Array.isArray(parsed)
+      ? parsed
+      : ((parsed as { snapshots?: unknown[] }).snapshots ?? []);
+  }
+
+  const snapshots = entries.map((entry, i) => {
+    const e = entry as Partial<PoolSnapshot> & { timestamp?: number | string };
+    const timestamp =
+      typeof e.timestamp === "string" ? Date.parse(e.timestamp) : e.timestamp;
+    if (timestamp === undefined || !Number.isFinite(timestamp)) {
+      throw new Error(`Snapshot ${i} has no valid timestamp`);
+    }
+    if (!Array.isArray(e.pools)) {
+      throw new Error(`Snapshot ${i} has no pools array`);
+    }
+    return { timestamp, pools: e.pools, activeBins: e.activeBins };
+  });
+
+  return snapshots
+    .filter(
+      (s) =>
+        (window?.from === undefined || s.timestamp >= window.from) &&
+        (window?.to === undefined || s.timestamp <= window.to)
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Replay market data provider
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * IMarketDataProvider backed by a snapshot series.
+ * The runner moves the cursor; every read returns data "as of" the cursor.
+ */
+export class SnapshotMarketData implements IMarketDataProvider {
+  private snapshots: PoolSnapshot[];
+  private config: BotConfig;
+  private clock: VirtualClock;
+  private cursor = 0;
+  private poolIndex = new Map<string, MeteoraPairData>();
+  private score: ScoreFn;
+
+  constructor(snapshots: PoolSnapshot[], config: BotConfig, clock: VirtualClock) {
+    this.snapshots = snapshots;
+    this.config = config;
+    this.clock = clock;
+    this.score = createScoreFn(config.scorer);
+    this.setCursor(0);
+  }
+
+  setCursor(index: number): void {
+    this.cursor = index;
+    this.poolIndex.clear();
+    for (const pool of this.snapshots[index]?.pools ?? []) {
+      this.poolIndex.set(pool.address, pool);
+    }
+  }
+
+  async fetchAllPools(): Promise<MeteoraPairData[]> {
+    return this.snapshots[this.cursor]?.pools ?? [];
+  }
+
+  async getPoolData(poolAddress: string): Promise<MeteoraPairData | null> {
+    return this.poolIndex.get(poolAddress) ?? this.lastKnownPool(poolAddress);
+  }
+
+  async getActiveBin(poolAddress: string): Promise<BinLiquidity> {
+    const pool = await this.getPoolData(poolAddress);
+    if (!pool) {
+      throw new Error(`Pool ${poolAddress} not present in snapshot history`);
+    }
+
+    const recorded = this.snapshots[this.cursor]?.activeBins?.[poolAddress];
+    if (!recorded) return syntheticActiveBin(pool);
+
+    const price = Number(recorded.pricePerToken ?? pool.current_price) || 1;
+    return {
+      ...syntheticActiveBin(pool, price),
+      binId: recorded.binId,
+    };
+  }
+
+  calculateMarketScore(pool: MeteoraPairData): MarketScore {
+    return this.score(pool, this.config.entryScoreThreshold, this.clock.now());
+  }
+
+  async filterEligiblePools(config: BotConfig): Promise<MeteoraPairData[]> {
+    const pools = await this.fetchAllPools();
+    return pools.filter((pool) => isPoolEligible(pool, config));
+  }
+
+  /**
+   * A pool can drop out of a snapshot (API hiccup, filtered by the recorder)
+   * while we still hold a position in it. Carry its last known state forward
+   * so exits can still be priced.
+   */
+  private lastKnownPool(poolAddress: string): MeteoraPairData | null {
+    for (let i = this.cursor - 1; i >= 0; i--) {
+      const pool = this.snapshots[i].pools.find((p) => p.address === poolAddress);
+      if (pool) return pool;
+    }
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Report
+// ═══════════════════════════════════════════════════════════════
+
+export interface BacktestTrade {
+  positionId: string;
+  poolAddress: string;
+  poolName: string;
+  entryTimestamp: number;
+  exitTimestamp: number | null;
+  entryPrice: number;
+  exitPrice: number | null;
+  amountSol: number;
+  pnlSol: number;
+  pnlPercent: number;
+  holdMinutes: number;
+  entryScore: number | null;
+  exitReason: string | null;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equitySol: number;
+  balanceSol: number;
+  openPositions: number;
+}
+
+export interface BacktestReport {
+  label: string;
+  startTime: number;
+  endTime: number;
+  snapshotCount: number;
+  initialBalanceSol: number;
+  finalEquitySol: number;
+  totalPnlSol: number;
+  returnPercent: number;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  /** Percentage (0-100), same convention as SimulationExecutor */
+  winRate: number;
+  maxDrawdownSol: number;
+  maxDrawdownPercent: number;
+  scans: number;
+  emergencyStopTriggered: boolean;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  config: Pick<
+    BotConfig,
+    | "strategyMode"
+    | "entryScoreThreshold"
+    | "profitTargetPercent"
+    | "stopLossPercent"
+    | "maxHoldTimeMinutes"
+    | "positionSizeSOL"
+    | "maxConcurrentPositions"
+    | "defaultBinRange"
+    | "strategyType"
+    | "depositMode"
+    | "binsBelow"
+    | "binsAbove"
+    | "cooldownMinutes"
+    | "cronIntervalSeconds"
+  >;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Runner
+// ═══════════════════════════════════════════════════════════════
+
+export interface BacktestOptions {
+  config: BotConfig;
+  snapshots: PoolSnapshot[];
+  /** Defaults to config.simulation.initialBalanceSOL */
+  initialBalanceSol?: number;
+  label?: string;
+  /** Close positions still open at the final snapshot (default: true) */
+  closeOpenAtEnd?: boolean;
+  /** Cap the equity curve length by sampling evenly (default: 500) */
+  maxEquityPoints?: number;
+}
+
+/**
+ * Run a backtest to completion and return the report.
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const { config, snapshots } = options;
+  if (snapshots.length === 0) {
+    throw new Error("Backtest requires at least one snapshot");
+  }
+
+  const label = options.label ?? "backtest";
+  const initialBalanceSol =
+    options.initialBalanceSol ?? config.simulation?.initialBalanceSOL ?? 10;
+
+  const clock = new VirtualClock(snapshots[0].timestamp);
+  const marketData = new SnapshotMarketData(snapshots, config, clock);
+  const executor = new SimulationExecutor(config, marketData, initialBalanceSol, clock);
+
+  // Same safety configuration the orchestrator gives a live bot
+  const emergencyStop = new EmergencyStop(label, emergencyStopConfigFor(config), undefined, clock);
+  const circuitBreaker = new CircuitBreaker(label, circuitBreakerConfigFor(config), clock);
+
+  // Events would normally feed the DB/EventBus — a backtest has no side effects
+  const engine = new TradingEngine(
+    { ...config, mode: "SIMULATION" },
+    executor,
+    marketData,
+    () => {},
+    label,
+    null,
+    emergencyStop,
+    circuitBreaker,
+    null,
+    clock
+  );
+
+  const scanIntervalMs = config.cronIntervalSeconds * 1000;
+  const checkIntervalMs = (config.positionCheckIntervalSeconds ?? 10) * 1000;
+  let nextScanAt = snapshots[0].timestamp;
+  let nextCheckAt = snapshots[0].timestamp;
+  let scans = 0;
+
+  const equityCurve: EquityPoint[] = [];
+  const startedAt = Date.now();
+
+  log.info(
+    {
+      label,
+      snapshots: snapshots.length,
+      from: new Date(snapshots[0].timestamp).toISOString(),
+      to: new Date(snapshots[snapshots.length - 1].timestamp).toISOString(),
+      initialBalanceSol,
+    },
+    "Backtest started"
+  );
+
+  for (let i = 0; i < snapshots.length; i++) {
+    const snapshot = snapshots[i];
+    clock.set(snapshot.timestamp);
+    marketData.setCursor(i);
+
+    // Exits first so freed slots are available to the same tick's scan
+    if (clock.now() >= nextCheckAt) {
+      await engine.runPositionCheck();
+      nextCheckAt = clock.now() + checkIntervalMs;
+    }
+    if (clock.now() >= nextScanAt) {
+      await engine.runScanCycle();
+      scans++;
+      nextScanAt = clock.now() + scanIntervalMs;
+    }
+
+    equityCurve.push(snapshotEquity(executor, clock.now()));
+  }
+
+  if (options.closeOpenAtEnd ?? true) {
+    for (const position of executor.getActivePositions()) {
+      await engine.closePositionById(position.id, "BACKTEST_END");
+    }
+    equityCurve.push(snapshotEquity(executor, clock.now()));
+  }
+
+  const report = buildReport({
+    label,
+    snapshots,
+    initialBalanceSol,
+    executor,
+    equityCurve,
+    scans,
+    emergencyStopTriggered: emergencyStop.isTriggered,
+    config,
+    maxEquityPoints: options.maxEquityPoints ?? 500,
+  });
+
+  log.info(
+    {
+      label,
+      trades: report.totalTrades,
+      pnlSol: report.totalPnlSol.toFixed(4),
+      winRate: report.winRate.toFixed(1),
+      maxDrawdownPercent: report.maxDrawdownPercent.toFixed(2),
+      elapsedMs: Date.now() - startedAt,
+    },
+    "Backtest completed"
+  );
+
+  return report;
+}
+
+// ── Helpers ──
+
+function snapshotEquity(executor: SimulationExecutor, timestamp: number): EquityPoint {
+  return {
+    timestamp,
+    equitySol: executor.getEquityLamports().toNumber() / LAMPORTS_PER_SOL,
+    balanceSol: executor.getBalanceLamports().toNumber() / LAMPORTS_PER_SOL,
+    openPositions: executor.getActivePositions().length,
+  };
+}
+
+function buildReport(input: {
+  label: string;
+  snapshots: PoolSnapshot[];
+  initialBalanceSol: number;
+  executor: SimulationExecutor;
+  equityCurve: EquityPoint[];
+  scans: number;
+  emergencyStopTriggered: boolean;
+  config: BotConfig;
+  maxEquityPoints: number;
+}): BacktestReport {
+  const { executor, equityCurve, initialBalanceSol, config } = input;
+
+  const trades: BacktestTrade[] = executor.getAllPositions().map((p) => {
+    const amountLamports = p.entryAmountX.add(p.entryAmountY).toNumber();
+    const pnlLamports = (p.realizedPnlLamports ?? new BN(0)).toNumber();
+    const end = p.exitTimestamp ?? input.snapshots[input.snapshots.length - 1].timestamp;
+    return {
+      positionId: p.id,
+      poolAddress: p.poolAddress,
+      poolName: p.poolName,
+      entryTimestamp: p.entryTimestamp,
+      exitTimestamp: p.exitTimestamp ?? null,
+      entryPrice: parseFloat(p.entryPricePerToken),
+      exitPrice: p.exitPricePerToken ? parseFloat(p.exitPricePerToken) : null,
+      amountSol: amountLamports / LAMPORTS_PER_SOL,
+      pnlSol: pnlLamports / LAMPORTS_PER_SOL,
+      pnlPercent: amountLamports > 0 ? (pnlLamports / amountLamports) * 100 : 0,
+      holdMinutes: (end - p.entryTimestamp) / 60_000,
+      entryScore: p.entryScore ?? null,
+      exitReason: p.exitReason ?? null,
+    };
+  });
+
+  const closed = trades.filter((t) => t.exitTimestamp !== null);
+  const wins = closed.filter((t) => t.pnlSol > 0).length;
+  const losses = closed.length - wins;
+
+  // Max drawdown over the full-resolution curve (before sampling)
+  let peak = initialBalanceSol;
+  let maxDrawdownSol = 0;
+  let maxDrawdownPercent = 0;
+  for (const point of equityCurve) {
+    if (point.equitySol > peak) peak = point.equitySol;
+    const drawdown = peak - point.equitySol;
+    if (drawdown > maxDrawdownSol) maxDrawdownSol = drawdown;
+    if (peak > 0 && (drawdown / peak) * 100 > maxDrawdownPercent) {
+      maxDrawdownPercent = (drawdown / peak) * 100;
+    }
+  }
+
+  const finalEquitySol =
+    equityCurve[equityCurve.length - 1]?.equitySol ?? initialBalanceSol;
+  const totalPnlSol = finalEquitySol - initialBalanceSol;
+
+  return {
+    label: input.label,
+    startTime: input.snapshots[0].timestamp,
+    endTime: input.snapshots[input.snapshots.length - 1].timestamp,
+    snapshotCount: input.snapshots.length,
+    initialBalanceSol,
+    finalEquitySol,
+    totalPnlSol,
+    returnPercent: initialBalanceSol > 0 ? (totalPnlSol / initialBalanceSol) * 100 : 0,
+    totalTrades: closed.length,
+    wins,
+    losses,
+    winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+    maxDrawdownSol,
+    maxDrawdownPercent,
+    scans: input.scans,
+    emergencyStopTriggered: input.emergencyStopTriggered,
+    trades,
+    equityCurve: downsample(equityCurve, input.maxEquityPoints),
+    config: {
+      strategyMode: config.strategyMode,
+      entryScoreThreshold: config.entryScoreThreshold,
+      profitTargetPercent: config.profitTargetPercent,
+      stopLossPercent: config.stopLossPercent,
+      maxHoldTimeMinutes: config.maxHoldTimeMinutes,
+      positionSizeSOL: config.positionSizeSOL,
+      maxConcurrentPositions: config.maxConcurrentPositions,
+      defaultBinRange: config.defaultBinRange,
+      strategyType: config.strategyType,
+      depositMode: config.depositMode,
+      binsBelow: config.binsBelow,
+      binsAbove: config.binsAbove,
+      cooldownMinutes: config.cooldownMinutes,
+      cronIntervalSeconds: config.cronIntervalSeconds,
+    },
+  };
+}
+
+/** Evenly sample a series down to `max` points, always keeping the last. */
+function downsample<T>(points: T[], max: number): T[] {
+  if (points.length <= max || max < 2) return points;
+  const step = (points.length - 1) / (max - 1);
+  const out: T[] = [];
+  for (let i = 0; i < max; i++) {
+    out.push(points[Math.round(i * step)]);
+  }
+  return out;
+}
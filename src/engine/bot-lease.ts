@@ -0,0 +1,272 @@
+/**
+ * BotLeaseManager — Postgres leases so a bot runs on exactly one instance.
+ *
+ * Every backend replica registers itself in `orchestrator_instances` and
+ * holds a `bot_leases` row for each bot it runs. Leases expire after
+ * BOT_LEASE_TTL_SECONDS unless renewed (the orchestrator renews every
+ * TTL/3), so when an instance dies its bots become claimable and another
+ * instance takes them over in `recoverRunningBots`.
+ *
+ * All timestamps are compared with the database clock (`now()`), so clock
+ * skew between replicas doesn't matter. Acquisition is a single upsert
+ * that only succeeds when the row is free, expired, or already ours.
+ *
+ * Instances can't call each other, so stop / emergency stop for a bot held
+ * elsewhere is written to the lease's `command` column and picked up by the
+ * owner on its next renewal.
+ */
+
+import os from "node:os";
+import { and, eq, gt, inArray, isNull, lt, or, sql } from "drizzle-orm";
+import config from "../config.js";
+import db from "../db/index.js";
+import { botLeases, bots, orchestratorInstances } from "../db/schema.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "bot-lease" });
+
+/** Instance rows without a heartbeat for this long are pruned */
+const STALE_INSTANCE_MS = 24 * 60 * 60 * 1000;
+
+export type LeaseCommand = NonNullable<(typeof botLeases.$inferSelect)["command"]>;
+
+export interface RenewResult {
+  /** Bots whose lease we still hold */
+  renewed: Set<string>;
+  /** Commands other instances left for our bots */
+  commands: Map<string, LeaseCommand>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// BotLeaseManager Singleton
+// ═══════════════════════════════════════════════════════════════
+
+class BotLeaseManager {
+  private static instance: BotLeaseManager | null = null;
+
+  readonly instanceId: string;
+  readonly ttlSeconds: number;
+
+  private constructor() {
+    this.instanceId = config.INSTANCE_ID ?? `${os.hostname()}-${process.pid}`;
+    this.ttlSeconds = config.BOT_LEASE_TTL_SECONDS;
+  }
+
+  static getInstance(): BotLeaseManager {
+    if (!BotLeaseManager.instance) {
+      BotLeaseManager.instance = new BotLeaseManager();
+    }
+    return BotLeaseManager.instance;
+  }
+
+  /** How often the owner must renew (TTL / 3). */
+  get renewIntervalMs(): number {
+    return Math.floor((this.ttlSeconds * 1000) / 3);
+  }
+
+  private expiry() {
+    return sql`now() + make_interval(secs => ${this.ttlSeconds})`;
+  }
+
+  // ── Instance registry ──
+
+  /**
+   * Register (or re-register) this instance and prune long-dead ones.
+   */
+  async register(): Promise<void> {
+    await db
+      .insert(orchestratorInstances)
+      .values({
+        instanceId: this.instanceId,
+        hostname: os.hostname(),
+        pid: process.pid,
+      })
+      .onConflictDoUpdate({
+        target: orchestratorInstances.instanceId,
+        set: {
+          hostname: os.hostname(),
+          pid: process.pid,
+          startedAt: sql`now()`,
+          lastHeartbeatAt: sql`now()`,
+        },
+      });
+
+    await db
+      .delete(orchestratorInstances)
+      .where(
+        lt(
+          orchestratorInstances.lastHeartbeatAt,
+          new Date(Date.now() - STALE_INSTANCE_MS)
+        )
+      );
+
+    log.info({ instanceId: this.instanceId, ttlSeconds: this.ttlSeconds }, "Instance registered");
+  }
+
+  /** Drop all our leases and our instance row (graceful shutdown). */
+  async unregister(): Promise<void> {
+    await db.delete(botLeases).where(eq(botLeases.instanceId, this.instanceId));
+    await db
+      .delete(orchestratorInstances)
+      .where(eq(orchestratorInstances.instanceId, this.instanceId));
+  }
+
+  // ── Leases ──
+
+  /**
+   * Claim a bot. True if we now hold the lease — it was free, expired,
+   * or already ours.
+   */
+  async acquire(botId: string): Promise<boolean> {
+    const rows = await db
+      .insert(botLeases)
+      .values({ botId, instanceId: this.instanceId, expiresAt: this.expiry() })
+      .onConflictDoUpdate({
+        target: botLeases.botId,
+        set: {
+          instanceId: this.instanceId,
+          acquiredAt: sql`now()`,
+          renewedAt: sql`now()`,
+          expiresAt: this.expiry(),
+          command: null,
+          commandRequestedAt: null,
+        },
+        setWhere: or(
+          eq(botLeases.instanceId, this.instanceId),
+          lt(botLeases.expiresAt, sql`now()`)
+        ),
+      })
+      .returning({ botId: botLeases.botId });
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Extend every lease we hold for `botIds`. Bots missing from the result
+   * were taken over (our lease expired) and must not keep running here.
+   */
+  async renew(botIds: string[]): Promise<RenewResult> {
+    await db
+      .update(orchestratorInstances)
+      .set({ lastHeartbeatAt: sql`now()` })
+      .where(eq(orchestratorInstances.instanceId, this.instanceId));
+
+    const result: RenewResult = { renewed: new Set(), commands: new Map() };
+    if (botIds.length === 0) return result;
+
+    const rows = await db
+      .update(botLeases)
+      .set({ renewedAt: sql`now()`, expiresAt: this.expiry() })
+      .where(
+        and(
+          eq(botLeases.instanceId, this.instanceId),
+          inArray(botLeases.botId, botIds)
+        )
+      )
+      .returning({ botId: botLeases.botId, command: botLeases.command });
+
+    for (const row of rows) {
+      result.renewed.add(row.botId);
+      if (row.command) result.commands.set(row.botId, row.command);
+    }
+    return result;
+  }
+
+  /** Give up a bot we hold (no-op if someone else holds it). */
+  async release(botId: string): Promise<void> {
+    await db
+      .delete(botLeases)
+      .where(and(eq(botLeases.botId, botId), eq(botLeases.instanceId, this.instanceId)));
+  }
+
+  /**
+   * Ask the owner of a live lease to run a command.
+   * Returns the owning instance, or null if nobody holds the bot.
+   */
+  async sendCommand(botId: string, command: LeaseCommand): Promise<string | null> {
+    const [row] = await db
+      .update(botLeases)
+      .set({ command, commandRequestedAt: sql`now()` })
+      .where(and(eq(botLeases.botId, botId), gt(botLeases.expiresAt, sql`now()`)))
+      .returning({ instanceId: botLeases.instanceId });
+    return row?.instanceId ?? null;
+  }
+
+  /** Instance currently holding a live lease on the bot, if any. */
+  async ownerOf(botId: string): Promise<string | null> {
+    const [row] = await db
+      .select({ instanceId: botLeases.instanceId })
+      .from(botLeases)
+      .where(and(eq(botLeases.botId, botId), gt(botLeases.expiresAt, sql`now()`)));
+    return row?.instanceId ?? null;
+  }
+
+  /**
+   * Bots that should be running but have no live lease — held by an
+   * instance that stopped renewing, or never claimed. Unclaimed bots get
+   * one TTL of grace: POST /bot/:botId/start sets status before the
+   * starting instance takes the lease.
+   */
+  async findUnownedRunningBots() {
+    return db
+      .select({ botId: bots.botId, userId: bots.userId })
+      .from(bots)
+      .leftJoin(botLeases, eq(botLeases.botId, bots.botId))
+      .where(
+        and(
+          eq(bots.status, "running"),
+          or(
+            lt(botLeases.expiresAt, sql`now()`),
+            and(
+              isNull(botLeases.botId),
+              lt(bots.updatedAt, sql`now() - make_interval(secs => ${this.ttlSeconds})`)
+            )
+          )
+        )
+      );
+  }
+
+  // ── Admin view ──
+
+  /** Every known instance with the bots it holds. */
+  async listOwnership() {
+    const [instances, leases] = await Promise.all([
+      db.select().from(orchestratorInstances).orderBy(orchestratorInstances.instanceId),
+      db
+        .select({
+          botId: botLeases.botId,
+          instanceId: botLeases.instanceId,
+          acquiredAt: botLeases.acquiredAt,
+          renewedAt: botLeases.renewedAt,
+          expiresAt: botLeases.expiresAt,
+          command: botLeases.command,
+          expired: sql<boolean>`${botLeases.expiresAt} < now()`,
+          userId: bots.userId,
+          botName: bots.name,
+          botStatus: bots.status,
+          botMode: bots.mode,
+        })
+        .from(botLeases)
+        .innerJoin(bots, eq(bots.botId, botLeases.botId))
+        .orderBy(botLeases.instanceId, botLeases.botId),
+    ]);
+
+    const staleAfter = Date.now() - this.ttlSeconds * 1000;
+    return instances.map((instance) => ({
+      ...instance,
+      self: instance.instanceId === this.instanceId,
+      alive: instance.lastHeartbeatAt.getTime() >= staleAfter,
+      bots: leases.filter((l) => l.instanceId === instance.instanceId),
+    }));
+  }
+
+  /**
+   * Reset the singleton (for testing).
+   */
+  static reset(): void {
+    BotLeaseManager.instance = null;
+  }
+}
+
+export { BotLeaseManager };
+export const botLeaseManager = BotLeaseManager.getInstance();
@@ -10,7 +10,8 @@
  */
 
 import BN from "bn.js";
-import { LAMPORTS_PER_SOL } from "./types.js";
+import { LAMPORTS_PER_SOL, type BotConfig } from "./types.js";
+import { systemClock, type Clock } from "./clock.js";
 import { logger } from "../middleware/logger.js";
 
 const log = logger.child({ module: "circuit-breaker" });
@@ -46,6 +47,24 @@ const DEFAULT_CONFIG: CircuitBreakerConfig = {
   maxApiCallsPerMinute: 60,
 };
 
+/**
+ * A bot's limits — unset fields take the defaults above, except total
+ * exposure, which defaults to the single-position cap × max positions.
+ */
+export function circuitBreakerConfigFor(bot: BotConfig): CircuitBreakerConfig {
+  const maxSinglePositionSOL = bot.maxPositionSOL ?? DEFAULT_CONFIG.maxSinglePositionSOL;
+  return {
+    maxPositionCount: bot.maxConcurrentPositions,
+    maxPositionsPerPool: bot.maxPositionsPerPool ?? DEFAULT_CONFIG.maxPositionsPerPool,
+    maxSinglePositionSOL,
+    maxTotalExposureSOL:
+      bot.maxTotalExposureSOL ?? maxSinglePositionSOL * bot.maxConcurrentPositions,
+    maxTxPerMinute: bot.maxTxPerMinute ?? DEFAULT_CONFIG.maxTxPerMinute,
+    minTimeBetweenTradesMs: bot.minTimeBetweenTradesMs ?? DEFAULT_CONFIG.minTimeBetweenTradesMs,
+    maxApiCallsPerMinute: bot.maxApiCallsPerMinute ?? DEFAULT_CONFIG.maxApiCallsPerMinute,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // State
 // ═══════════════════════════════════════════════════════════════
@@ -67,9 +86,15 @@ export class CircuitBreaker {
   private config: CircuitBreakerConfig;
   private state: CircuitBreakerState;
   private label: string;
+  private clock: Clock;
 
-  constructor(label: string, config?: Partial<CircuitBreakerConfig>) {
+  constructor(
+    label: string,
+    config?: Partial<CircuitBreakerConfig>,
+    clock: Clock = systemClock
+  ) {
     this.label = label;
+    this.clock = clock;
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.state = {
       totalPositionCount: 0,
@@ -148,7 +173,7 @@ export class CircuitBreaker {
     }
 
     // 6. Trade cooldown
-    const timeSinceLastTrade = Date.now() - this.state.lastTradeTime;
+    const timeSinceLastTrade = this.clock.now() - this.state.lastTradeTime;
     if (timeSinceLastTrade < this.config.minTimeBetweenTradesMs) {
       const waitSec = ((this.config.minTimeBetweenTradesMs - timeSinceLastTrade) / 1000).toFixed(1);
       return {
@@ -160,6 +185,14 @@ export class CircuitBreaker {
     return { allowed: true };
   }
 
+  /**
+   * Milliseconds until the trade cooldown (check 6) allows the next trade.
+   */
+  msUntilNextTrade(): number {
+    const timeSinceLastTrade = this.clock.now() - this.state.lastTradeTime;
+    return Math.max(0, this.config.minTimeBetweenTradesMs - timeSinceLastTrade);
+  }
+
   /**
    * Check if an API call should be allowed (rate limiting).
    */
@@ -178,8 +211,8 @@ export class CircuitBreaker {
     const poolCount = this.state.positionsByPool.get(poolAddress) ?? 0;
     this.state.positionsByPool.set(poolAddress, poolCount + 1);
     this.state.currentExposureLamports = this.state.currentExposureLamports.add(amountLamports);
-    this.state.lastTradeTime = Date.now();
-    this.state.recentTxTimestamps.push(Date.now());
+    this.state.lastTradeTime = this.clock.now();
+    this.state.recentTxTimestamps.push(this.clock.now());
 
     log.debug(
       {
@@ -211,8 +244,8 @@ export class CircuitBreaker {
       this.state.currentExposureLamports = new BN(0);
     }
 
-    this.state.lastTradeTime = Date.now();
-    this.state.recentTxTimestamps.push(Date.now());
+    this.state.lastTradeTime = this.clock.now();
+    this.state.recentTxTimestamps.push(this.clock.now());
 
     log.debug(
       {
@@ -229,7 +262,7 @@ export class CircuitBreaker {
    * Record an API call (for rate limiting tracking).
    */
   recordApiCall(): void {
-    this.state.recentApiTimestamps.push(Date.now());
+    this.state.recentApiTimestamps.push(this.clock.now());
   }
 
   // ── State Sync ──
@@ -266,6 +299,34 @@ export class CircuitBreaker {
 
   // ── Query ──
 
+  getConfig(): CircuitBreakerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Full state in a JSON-friendly form (pool map as an object, SOL not lamports).
+   */
+  getState(): {
+    totalPositionCount: number;
+    positionsByPool: Record<string, number>;
+    currentExposureSOL: number;
+    lastTradeTime: number | null;
+    msUntilNextTrade: number;
+    txTimestampsLastMinute: number[];
+    apiCallsLastMinute: number;
+  } {
+    this.pruneOldTimestamps();
+    return {
+      totalPositionCount: this.state.totalPositionCount,
+      positionsByPool: Object.fromEntries(this.state.positionsByPool),
+      currentExposureSOL: this.state.currentExposureLamports.toNumber() / LAMPORTS_PER_SOL,
+      lastTradeTime: this.state.lastTradeTime > 0 ? this.state.lastTradeTime : null,
+      msUntilNextTrade: this.msUntilNextTrade(),
+      txTimestampsLastMinute: [...this.state.recentTxTimestamps],
+      apiCallsLastMinute: this.state.recentApiTimestamps.length,
+    };
+  }
+
   getSummary(): {
     totalPositions: number;
     uniquePools: number;
@@ -282,7 +343,7 @@ export class CircuitBreaker {
       txRateLastMinute: this.state.recentTxTimestamps.length,
       apiRateLastMinute: this.state.recentApiTimestamps.length,
       lastTradeSecondsAgo: this.state.lastTradeTime > 0
-        ? (Date.now() - this.state.lastTradeTime) / 1000
+        ? (this.clock.now() - this.state.lastTradeTime) / 1000
         : -1,
     };
   }
@@ -293,7 +354,7 @@ export class CircuitBreaker {
    * Remove timestamps older than 1 minute from rolling windows.
    */
   private pruneOldTimestamps(): void {
-    const oneMinuteAgo = Date.now() - 60 * 1000;
+    const oneMinuteAgo = this.clock.now() - 60 * 1000;
     this.state.recentTxTimestamps = this.state.recentTxTimestamps.filter(
       (t) => t > oneMinuteAgo
     );
@@ -0,0 +1,42 @@
+/**
+ * Clock — Injectable time source for the trading engine.
+ *
+ * Live and simulation bots use `systemClock` (wall time + real timers).
+ * The backtester uses a `VirtualClock` that only moves when the replay
+ * advances it, so hold times, cooldowns and rate windows are measured in
+ * snapshot time instead of wall time.
+ */
+
+export interface Clock {
+  /** Current time in epoch milliseconds */
+  now(): number;
+  /** Wait for `ms` milliseconds of clock time */
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export class VirtualClock implements Clock {
+  private current: number;
+
+  constructor(startMs: number) {
+    this.current = startMs;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  /** Virtual sleeps advance time instantly — no real waiting */
+  async sleep(ms: number): Promise<void> {
+    this.current += ms;
+  }
+
+  /** Jump to an absolute time (never moves backwards) */
+  set(ms: number): void {
+    if (ms > this.current) this.current = ms;
+  }
+}
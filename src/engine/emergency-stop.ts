@@ -11,6 +11,8 @@
  */
 
 import { logger } from "../middleware/logger.js";
+import { systemClock, type Clock } from "./clock.js";
+import type { BotConfig } from "./types.js";
 
 const log = logger.child({ module: "emergency-stop" });
 
@@ -42,10 +44,38 @@ const DEFAULT_CONFIG: EmergencyStopConfig = {
   killSwitchActive: false,
 };
 
+export type EmergencyStopThresholds = Omit<EmergencyStopConfig, "killSwitchActive">;
+
+/**
+ * A bot's thresholds — unset fields take the defaults above, except the
+ * total loss limit, which defaults to 3× the daily one.
+ */
+export function emergencyStopConfigFor(bot: BotConfig): EmergencyStopThresholds {
+  const maxDailyLossSOL = bot.maxDailyLossSOL ?? DEFAULT_CONFIG.maxDailyLossSOL;
+  return {
+    maxDailyLossSOL,
+    maxTotalLossSOL: bot.maxTotalLossSOL ?? maxDailyLossSOL * 3,
+    maxConsecutiveLosses: bot.maxConsecutiveLosses ?? DEFAULT_CONFIG.maxConsecutiveLosses,
+    maxTxFailuresPerHour: bot.maxTxFailuresPerHour ?? DEFAULT_CONFIG.maxTxFailuresPerHour,
+    maxApiErrorsPerHour: bot.maxApiErrorsPerHour ?? DEFAULT_CONFIG.maxApiErrorsPerHour,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // State
 // ═══════════════════════════════════════════════════════════════
 
+/** Triggers kept in state — oldest dropped first */
+const MAX_TRIGGER_HISTORY = 20;
+
+export interface EmergencyTriggerRecord {
+  reason: string;
+  triggeredAt: number;
+  /** When it was cleared via reset, and the user's acknowledgement */
+  resetAt: number | null;
+  acknowledgement: string | null;
+}
+
 export interface EmergencyStopState {
   isTriggered: boolean;
   triggerReason: string | null;
@@ -63,9 +93,10 @@ export interface EmergencyStopState {
 
   // Counters
   totalTriggers: number;
+  triggerHistory: EmergencyTriggerRecord[];
 }
 
-function createInitialState(): EmergencyStopState {
+function createInitialState(now: number = Date.now()): EmergencyStopState {
   return {
     isTriggered: false,
     triggerReason: null,
@@ -73,10 +104,11 @@ function createInitialState(): EmergencyStopState {
     dailyPnlSOL: 0,
     totalPnlSOL: 0,
     consecutiveLosses: 0,
-    dailyResetDate: new Date().toISOString().slice(0, 10),
+    dailyResetDate: new Date(now).toISOString().slice(0, 10),
     txFailures: [],
     apiErrors: [],
     totalTriggers: 0,
+    triggerHistory: [],
   };
 }
 
@@ -91,15 +123,18 @@ export class EmergencyStop {
   private state: EmergencyStopState;
   private callbacks: EmergencyCallback[] = [];
   private label: string;
+  private clock: Clock;
 
   constructor(
     label: string,
     config?: Partial<EmergencyStopConfig>,
-    savedState?: EmergencyStopState
+    savedState?: EmergencyStopState,
+    clock: Clock = systemClock
   ) {
     this.label = label;
+    this.clock = clock;
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.state = savedState ?? createInitialState();
+    this.state = savedState ?? createInitialState(clock.now());
 
     log.info(
       {
@@ -212,7 +247,7 @@ export class EmergencyStop {
    * Record a transaction failure (send/confirm failed).
    */
   recordTxFailure(): void {
-    this.state.txFailures.push(Date.now());
+    this.state.txFailures.push(this.clock.now());
     log.debug(
       {
         label: this.label,
@@ -226,7 +261,7 @@ export class EmergencyStop {
    * Record an API error (market data fetch, DLMM call, etc.).
    */
   recordApiError(): void {
-    this.state.apiErrors.push(Date.now());
+    this.state.apiErrors.push(this.clock.now());
     log.debug(
       {
         label: this.label,
@@ -261,7 +296,8 @@ export class EmergencyStop {
    * Reset the emergency stop (clears trigger, NOT accumulated loss stats).
    * Use after investigating and resolving the issue.
    */
-  reset(): void {
+  reset(acknowledgement?: string): void {
+    this.markTriggerReset(acknowledgement);
     this.state.isTriggered = false;
     this.state.triggerReason = null;
     this.state.triggerTimestamp = null;
@@ -274,9 +310,15 @@ export class EmergencyStop {
 
   /**
    * Full reset including all counters (use with caution — only for new trading session).
+   * Trigger history and the trigger count are kept.
    */
-  fullReset(): void {
-    this.state = createInitialState();
+  fullReset(acknowledgement?: string): void {
+    this.markTriggerReset(acknowledgement);
+    this.state = {
+      ...createInitialState(this.clock.now()),
+      totalTriggers: this.state.totalTriggers,
+      triggerHistory: this.state.triggerHistory,
+    };
     log.warn({ label: this.label }, "Emergency stop FULL RESET (all counters cleared)");
   }
 
@@ -300,8 +342,12 @@ export class EmergencyStop {
     return this.state.triggerReason;
   }
 
+  get killSwitchActive(): boolean {
+    return this.config.killSwitchActive;
+  }
+
   getState(): EmergencyStopState {
-    return { ...this.state };
+    return EmergencyStop.currentState(this.state, this.clock.now());
   }
 
   getConfig(): EmergencyStopConfig {
@@ -355,12 +401,35 @@ export class EmergencyStop {
         typeof parsed.totalPnlSOL !== "number") {
         return null;
       }
+      // State saved before trigger history existed
+      parsed.triggerHistory ??= [];
       return parsed as EmergencyStopState;
     } catch {
       return null;
     }
   }
 
+  /**
+   * A copy of the state as canTrade() would see it at `now` — failures
+   * older than an hour dropped, daily counters rolled to the current UTC
+   * day. Lets a stopped bot's persisted state be shown without building
+   * an EmergencyStop.
+   */
+  static currentState(state: EmergencyStopState, now: number = Date.now()): EmergencyStopState {
+    const oneHourAgo = now - 60 * 60 * 1000;
+    const today = new Date(now).toISOString().slice(0, 10);
+    const rolled = state.dailyResetDate !== today;
+    return {
+      ...state,
+      dailyPnlSOL: rolled ? 0 : state.dailyPnlSOL,
+      consecutiveLosses: rolled ? 0 : state.consecutiveLosses,
+      dailyResetDate: today,
+      txFailures: state.txFailures.filter((t) => t > oneHourAgo),
+      apiErrors: state.apiErrors.filter((t) => t > oneHourAgo),
+      triggerHistory: state.triggerHistory.map((t) => ({ ...t })),
+    };
+  }
+
   // ── Private ──
 
   private trigger(reason: string): void {
@@ -368,8 +437,17 @@ export class EmergencyStop {
 
     this.state.isTriggered = true;
     this.state.triggerReason = reason;
-    this.state.triggerTimestamp = Date.now();
+    this.state.triggerTimestamp = this.clock.now();
     this.state.totalTriggers++;
+    this.state.triggerHistory.push({
+      reason,
+      triggeredAt: this.state.triggerTimestamp,
+      resetAt: null,
+      acknowledgement: null,
+    });
+    if (this.state.triggerHistory.length > MAX_TRIGGER_HISTORY) {
+      this.state.triggerHistory.splice(0, this.state.triggerHistory.length - MAX_TRIGGER_HISTORY);
+    }
 
     log.error(
       {
@@ -397,11 +475,22 @@ export class EmergencyStop {
     }
   }
 
+  /**
+   * Close the open trigger record, if any, with the reset time.
+   */
+  private markTriggerReset(acknowledgement?: string): void {
+    const last = this.state.triggerHistory[this.state.triggerHistory.length - 1];
+    if (this.state.isTriggered && last && last.resetAt === null) {
+      last.resetAt = this.clock.now();
+      last.acknowledgement = acknowledgement ?? null;
+    }
+  }
+
   /**
    * Remove failure timestamps older than 1 hour from rolling windows.
    */
   private pruneOldFailures(): void {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
+    const oneHourAgo = this.clock.now() - 60 * 60 * 1000;
     this.state.txFailures = this.state.txFailures.filter((t) => t > oneHourAgo);
     this.state.apiErrors = this.state.apiErrors.filter((t) => t > oneHourAgo);
   }
@@ -410,7 +499,7 @@ export class EmergencyStop {
    * Reset daily counters at midnight UTC.
    */
   private checkDailyReset(): void {
-    const today = new Date().toISOString().slice(0, 10);
+    const today = new Date(this.clock.now()).toISOString().slice(0, 10);
     if (this.state.dailyResetDate !== today) {
       log.info(
         {
@@ -2,15 +2,16 @@
  * EventBus — Typed event emitter for bot lifecycle events.
  *
  * Uses eventemitter3 for high-performance event emission.
- * The BotOrchestrator publishes events here; the WebSocket layer
- * (S3) will subscribe and push events to connected clients.
+ * The BotOrchestrator publishes events here (after persisting them via
+ * EventJournal, which assigns `seq`); the SSE and WebSocket routes
+ * subscribe and push events to connected clients.
  *
  * Uses composition (not inheritance) because eventemitter3's CJS
  * exports don't play nicely with ESM class extension under NodeNext.
  */
 
 import { EventEmitter } from "eventemitter3";
-import type { BotEvent, BotEventType } from "./types.js";
+import { BOT_EVENT_TYPES, type BotEvent, type BotEventType } from "./types.js";
 
 // ═══════════════════════════════════════════════════════════════
 // EventBus Singleton
@@ -34,7 +35,8 @@ class EventBus {
     type: BotEventType,
     botId: string,
     userId: number,
-    data: Record<string, unknown> = {}
+    data: Record<string, unknown> = {},
+    seq?: number
   ): void {
     const event: BotEvent = {
       type,
@@ -42,6 +44,7 @@ class EventBus {
       userId,
       timestamp: Date.now(),
       data,
+      ...(seq !== undefined ? { seq } : {}),
     };
     this.emitter.emit(type, event);
   }
@@ -68,16 +71,7 @@ class EventBus {
     userId: number,
     handler: (event: BotEvent) => void
   ): () => void {
-    const eventTypes: BotEventType[] = [
-      "position:opened",
-      "position:closed",
-      "position:updated",
-      "scan:completed",
-      "engine:started",
-      "engine:stopped",
-      "engine:error",
-      "stats:updated",
-    ];
+    const eventTypes = BOT_EVENT_TYPES;
 
     const wrapper = (event: BotEvent) => {
       if (event.userId === userId) {
@@ -104,16 +98,7 @@ class EventBus {
     botId: string,
     handler: (event: BotEvent) => void
   ): () => void {
-    const eventTypes: BotEventType[] = [
-      "position:opened",
-      "position:closed",
-      "position:updated",
-      "scan:completed",
-      "engine:started",
-      "engine:stopped",
-      "engine:error",
-      "stats:updated",
-    ];
+    const eventTypes = BOT_EVENT_TYPES;
 
     const wrapper = (event: BotEvent) => {
       if (event.botId === botId) {
@@ -0,0 +1,175 @@
+/**
+ * EventJournal — persists bot events to trade_log so clients can resume.
+ *
+ * The orchestrator writes every event it publishes as one trade_log row
+ * (stream_type = the BotEventType) before emitting it on the EventBus.
+ * The row id becomes the event's `seq`, so sequence numbers are strictly
+ * increasing per user and survive restarts. Inserts are serialized, which
+ * keeps emit order identical to seq order.
+ *
+ * Rows without stream_type (user actions logged by routes) are not part
+ * of the stream and are never replayed.
+ */
+
+import { and, asc, desc, eq, gt, inArray, isNotNull } from "drizzle-orm";
+import db from "../db/index.js";
+import { tradeLog } from "../db/schema.js";
+import { logger } from "../middleware/logger.js";
+import type { BotEvent, BotEventType } from "./types.js";
+
+const log = logger.child({ module: "event-journal" });
+
+type TradeLogEvent = (typeof tradeLog.$inferInsert)["event"];
+
+const TRADE_LOG_EVENT: Record<BotEventType, TradeLogEvent> = {
+  "position:opened": "position_opened",
+  "position:closed": "position_closed",
+  "position:updated": "position_updated",
+  "position:adopted": "position_adopted",
+  "scan:completed": "scan_completed",
+  "engine:started": "bot_started",
+  "engine:stopped": "bot_stopped",
+  "engine:error": "bot_error",
+  "stats:updated": "stats_updated",
+  "reconcile:closed": "position_reconciled",
+  "reconcile:reattached": "position_reconciled",
+  "reconcile:orphaned": "position_reconciled",
+  "reconcile:missing": "position_reconciled",
+};
+
+export interface ReplayFilter {
+  botIds?: string[];
+  types?: BotEventType[];
+}
+
+export interface ReplayResult {
+  events: BotEvent[];
+  /** More events than `limit` were missed — client should refetch state */
+  truncated: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EventJournal Singleton
+// ═══════════════════════════════════════════════════════════════
+
+class EventJournal {
+  private static instance: EventJournal | null = null;
+  /** Tail of the insert chain — keeps seq order == emit order */
+  private tail: Promise<unknown> = Promise.resolve();
+
+  static getInstance(): EventJournal {
+    if (!EventJournal.instance) {
+      EventJournal.instance = new EventJournal();
+    }
+    return EventJournal.instance;
+  }
+
+  /**
+   * Persist an event and return its seq.
+   * Never throws — returns undefined if the insert failed so the live
+   * event can still be delivered.
+   */
+  record(
+    type: BotEventType,
+    botId: string,
+    userId: number,
+    data: Record<string, unknown>
+  ): Promise<number | undefined> {
+    const insert = async (): Promise<number | undefined> => {
+      const [row] = await db
+        .insert(tradeLog)
+        .values({
+          botId,
+          userId,
+          positionId: typeof data.positionId === "string" ? data.positionId : null,
+          event: TRADE_LOG_EVENT[type],
+          details: JSON.stringify(data),
+          streamType: type,
+        })
+        .returning({ id: tradeLog.id });
+      return row?.id;
+    };
+
+    const result = this.tail.then(insert, insert);
+    this.tail = result.catch(() => undefined);
+
+    return result.catch((err) => {
+      log.error(
+        { botId, type, err: err instanceof Error ? err.message : String(err) },
+        "Failed to journal event"
+      );
+      return undefined;
+    });
+  }
+
+  /**
+   * Events for a user with seq > afterSeq, oldest first.
+   */
+  async replay(
+    userId: number,
+    afterSeq: number,
+    filter: ReplayFilter,
+    limit: number
+  ): Promise<ReplayResult> {
+    const conditions = [
+      eq(tradeLog.userId, userId),
+      gt(tradeLog.id, afterSeq),
+      isNotNull(tradeLog.streamType),
+    ];
+    if (filter.botIds?.length) {
+      conditions.push(inArray(tradeLog.botId, filter.botIds));
+    }
+    if (filter.types?.length) {
+      conditions.push(inArray(tradeLog.streamType, filter.types));
+    }
+
+    const rows = await db
+      .select()
+      .from(tradeLog)
+      .where(and(...conditions))
+      .orderBy(asc(tradeLog.id))
+      .limit(limit + 1);
+
+    const truncated = rows.length > limit;
+    const events = rows.slice(0, limit).map((row): BotEvent => ({
+      type: row.streamType as BotEventType,
+      botId: row.botId,
+      userId: row.userId,
+      timestamp: row.timestamp.getTime(),
+      data: parseDetails(row.details),
+      seq: row.id,
+    }));
+
+    return { events, truncated };
+  }
+
+  /** Highest seq journaled for a user (0 if none). */
+  async latestSeq(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ id: tradeLog.id })
+      .from(tradeLog)
+      .where(and(eq(tradeLog.userId, userId), isNotNull(tradeLog.streamType)))
+      .orderBy(desc(tradeLog.id))
+      .limit(1);
+    return row?.id ?? 0;
+  }
+
+  /**
+   * Reset the singleton (for testing).
+   */
+  static reset(): void {
+    EventJournal.instance = null;
+  }
+}
+
+function parseDetails(details: string | null): Record<string, unknown> {
+  if (!details) return {};
+  try {
+    return JSON.parse(details) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+export { EventJournal };
+export const eventJournal = EventJournal.getInstance();
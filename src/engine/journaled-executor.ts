@@ -0,0 +1,155 @@
+/**
+ * JournaledExecutor — wraps a bot's executor so every open / close /
+ * rebalance runs as a durable position job (see position-jobs.ts).
+ *
+ * The engine is unaware of it: the orchestrator hands the engine this
+ * wrapper instead of the raw Simulation / Seal executor. Reads pass
+ * straight through. An open job is only enqueued once the portfolio risk
+ * gate reserves room for it (portfolio-risk.ts reserveEntry).
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type BN from "bn.js";
+import type {
+  BotConfig,
+  ClosePositionResult,
+  IMarketDataProvider,
+  ITradingExecutor,
+  OpenPositionOptions,
+  OpenPositionResult,
+  StrategyParameters,
+  TrackedPosition,
+} from "./types.js";
+import { portfolioRisk } from "./portfolio-risk.js";
+import { positionJobs, type PositionJob } from "./position-jobs.js";
+
+export interface JournalOwner {
+  botId: string;
+  userId: number;
+  mode: PositionJob["mode"];
+}
+
+export class JournaledExecutor implements ITradingExecutor {
+  constructor(
+    private inner: ITradingExecutor,
+    private owner: JournalOwner,
+    private config: BotConfig,
+    private marketData: IMarketDataProvider
+  ) {}
+
+  async openPosition(
+    poolAddress: string,
+    strategy: StrategyParameters,
+    amountX: BN,
+    amountY: BN,
+    options?: OpenPositionOptions
+  ): Promise<OpenPositionResult> {
+    const pool = await this.marketData.getPoolData(poolAddress).catch(() => null);
+    const rebalanceId = options?.rebalanceId;
+
+    const reservation = await portfolioRisk.reserveEntry(
+      this.owner.userId,
+      this.owner.mode,
+      { poolAddress, tokenXMint: pool?.mint_x ?? "unknown", amountLamports: amountX.add(amountY) },
+      (tx) =>
+        positionJobs.enqueue(
+          {
+            ...this.owner,
+            // A rebalance re-enters at most once; plain entries are unique per attempt
+            idempotencyKey: rebalanceId
+              ? `rebalance-open:${rebalanceId}`
+              : `open:${this.owner.botId}:${uuidv4()}`,
+            kind: "open",
+            poolAddress,
+            params: {
+              poolName: pool?.name,
+              tokenXMint: pool?.mint_x,
+              tokenYMint: pool?.mint_y,
+              binStep: pool?.bin_step,
+              amountXLamports: amountX.toString(),
+              amountYLamports: amountY.toString(),
+              minBinId: strategy.minBinId,
+              maxBinId: strategy.maxBinId,
+              rebalanceId,
+              profitTargetPercent: this.config.profitTargetPercent,
+              stopLossPercent: this.config.stopLossPercent,
+              maxHoldTimeMinutes: this.config.maxHoldTimeMinutes,
+            },
+          },
+          tx
+        )
+    );
+    if (!reservation.allowed) {
+      return { success: false, error: reservation.reason };
+    }
+
+    const job = reservation.value;
+    if (!job) {
+      return { success: false, error: `Rebalance ${rebalanceId} was already re-entered` };
+    }
+
+    const result = await positionJobs.run(job, () =>
+      this.inner.openPosition(poolAddress, strategy, amountX, amountY, options)
+    );
+    await positionJobs.complete(job, {
+      success: result.success,
+      positionId: result.positionId,
+      error: result.error,
+    });
+    return result;
+  }
+
+  async closePosition(
+    positionId: string,
+    reason: string
+  ): Promise<ClosePositionResult> {
+    const position = this.inner.getActivePositions().find((p) => p.id === positionId);
+
+    const job = await positionJobs.enqueue({
+      ...this.owner,
+      // One close per position, whoever asks — engine exit, user, emergency
+      idempotencyKey: `close:${positionId}`,
+      kind: position?.rebalanceId ? "rebalance" : "close",
+      poolAddress: position?.poolAddress ?? "",
+      positionId,
+      onChainPositionKey: position?.positionPubkey?.toBase58(),
+      params: { reason, rebalanceId: position?.rebalanceId },
+    });
+    if (!job) {
+      return { success: false, error: `Position ${positionId} is already being closed` };
+    }
+
+    const result = await positionJobs.run(job, () =>
+      this.inner.closePosition(positionId, reason)
+    );
+    await positionJobs.complete(job, { success: result.success, error: result.error });
+    return result;
+  }
+
+  updatePositionData(positionId: string): Promise<TrackedPosition | null> {
+    return this.inner.updatePositionData(positionId);
+  }
+
+  attachPosition(position: TrackedPosition): Promise<TrackedPosition | null> {
+    return this.inner.attachPosition?.(position) ?? Promise.resolve(null);
+  }
+
+  getActivePositions(): TrackedPosition[] {
+    return this.inner.getActivePositions();
+  }
+
+  /** Closed + active, where the wrapped executor keeps history (simulation). */
+  getAllPositions(): TrackedPosition[] {
+    return (
+      this.inner as unknown as { getAllPositions?: () => TrackedPosition[] }
+    ).getAllPositions?.() ?? [];
+  }
+
+  getBalance(): Promise<BN> {
+    return this.inner.getBalance();
+  }
+
+  getPerformanceSummary() {
+    return this.inner.getPerformanceSummary();
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * PlatformKillSwitch — operator-wide halt of new entries.
+ *
+ * During an incident (RPC outage, Meteora API returning garbage, exploit
+ * news) an admin flips one switch and every bot on every replica stops
+ * entering positions. Bots keep running, so open positions are still
+ * monitored and exited; activation can optionally close them all.
+ *
+ * The switch is a single `platform_kill_switch` row, so it survives
+ * restarts. Each instance caches it and re-reads it on every lease
+ * heartbeat; the orchestrator pushes it into each bot's EmergencyStop
+ * kill switch (see BotOrchestrator.applyKillSwitch).
+ */
+
+import { eq } from "drizzle-orm";
+import db from "../db/index.js";
+import { platformKillSwitch } from "../db/schema.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "kill-switch" });
+
+/** The switch's only row */
+const ROW_ID = 1;
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export interface KillSwitchState {
+  active: boolean;
+  reason: string | null;
+  closePositions: boolean;
+  updatedBy: string | null;
+  activatedAt: Date | null;
+  updatedAt: Date | null;
+}
+
+const INACTIVE: KillSwitchState = {
+  active: false,
+  reason: null,
+  closePositions: false,
+  updatedBy: null,
+  activatedAt: null,
+  updatedAt: null,
+};
+
+// ═══════════════════════════════════════════════════════════════
+// PlatformKillSwitch Singleton
+// ═══════════════════════════════════════════════════════════════
+
+export class PlatformKillSwitch {
+  private static instance: PlatformKillSwitch | null = null;
+
+  private cached: KillSwitchState = { ...INACTIVE };
+
+  private constructor() {}
+
+  static getInstance(): PlatformKillSwitch {
+    if (!PlatformKillSwitch.instance) {
+      PlatformKillSwitch.instance = new PlatformKillSwitch();
+    }
+    return PlatformKillSwitch.instance;
+  }
+
+  /** Last state read or written by this instance. */
+  get state(): KillSwitchState {
+    return { ...this.cached };
+  }
+
+  get isActive(): boolean {
+    return this.cached.active;
+  }
+
+  /**
+   * Re-read the switch from the DB. On failure the cached state is kept —
+   * a DB blip must not silently lift an active switch.
+   */
+  async load(): Promise<KillSwitchState> {
+    try {
+      const [row] = await db
+        .select()
+        .from(platformKillSwitch)
+        .where(eq(platformKillSwitch.id, ROW_ID));
+      this.cached = row ? toState(row) : { ...INACTIVE };
+    } catch (err) {
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Failed to load kill switch — keeping cached state"
+      );
+    }
+    return this.state;
+  }
+
+  async activate(params: {
+    reason: string;
+    closePositions: boolean;
+    by: string;
+  }): Promise<KillSwitchState> {
+    const now = new Date();
+    const values = {
+      active: true,
+      reason: params.reason,
+      closePositions: params.closePositions,
+      updatedBy: params.by,
+      activatedAt: now,
+      updatedAt: now,
+    };
+    const [row] = await db
+      .insert(platformKillSwitch)
+      .values({ id: ROW_ID, ...values })
+      .onConflictDoUpdate({ target: platformKillSwitch.id, set: values })
+      .returning();
+
+    this.cached = toState(row!);
+    log.warn(
+      { by: params.by, reason: params.reason, closePositions: params.closePositions },
+      "🚨 PLATFORM KILL SWITCH ACTIVATED"
+    );
+    return this.state;
+  }
+
+  async deactivate(by: string): Promise<KillSwitchState> {
+    const values = {
+      active: false,
+      closePositions: false,
+      updatedBy: by,
+      updatedAt: new Date(),
+    };
+    const [row] = await db
+      .insert(platformKillSwitch)
+      .values({ id: ROW_ID, ...values })
+      .onConflictDoUpdate({ target: platformKillSwitch.id, set: values })
+      .returning();
+
+    this.cached = toState(row!);
+    log.warn({ by }, "Platform kill switch deactivated");
+    return this.state;
+  }
+
+  /**
+   * Reset the singleton (for testing).
+   */
+  static reset(): void {
+    PlatformKillSwitch.instance = null;
+  }
+}
+
+function toState(row: typeof platformKillSwitch.$inferSelect): KillSwitchState {
+  return {
+    active: row.active,
+    reason: row.reason,
+    closePositions: row.closePositions,
+    updatedBy: row.updatedBy,
+    activatedAt: row.activatedAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export const killSwitch = PlatformKillSwitch.getInstance();
@@ -0,0 +1,325 @@
+/**
+ * LiquidityModel — DLMM bin liquidity + fee model for SimulationExecutor.
+ *
+ * Mirrors how a Meteora DLMM position behaves on-chain closely enough for
+ * paper results to be comparable with LiveExecutor:
+ *
+ *  - Deposits are spread across [minBinId, maxBinId] with the Spot / Curve /
+ *    BidAsk shape. Token Y sits in bins at or below the active bin, token X
+ *    at or above it (one-sided SOL deposits only fill the lower side).
+ *  - Each bin converts at its own fixed price as the active bin crosses it,
+ *    so a bin's value measured at its own price (V_i) never changes. Bins
+ *    above the active bin hold X worth V_i · P / p_i at the current price P;
+ *    bins at or below hold Y worth V_i. This gives DLMM impermanent loss.
+ *  - Fees accrue only while the active bin is inside the range, pro rata to
+ *    our liquidity: value × (pool fees / pool TVL) over the elapsed time,
+ *    using the pool's observed fees.min_30 (falls back to fees.hour_1).
+ *
+ * Units: all values are in lamports of token Y (SOL). Token X deposits are
+ * passed in as their lamport value at entry, matching how the engine sizes
+ * positions. Prices are Y per X.
+ */
+
+import BN from "bn.js";
+import type {
+  MeteoraPairData,
+  PositionBinData,
+  PositionData,
+  StrategyParameters,
+} from "./types.js";
+import { StrategyType } from "./types.js";
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export interface SimBin {
+  binId: number;
+  /** Price of this bin (Y per X) */
+  price: number;
+  /** Value of the bin's liquidity measured at its own price (lamports) */
+  valueAtBinPrice: number;
+}
+
+export interface SimLiquidity {
+  bins: SimBin[];
+  minBinId: number;
+  maxBinId: number;
+  binStep: number;
+  /** Accrued fees (lamports) */
+  feesLamports: number;
+  /** Last time fees were accrued (epoch ms) */
+  lastAccrualAt: number;
+  /** When the active bin left the range (epoch ms), null while in range */
+  outOfRangeSince: number | null;
+}
+
+export interface LiquidityValuation {
+  /** Mark-to-market value excluding fees (lamports) */
+  valueLamports: number;
+  /** Token X held, expressed in Y-lamport base units at bin prices */
+  xAmount: number;
+  /** Token Y held (lamports) */
+  yAmount: number;
+  inRange: boolean;
+  /** Bins strictly below / above the active bin */
+  binsBelow: number;
+  binsAbove: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Distribution
+// ═══════════════════════════════════════════════════════════════
+
+/** Price of `binId` given a reference bin and its price. */
+export function binPrice(
+  binId: number,
+  refBinId: number,
+  refPrice: number,
+  binStep: number
+): number {
+  return refPrice * Math.pow(1 + binStep / 10_000, binId - refBinId);
+}
+
+/**
+ * Relative weight of a bin `distance` bins away from the active bin,
+ * on a side with `sideWidth` bins.
+ */
+function shapeWeight(
+  strategyType: StrategyType,
+  distance: number,
+  sideWidth: number
+): number {
+  switch (strategyType) {
+    case StrategyType.Curve: {
+      // Bell curve concentrated on the active bin
+      const sigma = Math.max(1, sideWidth / 2);
+      return Math.exp(-(distance * distance) / (2 * sigma * sigma));
+    }
+    case StrategyType.BidAsk:
+      // Inverse curve — more liquidity further from the active bin
+      return distance + 1;
+    case StrategyType.Spot:
+    default:
+      return 1;
+  }
+}
+
+function spread(
+  binIds: number[],
+  activeBinId: number,
+  totalLamports: number,
+  strategyType: StrategyType
+): Map<number, number> {
+  const out = new Map<number, number>();
+  if (binIds.length === 0 || totalLamports <= 0) return out;
+
+  const sideWidth = binIds.length - 1;
+  const weights = binIds.map((id) =>
+    shapeWeight(strategyType, Math.abs(id - activeBinId), sideWidth)
+  );
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+  binIds.forEach((id, i) => {
+    out.set(id, (totalLamports * weights[i]) / totalWeight);
+  });
+  return out;
+}
+
+/**
+ * Build the simulated bin layout for a new position.
+ * Throws if a token has been deposited but the range has no bins for it.
+ */
+export function distributeLiquidity(input: {
+  strategy: StrategyParameters;
+  activeBinId: number;
+  activePrice: number;
+  binStep: number;
+  amountXLamports: number;
+  amountYLamports: number;
+  timestamp: number;
+}): SimLiquidity {
+  const { strategy, activeBinId, activePrice, binStep } = input;
+  const minBinId = Math.min(strategy.minBinId, strategy.maxBinId);
+  const maxBinId = Math.max(strategy.minBinId, strategy.maxBinId);
+
+  const ySide: number[] = [];
+  const xSide: number[] = [];
+  for (let id = minBinId; id <= maxBinId; id++) {
+    if (id <= activeBinId) ySide.push(id);
+    if (id >= activeBinId) xSide.push(id);
+  }
+
+  if (input.amountYLamports > 0 && ySide.length === 0) {
+    throw new Error("Bin range is entirely above the active bin — cannot deposit token Y");
+  }
+  if (input.amountXLamports > 0 && xSide.length === 0) {
+    throw new Error("Bin range is entirely below the active bin — cannot deposit token X");
+  }
+
+  const yValues = spread(ySide, activeBinId, input.amountYLamports, strategy.strategyType);
+  const xValues = spread(xSide, activeBinId, input.amountXLamports, strategy.strategyType);
+
+  const bins: SimBin[] = [];
+  for (let id = minBinId; id <= maxBinId; id++) {
+    const price = binPrice(id, activeBinId, activePrice, binStep);
+    const y = yValues.get(id) ?? 0;
+    // X is bought at the active price, then valued at the bin's own price
+    const xValueAtEntry = xValues.get(id) ?? 0;
+    const x = xValueAtEntry > 0 ? (xValueAtEntry / activePrice) * price : 0;
+    if (y + x > 0) {
+      bins.push({ binId: id, price, valueAtBinPrice: y + x });
+    }
+  }
+
+  return {
+    bins,
+    minBinId,
+    maxBinId,
+    binStep,
+    feesLamports: 0,
+    lastAccrualAt: input.timestamp,
+    outOfRangeSince: null,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Valuation
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Mark a position to market at the current active bin and price.
+ */
+export function valueLiquidity(
+  liquidity: SimLiquidity,
+  activeBinId: number,
+  activePrice: number
+): LiquidityValuation {
+  let valueLamports = 0;
+  let xAmount = 0;
+  let yAmount = 0;
+  let binsBelow = 0;
+  let binsAbove = 0;
+
+  for (const bin of liquidity.bins) {
+    if (bin.binId > activeBinId) {
+      // Fully converted to X — worth less (or more) at today's price
+      const x = bin.valueAtBinPrice / bin.price;
+      xAmount += x;
+      valueLamports += x * activePrice;
+      binsAbove++;
+    } else if (bin.binId < activeBinId) {
+      yAmount += bin.valueAtBinPrice;
+      valueLamports += bin.valueAtBinPrice;
+      binsBelow++;
+    } else {
+      // Active bin: mixed — split evenly by value
+      yAmount += bin.valueAtBinPrice / 2;
+      xAmount += bin.valueAtBinPrice / 2 / bin.price;
+      valueLamports += bin.valueAtBinPrice;
+    }
+  }
+
+  return {
+    valueLamports,
+    xAmount,
+    yAmount,
+    inRange:
+      activeBinId >= liquidity.minBinId && activeBinId <= liquidity.maxBinId,
+    binsBelow,
+    binsAbove,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Fees
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Pool fee yield per millisecond (fraction of TVL paid to LPs).
+ * Prefers the 30-minute window for responsiveness, falls back to 1h.
+ */
+export function poolFeeYieldPerMs(pool: MeteoraPairData): number {
+  const tvl = parseFloat(pool.liquidity) || 0;
+  if (tvl <= 0) return 0;
+
+  const fees30m = pool.fees?.min_30 ?? 0;
+  if (fees30m > 0) return fees30m / tvl / (30 * 60 * 1000);
+
+  const fees1h = pool.fees?.hour_1 ?? 0;
+  return fees1h / tvl / (60 * 60 * 1000);
+}
+
+/**
+ * Accrue fees from lastAccrualAt to `now` and update out-of-range tracking.
+ * Mutates `liquidity`. Returns the fees added in this step (lamports).
+ */
+export function accrueFees(
+  liquidity: SimLiquidity,
+  pool: MeteoraPairData | null,
+  valuation: LiquidityValuation,
+  now: number
+): number {
+  const elapsedMs = Math.max(0, now - liquidity.lastAccrualAt);
+  liquidity.lastAccrualAt = now;
+
+  if (!valuation.inRange) {
+    liquidity.outOfRangeSince ??= now;
+    return 0;
+  }
+  liquidity.outOfRangeSince = null;
+
+  if (!pool || elapsedMs === 0) return 0;
+
+  const earned = valuation.valueLamports * poolFeeYieldPerMs(pool) * elapsedMs;
+  liquidity.feesLamports += earned;
+  return earned;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PositionData snapshot (same shape LiveExecutor gets from the SDK)
+// ═══════════════════════════════════════════════════════════════
+
+export function toPositionData(
+  liquidity: SimLiquidity,
+  activeBinId: number,
+  now: number
+): PositionData {
+  const positionBinData: PositionBinData[] = liquidity.bins.map((bin) => {
+    let x = 0;
+    let y = 0;
+    if (bin.binId > activeBinId) x = bin.valueAtBinPrice / bin.price;
+    else if (bin.binId < activeBinId) y = bin.valueAtBinPrice;
+    else {
+      y = bin.valueAtBinPrice / 2;
+      x = bin.valueAtBinPrice / 2 / bin.price;
+    }
+    return {
+      binId: bin.binId,
+      price: bin.price.toString(),
+      pricePerToken: bin.price.toString(),
+      binXAmount: "0",
+      binYAmount: "0",
+      binLiquidity: "0",
+      positionLiquidity: Math.floor(bin.valueAtBinPrice).toString(),
+      positionXAmount: Math.floor(x).toString(),
+      positionYAmount: Math.floor(y).toString(),
+    };
+  });
+
+  const totalX = positionBinData.reduce((s, b) => s + Number(b.positionXAmount), 0);
+  const totalY = positionBinData.reduce((s, b) => s + Number(b.positionYAmount), 0);
+
+  return {
+    totalXAmount: totalX.toString(),
+    totalYAmount: totalY.toString(),
+    positionBinData,
+    lastUpdatedAt: new BN(Math.floor(now / 1000)),
+    upperBinId: liquidity.maxBinId,
+    lowerBinId: liquidity.minBinId,
+    feeX: new BN(0),
+    feeY: new BN(Math.floor(liquidity.feesLamports)),
+    rewardOne: new BN(0),
+    rewardTwo: new BN(0),
+  };
+}
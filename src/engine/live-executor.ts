@@ -10,7 +10,8 @@
  *  4. TransactionSender — Retry with exponential backoff + priority fees
  *
  * Position lifecycle:
- *  open  → DLMM.initializePositionAndAddLiquidityByStrategy()
+ *  open  → (balanced deposits) DLMM.swap() SOL → token X
+ *          → DLMM.initializePositionAndAddLiquidityByStrategy()
  *  update → DLMM.getPositionsByUserAndLbPair()  (price + fees refresh)
  *  close → DLMM.removeLiquidity({ shouldClaimAndClose: true })
  *          → Jupiter V6 swap leftover tokens → SOL
@@ -45,7 +46,8 @@ import type {
 import { SOL_MINT } from "./types.js";
 import { WalletManager } from "./wallet-manager.js";
 import { TransactionSender } from "./transaction-sender.js";
-import { MarketDataProvider } from "./market-data.js";
+import { positionJobs } from "./position-jobs.js";
+import { MarketDataProvider, buildSolToTokenXSwap } from "./market-data.js";
 import { EmergencyStop } from "./emergency-stop.js";
 import { CircuitBreaker } from "./circuit-breaker.js";
 import { logger } from "../middleware/logger.js";
@@ -64,6 +66,8 @@ export interface LiveExecutorConfig {
   jupiterSlippageBps: number;
   /** Minimum swap-out to bother swapping (in SOL) */
   jupiterDustThresholdSOL: number;
+  /** Slippage for the in-pool SOL → X swap of balanced deposits (bps) */
+  depositSwapSlippageBps: number;
 }
 
 const DEFAULT_LIVE_CONFIG: LiveExecutorConfig = {
@@ -72,6 +76,7 @@ const DEFAULT_LIVE_CONFIG: LiveExecutorConfig = {
   maxRetries: 3,
   jupiterSlippageBps: 300, // 3%
   jupiterDustThresholdSOL: 0.001,
+  depositSwapSlippageBps: 100, // 1%
 };
 
 // ═══════════════════════════════════════════════════════════════
@@ -178,6 +183,7 @@ export class LiveExecutor implements ITradingExecutor {
       const activeBin = await dlmm.getActiveBin();
       const wallet = this.walletManager.getKeypair();
       const positionKeypair = Keypair.generate();
+      await positionJobs.notePositionKey(positionKeypair.publicKey.toBase58());
 
       // ── Rent-aware position sizing ──
       const RENT_BUFFER = 25_000_000; // 0.025 SOL
@@ -210,11 +216,31 @@ export class LiveExecutor implements ITradingExecutor {
         };
       }
 
+      // ── Balanced deposit: buy token X through the pool first ──
+      let depositX = new BN(0);
+      if (adjX.gtn(0)) {
+        const swap = await buildSolToTokenXSwap(
+          dlmm,
+          wallet.publicKey,
+          adjX,
+          this.liveConfig.depositSwapSlippageBps
+        );
+        const swapResult = await this.txSender.sendTransaction(
+          this.txSender.addPriorityFee(swap.tx),
+          [wallet]
+        );
+        if (!swapResult.success) {
+          this.emergencyStop.recordTxFailure();
+          return { success: false, error: `Token X swap failed: ${swapResult.error}` };
+        }
+        depositX = swap.minOutAmount;
+      }
+
       // ── Build & send create-position tx ──
       const createTx = await dlmm.initializePositionAndAddLiquidityByStrategy({
         positionPubKey: positionKeypair.publicKey,
         user: wallet.publicKey,
-        totalXAmount: adjX,
+        totalXAmount: depositX,
         totalYAmount: adjY,
         strategy: {
           maxBinId: strategy.maxBinId,
@@ -231,6 +257,10 @@ export class LiveExecutor implements ITradingExecutor {
 
       if (!result.success) {
         this.emergencyStop.recordTxFailure();
+        if (depositX.gtn(0)) {
+          // Don't leave the swapped token X stranded in the wallet
+          await this.swapLeftoverTokensToSOL(poolData.mint_x, poolData.name);
+        }
         return { success: false, error: result.error };
       }
 
@@ -521,6 +551,63 @@ export class LiveExecutor implements ITradingExecutor {
     }
   }
 
+  // ═══════════════════════════════════════════════════════════════
+  // Attach an existing on-chain position (re-attach after restart)
+  // ═══════════════════════════════════════════════════════════════
+
+  async attachPosition(
+    position: TrackedPosition
+  ): Promise<TrackedPosition | null> {
+    const dlmm = await this.marketData.getDLMM(position.poolAddress);
+    const { userPositions, activeBin } =
+      await dlmm.getPositionsByUserAndLbPair(this.walletManager.getPublicKey());
+
+    const onChain = userPositions.find((p: any) =>
+      p.publicKey.equals(position.positionPubkey)
+    );
+    if (!onChain) return null;
+
+    position.status = "ACTIVE";
+    position.strategy = {
+      ...position.strategy,
+      minBinId: onChain.positionData.lowerBinId,
+      maxBinId: onChain.positionData.upperBinId,
+    };
+    position.currentPositionData = onChain.positionData;
+    position.currentPricePerToken = activeBin.pricePerToken;
+    position.currentActiveBinId = activeBin.binId;
+    position.feesEarnedX = onChain.positionData.feeX;
+    position.feesEarnedY = onChain.positionData.feeY;
+
+    // No recorded entry (recovered from a job) — measure P&L from now
+    if (!position.entryPricePerToken) {
+      position.entryPricePerToken = activeBin.pricePerToken;
+      position.entryActiveBinId = activeBin.binId;
+    }
+
+    // No recorded deposit (adopted from outside Sage) — value what it holds now.
+    // totalXAmount is in X base units and the price is per whole token, so
+    // convert it to lamports of Y per base unit of X first.
+    if (position.entryAmountX.isZero() && position.entryAmountY.isZero()) {
+      const pricePerBaseUnit =
+        parseFloat(position.entryPricePerToken) *
+        10 ** (dlmm.tokenY.mint.decimals - dlmm.tokenX.mint.decimals);
+      position.entryAmountX = new BN(
+        Math.floor(Number(onChain.positionData.totalXAmount) * pricePerBaseUnit)
+      );
+      position.entryAmountY = new BN(
+        Math.floor(Number(onChain.positionData.totalYAmount))
+      );
+    }
+
+    this.positions.set(position.id, position);
+    log.info(
+      { positionId: position.id, pool: position.poolName },
+      "Position attached (live)"
+    );
+    return position;
+  }
+
   // ═══════════════════════════════════════════════════════════════
   // Update position data (from chain)
   // ═══════════════════════════════════════════════════════════════
@@ -545,6 +632,7 @@ export class LiveExecutor implements ITradingExecutor {
       if (onChain) {
         position.currentPositionData = onChain.positionData;
         position.currentPricePerToken = activeBin.pricePerToken;
+        position.currentActiveBinId = activeBin.binId;
         position.feesEarnedX = onChain.positionData.feeX;
         position.feesEarnedY = onChain.positionData.feeY;
 
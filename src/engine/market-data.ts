@@ -5,7 +5,7 @@
  * Uses SharedAPICache to prevent rate limiting across bot instances.
  */
 
-import { Connection, PublicKey } from "@solana/web3.js";
+import { Connection, PublicKey, type Transaction } from "@solana/web3.js";
 import { createRequire } from "node:module";
 import BN from "bn.js";
 import type {
@@ -17,6 +17,7 @@ import type {
 } from "./types.js";
 import { SOL_MINT } from "./types.js";
 import { getSharedCache } from "./shared-cache.js";
+import { createScoreFn, type ScoreFn } from "./scoring.js";
 import { logger } from "../middleware/logger.js";
 
 const log = logger.child({ module: "market-data" });
@@ -34,10 +35,12 @@ export class MarketDataProvider implements IMarketDataProvider {
   private dlmmCache: Map<string, { dlmm: any; timestamp: number }> =
     new Map();
   private readonly DLMM_CACHE_TTL_MS = 60_000;
+  private score: ScoreFn;
 
   constructor(connection: Connection, config: BotConfig) {
     this.connection = connection;
     this.config = config;
+    this.score = createScoreFn(config.scorer);
     log.info("Market data provider initialized");
   }
 
@@ -93,31 +96,15 @@ export class MarketDataProvider implements IMarketDataProvider {
         throw new Error(`Pool ${poolAddress} not found in API or on-chain`);
       }
 
-      const price = poolData.current_price || 1;
-      const binStep = poolData.bin_step || 1;
-
-      // Derive bin ID from price: binId = log(price) / log(1 + binStep/10000)
-      const binId = Math.round(
-        Math.log(price) / Math.log(1 + binStep / 10_000)
-      );
-
-      const syntheticBin: BinLiquidity = {
-        binId: isFinite(binId) ? binId : 0,
-        xAmount: new BN(0),
-        yAmount: new BN(0),
-        supply: new BN(0),
-        version: 0,
-        price: price.toString(),
-        pricePerToken: price.toString(),
-      };
+      const syntheticBin = syntheticActiveBin(poolData);
 
       log.debug(
         {
           poolAddress,
           pool: poolData.name,
           derivedBinId: syntheticBin.binId,
-          price,
-          binStep,
+          price: syntheticBin.price,
+          binStep: poolData.bin_step,
         },
         "Using synthetic active bin from API data (on-chain unavailable)"
       );
@@ -128,11 +115,7 @@ export class MarketDataProvider implements IMarketDataProvider {
   }
 
   /**
-   * Get or create a DLMM instance (cached).
-   *
-   * Throws a clear error if the pool doesn't exist on-chain.
-   * This typically happens when RPC points to devnet but pool addresses
-   * come from the mainnet Meteora API.
+   * Get or create a DLMM instance (cached). See loadDLMM().
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   async getDLMM(poolAddress: string): Promise<any> {
@@ -141,86 +124,16 @@ export class MarketDataProvider implements IMarketDataProvider {
       return cached.dlmm;
     }
 
-    const poolPubkey = new PublicKey(poolAddress);
-
-    // Pre-check: verify the account exists on-chain before DLMM.create
-    const accountInfo = await this.connection.getAccountInfo(poolPubkey);
-    if (!accountInfo) {
-      throw new Error(
-        `LB Pair account ${poolAddress} not found on-chain. ` +
-        `This usually means the RPC is on devnet but the pool exists on mainnet. ` +
-        `Check SOLANA_NETWORK and SOLANA_RPC_URL in your .env.`
-      );
-    }
-
-    const dlmm = await DLMM.create(this.connection, poolPubkey);
+    const dlmm = await loadDLMM(this.connection, poolAddress);
     this.dlmmCache.set(poolAddress, { dlmm, timestamp: Date.now() });
     return dlmm;
   }
 
   /**
-   * Calculate market score for a pool.
-   * Mimics FreesolGames' scoring with 150% threshold.
+   * Calculate market score for a pool with the bot's configured scorer.
    */
   calculateMarketScore(pool: MeteoraPairData): MarketScore {
-    // Volume score (0-100)
-    const volumeHour = pool.volume?.hour_1 || 0;
-    const volume24h = pool.trade_volume_24h || 0;
-    const volumeScore = Math.min(
-      100,
-      (volumeHour / 100) * 50 + (volume24h / 10_000) * 50
-    );
-
-    // Liquidity score — optimal zone for DLMM LP profitability
-    // Sweet spot: enough liquidity for real trades but not so much that
-    // LP competition dilutes returns. Volume/Liquidity ratio matters more
-    // than raw liquidity, but we score liquidity buckets for base signal.
-    const liquidity = parseFloat(pool.liquidity) || 0;
-    let liquidityScore = 20;
-    if (liquidity >= 500 && liquidity < 5_000) liquidityScore = 90;
-    else if (liquidity >= 5_000 && liquidity < 25_000) liquidityScore = 80;
-    else if (liquidity >= 25_000 && liquidity < 100_000) liquidityScore = 65;
-    else if (liquidity >= 100_000 && liquidity < 500_000) liquidityScore = 50;
-    else if (liquidity >= 500_000) liquidityScore = 35;
-    else if (liquidity >= 100 && liquidity < 500) liquidityScore = 60;
-
-    // Fee/TVL ratio
-    const fees24h = pool.fees_24h || 0;
-    const feeTvlRatio = liquidity > 0 ? fees24h / liquidity : 0;
-    const feeScore = Math.min(100, feeTvlRatio * 1000);
-
-    // Momentum (APR-based) — scale for real-world APR range
-    // Most active Meteora DLMM pools have APR 1-100%, exceptional ones 100-500%
-    const apr = pool.apr || 0;
-    const momentumScore = Math.min(100, (apr / 50) * 100);
-
-    // Weighted total
-    const totalRaw =
-      volumeScore * 0.35 +
-      liquidityScore * 0.2 +
-      feeScore * 0.25 +
-      momentumScore * 0.2;
-
-    // Scale to match FreesolGames' 150% threshold
-    const scaledScore = totalRaw * 2;
-    const meetsThreshold = scaledScore >= this.config.entryScoreThreshold;
-
-    return {
-      poolAddress: pool.address,
-      poolName: pool.name,
-      timestamp: Date.now(),
-      volumeScore,
-      liquidityScore,
-      feeScore,
-      momentumScore,
-      totalScore: scaledScore,
-      meetsThreshold,
-      recommendation: meetsThreshold
-        ? "ENTER"
-        : scaledScore > 100
-          ? "WAIT"
-          : "SKIP",
-    };
+    return this.score(pool, this.config.entryScoreThreshold);
   }
 
   /**
@@ -228,26 +141,144 @@ export class MarketDataProvider implements IMarketDataProvider {
    */
   async filterEligiblePools(config: BotConfig): Promise<MeteoraPairData[]> {
     const pools = await this.fetchAllPools();
+    return pools.filter((pool) => isPoolEligible(pool, config));
+  }
+}
 
-    return pools.filter((pool) => {
-      if (pool.is_blacklisted) return false;
+// ═══════════════════════════════════════════════════════════════
+// DLMM loading
+// ═══════════════════════════════════════════════════════════════
 
-      if (config.solPairsOnly) {
-        const isSOLPair =
-          pool.mint_x === SOL_MINT || pool.mint_y === SOL_MINT;
-        if (!isSOLPair) return false;
-      }
+/**
+ * Create a DLMM instance for a pool (uncached).
+ *
+ * Throws a clear error if the pool doesn't exist on-chain.
+ * This typically happens when RPC points to devnet but pool addresses
+ * come from the mainnet Meteora API.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function loadDLMM(connection: Connection, poolAddress: string): Promise<any> {
+  const poolPubkey = new PublicKey(poolAddress);
+
+  // Pre-check: verify the account exists on-chain before DLMM.create
+  const accountInfo = await connection.getAccountInfo(poolPubkey);
+  if (!accountInfo) {
+    throw new Error(
+      `LB Pair account ${poolAddress} not found on-chain. ` +
+      `This usually means the RPC is on devnet but the pool exists on mainnet. ` +
+      `Check SOLANA_NETWORK and SOLANA_RPC_URL in your .env.`
+    );
+  }
+
+  return DLMM.create(connection, poolPubkey);
+}
+
+/**
+ * Read a DLMM position account's pool and owner without knowing the pool.
+ *
+ * Returns null if the account doesn't exist; throws if it isn't a DLMM
+ * position account.
+ */
+export async function readPositionAccount(
+  connection: Connection,
+  positionKey: PublicKey
+): Promise<{ lbPair: PublicKey; owner: PublicKey } | null> {
+  const account = await connection.getAccountInfo(positionKey);
+  if (!account) return null;
+
+  const { createProgram, wrapPosition } = _require("@meteora-ag/dlmm");
+  const position = wrapPosition(createProgram(connection), positionKey, account);
+  return { lbPair: position.lbPair(), owner: position.owner() };
+}
 
-      if (config.blacklist.includes(pool.mint_x)) return false;
-      if (config.blacklist.includes(pool.mint_y)) return false;
+/**
+ * Build a swap of `lamports` SOL (token Y) into token X through the pool
+ * itself — used to fund the X side of balanced deposits.
+ *
+ * Returns the quote's minimum output (raw X units). Depositing that amount
+ * rather than the expected output keeps the add-liquidity tx from
+ * overdrawing the token account when the swap fills at worse than quote.
+ */
+export async function buildSolToTokenXSwap(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  dlmm: any,
+  user: PublicKey,
+  lamports: BN,
+  slippageBps: number
+): Promise<{ tx: Transaction; minOutAmount: BN }> {
+  if (dlmm.tokenY.publicKey.toBase58() !== SOL_MINT) {
+    throw new Error("Balanced deposits require SOL as token Y of the pool");
+  }
 
-      if (pool.trade_volume_24h < config.minVolume24h) return false;
+  const swapForY = false; // Y → X
+  const binArrays = await dlmm.getBinArrayForSwap(swapForY);
+  const quote = dlmm.swapQuote(lamports, swapForY, new BN(slippageBps), binArrays);
+
+  const tx: Transaction = await dlmm.swap({
+    inToken: dlmm.tokenY.publicKey,
+    outToken: dlmm.tokenX.publicKey,
+    inAmount: lamports,
+    minOutAmount: quote.minOutAmount,
+    lbPair: dlmm.pubkey,
+    user,
+    binArraysPubkey: quote.binArraysPubkey,
+  });
+
+  return { tx, minOutAmount: quote.minOutAmount };
+}
 
-      const liquidity = parseFloat(pool.liquidity) || 0;
-      if (liquidity < config.minLiquidity) return false;
-      if (liquidity > config.maxLiquidity) return false;
+// ═══════════════════════════════════════════════════════════════
+// Pure helpers (shared with the backtest replay provider)
+// ═══════════════════════════════════════════════════════════════
 
-      return true;
-    });
+/**
+ * Derive a synthetic active bin from API price data:
+ * binId = log(price) / log(1 + binStep/10000).
+ * Used when on-chain data is unavailable and by the backtest replay.
+ */
+export function syntheticActiveBin(
+  pool: MeteoraPairData,
+  price: number = pool.current_price
+): BinLiquidity {
+  const safePrice = price || 1;
+  const binStep = pool.bin_step || 1;
+
+  const binId = Math.round(
+    Math.log(safePrice) / Math.log(1 + binStep / 10_000)
+  );
+
+  return {
+    binId: isFinite(binId) ? binId : 0,
+    xAmount: new BN(0),
+    yAmount: new BN(0),
+    supply: new BN(0),
+    version: 0,
+    price: safePrice.toString(),
+    pricePerToken: safePrice.toString(),
+  };
+}
+
+/**
+ * Check a pool against the bot's eligibility filters
+ * (blacklist, SOL pairs, volume and liquidity bounds).
+ */
+export function isPoolEligible(pool: MeteoraPairData, config: BotConfig): boolean {
+  if (pool.is_blacklisted) return false;
+
+  if (config.solPairsOnly) {
+    const isSOLPair =
+      pool.mint_x === SOL_MINT || pool.mint_y === SOL_MINT;
+    if (!isSOLPair) return false;
   }
+
+  if (config.blacklist.includes(pool.mint_x)) return false;
+  if (config.blacklist.includes(pool.mint_y)) return false;
+
+  if (pool.trade_volume_24h < config.minVolume24h) return false;
+
+  const liquidity = parseFloat(pool.liquidity) || 0;
+  if (liquidity < config.minLiquidity) return false;
+  if (liquidity > config.maxLiquidity) return false;
+
+  return true;
 }
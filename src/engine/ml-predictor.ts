@@ -222,6 +222,30 @@ export class MLPredictor {
     }
   }
 
+  /**
+   * Ask the ML service to hot-reload its model from disk.
+   * Throws if the service is unreachable.
+   */
+  async reloadModel(): Promise<{ ok: boolean; status: number; body: unknown }> {
+    const response = await this.fetch(
+      "/reload",
+      { method: "POST", headers: { "Content-Type": "application/json" } },
+      10_000
+    );
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Non-JSON error body — keep the text
+    }
+    if (response.ok) {
+      this.lastHealthCheck = 0; // re-read model info on the next health check
+    }
+    log.info({ status: response.status }, "ML model reload requested");
+    return { ok: response.ok, status: response.status, body };
+  }
+
   // ── Configuration ──
 
   /**
@@ -244,13 +268,14 @@ export class MLPredictor {
 
   private async fetch(
     path: string,
-    init: RequestInit
+    init: RequestInit,
+    timeoutMs: number = this.config.timeoutMs
   ): Promise<Response> {
     const url = `${this.config.baseUrl}${path}`;
     const controller = new AbortController();
     const timeout = setTimeout(
       () => controller.abort(),
-      this.config.timeoutMs
+      timeoutMs
     );
 
     // Merge headers, injecting API key if configured
@@ -6,36 +6,51 @@
  *  2. Manage running engine instances (start/stop/emergency)
  *  3. Persist position open/close events to `positions` table
  *  4. Update bot stats in `bots` table
- *  5. Emit events via EventBus for real-time push (WebSocket in S3)
+ *  5. Journal events to trade_log and emit them via EventBus (SSE / WebSocket)
  *  6. Recover running bots on server restart
+ *  7. Hold a Postgres lease per running bot (see bot-lease.ts) so several
+ *     replicas can share the fleet — and take over a dead replica's bots
+ *  8. Run every open / close / rebalance as a durable position job (see
+ *     position-jobs.ts) and settle interrupted ones before recovery
+ *  9. Give every engine the user's portfolio risk gate (portfolio-risk.ts)
+ *     and feed it each close
+ * 10. Apply the platform kill switch (kill-switch.ts) to every running bot
  *
  * Design:
- *  - Singleton (one per backend process)
+ *  - Singleton (one per backend process); bots are spread across
+ *    processes by lease, never run twice
  *  - All bots share a single SharedAPICache (prevents rate limiting)
  *  - All bots share a single Solana Connection
  *  - SimulationExecutor per bot instance (virtual balance isolation)
  */
 
-import { Connection } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import BN from "bn.js";
 import config from "../config.js";
 import db from "../db/index.js";
-import { bots, positions, tradeLog, users } from "../db/schema.js";
+import { bots, positions, users } from "../db/schema.js";
 import { eq, and } from "drizzle-orm";
 import { logger } from "../middleware/logger.js";
 import { eventBus } from "./event-bus.js";
+import { eventJournal } from "./event-journal.js";
+import { botLeaseManager } from "./bot-lease.js";
+import { JournaledExecutor } from "./journaled-executor.js";
+import { positionJobs } from "./position-jobs.js";
+import { portfolioRisk } from "./portfolio-risk.js";
+import { killSwitch, type KillSwitchState } from "./kill-switch.js";
 import { TradingEngine, type EngineEvent, type EngineStats } from "./trading-engine.js";
 import { SimulationExecutor } from "./simulation-executor.js";
 import { SealExecutor } from "./seal-executor.js";
 import { SealSession } from "./seal-session.js";
+import { decryptSecret } from "../services/kms.js";
 import { WalletManager } from "./wallet-manager.js";
 import { MarketDataProvider } from "./market-data.js";
 import { MLPredictor } from "./ml-predictor.js";
-import { EmergencyStop } from "./emergency-stop.js";
-import { CircuitBreaker } from "./circuit-breaker.js";
+import { EmergencyStop, emergencyStopConfigFor } from "./emergency-stop.js";
+import { CircuitBreaker, circuitBreakerConfigFor } from "./circuit-breaker.js";
 import { getSharedCache } from "./shared-cache.js";
-import type { BotConfig, TrackedPosition, MarketScore, StrategyMode, ITradingExecutor } from "./types.js";
-import { LAMPORTS_PER_SOL } from "./types.js";
+import type { BotConfig, BotEventType, TrackedPosition, MarketScore, StrategyMode, ITradingExecutor } from "./types.js";
+import { LAMPORTS_PER_SOL, STRATEGY_TYPES } from "./types.js";
 
 const log = logger.child({ module: "orchestrator" });
 
@@ -47,6 +62,7 @@ interface RunningBot {
   botId: string;
   userId: number;
   engine: TradingEngine;
+  config: BotConfig;
   executor: ITradingExecutor;
   marketData: MarketDataProvider;
   mlPredictor: MLPredictor | null;
@@ -54,6 +70,8 @@ interface RunningBot {
   circuitBreaker: CircuitBreaker;
   walletManager?: WalletManager;
   startedAt: number;
+  /** Local time the last successful acquire / renew of its lease was sent */
+  leaseRenewedAt: number;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -61,6 +79,7 @@ interface RunningBot {
 // ═══════════════════════════════════════════════════════════════
 
 type BotRow = typeof bots.$inferSelect;
+type PositionRow = typeof positions.$inferSelect;
 
 // ═══════════════════════════════════════════════════════════════
 // BotOrchestrator
@@ -74,6 +93,11 @@ export class BotOrchestrator {
   private sharedMLPredictor: MLPredictor;
   /** Lock set to prevent concurrent start/stop operations on the same bot */
   private botLocks = new Set<string>();
+  /** Lease renewal + takeover loop */
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private heartbeatInFlight = false;
+  /** activatedAt of the kill switch activation whose closes already ran here */
+  private killSwitchClosedFor: number | null = null;
 
   private constructor() {
     this.connection = new Connection(config.SOLANA_RPC_URL, "confirmed");
@@ -113,6 +137,12 @@ export class BotOrchestrator {
 
     try {
       await this._startBot(botId, userId);
+    } catch (err) {
+      // Don't keep a lease on a bot that never started here
+      if (!this.runningBots.has(botId)) {
+        await botLeaseManager.release(botId).catch(() => undefined);
+      }
+      throw err;
     } finally {
       this.botLocks.delete(botId);
     }
@@ -129,6 +159,12 @@ export class BotOrchestrator {
       throw new Error(`Bot ${botId} not found for user ${userId}`);
     }
 
+    const leaseRequestedAt = Date.now();
+    if (!(await botLeaseManager.acquire(botId))) {
+      const owner = await botLeaseManager.ownerOf(botId);
+      throw new Error(`Bot ${botId} is already running on instance ${owner ?? "unknown"}`);
+    }
+
     const botConfig = this.botRowToConfig(botRow);
     const isLiveMode = botRow.mode === "live";
 
@@ -178,34 +214,25 @@ export class BotOrchestrator {
       }
     }
 
-    const emergencyStop = new EmergencyStop(botId, {
-      maxDailyLossSOL: botConfig.maxDailyLossSOL ?? 2,
-      maxTotalLossSOL: (botConfig.maxDailyLossSOL ?? 2) * 3,
-      maxConsecutiveLosses: 5,
-      maxTxFailuresPerHour: 10,
-      maxApiErrorsPerHour: 50,
-    }, savedEmergencyState);
-
-    // If the emergency stop was triggered in a previous session, reset the
-    // trigger flag so the bot can trade again. The user explicitly chose to
-    // restart, so honour that intent. Loss counters are preserved — if the
-    // bot immediately hits the same limit it will re-trigger.
+    // A triggered stop is only cleared by an explicit, acknowledged
+    // POST /bot/:botId/safety/reset — restarting never wipes protection
     if (savedEmergencyState?.isTriggered) {
-      emergencyStop.reset();
-      // Also reset consecutive losses so the bot gets a fresh chance
-      emergencyStop.fullReset();
-      log.info(
-        { botId },
-        "Emergency stop was previously triggered — full reset for fresh start"
+      throw new Error(
+        `Emergency stop is triggered (${savedEmergencyState.triggerReason}). ` +
+        `Review GET /bot/${botId}/safety and reset it via POST /bot/${botId}/safety/reset.`
       );
     }
 
-    const circuitBreaker = new CircuitBreaker(botId, {
-      maxPositionCount: botConfig.maxConcurrentPositions,
-      maxPositionsPerPool: 1,
-      maxSinglePositionSOL: botConfig.maxPositionSOL ?? 2,
-      maxTotalExposureSOL: (botConfig.maxPositionSOL ?? 2) * botConfig.maxConcurrentPositions,
-    });
+    const emergencyStop = new EmergencyStop(
+      botId,
+      emergencyStopConfigFor(botConfig),
+      savedEmergencyState
+    );
+    if (killSwitch.isActive) {
+      emergencyStop.setKillSwitch(true);
+    }
+
+    const circuitBreaker = new CircuitBreaker(botId, circuitBreakerConfigFor(botConfig));
 
     // Wire emergency stop callback — auto-close positions and stop engine
     emergencyStop.onTrigger(async (reason) => {
@@ -217,15 +244,19 @@ export class BotOrchestrator {
           await this.persistVirtualBalance(botId);
           await running.engine.emergencyCloseAll();
           await running.engine.stop();
+          this.runningBots.delete(botId);
         }
+        await botLeaseManager.release(botId);
         await db.update(bots)
           .set({
             status: "error",
             lastError: `Emergency stop: ${reason}`,
+            // The trigger must survive restarts until explicitly reset
+            emergencyStopState: emergencyStop.serializeState(),
             updatedAt: new Date(),
           })
           .where(eq(bots.botId, botId));
-        eventBus.emitBotEvent("engine:error", botId, userId, {
+        await this.publish("engine:error", botId, userId, {
           error: `Emergency stop: ${reason}`,
           severity: "critical",
         });
@@ -244,7 +275,7 @@ export class BotOrchestrator {
     if (isLiveMode) {
       // LIVE MODE — Seal session-key execution
       // The bot's agent + session keypairs are generated at setup-live time
-      // and stored (encrypted) in the DB. The session keypair signs all
+      // and stored envelope-encrypted in the DB (services/kms.ts). The session keypair signs all
       // executeViaSession TXs — no user private key on the server.
 
       // ── Verify Seal program exists on-chain ──
@@ -281,8 +312,8 @@ export class BotOrchestrator {
 
       const sealSession = SealSession.fromDb(
         canonicalWalletAddress,
-        botRow.agentSecretKey,
-        botRow.sessionSecretKey,
+        await decryptSecret(botRow.agentSecretKey),
+        await decryptSecret(botRow.sessionSecretKey),
         this.connection
       );
 
@@ -325,6 +356,14 @@ export class BotOrchestrator {
       );
     }
 
+    // Journal open / close / rebalance so a restart can finish or roll them back
+    executor = new JournaledExecutor(
+      executor,
+      { botId, userId, mode: botRow.mode },
+      botConfig,
+      marketData
+    );
+
     // Create TradingEngine with event callback, ML predictor, and safety systems
     const engine = new TradingEngine(
       botConfig,
@@ -334,13 +373,16 @@ export class BotOrchestrator {
       botId,
       mlPredictor,
       emergencyStop,
-      circuitBreaker
+      circuitBreaker,
+      // Limits shared with the user's other bots (same mode)
+      portfolioRisk.gateFor(userId, botRow.mode)
     );
 
     const running: RunningBot = {
       botId,
       userId,
       engine,
+      config: botConfig,
       executor,
       marketData,
       mlPredictor,
@@ -348,6 +390,7 @@ export class BotOrchestrator {
       circuitBreaker,
       walletManager,
       startedAt: Date.now(),
+      leaseRenewedAt: leaseRequestedAt,
     };
 
     this.runningBots.set(botId, running);
@@ -374,7 +417,12 @@ export class BotOrchestrator {
     try {
       const running = this.runningBots.get(botId);
       if (!running) {
-        log.warn({ botId }, "Bot not running in orchestrator");
+        const owner = await botLeaseManager.sendCommand(botId, "stop");
+        if (owner) {
+          log.info({ botId, owner }, "Bot runs on another instance — stop requested");
+        } else {
+          log.warn({ botId }, "Bot not running in orchestrator");
+        }
         return;
       }
 
@@ -401,6 +449,7 @@ export class BotOrchestrator {
 
       await running.engine.stop();
       this.runningBots.delete(botId);
+      await botLeaseManager.release(botId);
 
       log.info({ botId }, "Bot stopped");
     } finally {
@@ -414,7 +463,12 @@ export class BotOrchestrator {
   async emergencyStop(botId: string): Promise<void> {
     const running = this.runningBots.get(botId);
     if (!running) {
-      log.warn({ botId }, "Bot not running in orchestrator for emergency");
+      const owner = await botLeaseManager.sendCommand(botId, "emergency_stop");
+      if (owner) {
+        log.warn({ botId, owner }, "Bot runs on another instance — emergency stop requested");
+      } else {
+        log.warn({ botId }, "Bot not running in orchestrator for emergency");
+      }
       return;
     }
 
@@ -436,6 +490,7 @@ export class BotOrchestrator {
       { count: this.runningBots.size },
       "Stopping all running bots"
     );
+    this.stopHeartbeat();
 
     const stopPromises: Promise<void>[] = [];
     for (const [botId] of this.runningBots) {
@@ -443,6 +498,17 @@ export class BotOrchestrator {
     }
     await Promise.allSettled(stopPromises);
 
+    // Bots keep status "running" in the DB, so with our leases gone the
+    // remaining instances pick them up on their next heartbeat
+    try {
+      await botLeaseManager.unregister();
+    } catch (err) {
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Failed to release bot leases"
+      );
+    }
+
     log.info("All bots stopped");
   }
 
@@ -497,31 +563,62 @@ export class BotOrchestrator {
   // ═══════════════════════════════════════════════════════════════
 
   /**
-   * On server startup, check for bots that were "running" in DB
-   * and restart them.
+   * On server startup, register this instance, start every "running" bot
+   * that no live instance holds a lease on, then start the heartbeat.
    */
   async recoverRunningBots(): Promise<number> {
-    const runningBots = await db
-      .select()
-      .from(bots)
-      .where(eq(bots.status, "running"));
+    await botLeaseManager.register();
+    // Recovered bots must come up with an active kill switch already applied
+    await killSwitch.load();
+
+    try {
+      const recovered = await this.takeOverUnownedBots();
+      if (recovered === 0) {
+        log.info("No bots to recover");
+      }
+      return recovered;
+    } finally {
+      this.startHeartbeat();
+    }
+  }
 
-    if (runningBots.length === 0) {
-      log.info("No bots to recover");
-      return 0;
+  /**
+   * Start bots that should be running but have no live lease — never
+   * claimed, or held by an instance that stopped renewing (crashed).
+   */
+  private async takeOverUnownedBots(): Promise<number> {
+    // Settle jobs a dead process left half-done before their bots restart
+    try {
+      await positionJobs.resumeInterrupted(this.connection, [...this.runningBots.keys()]);
+    } catch (err) {
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Failed to resume interrupted position jobs"
+      );
     }
 
+    const candidates = (await botLeaseManager.findUnownedRunningBots()).filter(
+      (bot) => !this.runningBots.has(bot.botId) && !this.botLocks.has(bot.botId)
+    );
+    if (candidates.length === 0) return 0;
+
     log.info(
-      { count: runningBots.length },
+      { count: candidates.length, instanceId: botLeaseManager.instanceId },
       "Recovering running bots"
     );
 
     let recovered = 0;
-    for (const bot of runningBots) {
+    for (const bot of candidates) {
       try {
         await this.startBot(bot.botId, bot.userId);
         recovered++;
       } catch (error) {
+        // Another instance claimed it first — not a failure
+        if (await botLeaseManager.ownerOf(bot.botId)) {
+          log.info({ botId: bot.botId }, "Bot claimed by another instance during recovery");
+          continue;
+        }
+
         log.error(
           {
             botId: bot.botId,
@@ -552,10 +649,315 @@ export class BotOrchestrator {
       }
     }
 
-    log.info({ recovered, total: runningBots.length }, "Recovery complete");
+    log.info({ recovered, total: candidates.length }, "Recovery complete");
     return recovered;
   }
 
+  // ═══════════════════════════════════════════════════════════════
+  // Lease Heartbeat
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Renew leases every TTL/3. Idempotent.
+   */
+  startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => {
+      // Outside the in-flight guard: a renew hanging on the DB mustn't
+      // keep bots trading past their lease
+      void this.detachLapsedBots();
+      void this.heartbeat();
+    }, botLeaseManager.renewIntervalMs);
+    this.heartbeatTimer.unref();
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * One heartbeat tick:
+   *  1. pick up kill switch changes made on other instances — first, and
+   *     on its own, so a failing lease step can't keep a kill switch off
+   *  2. renew our leases — a bot whose lease was taken over stops here;
+   *     if renewing keeps failing, detachLapsedBots() stops them instead
+   *  3. run stop / emergency stop commands left by other instances
+   *  4. take over bots orphaned by dead instances
+   */
+  private async heartbeat(): Promise<void> {
+    if (this.heartbeatInFlight) return;
+    this.heartbeatInFlight = true;
+
+    try {
+      this.applyKillSwitch(await killSwitch.load());
+    } catch (err) {
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Kill switch refresh failed"
+      );
+    }
+
+    try {
+      const localBotIds = [...this.runningBots.keys()];
+      const renewStartedAt = Date.now();
+      const { renewed, commands } = await botLeaseManager.renew(localBotIds);
+
+      for (const botId of localBotIds) {
+        const running = this.runningBots.get(botId);
+        if (renewed.has(botId)) {
+          if (running) running.leaseRenewedAt = renewStartedAt;
+        } else if (!this.botLocks.has(botId)) {
+          await this.detachBot(botId, "Lost bot lease to another instance — stopping local engine");
+        }
+      }
+
+      for (const [botId, command] of commands) {
+        log.info({ botId, command }, "Running command from another instance");
+        if (command === "emergency_stop") {
+          await this.emergencyStop(botId);
+          await botLeaseManager.release(botId);
+        } else {
+          await this.stopBot(botId);
+        }
+      }
+
+      await this.takeOverUnownedBots();
+    } catch (err) {
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Lease heartbeat failed"
+      );
+    } finally {
+      this.heartbeatInFlight = false;
+    }
+  }
+
+  /**
+   * Stop bots whose lease we haven't renewed for 1.5 renew intervals (DB
+   * outage, partition). Ticks come every TTL/3, so the next one may be
+   * past the lease's expiry, after which another instance takes them
+   * over — stop first, so a bot never trades on two instances. The DB row
+   * still says running, so whichever instance claims it next restarts it.
+   */
+  private async detachLapsedBots(): Promise<void> {
+    const maxAgeMs = botLeaseManager.renewIntervalMs * 1.5;
+    const now = Date.now();
+
+    for (const [botId, running] of this.runningBots) {
+      if (this.botLocks.has(botId) || now - running.leaseRenewedAt < maxAgeMs) continue;
+      await this.detachBot(botId, "Bot lease not renewed in time — stopping local engine");
+    }
+  }
+
+  /**
+   * Our lease lapsed (or is about to) and another instance may run this
+   * bot. Stop the local engine without touching the DB — the new owner's
+   * state wins.
+   */
+  private async detachBot(botId: string, reason: string): Promise<void> {
+    const running = this.runningBots.get(botId);
+    if (!running) return;
+
+    log.error({ botId, instanceId: botLeaseManager.instanceId }, reason);
+    this.runningBots.delete(botId);
+    try {
+      await running.engine.stop();
+    } catch (err) {
+      log.error(
+        { botId, err: err instanceof Error ? err.message : String(err) },
+        "Error stopping detached engine"
+      );
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Platform Kill Switch
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Push the kill switch into every local bot's EmergencyStop — entries
+   * stop, exits go on. An activation with closePositions closes every
+   * local position once, in the background so lease renewal isn't held
+   * up by slow closes.
+   */
+  applyKillSwitch(state: KillSwitchState = killSwitch.state): void {
+    for (const running of this.runningBots.values()) {
+      if (running.emergencyStop.killSwitchActive !== state.active) {
+        running.emergencyStop.setKillSwitch(state.active);
+      }
+    }
+
+    const activation = state.activatedAt?.getTime() ?? null;
+    if (!state.active || !state.closePositions || activation === this.killSwitchClosedFor) {
+      return;
+    }
+    this.killSwitchClosedFor = activation;
+    void this.closeAllForKillSwitch();
+  }
+
+  private async closeAllForKillSwitch(): Promise<void> {
+    const botIds = [...this.runningBots.keys()];
+    log.warn({ bots: botIds.length }, "Kill switch — closing all positions");
+
+    for (const botId of botIds) {
+      const running = this.runningBots.get(botId);
+      if (!running) continue;
+      try {
+        await running.engine.emergencyCloseAll();
+        await this.persistVirtualBalance(botId);
+      } catch (err) {
+        log.error(
+          { botId, err: err instanceof Error ? err.message : String(err) },
+          "Kill switch close failed"
+        );
+      }
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Re-attach
+  // ═══════════════════════════════════════════════════════════════
+
+  /** True if this instance runs the bot and its engine tracks the position. */
+  isTracking(botId: string, positionId: string): boolean {
+    const running = this.runningBots.get(botId);
+    return running?.engine.getActivePositions().some((p) => p.id === positionId) ?? false;
+  }
+
+  /**
+   * Hand a DB position that still exists on-chain back to its bot's engine.
+   * Null if the bot doesn't run here, isn't live, or its wallet doesn't
+   * own the position account.
+   */
+  async reattachPosition(row: PositionRow): Promise<TrackedPosition | null> {
+    const running = this.runningBots.get(row.botId);
+    if (!running || !row.onChainPositionKey) return null;
+    return running.engine.attachPosition(this.positionRowToTracked(row, running.config));
+  }
+
+  /**
+   * Hand an on-chain position to a running live bot of the same user —
+   * an orphaned row, or a new row for a position opened outside Sage.
+   * The bot's own exit rules replace the row's risk snapshot. The row is
+   * upserted as `active` under the new bot and `position:adopted` is
+   * published.
+   */
+  async adoptPosition(
+    botId: string,
+    row: PositionRow
+  ): Promise<{ success: boolean; position?: TrackedPosition; error?: string }> {
+    const running = this.runningBots.get(botId);
+    if (!running || running.userId !== row.userId) {
+      return { success: false, error: `Bot ${botId} is not running on this instance` };
+    }
+    if (running.config.mode !== "LIVE") {
+      return { success: false, error: "Only live bots can adopt on-chain positions" };
+    }
+    if (!row.onChainPositionKey) {
+      return { success: false, error: "Position has no on-chain account" };
+    }
+
+    const { config: botConfig } = running;
+    const attached = await running.engine.attachPosition({
+      ...this.positionRowToTracked(row, botConfig),
+      profitTargetPercent: botConfig.profitTargetPercent,
+      stopLossPercent: botConfig.stopLossPercent,
+      maxHoldTimeMinutes: botConfig.maxHoldTimeMinutes,
+    });
+    if (!attached) {
+      return { success: false, error: "Bot wallet does not own this position" };
+    }
+
+    const adopted = {
+      botId,
+      status: "active" as const,
+      entryActiveBinId: attached.entryActiveBinId,
+      entryPricePerToken: attached.entryPricePerToken,
+      entryTimestamp: attached.entryTimestamp,
+      entryAmountXLamports: attached.entryAmountX.toNumber(),
+      entryAmountYLamports: attached.entryAmountY.toNumber(),
+      profitTargetPercent: attached.profitTargetPercent,
+      stopLossPercent: attached.stopLossPercent,
+      maxHoldTimeMinutes: attached.maxHoldTimeMinutes,
+      updatedAt: new Date(),
+    };
+    await db
+      .insert(positions)
+      .values({
+        ...adopted,
+        positionId: row.positionId,
+        userId: row.userId,
+        poolAddress: row.poolAddress,
+        poolName: row.poolName,
+        tokenXMint: row.tokenXMint,
+        tokenYMint: row.tokenYMint,
+        binStep: row.binStep,
+        onChainPositionKey: row.onChainPositionKey,
+      })
+      .onConflictDoUpdate({ target: positions.positionId, set: adopted });
+
+    await this.publish("position:adopted", botId, row.userId, {
+      positionId: row.positionId,
+      pool: row.poolName,
+      poolAddress: row.poolAddress,
+      onChainPositionKey: row.onChainPositionKey,
+      previousBotId: row.botId === botId ? null : row.botId,
+      previousStatus: row.status,
+      entryPrice: attached.entryPricePerToken,
+    });
+
+    log.info(
+      { botId, positionId: row.positionId, pool: row.poolName },
+      "Position adopted"
+    );
+    return { success: true, position: attached };
+  }
+
+  /**
+   * Rebuild a TrackedPosition from its DB row. Bin range, fees and current
+   * price are filled from the chain by the executor on attach.
+   */
+  private positionRowToTracked(row: PositionRow, botConfig: BotConfig): TrackedPosition {
+    return {
+      id: row.positionId,
+      mode: "LIVE",
+      status: "ACTIVE",
+      poolAddress: row.poolAddress,
+      poolName: row.poolName,
+      tokenXMint: row.tokenXMint,
+      tokenYMint: row.tokenYMint,
+      binStep: row.binStep,
+      positionPubkey: new PublicKey(row.onChainPositionKey!),
+      entryActiveBinId: row.entryActiveBinId ?? 0,
+      entryPricePerToken: row.entryPricePerToken ?? "",
+      entryTimestamp: row.entryTimestamp,
+      entryAmountX: new BN(row.entryAmountXLamports),
+      entryAmountY: new BN(row.entryAmountYLamports),
+      entryTxSignature: row.entryTxSignature ?? undefined,
+      entryScore: row.entryScore ?? undefined,
+      mlProbability: row.mlProbability ?? undefined,
+      entryFeatures: row.entryFeatures ? JSON.parse(row.entryFeatures) : undefined,
+      strategy: {
+        minBinId: 0,
+        maxBinId: 0,
+        strategyType: STRATEGY_TYPES[botConfig.strategyType ?? "spot"],
+      },
+      feesEarnedX: new BN(row.feesEarnedXLamports ?? 0),
+      feesEarnedY: new BN(row.feesEarnedYLamports ?? 0),
+      rebalanceId: row.rebalanceId ?? undefined,
+      rebalancedFromPositionId: row.rebalancedFromPositionId ?? undefined,
+      profitTargetPercent: row.profitTargetPercent,
+      stopLossPercent: row.stopLossPercent,
+      maxHoldTimeMinutes: row.maxHoldTimeMinutes,
+      trailingStopEnabled: botConfig.trailingStopEnabled,
+      trailingStopPercent: botConfig.trailingStopPercent,
+      highWaterMarkPercent: 0,
+    };
+  }
+
   // ═══════════════════════════════════════════════════════════════
   // Query
   // ═══════════════════════════════════════════════════════════════
@@ -600,6 +1002,24 @@ export class BotOrchestrator {
     return running.executor.getPerformanceSummary();
   }
 
+  /**
+   * Live safety state for a running bot — null if it doesn't run here.
+   */
+  getSafetyState(botId: string) {
+    const running = this.runningBots.get(botId);
+    if (!running) return null;
+    return {
+      emergencyStop: {
+        config: running.emergencyStop.getConfig(),
+        state: running.emergencyStop.getState(),
+      },
+      circuitBreaker: {
+        config: running.circuitBreaker.getConfig(),
+        state: running.circuitBreaker.getState(),
+      },
+    };
+  }
+
   /**
    * Close a specific position by ID (user-initiated).
    * Finds the bot that owns the position and delegates to its engine.
@@ -649,6 +1069,13 @@ export class BotOrchestrator {
     return getSharedCache().getStats();
   }
 
+  /**
+   * Hot-reload the model behind the shared ML predictor (admin).
+   */
+  reloadMLModel() {
+    return this.sharedMLPredictor.reloadModel();
+  }
+
   // ═══════════════════════════════════════════════════════════════
   // Engine Event Handler
   // ═══════════════════════════════════════════════════════════════
@@ -672,10 +1099,10 @@ export class BotOrchestrator {
         this.onScanCompleted(botId, userId, event.eligible, event.entered);
         break;
       case "engine:started":
-        eventBus.emitBotEvent("engine:started", botId, userId);
+        void this.publish("engine:started", botId, userId);
         break;
       case "engine:stopped":
-        eventBus.emitBotEvent("engine:stopped", botId, userId, {
+        void this.publish("engine:stopped", botId, userId, {
           stats: this.serializeStats(event.stats),
         });
         break;
@@ -721,22 +1148,8 @@ export class BotOrchestrator {
           profitTargetPercent: position.profitTargetPercent,
           stopLossPercent: position.stopLossPercent,
           maxHoldTimeMinutes: position.maxHoldTimeMinutes,
-        });
-
-      // Log to trade_log
-      await db.insert(tradeLog)
-        .values({
-          botId,
-          userId,
-          positionId: position.id,
-          event: "position_opened",
-          details: JSON.stringify({
-            pool: position.poolName,
-            poolAddress: position.poolAddress,
-            entryPrice: position.entryPricePerToken,
-            score: score.totalScore,
-            amountY: position.entryAmountY.toString(),
-          }),
+          rebalanceId: position.rebalanceId ?? null,
+          rebalancedFromPositionId: position.rebalancedFromPositionId ?? null,
         });
 
       // Update bot activity
@@ -750,12 +1163,21 @@ export class BotOrchestrator {
       // Persist virtual balance after deduction (simulation mode)
       this.persistVirtualBalance(botId);
 
-      // Emit event for WebSocket
-      eventBus.emitBotEvent("position:opened", botId, userId, {
+      // Journal + emit (a rebalance re-entry carries the link to its close leg)
+      await this.publish("position:opened", botId, userId, {
         positionId: position.id,
         pool: position.poolName,
+        poolAddress: position.poolAddress,
         entryPrice: position.entryPricePerToken,
         score: score.totalScore,
+        amountY: position.entryAmountY.toString(),
+        ...(position.rebalanceId
+          ? {
+            rebalanceId: position.rebalanceId,
+            rebalanceLeg: "open",
+            rebalancedFrom: position.rebalancedFromPositionId,
+          }
+          : {}),
       });
     } catch (error) {
       log.error(
@@ -786,6 +1208,7 @@ export class BotOrchestrator {
           exitTimestamp: position.exitTimestamp ?? Date.now(),
           exitReason: position.exitReason,
           realizedPnlLamports: pnlLamports.toNumber(),
+          rebalanceId: position.rebalanceId ?? null,
           feesEarnedXLamports: position.feesEarnedX?.toNumber() ?? 0,
           feesEarnedYLamports: position.feesEarnedY?.toNumber() ?? 0,
           txCostLamports:
@@ -811,38 +1234,32 @@ export class BotOrchestrator {
           .where(eq(bots.botId, botId));
       }
 
-      // Log to trade_log
-      await db.insert(tradeLog)
-        .values({
-          botId,
-          userId,
-          positionId: position.id,
-          event: "position_closed",
-          details: JSON.stringify({
-            pool: position.poolName,
-            exitPrice: position.exitPricePerToken,
-            reason: position.exitReason,
-            pnlLamports: pnlLamports.toString(),
-            pnlSol: (pnlLamports.toNumber() / LAMPORTS_PER_SOL).toFixed(6),
-            result: isWin ? "WIN" : "LOSS",
-          }),
-        });
-
-      // Emit event
+      // Journal + emit
       const pnlSol = pnlLamports.toNumber() / LAMPORTS_PER_SOL;
-      eventBus.emitBotEvent("position:closed", botId, userId, {
+      await this.publish("position:closed", botId, userId, {
         positionId: position.id,
         pool: position.poolName,
         exitPrice: position.exitPricePerToken,
         reason: position.exitReason,
+        pnlLamports: pnlLamports.toString(),
         pnlSol,
         result: isWin ? "WIN" : "LOSS",
+        ...(position.rebalanceId
+          ? { rebalanceId: position.rebalanceId, rebalanceLeg: "close" }
+          : {}),
       });
 
       // Persist EmergencyStop state after trade result is recorded
       // (the TradingEngine calls emergencyStop.recordTradeResult before emitting this event)
       this.persistEmergencyStopState(botId);
 
+      // Count toward the user's daily loss across all bots
+      await portfolioRisk.recordTradeResult(
+        userId,
+        position.mode === "LIVE" ? "live" : "simulation",
+        pnlSol
+      );
+
       // Persist virtual balance after PnL credit (simulation mode)
       this.persistVirtualBalance(botId);
     } catch (error) {
@@ -905,7 +1322,7 @@ export class BotOrchestrator {
   ): Promise<void> {
     // Only emit events for scans that resulted in entries
     if (entered > 0) {
-      eventBus.emitBotEvent("scan:completed", botId, userId, {
+      await this.publish("scan:completed", botId, userId, {
         eligible,
         entered,
       });
@@ -936,17 +1353,32 @@ export class BotOrchestrator {
       })
       .where(eq(bots.botId, botId));
 
-    eventBus.emitBotEvent("engine:error", botId, userId, { error });
+    await this.publish("engine:error", botId, userId, { error });
   }
 
   // ═══════════════════════════════════════════════════════════════
   // Helpers
   // ═══════════════════════════════════════════════════════════════
 
+  /**
+   * Journal an event to trade_log (assigning its seq), then emit it.
+   * A failed insert still emits — live clients just get no seq.
+   */
+  private async publish(
+    type: BotEventType,
+    botId: string,
+    userId: number,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    const seq = await eventJournal.record(type, botId, userId, data);
+    eventBus.emitBotEvent(type, botId, userId, data, seq);
+  }
+
   /**
    * Convert a DB bot row to BotConfig.
+   * Public so the backtester can replay a bot with its stored config.
    */
-  private botRowToConfig(row: BotRow): BotConfig {
+  botRowToConfig(row: BotRow): BotConfig {
     return {
       mode: row.mode === "live" ? "LIVE" : "SIMULATION",
       rpcEndpoint: config.SOLANA_RPC_URL,
@@ -954,6 +1386,7 @@ export class BotOrchestrator {
 
       // Entry criteria
       entryScoreThreshold: row.entryScoreThreshold,
+      scorer: { name: row.scorer, params: row.scorerParams ?? undefined },
       minVolume24h: row.minVolume24h,
       minLiquidity: row.minLiquidity,
       maxLiquidity: row.maxLiquidity,
@@ -964,9 +1397,13 @@ export class BotOrchestrator {
 
       // Position sizing
       positionSizeSOL: row.positionSizeSOL,
-      maxPositionSOL: row.positionSizeSOL * 2,
+      maxPositionSOL: row.maxSinglePositionSOL ?? row.positionSizeSOL * 2,
       minPositionSOL: 0.05,
       defaultBinRange: row.defaultBinRange,
+      strategyType: row.strategyType,
+      depositMode: row.depositMode,
+      binsBelow: row.binsBelow ?? undefined,
+      binsAbove: row.binsAbove ?? undefined,
 
       // Risk management
       profitTargetPercent: row.profitTargetPercent,
@@ -975,6 +1412,19 @@ export class BotOrchestrator {
       maxConcurrentPositions: row.maxConcurrentPositions,
       maxDailyLossSOL: row.maxDailyLossSOL,
       cooldownMinutes: row.cooldownMinutes,
+      outOfRangeAction: row.outOfRangeAction,
+      outOfRangeMinutes: row.outOfRangeMinutes,
+
+      // Safety thresholds
+      maxTotalLossSOL: row.maxTotalLossSOL ?? undefined,
+      maxConsecutiveLosses: row.maxConsecutiveLosses,
+      maxTxFailuresPerHour: row.maxTxFailuresPerHour,
+      maxApiErrorsPerHour: row.maxApiErrorsPerHour,
+      maxPositionsPerPool: row.maxPositionsPerPool,
+      maxTotalExposureSOL: row.maxTotalExposureSOL ?? undefined,
+      maxTxPerMinute: row.maxTxPerMinute,
+      minTimeBetweenTradesMs: row.minTimeBetweenTradesMs,
+      maxApiCallsPerMinute: row.maxApiCallsPerMinute,
 
       // Scheduler
       cronIntervalSeconds: row.cronIntervalSeconds,
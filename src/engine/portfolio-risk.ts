@@ -0,0 +1,406 @@
+/**
+ * PortfolioRiskGate — per-user risk limits shared by all of a user's bots.
+ *
+ * EmergencyStop and CircuitBreaker live per bot, so a user running five
+ * bots could lose five daily limits. This gate sits behind them: every
+ * engine consults it before entering a position (see IEntryGate). Limits
+ * are stored in `user_risk_limits`:
+ *
+ *  - max total exposure   — SOL in open positions across bots
+ *  - max daily loss       — net P&L since 00:00 UTC across bots
+ *  - max concurrent positions across bots
+ *  - per-token exposure   — SOL in positions of one token X mint
+ *
+ * Exposure and position counts are read from `positions` on every check,
+ * so bots running on other replicas count too. Opens still in flight —
+ * position jobs not yet (or only just) recorded as a position — count as
+ * well. The authoritative check runs in reserveEntry(), under a per-user
+ * advisory lock in the same transaction that enqueues the open job, so
+ * two bots can't both pass a limit only one of them fits under.
+ *
+ * Daily P&L is added up on every close into the row's `risk_state` (under
+ * a row lock), so it survives restarts like a bot's emergencyStopState.
+ * Simulation and live bots are accounted separately — virtual losses never
+ * block real trading.
+ */
+
+import { and, eq, gt, inArray, or, sql } from "drizzle-orm";
+import db, { type Database, type Transaction } from "../db/index.js";
+import { bots, positionJobs, positions, userRiskLimits } from "../db/schema.js";
+import { LAMPORTS_PER_SOL, type EntryRequest, type IEntryGate } from "./types.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "portfolio-risk" });
+
+/** Statuses whose funds are still deployed */
+const OPEN_STATUSES = ["pending", "active", "closing", "orphaned"] as const;
+
+/**
+ * A confirmed open job counts until its positions row appears — give up
+ * after this long (the row was lost, e.g. a crash between the two writes).
+ */
+const CONFIRMED_JOB_GRACE_SECONDS = 300;
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export type RiskMode = "simulation" | "live";
+
+type LimitsRow = typeof userRiskLimits.$inferSelect;
+
+export interface PortfolioRiskState {
+  /** ISO date (YYYY-MM-DD) the daily P&L belongs to — resets at midnight UTC */
+  dailyResetDate: string;
+  dailyPnlSOL: Record<RiskMode, number>;
+}
+
+export interface PortfolioExposure {
+  positions: number;
+  exposureSol: number;
+  byToken: Record<string, { positions: number; exposureSol: number }>;
+}
+
+export interface PortfolioLimits {
+  maxTotalExposureSol: number | null;
+  maxDailyLossSol: number | null;
+  maxConcurrentPositions: number | null;
+  maxTokenExposureSol: number | null;
+  tokenExposureCaps: Record<string, number>;
+}
+
+const NO_LIMITS: PortfolioLimits = {
+  maxTotalExposureSol: null,
+  maxDailyLossSol: null,
+  maxConcurrentPositions: null,
+  maxTokenExposureSol: null,
+  tokenExposureCaps: {},
+};
+
+function createInitialState(now: number = Date.now()): PortfolioRiskState {
+  return {
+    dailyResetDate: new Date(now).toISOString().slice(0, 10),
+    dailyPnlSOL: { simulation: 0, live: 0 },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PortfolioRiskGate Singleton
+// ═══════════════════════════════════════════════════════════════
+
+export class PortfolioRiskGate {
+  private static instance: PortfolioRiskGate | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PortfolioRiskGate {
+    if (!PortfolioRiskGate.instance) {
+      PortfolioRiskGate.instance = new PortfolioRiskGate();
+    }
+    return PortfolioRiskGate.instance;
+  }
+
+  /** The gate one bot's engine consults before every entry. */
+  gateFor(userId: number, mode: RiskMode): IEntryGate {
+    return { canEnter: (entry) => this.canEnter(userId, mode, entry) };
+  }
+
+  // ── Primary Gate ──
+
+  /**
+   * Check an entry against the user's limits. Fails closed: if the limits
+   * can't be read, the entry is refused. A pre-check only — see
+   * reserveEntry() for the one that holds.
+   */
+  async canEnter(
+    userId: number,
+    mode: RiskMode,
+    entry: EntryRequest
+  ): Promise<{ allowed: boolean; reason?: string }> {
+    try {
+      return await this.check(db, userId, mode, entry);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.error({ userId, err: message }, "Portfolio risk check failed");
+      return { allowed: false, reason: `Portfolio risk check failed: ${message}` };
+    }
+  }
+
+  /**
+   * Check an entry and, if it's allowed, run `reserve` (enqueue the open
+   * job) in the same transaction under a per-user advisory lock. Entries
+   * of one user's bots — on any replica — are checked one at a time, each
+   * seeing the jobs reserved before it. Fails closed like canEnter().
+   */
+  async reserveEntry<T>(
+    userId: number,
+    mode: RiskMode,
+    entry: EntryRequest,
+    reserve: (tx: Transaction) => Promise<T>
+  ): Promise<{ allowed: true; value: T } | { allowed: false; reason: string }> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('portfolio-risk'), ${userId}::int)`);
+        const check = await this.check(tx, userId, mode, entry);
+        if (!check.allowed) {
+          return { allowed: false as const, reason: check.reason ?? "Portfolio risk limit reached" };
+        }
+        return { allowed: true as const, value: await reserve(tx) };
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.error({ userId, err: message }, "Portfolio risk reservation failed");
+      return { allowed: false, reason: `Portfolio risk check failed: ${message}` };
+    }
+  }
+
+  private async check(
+    conn: Database | Transaction,
+    userId: number,
+    mode: RiskMode,
+    entry: EntryRequest
+  ): Promise<{ allowed: boolean; reason?: string }> {
+    const row = await this.getRow(userId, conn);
+    const limits = row ? toLimits(row) : NO_LIMITS;
+    if (!hasAnyLimit(limits)) return { allowed: true };
+
+    // 1. Daily loss across bots
+    const dailyPnl = PortfolioRiskGate.deserializeState(row?.riskState ?? null)
+      .dailyPnlSOL[mode];
+    if (limits.maxDailyLossSol !== null && dailyPnl <= -limits.maxDailyLossSol) {
+      return {
+        allowed: false,
+        reason: `Portfolio daily loss limit reached: ${dailyPnl.toFixed(4)} SOL (limit: -${limits.maxDailyLossSol} SOL)`,
+      };
+    }
+
+    const exposure = await this.getExposure(userId, mode, conn);
+    const amountSol = entry.amountLamports.toNumber() / LAMPORTS_PER_SOL;
+
+    // 2. Concurrent positions across bots
+    if (
+      limits.maxConcurrentPositions !== null &&
+      exposure.positions >= limits.maxConcurrentPositions
+    ) {
+      return {
+        allowed: false,
+        reason: `Portfolio position limit reached: ${exposure.positions}/${limits.maxConcurrentPositions} across bots`,
+      };
+    }
+
+    // 3. Total exposure across bots
+    const totalAfter = exposure.exposureSol + amountSol;
+    if (limits.maxTotalExposureSol !== null && totalAfter > limits.maxTotalExposureSol) {
+      return {
+        allowed: false,
+        reason: `Portfolio exposure would be ${totalAfter.toFixed(4)} SOL (limit: ${limits.maxTotalExposureSol} SOL)`,
+      };
+    }
+
+    // 4. Exposure to this token
+    const tokenCap =
+      limits.tokenExposureCaps[entry.tokenXMint] ?? limits.maxTokenExposureSol;
+    if (tokenCap !== null) {
+      const tokenAfter = (exposure.byToken[entry.tokenXMint]?.exposureSol ?? 0) + amountSol;
+      if (tokenAfter > tokenCap) {
+        return {
+          allowed: false,
+          reason: `Exposure to ${entry.tokenXMint.slice(0, 8)}… would be ${tokenAfter.toFixed(4)} SOL (limit: ${tokenCap} SOL)`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // ── Recording Events ──
+
+  /**
+   * Add a closed position's P&L to the user's daily total. Never throws —
+   * a failure is logged and the close goes on.
+   */
+  async recordTradeResult(userId: number, mode: RiskMode, pnlSOL: number): Promise<void> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.insert(userRiskLimits).values({ userId }).onConflictDoNothing();
+        const [row] = await tx
+          .select({ riskState: userRiskLimits.riskState })
+          .from(userRiskLimits)
+          .where(eq(userRiskLimits.userId, userId))
+          .for("update");
+
+        const state = PortfolioRiskGate.deserializeState(row?.riskState ?? null);
+        state.dailyPnlSOL[mode] += pnlSOL;
+
+        await tx
+          .update(userRiskLimits)
+          .set({ riskState: JSON.stringify(state) })
+          .where(eq(userRiskLimits.userId, userId));
+      });
+    } catch (err) {
+      log.error(
+        { userId, mode, pnlSOL, err: err instanceof Error ? err.message : String(err) },
+        "Failed to record portfolio trade result"
+      );
+    }
+  }
+
+  // ── State Access ──
+
+  async getLimits(userId: number): Promise<PortfolioLimits> {
+    const row = await this.getRow(userId);
+    return row ? toLimits(row) : { ...NO_LIMITS };
+  }
+
+  /**
+   * Limits plus current usage per mode, for API responses.
+   */
+  async getStatus(userId: number): Promise<{
+    limits: PortfolioLimits;
+    dailyResetDate: string;
+    usage: Record<RiskMode, PortfolioExposure & { dailyPnlSol: number }>;
+  }> {
+    const row = await this.getRow(userId);
+    const state = PortfolioRiskGate.deserializeState(row?.riskState ?? null);
+    const [simulation, live] = await Promise.all([
+      this.getExposure(userId, "simulation"),
+      this.getExposure(userId, "live"),
+    ]);
+
+    return {
+      limits: row ? toLimits(row) : { ...NO_LIMITS },
+      dailyResetDate: state.dailyResetDate,
+      usage: {
+        simulation: { ...simulation, dailyPnlSol: state.dailyPnlSOL.simulation },
+        live: { ...live, dailyPnlSol: state.dailyPnlSOL.live },
+      },
+    };
+  }
+
+  /**
+   * Open positions of the user's bots in one mode, plus opens in flight,
+   * grouped by token X mint.
+   */
+  async getExposure(
+    userId: number,
+    mode: RiskMode,
+    conn: Database | Transaction = db
+  ): Promise<PortfolioExposure> {
+    const rows = await conn
+      .select({
+        tokenXMint: positions.tokenXMint,
+        positions: sql<number>`count(*)::int`,
+        lamports: sql<number>`coalesce(sum(${positions.entryAmountXLamports} + ${positions.entryAmountYLamports}), 0)::float8`,
+      })
+      .from(positions)
+      .innerJoin(bots, eq(bots.botId, positions.botId))
+      .where(
+        and(
+          eq(positions.userId, userId),
+          eq(bots.mode, mode),
+          inArray(positions.status, [...OPEN_STATUSES])
+        )
+      )
+      .groupBy(positions.tokenXMint);
+
+    const exposure: PortfolioExposure = { positions: 0, exposureSol: 0, byToken: {} };
+    for (const row of rows) {
+      const exposureSol = row.lamports / LAMPORTS_PER_SOL;
+      exposure.positions += row.positions;
+      exposure.exposureSol += exposureSol;
+      exposure.byToken[row.tokenXMint] = { positions: row.positions, exposureSol };
+    }
+
+    const inFlight = await conn
+      .select({ params: positionJobs.params })
+      .from(positionJobs)
+      .where(
+        and(
+          eq(positionJobs.userId, userId),
+          eq(positionJobs.mode, mode),
+          eq(positionJobs.kind, "open"),
+          or(
+            inArray(positionJobs.status, ["queued", "submitted"]),
+            and(
+              eq(positionJobs.status, "confirmed"),
+              gt(positionJobs.completedAt, sql`now() - make_interval(secs => ${CONFIRMED_JOB_GRACE_SECONDS})`),
+              sql`NOT EXISTS (SELECT 1 FROM ${positions} WHERE ${positions.positionId} = ${positionJobs.positionId})`
+            )
+          )
+        )
+      );
+    for (const { params } of inFlight) {
+      const exposureSol =
+        (Number(params.amountXLamports ?? 0) + Number(params.amountYLamports ?? 0)) / LAMPORTS_PER_SOL;
+      const token = (exposure.byToken[params.tokenXMint ?? "unknown"] ??= { positions: 0, exposureSol: 0 });
+      token.positions++;
+      token.exposureSol += exposureSol;
+      exposure.positions++;
+      exposure.exposureSol += exposureSol;
+    }
+    return exposure;
+  }
+
+  private async getRow(userId: number, conn: Database | Transaction = db): Promise<LimitsRow | null> {
+    const [row] = await conn
+      .select()
+      .from(userRiskLimits)
+      .where(eq(userRiskLimits.userId, userId));
+    return row ?? null;
+  }
+
+  // ── Persistence ──
+
+  /**
+   * Restore state from its serialized JSON, rolled over to today (UTC).
+   * Missing or malformed state starts fresh.
+   */
+  static deserializeState(json: string | null, now: number = Date.now()): PortfolioRiskState {
+    const today = createInitialState(now);
+    if (!json) return today;
+    try {
+      const parsed = JSON.parse(json);
+      if (
+        typeof parsed.dailyResetDate !== "string" ||
+        typeof parsed.dailyPnlSOL?.simulation !== "number" ||
+        typeof parsed.dailyPnlSOL?.live !== "number"
+      ) {
+        return today;
+      }
+      return parsed.dailyResetDate === today.dailyResetDate
+        ? (parsed as PortfolioRiskState)
+        : today;
+    } catch {
+      return today;
+    }
+  }
+
+  /**
+   * Reset the singleton (for testing).
+   */
+  static reset(): void {
+    PortfolioRiskGate.instance = null;
+  }
+}
+
+function toLimits(row: LimitsRow): PortfolioLimits {
+  return {
+    maxTotalExposureSol: row.maxTotalExposureSol,
+    maxDailyLossSol: row.maxDailyLossSol,
+    maxConcurrentPositions: row.maxConcurrentPositions,
+    maxTokenExposureSol: row.maxTokenExposureSol,
+    tokenExposureCaps: row.tokenExposureCaps,
+  };
+}
+
+function hasAnyLimit(limits: PortfolioLimits): boolean {
+  return (
+    limits.maxTotalExposureSol !== null ||
+    limits.maxDailyLossSol !== null ||
+    limits.maxConcurrentPositions !== null ||
+    limits.maxTokenExposureSol !== null ||
+    Object.keys(limits.tokenExposureCaps).length > 0
+  );
+}
+
+export const portfolioRisk = PortfolioRiskGate.getInstance();
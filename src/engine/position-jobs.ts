@@ -0,0 +1,489 @@
+/**
+ * PositionJobQueue — durable journal for open / close / rebalance.
+ *
+ * Every executor call that can move funds is written to `position_jobs`
+ * before it runs, keyed by an idempotency key so the same position can't
+ * be closed (or a rebalance re-entered) twice:
+ *
+ *   queued     → row written, executor not called yet
+ *   submitted  → executor running; each tx signature is appended before
+ *                it is sent, the DLMM position key before the create tx
+ *   confirmed  → executor reported success
+ *   failed     → executor reported failure (a failed key may be retried)
+ *
+ * Jobs still queued / submitted when their process died are settled by
+ * `resumeInterrupted()` on startup and on lease takeover: the position
+ * account and the recorded signatures are checked on-chain, and the job is
+ * either finished (DB brought in line with the chain) or rolled back.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { v4 as uuidv4 } from "uuid";
+import { PublicKey, type Connection } from "@solana/web3.js";
+import { and, eq, inArray, isNull, lt, notInArray, or, sql } from "drizzle-orm";
+import db, { type Database, type Transaction } from "../db/index.js";
+import {
+  botLeases,
+  positionJobs as positionJobsTable,
+  positions,
+  type PositionJobParams,
+} from "../db/schema.js";
+import { logger } from "../middleware/logger.js";
+import { botLeaseManager } from "./bot-lease.js";
+
+const log = logger.child({ module: "position-jobs" });
+
+/**
+ * A submitted job whose signatures aren't known to the cluster yet may
+ * still land until its blockhash expires (~60–90s) — leave it until then.
+ */
+const PENDING_GRACE_MS = 120_000;
+
+export type PositionJob = typeof positionJobsTable.$inferSelect;
+export type PositionJobKind = PositionJob["kind"];
+
+export interface EnqueueJobInput {
+  idempotencyKey: string;
+  botId: string;
+  userId: number;
+  kind: PositionJobKind;
+  mode: PositionJob["mode"];
+  poolAddress: string;
+  positionId?: string;
+  onChainPositionKey?: string;
+  params: PositionJobParams;
+}
+
+export interface JobOutcome {
+  success: boolean;
+  positionId?: string;
+  error?: string;
+}
+
+export interface ResumeSummary {
+  finished: number;
+  rolledBack: number;
+  pending: number;
+}
+
+interface LandedTx {
+  signature: string;
+  slot: number;
+}
+
+type Settlement =
+  | { status: "confirmed" | "failed"; resolution: string }
+  | { status: "pending" };
+
+// ═══════════════════════════════════════════════════════════════
+// PositionJobQueue Singleton
+// ═══════════════════════════════════════════════════════════════
+
+class PositionJobQueue {
+  private static instance: PositionJobQueue | null = null;
+
+  /** The job whose executor call is on the current async stack */
+  private current = new AsyncLocalStorage<PositionJob>();
+
+  private constructor() {}
+
+  static getInstance(): PositionJobQueue {
+    if (!PositionJobQueue.instance) {
+      PositionJobQueue.instance = new PositionJobQueue();
+    }
+    return PositionJobQueue.instance;
+  }
+
+  // ── Lifecycle ──
+
+  /**
+   * Write a queued job. Returns null when the key already belongs to a job
+   * that is in flight or confirmed; a failed job with the key is re-queued.
+   */
+  async enqueue(
+    input: EnqueueJobInput,
+    conn: Database | Transaction = db
+  ): Promise<PositionJob | null> {
+    const [job] = await conn
+      .insert(positionJobsTable)
+      .values({
+        ...input,
+        jobId: uuidv4(),
+        instanceId: botLeaseManager.instanceId,
+      })
+      .onConflictDoUpdate({
+        target: positionJobsTable.idempotencyKey,
+        set: {
+          status: "queued",
+          instanceId: botLeaseManager.instanceId,
+          params: input.params,
+          onChainPositionKey: input.onChainPositionKey ?? null,
+          txSignatures: [],
+          attempts: sql`${positionJobsTable.attempts} + 1`,
+          error: null,
+          resolution: null,
+          submittedAt: null,
+          completedAt: null,
+          updatedAt: new Date(),
+        },
+        setWhere: eq(positionJobsTable.status, "failed"),
+      })
+      .returning();
+
+    if (!job) {
+      log.warn({ idempotencyKey: input.idempotencyKey }, "Duplicate position job rejected");
+      return null;
+    }
+    return job;
+  }
+
+  /**
+   * Mark the job submitted and run the executor call with it as the
+   * current job, so signatures sent inside are journaled against it.
+   * A throw fails the job and is rethrown.
+   */
+  async run<T>(job: PositionJob, fn: () => Promise<T>): Promise<T> {
+    await db
+      .update(positionJobsTable)
+      .set({ status: "submitted", submittedAt: new Date(), updatedAt: new Date() })
+      .where(eq(positionJobsTable.id, job.id));
+
+    try {
+      return await this.current.run(job, fn);
+    } catch (err) {
+      await this.complete(job, {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  }
+
+  /** Record the executor's verdict. Never throws — the trade already happened. */
+  async complete(job: PositionJob, outcome: JobOutcome): Promise<void> {
+    try {
+      await db
+        .update(positionJobsTable)
+        .set({
+          status: outcome.success ? "confirmed" : "failed",
+          ...(outcome.positionId ? { positionId: outcome.positionId } : {}),
+          error: outcome.error ?? null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(positionJobsTable.id, job.id));
+    } catch (err) {
+      log.error(
+        { jobId: job.jobId, err: err instanceof Error ? err.message : String(err) },
+        "Failed to record position job outcome"
+      );
+    }
+  }
+
+  // ── Journaling from inside the executor ──
+
+  /**
+   * Append a signature to the current job. Called by TransactionSender
+   * right before each send — if this throws, the tx is not sent.
+   * No-op outside a job (swaps of leftovers, withdrawals, …).
+   */
+  async noteTransaction(signature: string): Promise<void> {
+    const job = this.current.getStore();
+    if (!job) return;
+
+    await db
+      .update(positionJobsTable)
+      .set({
+        txSignatures: sql`${positionJobsTable.txSignatures} || ${JSON.stringify([signature])}::jsonb`,
+        updatedAt: new Date(),
+      })
+      .where(eq(positionJobsTable.id, job.id));
+  }
+
+  /** Record the DLMM position account an open is about to create. */
+  async notePositionKey(positionKey: string): Promise<void> {
+    const job = this.current.getStore();
+    if (!job) return;
+
+    await db
+      .update(positionJobsTable)
+      .set({ onChainPositionKey: positionKey, updatedAt: new Date() })
+      .where(eq(positionJobsTable.id, job.id));
+  }
+
+  // ── Recovery ──
+
+  /**
+   * Settle jobs left queued / submitted by a process that is gone: any job
+   * whose bot has no live lease, or a lease of ours for a bot we aren't
+   * running (a restart that reused INSTANCE_ID).
+   */
+  async resumeInterrupted(
+    connection: Connection,
+    localBotIds: string[] = []
+  ): Promise<ResumeSummary> {
+    const summary: ResumeSummary = { finished: 0, rolledBack: 0, pending: 0 };
+
+    const rows = await db
+      .select({ job: positionJobsTable })
+      .from(positionJobsTable)
+      .leftJoin(botLeases, eq(botLeases.botId, positionJobsTable.botId))
+      .where(
+        and(
+          inArray(positionJobsTable.status, ["queued", "submitted"]),
+          or(
+            isNull(botLeases.botId),
+            lt(botLeases.expiresAt, sql`now()`),
+            and(
+              eq(botLeases.instanceId, botLeaseManager.instanceId),
+              localBotIds.length > 0
+                ? notInArray(positionJobsTable.botId, localBotIds)
+                : undefined
+            )
+          )
+        )
+      )
+      .orderBy(positionJobsTable.id);
+
+    for (const { job } of rows) {
+      try {
+        const settlement = await this.settle(connection, job);
+        if (settlement.status === "pending") {
+          summary.pending++;
+          continue;
+        }
+
+        // Guarded on status so two instances settling at once can't both win
+        const [updated] = await db
+          .update(positionJobsTable)
+          .set({
+            status: settlement.status,
+            resolution: settlement.resolution,
+            ...(settlement.status === "failed"
+              ? { error: job.error ?? "Interrupted by restart" }
+              : {}),
+            completedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(positionJobsTable.id, job.id),
+              inArray(positionJobsTable.status, ["queued", "submitted"])
+            )
+          )
+          .returning({ id: positionJobsTable.id });
+        if (!updated) continue;
+
+        if (settlement.status === "confirmed") summary.finished++;
+        else summary.rolledBack++;
+
+        log.warn(
+          {
+            jobId: job.jobId,
+            botId: job.botId,
+            kind: job.kind,
+            status: settlement.status,
+            resolution: settlement.resolution,
+          },
+          "Interrupted position job settled"
+        );
+      } catch (err) {
+        log.error(
+          { jobId: job.jobId, err: err instanceof Error ? err.message : String(err) },
+          "Failed to settle interrupted position job"
+        );
+      }
+    }
+
+    if (rows.length > 0) {
+      log.info(summary, "Interrupted position jobs processed");
+    }
+    return summary;
+  }
+
+  /**
+   * Decide one job against the chain and apply the DB side of the
+   * decision to `positions`. The job row itself is updated by the caller.
+   */
+  private async settle(connection: Connection, job: PositionJob): Promise<Settlement> {
+    const isClose = job.kind !== "open";
+
+    // Nothing left the process: simulation, or crashed before the first send
+    if (job.mode === "simulation" || job.txSignatures.length === 0) {
+      if (isClose && job.positionId) await this.markOrphaned(job.positionId);
+      return {
+        status: "failed",
+        resolution: job.mode === "simulation"
+          ? "Simulation job interrupted by restart — rolled back"
+          : "No transaction was sent — rolled back",
+      };
+    }
+
+    const { value: statuses } = await connection.getSignatureStatuses(
+      job.txSignatures,
+      { searchTransactionHistory: true }
+    );
+    const landed: LandedTx[] = [];
+    job.txSignatures.forEach((signature, i) => {
+      const status = statuses[i];
+      if (status && !status.err && status.confirmationStatus !== "processed") {
+        landed.push({ signature, slot: status.slot });
+      }
+    });
+    const lastLanded = landed.length > 0 ? landed[landed.length - 1] : null;
+    const unknown = statuses.some((status) => status === null);
+    const lastActivity = job.updatedAt.getTime();
+    if (landed.length === 0 && unknown && Date.now() - lastActivity < PENDING_GRACE_MS) {
+      return { status: "pending" };
+    }
+
+    let positionKey = job.onChainPositionKey;
+    if (!positionKey && isClose && job.positionId) {
+      const [row] = await db
+        .select({ key: positions.onChainPositionKey })
+        .from(positions)
+        .where(eq(positions.positionId, job.positionId));
+      positionKey = row?.key ?? null;
+    }
+    const accountExists = positionKey
+      ? (await connection.getAccountInfo(new PublicKey(positionKey))) !== null
+      : null;
+
+    if (isClose) {
+      // Position account gone (or, without a key, a signature landed) → it closed
+      const closed = accountExists === null ? landed.length > 0 : !accountExists;
+      if (!closed) {
+        if (job.positionId) await this.markOrphaned(job.positionId);
+        return {
+          status: "failed",
+          resolution: "Close did not land — position is still open on-chain and marked orphaned",
+        };
+      }
+      if (job.positionId) {
+        await this.markClosed(connection, job, lastLanded);
+      }
+      return {
+        status: "confirmed",
+        resolution: job.kind === "rebalance"
+          ? "Close confirmed on-chain after restart — position closed, re-entry was not attempted"
+          : "Close confirmed on-chain after restart — position marked closed",
+      };
+    }
+
+    if (!accountExists || !positionKey) {
+      return {
+        status: "failed",
+        resolution: landed.length > 0
+          ? "Position was never created — rolled back; a swap leg landed, so swapped tokens remain in the wallet"
+          : "Position was never created — rolled back",
+      };
+    }
+
+    const positionId = await this.recordOrphanedOpen(job, positionKey, lastLanded?.signature ?? null);
+    await db
+      .update(positionJobsTable)
+      .set({ positionId })
+      .where(eq(positionJobsTable.id, job.id));
+    return {
+      status: "confirmed",
+      resolution: "Position found on-chain after restart — recorded as orphaned",
+    };
+  }
+
+  /** An interrupted close leaves the position open and untracked. */
+  private async markOrphaned(positionId: string): Promise<void> {
+    await db
+      .update(positions)
+      .set({ status: "orphaned", updatedAt: new Date() })
+      .where(
+        and(
+          eq(positions.positionId, positionId),
+          inArray(positions.status, ["active", "closing", "pending"])
+        )
+      );
+  }
+
+  /**
+   * Close landed but the process died before recording it. P&L isn't
+   * recoverable from the close tx alone, so it's left unset.
+   */
+  private async markClosed(
+    connection: Connection,
+    job: PositionJob,
+    tx: LandedTx | null
+  ): Promise<void> {
+    let exitTimestamp = job.submittedAt?.getTime() ?? Date.now();
+    if (tx) {
+      const blockTime = await connection.getBlockTime(tx.slot).catch(() => null);
+      if (blockTime) exitTimestamp = blockTime * 1000;
+    }
+
+    await db
+      .update(positions)
+      .set({
+        status: "closed",
+        exitTimestamp,
+        exitTxSignature: tx?.signature ?? null,
+        exitReason: job.params.reason ?? "RECOVERED_CLOSE",
+        rebalanceId: job.params.rebalanceId ?? undefined,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(positions.positionId, job.positionId!),
+          inArray(positions.status, ["active", "closing", "pending", "orphaned"])
+        )
+      );
+  }
+
+  /**
+   * Open landed but the process died before the positions row was written.
+   * Insert it as orphaned (nothing tracks it after the restart) unless the
+   * row made it in. Returns the position ID.
+   */
+  private async recordOrphanedOpen(
+    job: PositionJob,
+    positionKey: string,
+    signature: string | null
+  ): Promise<string> {
+    const [existing] = await db
+      .select({ positionId: positions.positionId })
+      .from(positions)
+      .where(eq(positions.onChainPositionKey, positionKey));
+    if (existing) return existing.positionId;
+
+    const { params } = job;
+    const positionId = uuidv4();
+    await db.insert(positions).values({
+      positionId,
+      botId: job.botId,
+      userId: job.userId,
+      status: "orphaned",
+      poolAddress: job.poolAddress,
+      poolName: params.poolName ?? job.poolAddress.slice(0, 8),
+      tokenXMint: params.tokenXMint ?? "",
+      tokenYMint: params.tokenYMint ?? "",
+      binStep: params.binStep ?? 0,
+      onChainPositionKey: positionKey,
+      entryTimestamp: (job.submittedAt ?? job.createdAt).getTime(),
+      entryAmountXLamports: Number(params.amountXLamports ?? 0),
+      entryAmountYLamports: Number(params.amountYLamports ?? 0),
+      entryTxSignature: signature,
+      profitTargetPercent: params.profitTargetPercent ?? 0,
+      stopLossPercent: params.stopLossPercent ?? 0,
+      maxHoldTimeMinutes: params.maxHoldTimeMinutes ?? 0,
+      rebalanceId: params.rebalanceId ?? null,
+    });
+    return positionId;
+  }
+
+  /**
+   * Reset the singleton (for testing).
+   */
+  static reset(): void {
+    PositionJobQueue.instance = null;
+  }
+}
+
+export { PositionJobQueue };
+export const positionJobs = PositionJobQueue.getInstance();
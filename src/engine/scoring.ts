@@ -0,0 +1,295 @@
+/**
+ * Scoring — registry of named pool scorers.
+ *
+ * Each bot selects a scorer by name (bots.scorer) plus a JSON params object
+ * (bots.scorer_params) validated against that scorer's zod schema. Missing
+ * params fall back to the schema defaults, so `{ name: "default" }` with no
+ * params reproduces the original FreesolGames-style score exactly.
+ *
+ * To add a scorer: define a params schema + score function and register it
+ * in SCORERS below. Names are part of the API — never rename one.
+ */
+
+import { z } from "zod";
+import type { MarketScore, MeteoraPairData } from "./types.js";
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+/** Component scores (0-100) before weighting */
+interface ScoreComponents {
+  volumeScore: number;
+  liquidityScore: number;
+  feeScore: number;
+  momentumScore: number;
+}
+
+export interface PoolScorer<P = unknown> {
+  name: string;
+  description: string;
+  paramsSchema: z.ZodType<P, z.ZodTypeDef, unknown>;
+  /** Compute weighted total score (same scale as entryScoreThreshold) */
+  score(pool: MeteoraPairData, params: P): ScoreComponents & { totalScore: number };
+}
+
+/** Scorer selection as stored on a bot */
+export interface ScorerSelection {
+  name: string;
+  params?: unknown;
+}
+
+export type ScoreFn = (
+  pool: MeteoraPairData,
+  entryScoreThreshold: number,
+  timestamp?: number
+) => MarketScore;
+
+export const DEFAULT_SCORER = "default";
+
+// ═══════════════════════════════════════════════════════════════
+// Shared schema pieces
+// ═══════════════════════════════════════════════════════════════
+
+const weight = z.number().min(0).max(1);
+
+const weightsSchema = z
+  .object({
+    volume: weight,
+    liquidity: weight,
+    fee: weight,
+    momentum: weight,
+  })
+  .strict()
+  .refine(
+    (w) => w.volume + w.liquidity + w.fee + w.momentum > 0,
+    "At least one weight must be positive"
+  );
+
+type Weights = z.infer<typeof weightsSchema>;
+
+function weighted(components: ScoreComponents, weights: Weights): number {
+  return (
+    components.volumeScore * weights.volume +
+    components.liquidityScore * weights.liquidity +
+    components.feeScore * weights.fee +
+    components.momentumScore * weights.momentum
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// "default" — original FreesolGames-style score
+// ═══════════════════════════════════════════════════════════════
+
+const liquidityBucketSchema = z
+  .object({
+    /** Inclusive lower bound (USD) */
+    min: z.number().nonnegative(),
+    /** Exclusive upper bound (USD), null = unbounded */
+    max: z.number().positive().nullable().default(null),
+    score: z.number().min(0).max(100),
+  })
+  .strict();
+
+const defaultParamsSchema = z
+  .object({
+    weights: weightsSchema.default({
+      volume: 0.35,
+      liquidity: 0.2,
+      fee: 0.25,
+      momentum: 0.2,
+    }),
+    /**
+     * Liquidity buckets, first match wins.
+     * Sweet spot: enough liquidity for real trades but not so much that
+     * LP competition dilutes returns.
+     */
+    liquidityBuckets: z
+      .array(liquidityBucketSchema)
+      .max(20)
+      .default([
+        { min: 500, max: 5_000, score: 90 },
+        { min: 5_000, max: 25_000, score: 80 },
+        { min: 25_000, max: 100_000, score: 65 },
+        { min: 100_000, max: 500_000, score: 50 },
+        { min: 500_000, max: null, score: 35 },
+        { min: 100, max: 500, score: 60 },
+      ]),
+    /** Liquidity score when no bucket matches */
+    liquidityFallbackScore: z.number().min(0).max(100).default(20),
+    /** 1h volume (USD) worth 50 volume points */
+    volume1hNorm: z.number().positive().default(100),
+    /** 24h volume (USD) worth 50 volume points */
+    volume24hNorm: z.number().positive().default(10_000),
+    /** fee score = fees24h / TVL × multiplier */
+    feeTvlMultiplier: z.number().positive().default(1000),
+    /** APR (%) that maps to a full momentum score */
+    aprScale: z.number().positive().default(50),
+    /** Multiplier applied to the weighted total (×2 matches the 150% threshold) */
+    scale: z.number().positive().max(10).default(2),
+  })
+  .strict();
+
+type DefaultParams = z.infer<typeof defaultParamsSchema>;
+
+const defaultScorer: PoolScorer<DefaultParams> = {
+  name: DEFAULT_SCORER,
+  description:
+    "Weighted volume / liquidity bucket / fee-TVL / APR score scaled to the 150% threshold",
+  paramsSchema: defaultParamsSchema,
+  score(pool, params) {
+    const volumeHour = pool.volume?.hour_1 || 0;
+    const volume24h = pool.trade_volume_24h || 0;
+    const volumeScore = Math.min(
+      100,
+      (volumeHour / params.volume1hNorm) * 50 +
+        (volume24h / params.volume24hNorm) * 50
+    );
+
+    const liquidity = parseFloat(pool.liquidity) || 0;
+    const bucket = params.liquidityBuckets.find(
+      (b) => liquidity >= b.min && (b.max === null || liquidity < b.max)
+    );
+    const liquidityScore = bucket?.score ?? params.liquidityFallbackScore;
+
+    const fees24h = pool.fees_24h || 0;
+    const feeTvlRatio = liquidity > 0 ? fees24h / liquidity : 0;
+    const feeScore = Math.min(100, feeTvlRatio * params.feeTvlMultiplier);
+
+    // Most active Meteora DLMM pools have APR 1-100%, exceptional ones 100-500%
+    const apr = pool.apr || 0;
+    const momentumScore = Math.min(100, (apr / params.aprScale) * 100);
+
+    const components = { volumeScore, liquidityScore, feeScore, momentumScore };
+    return {
+      ...components,
+      totalScore: weighted(components, params.weights) * params.scale,
+    };
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════
+// "fee-yield" — ranks by fee yield and turnover relative to TVL
+// ═══════════════════════════════════════════════════════════════
+
+const feeYieldParamsSchema = z
+  .object({
+    weights: weightsSchema.default({
+      volume: 0.3,
+      liquidity: 0.1,
+      fee: 0.45,
+      momentum: 0.15,
+    }),
+    /** Daily fees / TVL that earns a full fee score (0.05 = 5%/day) */
+    targetDailyFeeYield: z.number().positive().max(10).default(0.05),
+    /** Daily volume / TVL that earns a full volume score */
+    targetTurnover: z.number().positive().max(1000).default(5),
+    /** TVL (USD) below which the liquidity score scales down linearly */
+    liquidityFloor: z.number().nonnegative().default(1_000),
+    scale: z.number().positive().max(10).default(2),
+  })
+  .strict();
+
+type FeeYieldParams = z.infer<typeof feeYieldParamsSchema>;
+
+const feeYieldScorer: PoolScorer<FeeYieldParams> = {
+  name: "fee-yield",
+  description:
+    "Fee yield and volume turnover vs TVL, with recent-hour fee acceleration as momentum",
+  paramsSchema: feeYieldParamsSchema,
+  score(pool, params) {
+    const liquidity = parseFloat(pool.liquidity) || 0;
+    const fees24h = pool.fees_24h || 0;
+    const volume24h = pool.trade_volume_24h || 0;
+
+    const feeYield = liquidity > 0 ? fees24h / liquidity : 0;
+    const feeScore = Math.min(100, (feeYield / params.targetDailyFeeYield) * 100);
+
+    const turnover = liquidity > 0 ? volume24h / liquidity : 0;
+    const volumeScore = Math.min(100, (turnover / params.targetTurnover) * 100);
+
+    const liquidityScore =
+      params.liquidityFloor === 0 || liquidity >= params.liquidityFloor
+        ? 100
+        : (liquidity / params.liquidityFloor) * 100;
+
+    // Last hour extrapolated to a day vs the 24h total: 50 = steady, 100 = 2× pace
+    const fees1h = pool.fees?.hour_1 || 0;
+    const momentumScore =
+      fees24h > 0 ? Math.min(100, ((fees1h * 24) / fees24h) * 50) : 0;
+
+    const components = { volumeScore, liquidityScore, feeScore, momentumScore };
+    return {
+      ...components,
+      totalScore: weighted(components, params.weights) * params.scale,
+    };
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════
+// Registry
+// ═══════════════════════════════════════════════════════════════
+
+const SCORERS = new Map<string, PoolScorer>(
+  ([defaultScorer, feeYieldScorer] as PoolScorer[]).map((s) => [s.name, s])
+);
+
+export function isScorerName(name: string): boolean {
+  return SCORERS.has(name);
+}
+
+/** Scorer names + descriptions + default params, for API discovery. */
+export function listScorers(): Array<{
+  name: string;
+  description: string;
+  defaultParams: unknown;
+}> {
+  return Array.from(SCORERS.values()).map((s) => ({
+    name: s.name,
+    description: s.description,
+    defaultParams: s.paramsSchema.parse({}),
+  }));
+}
+
+/**
+ * Validate params for a scorer and fill in defaults.
+ * Throws ZodError on invalid params, Error on an unknown scorer.
+ */
+export function parseScorerParams(name: string, params: unknown): unknown {
+  const scorer = SCORERS.get(name);
+  if (!scorer) throw new Error(`Unknown scorer "${name}"`);
+  return scorer.paramsSchema.parse(params ?? {});
+}
+
+/**
+ * Build a score function for a bot's scorer selection.
+ * Params are parsed once here, not per pool.
+ */
+export function createScoreFn(selection?: ScorerSelection): ScoreFn {
+  const name = selection?.name ?? DEFAULT_SCORER;
+  const scorer = SCORERS.get(name);
+  if (!scorer) throw new Error(`Unknown scorer "${name}"`);
+  const params = scorer.paramsSchema.parse(selection?.params ?? {});
+
+  return (pool, entryScoreThreshold, timestamp = Date.now()) => {
+    const result = scorer.score(pool, params);
+    const meetsThreshold = result.totalScore >= entryScoreThreshold;
+
+    return {
+      poolAddress: pool.address,
+      poolName: pool.name,
+      timestamp,
+      volumeScore: result.volumeScore,
+      liquidityScore: result.liquidityScore,
+      feeScore: result.feeScore,
+      momentumScore: result.momentumScore,
+      totalScore: result.totalScore,
+      meetsThreshold,
+      recommendation: meetsThreshold
+        ? "ENTER"
+        : result.totalScore > 100
+          ? "WAIT"
+          : "SKIP",
+    };
+  };
+}
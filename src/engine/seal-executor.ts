@@ -11,6 +11,8 @@
  *  - Every DLMM instruction → wrapInstruction() → executeViaSession
  *  - Session keypair signs the outer TX (no wallet private key needed)
  *  - Positions are owned by the wallet PDA (CPI invoke_signed)
+ *  - Balanced deposits buy token X with a wrapped in-pool DLMM swap
+ *    (Jupiter's VersionedTransactions can't be wrapped)
  *
  * ⚠️ CRITICAL: This handles REAL MONEY through delegated authority.
  */
@@ -41,7 +43,8 @@ import type {
 } from "./types.js";
 import { SealSession } from "./seal-session.js";
 import { TransactionSender } from "./transaction-sender.js";
-import { MarketDataProvider } from "./market-data.js";
+import { positionJobs } from "./position-jobs.js";
+import { MarketDataProvider, buildSolToTokenXSwap } from "./market-data.js";
 import { EmergencyStop } from "./emergency-stop.js";
 import { CircuitBreaker } from "./circuit-breaker.js";
 import { logger } from "../middleware/logger.js";
@@ -66,6 +69,8 @@ export interface SealExecutorConfig {
     maxRetries: number;
     jupiterSlippageBps: number;
     jupiterDustThresholdSOL: number;
+    /** Slippage for the in-pool SOL → X swap of balanced deposits (bps) */
+    depositSwapSlippageBps: number;
 }
 
 const DEFAULT_CONFIG: SealExecutorConfig = {
@@ -74,6 +79,7 @@ const DEFAULT_CONFIG: SealExecutorConfig = {
     maxRetries: 3,
     jupiterSlippageBps: 300,
     jupiterDustThresholdSOL: 0.001,
+    depositSwapSlippageBps: 100,
 };
 
 // ═══════════════════════════════════════════════════════════════
@@ -271,6 +277,7 @@ export class SealExecutor implements ITradingExecutor {
             const dlmm = await this.marketData.getDLMM(poolAddress);
             const activeBin = await dlmm.getActiveBin();
             const positionKeypair = Keypair.generate();
+            await positionJobs.notePositionKey(positionKeypair.publicKey.toBase58());
 
             // ── Pre-fund session signer from wallet PDA ──
             // The session signer needs SOL for:
@@ -343,11 +350,37 @@ export class SealExecutor implements ITradingExecutor {
                 };
             }
 
+            await this.session.assertFeePayerFunded();
+
+            // ── Balanced deposit: buy token X through the pool first ──
+            let depositX = new BN(0);
+            if (adjX.gtn(0)) {
+                const swap = await buildSolToTokenXSwap(
+                    dlmm,
+                    walletPda,
+                    adjX,
+                    this.execConfig.depositSwapSlippageBps
+                );
+                const wrappedSwap = this.session.wrapTransaction(
+                    this.rewriteDelegatedTx(swap.tx),
+                    BigInt(adjX.toString())
+                );
+                const swapResult = await this.txSender.sendTransaction(
+                    this.txSender.addPriorityFee(wrappedSwap),
+                    [this.session.getSessionKeypair()]
+                );
+                if (!swapResult.success) {
+                    this.emergencyStop.recordTxFailure();
+                    return { success: false, error: `Token X swap failed: ${swapResult.error}` };
+                }
+                depositX = swap.minOutAmount;
+            }
+
             // ── Build DLMM instruction with walletPda as "user" ──
             const createTx = await dlmm.initializePositionAndAddLiquidityByStrategy({
                 positionPubKey: positionKeypair.publicKey,
                 user: walletPda, // Seal wallet PDA is the "user"
-                totalXAmount: adjX,
+                totalXAmount: depositX,
                 totalYAmount: adjY,
                 strategy: {
                     maxBinId: strategy.maxBinId,
@@ -358,8 +391,8 @@ export class SealExecutor implements ITradingExecutor {
             const delegatedCreateTx = this.rewriteDelegatedTx(createTx);
 
             // ── Wrap in executeViaSession ──
-            const amountLamports = BigInt(adjTotal);
-            await this.session.assertFeePayerFunded();
+            // The X side was already counted against limits by the swap
+            const amountLamports = BigInt(adjY.toString());
             const wrappedTx = this.session.wrapTransaction(delegatedCreateTx, amountLamports);
             const txWithFees = this.txSender.addPriorityFee(wrappedTx);
 
@@ -649,6 +682,63 @@ export class SealExecutor implements ITradingExecutor {
         }
     }
 
+    // ═══════════════════════════════════════════════════════════════
+    // Attach an existing on-chain position (re-attach after restart)
+    // ═══════════════════════════════════════════════════════════════
+
+    async attachPosition(
+        position: TrackedPosition
+    ): Promise<TrackedPosition | null> {
+        const dlmm = await this.marketData.getDLMM(position.poolAddress);
+        const { userPositions, activeBin } =
+            await dlmm.getPositionsByUserAndLbPair(this.session.getWalletPda());
+
+        const onChain = userPositions.find((p: any) =>
+            p.publicKey.equals(position.positionPubkey)
+        );
+        if (!onChain) return null;
+
+        position.status = "ACTIVE";
+        position.strategy = {
+            ...position.strategy,
+            minBinId: onChain.positionData.lowerBinId,
+            maxBinId: onChain.positionData.upperBinId,
+        };
+        position.currentPositionData = onChain.positionData;
+        position.currentPricePerToken = activeBin.pricePerToken;
+        position.currentActiveBinId = activeBin.binId;
+        position.feesEarnedX = onChain.positionData.feeX;
+        position.feesEarnedY = onChain.positionData.feeY;
+
+        // No recorded entry (recovered from a job) — measure P&L from now
+        if (!position.entryPricePerToken) {
+            position.entryPricePerToken = activeBin.pricePerToken;
+            position.entryActiveBinId = activeBin.binId;
+        }
+
+        // No recorded deposit (adopted from outside Sage) — value what it holds now.
+        // totalXAmount is in X base units and the price is per whole token, so
+        // convert it to lamports of Y per base unit of X first.
+        if (position.entryAmountX.isZero() && position.entryAmountY.isZero()) {
+            const pricePerBaseUnit =
+                parseFloat(position.entryPricePerToken) *
+                10 ** (dlmm.tokenY.mint.decimals - dlmm.tokenX.mint.decimals);
+            position.entryAmountX = new BN(
+                Math.floor(Number(onChain.positionData.totalXAmount) * pricePerBaseUnit)
+            );
+            position.entryAmountY = new BN(
+                Math.floor(Number(onChain.positionData.totalYAmount))
+            );
+        }
+
+        this.positions.set(position.id, position);
+        log.info(
+            { positionId: position.id, pool: position.poolName },
+            "Position attached (live)"
+        );
+        return position;
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // Update position data (read-only — no wrapping needed)
     // ═══════════════════════════════════════════════════════════════
@@ -673,6 +763,7 @@ export class SealExecutor implements ITradingExecutor {
             if (onChain) {
                 position.currentPositionData = onChain.positionData;
                 position.currentPricePerToken = activeBin.pricePerToken;
+                position.currentActiveBinId = activeBin.binId;
                 position.feesEarnedX = onChain.positionData.feeX;
                 position.feesEarnedY = onChain.positionData.feeY;
 
@@ -6,6 +6,8 @@
  *  - Emits events via EventBus for real-time updates
  *  - Uses pino logger instead of console
  *  - Supports DB-backed state recovery via loadPositions()
+ *  - Models bin distribution, impermanent loss and pro-rata fee accrual
+ *    with the DLMM liquidity model (see liquidity-model.ts)
  */
 
 import { Keypair } from "@solana/web3.js";
@@ -21,6 +23,14 @@ import type {
   IMarketDataProvider,
 } from "./types.js";
 import { LAMPORTS_PER_SOL } from "./types.js";
+import { systemClock, type Clock } from "./clock.js";
+import {
+  accrueFees,
+  distributeLiquidity,
+  toPositionData,
+  valueLiquidity,
+  type SimLiquidity,
+} from "./liquidity-model.js";
 import { logger } from "../middleware/logger.js";
 
 const log = logger.child({ module: "simulation-executor" });
@@ -29,16 +39,21 @@ export class SimulationExecutor implements ITradingExecutor {
   private marketData: IMarketDataProvider;
   private config: BotConfig;
   private positions: Map<string, TrackedPosition> = new Map();
+  /** Simulated bin liquidity per position (rebuilt on restore) */
+  private liquidity: Map<string, SimLiquidity> = new Map();
   private virtualBalanceLamports: BN;
   private initialBalanceSol: number;
+  private clock: Clock;
 
   constructor(
     config: BotConfig,
     marketData: IMarketDataProvider,
-    initialBalanceSol?: number
+    initialBalanceSol?: number,
+    clock: Clock = systemClock
   ) {
     this.config = config;
     this.marketData = marketData;
+    this.clock = clock;
     this.initialBalanceSol =
       initialBalanceSol ?? config.simulation?.initialBalanceSOL ?? 10;
     this.virtualBalanceLamports = new BN(
@@ -76,6 +91,23 @@ export class SimulationExecutor implements ITradingExecutor {
       const activeBin = await this.marketData.getActiveBin(poolAddress);
       const positionKeypair = Keypair.generate();
       const positionId = uuidv4();
+      const now = this.clock.now();
+
+      // Balanced deposits buy token X through the pool first — the swap
+      // pays the pool's base fee, so less X value lands in the bins
+      const swapFeeRate = (parseFloat(poolData.base_fee_percentage) || 0) / 100;
+      const amountXAfterSwap = amountX.toNumber() * (1 - swapFeeRate);
+
+      // Spread the deposit across the bin range (throws on an invalid range)
+      const liquidity = distributeLiquidity({
+        strategy,
+        activeBinId: activeBin.binId,
+        activePrice: parseFloat(activeBin.pricePerToken),
+        binStep: poolData.bin_step,
+        amountXLamports: amountXAfterSwap,
+        amountYLamports: amountY.toNumber(),
+        timestamp: now,
+      });
 
       // Deduct from virtual balance (include simulated tx fee)
       const txFeeLamports = new BN(5000);
@@ -99,7 +131,7 @@ export class SimulationExecutor implements ITradingExecutor {
 
         entryActiveBinId: activeBin.binId,
         entryPricePerToken: activeBin.pricePerToken,
-        entryTimestamp: Date.now(),
+        entryTimestamp: now,
         entryAmountX: amountX,
         entryAmountY: amountY,
 
@@ -117,13 +149,21 @@ export class SimulationExecutor implements ITradingExecutor {
         highWaterMarkPercent: 0,
       };
 
+      position.currentPositionData = toPositionData(
+        liquidity,
+        activeBin.binId,
+        now
+      );
+
       this.positions.set(positionId, position);
+      this.liquidity.set(positionId, liquidity);
 
       log.info(
         {
           positionId,
           pool: poolData.name,
           activeBin: activeBin.binId,
+          bins: `${liquidity.minBinId}..${liquidity.maxBinId}`,
           price: activeBin.pricePerToken,
           amountX: amountX.toString(),
           amountY: amountY.toString(),
@@ -166,24 +206,27 @@ export class SimulationExecutor implements ITradingExecutor {
       );
       const currentPrice = parseFloat(activeBin.pricePerToken);
       const entryPrice = parseFloat(position.entryPricePerToken);
-      const priceChange = (currentPrice - entryPrice) / entryPrice;
       const entryValueLamports = position.entryAmountX.add(
         position.entryAmountY
       );
 
-      // Simplified P&L: price change + estimated fees
-      const valueChangeLamports = new BN(
-        Math.floor(entryValueLamports.toNumber() * priceChange)
-      );
-      const hoursHeld =
-        (Date.now() - position.entryTimestamp) / (1000 * 60 * 60);
-      const estimatedFeeLamports = new BN(
-        Math.floor(entryValueLamports.toNumber() * 0.001 * hoursHeld)
+      // Final fee accrual, then withdraw every bin at the current price
+      const now = this.clock.now();
+      const liquidity = this.getLiquidity(position);
+      const valuation = valueLiquidity(liquidity, activeBin.binId, currentPrice);
+      accrueFees(
+        liquidity,
+        await this.marketData.getPoolData(position.poolAddress),
+        valuation,
+        now
       );
 
-      const realizedPnlLamports = valueChangeLamports.add(
-        estimatedFeeLamports
-      );
+      const withdrawnLamports = new BN(Math.floor(valuation.valueLamports));
+      const feesClaimedLamports = new BN(Math.floor(liquidity.feesLamports));
+      const realizedPnlLamports = withdrawnLamports
+        .add(feesClaimedLamports)
+        .sub(entryValueLamports);
+      const hoursHeld = (now - position.entryTimestamp) / (1000 * 60 * 60);
 
       // Credit back to virtual balance
       const returnAmount = entryValueLamports.add(realizedPnlLamports);
@@ -195,11 +238,17 @@ export class SimulationExecutor implements ITradingExecutor {
       // Update position
       position.status = "CLOSED";
       position.exitPricePerToken = activeBin.pricePerToken;
-      position.exitTimestamp = Date.now();
+      position.exitTimestamp = now;
       position.exitReason = reason;
       position.realizedPnlLamports = realizedPnlLamports;
       position.feesEarnedX = new BN(0);
-      position.feesEarnedY = estimatedFeeLamports;
+      position.feesEarnedY = feesClaimedLamports;
+      position.currentPositionData = toPositionData(
+        liquidity,
+        activeBin.binId,
+        now
+      );
+      this.liquidity.delete(positionId);
 
       const pnlSol = realizedPnlLamports.toNumber() / LAMPORTS_PER_SOL;
       const pnlPercent =
@@ -211,6 +260,8 @@ export class SimulationExecutor implements ITradingExecutor {
           pool: position.poolName,
           entryPrice,
           exitPrice: currentPrice,
+          inRange: valuation.inRange,
+          feesSol: (feesClaimedLamports.toNumber() / LAMPORTS_PER_SOL).toFixed(6),
           pnlSol: pnlSol.toFixed(6),
           pnlPercent: pnlPercent.toFixed(2),
           reason,
@@ -223,7 +274,7 @@ export class SimulationExecutor implements ITradingExecutor {
         success: true,
         txSignature: `sim_close_${positionId}`,
         realizedPnlLamports,
-        feesClaimedY: estimatedFeeLamports,
+        feesClaimedY: feesClaimedLamports,
       };
     } catch (error) {
       log.error(
@@ -250,20 +301,28 @@ export class SimulationExecutor implements ITradingExecutor {
         position.poolAddress
       );
       position.currentPricePerToken = activeBin.pricePerToken;
+      position.currentActiveBinId = activeBin.binId;
 
       const currentPrice = parseFloat(activeBin.pricePerToken);
       const entryPrice = parseFloat(position.entryPricePerToken);
       const currentPnlPercent =
         ((currentPrice - entryPrice) / entryPrice) * 100;
 
-      // Update estimated fees
-      const hoursHeld =
-        (Date.now() - position.entryTimestamp) / (1000 * 60 * 60);
-      const entryValueLamports = position.entryAmountX.add(
-        position.entryAmountY
+      // Accrue fees since the last check (only while in range)
+      const now = this.clock.now();
+      const liquidity = this.getLiquidity(position);
+      const valuation = valueLiquidity(liquidity, activeBin.binId, currentPrice);
+      accrueFees(
+        liquidity,
+        await this.marketData.getPoolData(position.poolAddress),
+        valuation,
+        now
       );
-      position.feesEarnedY = new BN(
-        Math.floor(entryValueLamports.toNumber() * 0.001 * hoursHeld)
+      position.feesEarnedY = new BN(Math.floor(liquidity.feesLamports));
+      position.currentPositionData = toPositionData(
+        liquidity,
+        activeBin.binId,
+        now
       );
 
       // Update high water mark (for trailing stop)
@@ -301,6 +360,63 @@ export class SimulationExecutor implements ITradingExecutor {
     return this.virtualBalanceLamports;
   }
 
+  /**
+   * Virtual balance plus mark-to-market value of active positions
+   * (bin composition at the last observed price + accrued fees).
+   * Used for equity curves.
+   */
+  getEquityLamports(): BN {
+    let equity = this.virtualBalanceLamports.clone();
+    for (const position of this.getActivePositions()) {
+      const liquidity = this.getLiquidity(position);
+      const price = parseFloat(
+        position.currentPricePerToken ?? position.entryPricePerToken
+      );
+      const activeBinId =
+        position.currentActiveBinId ?? this.lastActiveBinId(position, price);
+      const { valueLamports } = valueLiquidity(liquidity, activeBinId, price);
+      equity = equity.add(
+        new BN(Math.floor(valueLamports + liquidity.feesLamports))
+      );
+    }
+    return equity;
+  }
+
+  /**
+   * Simulated liquidity for a position. Positions restored from the DB
+   * have no bin state yet — rebuild it from the entry snapshot and carry
+   * over the fees already recorded.
+   */
+  private getLiquidity(position: TrackedPosition): SimLiquidity {
+    let liquidity = this.liquidity.get(position.id);
+    if (!liquidity) {
+      liquidity = distributeLiquidity({
+        strategy: position.strategy,
+        activeBinId: position.entryActiveBinId,
+        activePrice: parseFloat(position.entryPricePerToken),
+        binStep: position.binStep,
+        amountXLamports: position.entryAmountX.toNumber(),
+        amountYLamports: position.entryAmountY.toNumber(),
+        timestamp: this.clock.now(),
+      });
+      liquidity.feesLamports = position.feesEarnedY?.toNumber() ?? 0;
+      this.liquidity.set(position.id, liquidity);
+    }
+    return liquidity;
+  }
+
+  /** Active bin implied by a price, relative to the position's entry bin. */
+  private lastActiveBinId(position: TrackedPosition, price: number): number {
+    const entryPrice = parseFloat(position.entryPricePerToken);
+    if (!(entryPrice > 0) || !(price > 0)) return position.entryActiveBinId;
+    return (
+      position.entryActiveBinId +
+      Math.round(
+        Math.log(price / entryPrice) / Math.log(1 + position.binStep / 10_000)
+      )
+    );
+  }
+
   // ── Performance Summary ──
 
   getPerformanceSummary() {
@@ -334,6 +450,7 @@ export class SimulationExecutor implements ITradingExecutor {
 
   loadPositions(positions: TrackedPosition[], balanceLamports: BN): void {
     this.positions.clear();
+    this.liquidity.clear();
     for (const pos of positions) {
       this.positions.set(pos.id, pos);
     }
@@ -9,24 +9,27 @@
  */
 
 import BN from "bn.js";
+import { v4 as uuidv4 } from "uuid";
 import type {
   BotConfig,
   ITradingExecutor,
   IMarketDataProvider,
+  IEntryGate,
   TrackedPosition,
   StrategyParameters,
   MeteoraPairData,
   MarketScore,
 } from "./types.js";
-import { StrategyType, LAMPORTS_PER_SOL } from "./types.js";
+import { STRATEGY_TYPES, LAMPORTS_PER_SOL } from "./types.js";
 import { MLPredictor, type MLPrediction } from "./ml-predictor.js";
 import {
   extractV3Features,
   featuresToArray,
   type V3Features,
 } from "./ml-features.js";
-import { EmergencyStop } from "./emergency-stop.js";
-import { CircuitBreaker } from "./circuit-breaker.js";
+import { EmergencyStop, emergencyStopConfigFor } from "./emergency-stop.js";
+import { CircuitBreaker, circuitBreakerConfigFor } from "./circuit-breaker.js";
+import { systemClock, type Clock } from "./clock.js";
 import { logger } from "../middleware/logger.js";
 
 const log = logger.child({ module: "trading-engine" });
@@ -61,8 +64,25 @@ function calculatePositionSize(config: BotConfig, balanceLamports: BN): BN {
   return new BN(Math.floor(positionSOL * LAMPORTS_PER_SOL));
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Split a SOL budget into X-side and Y-side amounts (both in lamports).
+ * Balanced deposits give each side a share proportional to its bin count
+ * (the active bin counts on both sides), so a Spot shape ends up with
+ * roughly equal value per bin across the whole range.
+ */
+function splitDeposit(
+  config: BotConfig,
+  budget: BN,
+  binsBelow: number,
+  binsAbove: number
+): { amountX: BN; amountY: BN } {
+  if (config.depositMode !== "balanced") {
+    return { amountX: new BN(0), amountY: budget };
+  }
+  const amountX = budget
+    .muln(binsAbove + 1)
+    .divn(binsBelow + binsAbove + 2);
+  return { amountX, amountY: budget.sub(amountX) };
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -103,18 +123,30 @@ interface PoolCooldown {
   exitTimestamp: number;
 }
 
+/** Re-entry context when a position is being rebalanced */
+interface RebalanceEntry {
+  rebalanceId: string;
+  fromPositionId: string;
+  /** Never re-deploy more than the closed leg returned */
+  maxAmountLamports: BN;
+}
+
 export class TradingEngine {
   private config: BotConfig;
   private executor: ITradingExecutor;
   private marketData: IMarketDataProvider;
   private onEvent: EngineEventCallback;
   private mlPredictor: MLPredictor | null;
+  private clock: Clock;
 
   // Safety systems
   readonly emergencyStop: EmergencyStop;
   readonly circuitBreaker: CircuitBreaker;
+  private entryGate: IEntryGate | null;
 
   private cooldowns = new Map<string, PoolCooldown>();
+  /** Last rebalance per pool — rebalances obey cooldownMinutes too */
+  private lastRebalanceAt = new Map<string, number>();
   private stats: EngineStats;
   private isRunning = false;
   private isScanning = false;
@@ -133,7 +165,9 @@ export class TradingEngine {
     label = "engine",
     mlPredictor: MLPredictor | null = null,
     emergencyStop?: EmergencyStop,
-    circuitBreaker?: CircuitBreaker
+    circuitBreaker?: CircuitBreaker,
+    entryGate: IEntryGate | null = null,
+    clock: Clock = systemClock
   ) {
     this.config = config;
     this.executor = executor;
@@ -141,16 +175,14 @@ export class TradingEngine {
     this.onEvent = onEvent;
     this.mlPredictor = mlPredictor;
     this.label = label;
+    this.clock = clock;
+    this.entryGate = entryGate;
 
     // Safety systems — create defaults if not injected
-    this.emergencyStop = emergencyStop ?? new EmergencyStop(label, {
-      maxDailyLossSOL: config.maxDailyLossSOL ?? 2,
-    });
-    this.circuitBreaker = circuitBreaker ?? new CircuitBreaker(label, {
-      maxPositionCount: config.maxConcurrentPositions,
-      maxSinglePositionSOL: config.maxPositionSOL ?? 2,
-      maxTotalExposureSOL: (config.maxPositionSOL ?? 2) * config.maxConcurrentPositions,
-    });
+    this.emergencyStop = emergencyStop ??
+      new EmergencyStop(label, emergencyStopConfigFor(config), undefined, clock);
+    this.circuitBreaker = circuitBreaker ??
+      new CircuitBreaker(label, circuitBreakerConfigFor(config), clock);
 
     this.stats = {
       totalScans: 0,
@@ -159,7 +191,7 @@ export class TradingEngine {
       wins: 0,
       losses: 0,
       totalPnlLamports: new BN(0),
-      startTime: Date.now(),
+      startTime: this.clock.now(),
     };
 
     log.info({ label }, "Trading engine initialized");
@@ -174,7 +206,7 @@ export class TradingEngine {
     }
 
     this.isRunning = true;
-    this.stats.startTime = Date.now();
+    this.stats.startTime = this.clock.now();
     log.info({ label: this.label }, "Starting trading engine");
     this.onEvent({ type: "engine:started" });
 
@@ -247,6 +279,24 @@ export class TradingEngine {
     this.onEvent({ type: "engine:stopped", stats: this.stats });
   }
 
+  // ── Manual Stepping ──
+
+  /**
+   * Run one scan cycle outside the CRON schedule.
+   * Used by the backtester, which drives the engine from a virtual clock
+   * instead of calling start().
+   */
+  async runScanCycle(): Promise<void> {
+    await this.scanMarkets();
+  }
+
+  /**
+   * Run one exit-condition pass over all active positions.
+   */
+  async runPositionCheck(): Promise<void> {
+    await this.checkPositions();
+  }
+
   // ── Market Scanning ──
 
   private async scanMarkets(): Promise<void> {
@@ -262,7 +312,10 @@ export class TradingEngine {
           { label: this.label, reason: emergencyCheck.reason },
           "Scan blocked by emergency stop"
         );
-        this.onEvent({ type: "engine:error", error: `Emergency stop: ${emergencyCheck.reason}` });
+        // The kill switch pauses every bot at once — not an error of this one
+        if (!this.emergencyStop.killSwitchActive) {
+          this.onEvent({ type: "engine:error", error: `Emergency stop: ${emergencyCheck.reason}` });
+        }
         return;
       }
 
@@ -300,7 +353,7 @@ export class TradingEngine {
         const cooldown = this.cooldowns.get(pool.address);
         if (!cooldown) return true;
         const minutesSinceExit =
-          (Date.now() - cooldown.exitTimestamp) / (1000 * 60);
+          (this.clock.now() - cooldown.exitTimestamp) / (1000 * 60);
         return minutesSinceExit >= this.config.cooldownMinutes;
       });
 
@@ -344,7 +397,7 @@ export class TradingEngine {
       for (const { pool, score, mlPrediction, mlFeatures } of topPools) {
         const ok = await this.enterPosition(pool, score, mlPrediction, mlFeatures);
         if (ok) entered++;
-        await sleep(500);
+        await this.clock.sleep(500);
       }
 
       this.onEvent({
@@ -598,7 +651,8 @@ export class TradingEngine {
     pool: MeteoraPairData,
     score: MarketScore,
     mlPrediction?: MLPrediction,
-    mlFeatures?: V3Features
+    mlFeatures?: V3Features,
+    rebalance?: RebalanceEntry
   ): Promise<boolean> {
     try {
       // ── SAFETY CHECK: Emergency Stop (re-check before each entry) ──
@@ -619,17 +673,27 @@ export class TradingEngine {
       }
 
       const binRange = this.config.defaultBinRange ?? 10;
+      const binsBelow = this.config.binsBelow ?? binRange;
+      const binsAbove = this.config.binsAbove ?? binRange;
       const strategy: StrategyParameters = {
-        minBinId: activeBin.binId - binRange,
-        maxBinId: activeBin.binId + binRange,
-        strategyType: StrategyType.Spot,
+        minBinId: activeBin.binId - binsBelow,
+        maxBinId: activeBin.binId + binsAbove,
+        strategyType: STRATEGY_TYPES[this.config.strategyType ?? "spot"],
       };
 
-      const amountY = calculatePositionSize(
+      let budget = calculatePositionSize(
         this.config,
         await this.executor.getBalance()
       );
-      const amountX = new BN(0); // One-sided SOL deposit
+      if (rebalance) {
+        budget = BN.min(budget, rebalance.maxAmountLamports);
+      }
+      const { amountX, amountY } = splitDeposit(
+        this.config,
+        budget,
+        binsBelow,
+        binsAbove
+      );
 
       // ── SAFETY CHECK: Circuit Breaker ──
       const totalAmount = amountX.add(amountY);
@@ -642,11 +706,28 @@ export class TradingEngine {
         return false;
       }
 
+      // ── SAFETY CHECK: Entry gate (portfolio limits across the user's bots) ──
+      if (this.entryGate) {
+        const gateCheck = await this.entryGate.canEnter({
+          poolAddress: pool.address,
+          tokenXMint: pool.mint_x,
+          amountLamports: totalAmount,
+        });
+        if (!gateCheck.allowed) {
+          log.info(
+            { label: this.label, pool: pool.name, reason: gateCheck.reason },
+            "Entry blocked by portfolio risk limits"
+          );
+          return false;
+        }
+      }
+
       const result = await this.executor.openPosition(
         pool.address,
         strategy,
         amountX,
-        amountY
+        amountY,
+        { rebalanceId: rebalance?.rebalanceId }
       );
 
       if (result.success && result.positionId) {
@@ -669,6 +750,10 @@ export class TradingEngine {
             newPos.entryFeatures = mlFeatures;
           }
           newPos.entryScore = score.totalScore;
+          if (rebalance) {
+            newPos.rebalanceId = rebalance.rebalanceId;
+            newPos.rebalancedFromPositionId = rebalance.fromPositionId;
+          }
 
           this.onEvent({
             type: "position:opened",
@@ -685,8 +770,9 @@ export class TradingEngine {
             score: score.totalScore,
             mlProbability: mlPrediction?.probability,
             strategyMode: this.config.strategyMode,
+            rebalanceId: rebalance?.rebalanceId,
           },
-          "Position opened"
+          rebalance ? "Position re-opened (rebalance)" : "Position opened"
         );
         return true;
       }
@@ -725,14 +811,17 @@ export class TradingEngine {
       if (!updated) return;
 
       const holdTimeMinutes =
-        (Date.now() - position.entryTimestamp) / (1000 * 60);
+        (this.clock.now() - position.entryTimestamp) / (1000 * 60);
       const entryPrice = parseFloat(position.entryPricePerToken);
       const currentPrice = updated.currentPricePerToken
         ? parseFloat(updated.currentPricePerToken)
         : entryPrice;
       const pnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
+      const outOfRangeMinutes = this.trackOutOfRange(updated);
+      const outOfRangeAction = this.config.outOfRangeAction ?? "none";
 
       let exitReason: string | null = null;
+      let rebalanceId: string | undefined;
 
       // 1. Take profit
       if (
@@ -771,6 +860,23 @@ export class TradingEngine {
       ) {
         exitReason = `MAX_HOLD_TIME (${holdTimeMinutes.toFixed(0)}m >= ${position.maxHoldTimeMinutes}m)`;
       }
+      // 5. Out of range — close, or close and re-centre on the active bin
+      else if (
+        outOfRangeAction !== "none" &&
+        outOfRangeMinutes >= (this.config.outOfRangeMinutes ?? 30)
+      ) {
+        const detail = `bin ${updated.currentActiveBinId} outside ${position.strategy.minBinId}..${position.strategy.maxBinId} for ${outOfRangeMinutes.toFixed(0)}m`;
+        if (
+          outOfRangeAction === "rebalance" &&
+          this.canRebalance(position.poolAddress)
+        ) {
+          rebalanceId = uuidv4();
+          position.rebalanceId = rebalanceId;
+          exitReason = `REBALANCE (${detail})`;
+        } else {
+          exitReason = `OUT_OF_RANGE (${detail})`;
+        }
+      }
 
       if (exitReason) {
         log.info(
@@ -811,11 +917,13 @@ export class TradingEngine {
           const closedAmount = position.entryAmountX.add(position.entryAmountY);
           this.circuitBreaker.recordPositionClosed(position.poolAddress, closedAmount);
 
-          // Set cooldown
-          this.cooldowns.set(position.poolAddress, {
-            poolAddress: position.poolAddress,
-            exitTimestamp: Date.now(),
-          });
+          // Set cooldown — a rebalance re-enters straight away instead
+          if (!rebalanceId) {
+            this.cooldowns.set(position.poolAddress, {
+              poolAddress: position.poolAddress,
+              exitTimestamp: this.clock.now(),
+            });
+          }
 
           // Find the closed position in the executor for data
           const closedPos = this.executor
@@ -834,6 +942,16 @@ export class TradingEngine {
             position: closedPos ?? position,
             pnlLamports: result.realizedPnlLamports ?? new BN(0),
           });
+
+          if (rebalanceId) {
+            await this.reenterAfterRebalance(
+              position,
+              rebalanceId,
+              closedAmount.add(result.realizedPnlLamports ?? new BN(0))
+            );
+          }
+        } else if (rebalanceId) {
+          position.rebalanceId = undefined;
         }
       } else {
         // Emit update event
@@ -853,6 +971,84 @@ export class TradingEngine {
     }
   }
 
+  // ── Out-of-Range Rebalancing ──
+
+  /**
+   * Update out-of-range tracking for a position.
+   * Returns how many minutes the active bin has been outside the range
+   * (0 while in range or when the executor doesn't report the active bin).
+   */
+  private trackOutOfRange(position: TrackedPosition): number {
+    const activeBinId = position.currentActiveBinId;
+    if (activeBinId === undefined) return 0;
+
+    const inRange =
+      activeBinId >= position.strategy.minBinId &&
+      activeBinId <= position.strategy.maxBinId;
+    if (inRange) {
+      position.outOfRangeSince = undefined;
+      return 0;
+    }
+
+    position.outOfRangeSince ??= this.clock.now();
+    return (this.clock.now() - position.outOfRangeSince) / (1000 * 60);
+  }
+
+  /**
+   * A pool may be rebalanced at most once per cooldownMinutes —
+   * otherwise the position is closed and the normal cooldown applies.
+   */
+  private canRebalance(poolAddress: string): boolean {
+    const last = this.lastRebalanceAt.get(poolAddress);
+    if (last === undefined) return true;
+    const minutesSince = (this.clock.now() - last) / (1000 * 60);
+    return minutesSince >= this.config.cooldownMinutes;
+  }
+
+  /**
+   * Second leg of a rebalance: re-open in the same pool centred on the
+   * current active bin. Goes through the normal entry path, so the
+   * EmergencyStop and CircuitBreaker can still veto it — in which case the
+   * pool falls back to a regular exit cooldown.
+   */
+  private async reenterAfterRebalance(
+    closed: TrackedPosition,
+    rebalanceId: string,
+    returnedLamports: BN
+  ): Promise<void> {
+    // The close leg just counted as a trade — wait out the min trade spacing
+    await this.clock.sleep(this.circuitBreaker.msUntilNextTrade());
+
+    const pool = await this.marketData.getPoolData(closed.poolAddress);
+    const entered = pool
+      ? await this.enterPosition(
+        pool,
+        await this.marketData.calculateMarketScore(pool),
+        undefined,
+        undefined,
+        {
+          rebalanceId,
+          fromPositionId: closed.id,
+          maxAmountLamports: returnedLamports,
+        }
+      )
+      : false;
+
+    if (entered) {
+      this.lastRebalanceAt.set(closed.poolAddress, this.clock.now());
+      return;
+    }
+
+    log.warn(
+      { label: this.label, pool: closed.poolName, rebalanceId },
+      "Rebalance re-entry skipped — position stays closed"
+    );
+    this.cooldowns.set(closed.poolAddress, {
+      poolAddress: closed.poolAddress,
+      exitTimestamp: this.clock.now(),
+    });
+  }
+
   // ── Position Checkpointing ──
 
   /**
@@ -882,7 +1078,7 @@ export class TradingEngine {
   loadCooldowns(cooldowns: Array<{ poolAddress: string; exitTimestamp: number }>): void {
     for (const cd of cooldowns) {
       // Only load if still within cooldown window
-      const minutesSinceExit = (Date.now() - cd.exitTimestamp) / (1000 * 60);
+      const minutesSinceExit = (this.clock.now() - cd.exitTimestamp) / (1000 * 60);
       if (minutesSinceExit < this.config.cooldownMinutes) {
         this.cooldowns.set(cd.poolAddress, cd);
       }
@@ -907,7 +1103,7 @@ export class TradingEngine {
       this.stats.positionsClosed > 0
         ? (this.stats.wins / this.stats.positionsClosed) * 100
         : 0;
-    const runtimeMs = Date.now() - this.stats.startTime;
+    const runtimeMs = this.clock.now() - this.stats.startTime;
     const hours = Math.floor(runtimeMs / (1000 * 60 * 60));
     const minutes = Math.floor(
       (runtimeMs % (1000 * 60 * 60)) / (1000 * 60)
@@ -928,6 +1124,33 @@ export class TradingEngine {
     return this.executor.getActivePositions();
   }
 
+  /**
+   * Track a position that already exists on-chain (re-attach after a
+   * restart). Exit rules apply from the next position check.
+   */
+  async attachPosition(position: TrackedPosition): Promise<TrackedPosition | null> {
+    const existing = this.executor
+      .getActivePositions()
+      .find((p) => p.id === position.id);
+    if (existing) return existing;
+    if (!this.executor.attachPosition) return null;
+
+    const attached = await this.executor.attachPosition(position);
+    if (attached) {
+      this.circuitBreaker.syncWithPositions(
+        this.executor.getActivePositions().map((p) => ({
+          poolAddress: p.poolAddress,
+          entryAmountLamports: p.entryAmountX.add(p.entryAmountY).toNumber(),
+        }))
+      );
+      log.info(
+        { label: this.label, positionId: attached.id, pool: attached.poolName },
+        "Position attached"
+      );
+    }
+    return attached;
+  }
+
   /**
    * Close a specific position by ID (user-initiated).
    */
@@ -972,7 +1195,7 @@ export class TradingEngine {
 
       this.cooldowns.set(position.poolAddress, {
         poolAddress: position.poolAddress,
-        exitTimestamp: Date.now(),
+        exitTimestamp: this.clock.now(),
       });
 
       this.onEvent({
@@ -996,7 +1219,7 @@ export class TradingEngine {
     const positions = this.executor.getActivePositions();
     for (const position of positions) {
       await this.executor.closePosition(position.id, "EMERGENCY_CLOSE");
-      await sleep(500);
+      await this.clock.sleep(500);
     }
 
     log.info({ label: this.label }, "All positions closed");
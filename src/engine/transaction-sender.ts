@@ -9,6 +9,7 @@
  *  - Priority fee injection (ComputeBudget)
  *  - Confirmation polling with timeout
  *  - Legacy & VersionedTransaction support
+ *  - Signature journaled to the current position job before each send
  *
  * ⚠️ FINANCIAL WARNING: This sends REAL transactions with REAL money.
  */
@@ -26,7 +27,9 @@ import {
   type AddressLookupTableAccount,
   type TransactionInstruction,
 } from "@solana/web3.js";
+import bs58 from "bs58";
 import { logger } from "../middleware/logger.js";
+import { positionJobs } from "./position-jobs.js";
 
 const log = logger.child({ module: "tx-sender" });
 
@@ -122,6 +125,12 @@ export class TransactionSender {
           ...options,
         };
 
+        // Journal first: a crash after the send must not lose the signature
+        const signed = firstSignature(transaction);
+        if (signed) {
+          await positionJobs.noteTransaction(signed);
+        }
+
         const signature: TransactionSignature =
           await this.connection.sendRawTransaction(
             transaction.serialize(),
@@ -319,4 +328,15 @@ function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+/** The fee payer's signature — the tx ID — if the tx is signed. */
+function firstSignature(
+  transaction: Transaction | VersionedTransaction
+): string | null {
+  const sig =
+    transaction instanceof Transaction
+      ? transaction.signature
+      : transaction.signatures[0];
+  return sig && sig.some((b) => b !== 0) ? bs58.encode(sig) : null;
+}
+
 export default TransactionSender;
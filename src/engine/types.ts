@@ -76,6 +76,22 @@ export enum StrategyType {
   BidAsk = 2,
 }
 
+/** Liquidity shape names as stored on bots / presets */
+export type StrategyTypeName = "spot" | "curve" | "bidask";
+
+export const STRATEGY_TYPES: Record<StrategyTypeName, StrategyType> = {
+  spot: StrategyType.Spot,
+  curve: StrategyType.Curve,
+  bidask: StrategyType.BidAsk,
+};
+
+/**
+ * one-sided: SOL only, placed in bins at/below the active bin.
+ * balanced:  part of the SOL is swapped to token X so both sides of the
+ *            range are filled (see splitDeposit in trading-engine.ts).
+ */
+export type DepositMode = "one-sided" | "balanced";
+
 export interface StrategyParameters {
   maxBinId: number;
   minBinId: number;
@@ -141,8 +157,8 @@ export interface TrackedPosition {
   tokenYMint: string;
   binStep: number;
 
-  // Position keypair (needed to sign create tx)
-  positionKeypair: Keypair;
+  // Position keypair (needed to sign create tx) — absent once re-attached
+  positionKeypair?: Keypair;
   positionPubkey: PublicKey;
 
   // Entry data
@@ -183,9 +199,17 @@ export interface TrackedPosition {
   // Current state
   currentPositionData?: PositionData;
   currentPricePerToken?: string;
+  /** Pool's active bin at the last update (set by every executor) */
+  currentActiveBinId?: number;
+  /** When the active bin left strategy.minBinId..maxBinId (epoch ms) */
+  outOfRangeSince?: number;
   feesEarnedX?: BN;
   feesEarnedY?: BN;
 
+  // Rebalance linkage — both legs of a rebalance share rebalanceId
+  rebalanceId?: string;
+  rebalancedFromPositionId?: string;
+
   // Exit conditions
   profitTargetPercent: number;
   stopLossPercent: number;
@@ -227,6 +251,8 @@ export interface MarketScore {
 
 export type StrategyMode = "rule-based" | "sage-ai" | "both";
 
+export type OutOfRangeAction = "none" | "close" | "rebalance";
+
 export interface BotConfig {
   mode: ExecutionMode;
   rpcEndpoint: string;
@@ -237,6 +263,11 @@ export interface BotConfig {
 
   // Entry criteria
   entryScoreThreshold: number;
+  /** Named pool scorer + params (see scoring.ts). Omitted = "default". */
+  scorer?: {
+    name: string;
+    params?: unknown;
+  };
   minVolume24h: number;
   minLiquidity: number;
   maxLiquidity: number;
@@ -252,6 +283,12 @@ export interface BotConfig {
   maxPositionSOL?: number;
   defaultBinRange: number;
 
+  // Liquidity distribution — bins below/above default to defaultBinRange
+  strategyType?: StrategyTypeName;
+  depositMode?: DepositMode;
+  binsBelow?: number;
+  binsAbove?: number;
+
   // Risk management
   profitTargetPercent: number;
   stopLossPercent: number;
@@ -264,6 +301,23 @@ export interface BotConfig {
   trailingStopEnabled?: boolean;
   trailingStopPercent?: number;
 
+  // Out-of-range handling — what to do once the active bin has been
+  // outside the position's bin range for outOfRangeMinutes
+  outOfRangeAction?: OutOfRangeAction;
+  outOfRangeMinutes?: number;
+
+  // Safety thresholds — see emergencyStopConfigFor / circuitBreakerConfigFor.
+  // maxPositionSOL and maxConcurrentPositions double as circuit breaker caps.
+  maxTotalLossSOL?: number;
+  maxConsecutiveLosses?: number;
+  maxTxFailuresPerHour?: number;
+  maxApiErrorsPerHour?: number;
+  maxPositionsPerPool?: number;
+  maxTotalExposureSOL?: number;
+  maxTxPerMinute?: number;
+  minTimeBetweenTradesMs?: number;
+  maxApiCallsPerMinute?: number;
+
   // Scheduler
   cronIntervalSeconds: number;
   positionCheckIntervalSeconds: number;
@@ -278,6 +332,11 @@ export interface BotConfig {
 // Execution Results
 // ═══════════════════════════════════════════════════════════════
 
+export interface OpenPositionOptions {
+  /** Set when this open re-enters after a rebalance close */
+  rebalanceId?: string;
+}
+
 export interface OpenPositionResult {
   success: boolean;
   positionId?: string;
@@ -300,11 +359,16 @@ export interface ClosePositionResult {
 // ═══════════════════════════════════════════════════════════════
 
 export interface ITradingExecutor {
+  /**
+   * Both amounts are SOL lamports. amountX is the SOL value to deploy on
+   * the token X side — the executor swaps it into X before depositing.
+   */
   openPosition(
     poolAddress: string,
     strategy: StrategyParameters,
     amountX: BN,
-    amountY: BN
+    amountY: BN,
+    options?: OpenPositionOptions
   ): Promise<OpenPositionResult>;
 
   closePosition(
@@ -313,6 +377,14 @@ export interface ITradingExecutor {
   ): Promise<ClosePositionResult>;
 
   updatePositionData(positionId: string): Promise<TrackedPosition | null>;
+
+  /**
+   * Start tracking a position the executor's wallet already holds on-chain
+   * (re-attach after a restart). Fills bin range, fees and price from the
+   * chain. Null if the wallet doesn't own the position. Live executors only.
+   */
+  attachPosition?(position: TrackedPosition): Promise<TrackedPosition | null>;
+
   getActivePositions(): TrackedPosition[];
   getBalance(): Promise<BN>;
   getPerformanceSummary(): {
@@ -335,6 +407,21 @@ export interface IMarketDataProvider {
   filterEligiblePools(config: BotConfig): Promise<MeteoraPairData[]>;
 }
 
+export interface EntryRequest {
+  poolAddress: string;
+  tokenXMint: string;
+  /** SOL lamports about to be deployed (X side + Y side) */
+  amountLamports: BN;
+}
+
+/**
+ * Checked by the engine before every entry, after its own emergency stop
+ * and circuit breaker — e.g. portfolio limits shared by a user's bots.
+ */
+export interface IEntryGate {
+  canEnter(entry: EntryRequest): Promise<{ allowed: boolean; reason?: string }>;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // Event Types (for EventBus)
 // ═══════════════════════════════════════════════════════════════
@@ -343,11 +430,32 @@ export type BotEventType =
   | "position:opened"
   | "position:closed"
   | "position:updated"
+  | "position:adopted"
   | "scan:completed"
   | "engine:started"
   | "engine:stopped"
   | "engine:error"
-  | "stats:updated";
+  | "stats:updated"
+  | "reconcile:closed"
+  | "reconcile:reattached"
+  | "reconcile:orphaned"
+  | "reconcile:missing";
+
+export const BOT_EVENT_TYPES: readonly BotEventType[] = [
+  "position:opened",
+  "position:closed",
+  "position:updated",
+  "position:adopted",
+  "scan:completed",
+  "engine:started",
+  "engine:stopped",
+  "engine:error",
+  "stats:updated",
+  "reconcile:closed",
+  "reconcile:reattached",
+  "reconcile:orphaned",
+  "reconcile:missing",
+];
 
 export interface BotEvent {
   type: BotEventType;
@@ -355,6 +463,8 @@ export interface BotEvent {
   userId: number;
   timestamp: number;
   data: Record<string, unknown>;
+  /** trade_log row id — monotonically increasing. Absent if persisting failed */
+  seq?: number;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -5,13 +5,14 @@
  *
  * Architecture:
  *  - Auth:    SIWS (Sign-In With Solana) → JWT
- *  - Routes:  /auth, /wallet, /bot, /strategy, /health
+ *  - Routes:  /auth, /wallet, /bot, /strategy, /market, /events, /notifications, /analytics, /risk, /audit, /admin, /health
  *  - DB:      PostgreSQL via Drizzle ORM (production-grade with connection pooling)
  *  - Guards:  JWT validation, Zod input validation, rate limiting
  *  - Security: CORS lockdown, secure headers, body size limits, request IDs
  */
 
 import { serve } from "@hono/node-server";
+import { createNodeWebSocket } from "@hono/node-ws";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { secureHeaders } from "hono/secure-headers";
@@ -31,20 +32,31 @@ import walletRoutes from "./routes/wallet.js";
 import botRoutes from "./routes/bot.js";
 import strategyRoutes from "./routes/strategy.js";
 import mlRoutes from "./routes/ml.js";
-import eventsRoutes from "./routes/events.js";
+import eventsRoutes, { registerEventSocket } from "./routes/events.js";
 import positionRoutes from "./routes/position.js";
 import aiRoutes from "./routes/ai.js";
 import fleetRoutes from "./routes/fleet.js";
+import marketRoutes from "./routes/market.js";
+import notificationRoutes from "./routes/notifications.js";
+import analyticsRoutes from "./routes/analytics.js";
+import riskRoutes from "./routes/risk.js";
+import auditRoutes from "./routes/audit.js";
+import adminRoutes from "./routes/admin.js";
 
 // Engine
 import { orchestrator } from "./engine/orchestrator.js";
+import { poolRecorder } from "./services/pool-recorder.js";
+import { webhookDispatcher } from "./services/webhooks.js";
+import { positionReconciler } from "./services/position-reconciler.js";
 import { closeDatabase, runMigrations } from "./db/index.js";
+import { migrateBotSecrets } from "./services/kms.js";
 
 // ═══════════════════════════════════════════════════════════════
 // App
 // ═══════════════════════════════════════════════════════════════
 
 const app = new Hono();
+const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app });
 
 // ── Security: Request ID for tracing ──
 app.use("*", requestId());
@@ -110,6 +122,9 @@ app.use("/bot/create", botLifecycleRateLimit);
 app.use("/bot/*/start", botLifecycleRateLimit);
 app.use("/bot/*/stop", botLifecycleRateLimit);
 app.use("/bot/*/emergency", botLifecycleRateLimit);
+app.use("/bot/*/safety/reset", botLifecycleRateLimit);
+app.on("POST", "/bot/*/backtest", botLifecycleRateLimit);
+app.on("GET", "/bot/*/backtest/*", readRateLimit); // list + job status
 app.use("/ml/predict", mlRateLimit);
 app.use("/ml/reload", mlRateLimit);
 app.use("/position/*", readRateLimit);
@@ -118,9 +133,17 @@ app.use("/ai/transcribe", mlRateLimit);
 app.use("/ai/conversations", readRateLimit);
 app.use("/ai/conversations/*", readRateLimit);
 app.use("/ai/status", readRateLimit);
+app.use("/ai/actions/*", botLifecycleRateLimit);
 app.use("/fleet/*", readRateLimit);
 app.use("/bot/list", readRateLimit);
+app.use("/bot/scorers", readRateLimit);
 app.use("/wallet/*", readRateLimit);
+app.use("/market/*", readRateLimit);
+app.use("/notifications/*", readRateLimit);
+app.use("/analytics/*", readRateLimit);
+app.use("/risk/*", readRateLimit);
+app.use("/audit", readRateLimit);
+app.use("/admin/*", readRateLimit);
 
 // ── Routes ──
 app.route("/health", healthRoutes);
@@ -129,10 +152,17 @@ app.route("/wallet", walletRoutes);
 app.route("/bot", botRoutes);
 app.route("/strategy", strategyRoutes);
 app.route("/ml", mlRoutes);
+registerEventSocket(upgradeWebSocket);
 app.route("/events", eventsRoutes);
 app.route("/position", positionRoutes);
 app.route("/ai", aiRoutes);
 app.route("/fleet", fleetRoutes);
+app.route("/market", marketRoutes);
+app.route("/notifications", notificationRoutes);
+app.route("/analytics", analyticsRoutes);
+app.route("/risk", riskRoutes);
+app.route("/audit", auditRoutes);
+app.route("/admin", adminRoutes);
 
 // ── 404 ──
 app.notFound((c) => c.json({
@@ -147,6 +177,8 @@ app.notFound((c) => c.json({
 
 // Run PostgreSQL migrations before starting server
 await runMigrations();
+// Encrypt legacy plaintext bot secrets / re-wrap after a master key rotation
+await migrateBotSecrets();
 
 const server = serve(
   {
@@ -169,16 +201,26 @@ const server = serve(
     logger.info("  POST /auth/verify");
     logger.info("  POST /auth/refresh");
     logger.info("  GET  /auth/me");
+    logger.info("  GET  /auth/sessions");
+    logger.info("  DELETE /auth/sessions/:id");
+    logger.info("  GET  /auth/api-keys");
+    logger.info("  POST /auth/api-keys");
+    logger.info("  DELETE /auth/api-keys/:id");
     logger.info("  POST /wallet/prepare-create");
     logger.info("  GET  /wallet/state");
     logger.info("  GET  /wallet/balance");
     logger.info("  POST /bot/create");
     logger.info("  GET  /bot/list");
+    logger.info("  GET  /bot/scorers");
     logger.info("  GET  /bot/:botId");
     logger.info("  PUT  /bot/:botId/config");
     logger.info("  POST /bot/:botId/start");
     logger.info("  POST /bot/:botId/stop");
     logger.info("  POST /bot/:botId/emergency");
+    logger.info("  GET  /bot/:botId/safety");
+    logger.info("  POST /bot/:botId/safety/reset");
+    logger.info("  POST /bot/:botId/backtest");
+    logger.info("  GET  /bot/:botId/backtest/:jobId");
     logger.info("  DELETE /bot/:botId");
     logger.info("  GET  /strategy/presets");
     logger.info("  POST /strategy/create");
@@ -186,8 +228,10 @@ const server = serve(
     logger.info("  POST /ml/predict");
     logger.info("  POST /ml/reload");
     logger.info("  GET  /events/stream  (SSE)");
+    logger.info("  GET  /events/ws      (WebSocket)");
     logger.info("  GET  /position/active");
     logger.info("  GET  /position/history");
+    logger.info("  GET  /position/export");
     logger.info("  GET  /position/bot/:botId");
     logger.info("  GET  /position/:positionId");
     logger.info("  POST /ai/chat");
@@ -195,7 +239,31 @@ const server = serve(
     logger.info("  GET  /ai/conversations");
     logger.info("  GET  /ai/conversations/:id");
     logger.info("  DELETE /ai/conversations/:id");
+    logger.info("  POST /ai/actions/:id/confirm");
     logger.info("  GET  /ai/status");
+    logger.info("  GET  /market/pools/:address/history");
+    logger.info("  GET  /notifications/webhooks");
+    logger.info("  POST /notifications/webhooks");
+    logger.info("  PUT  /notifications/webhooks/:id");
+    logger.info("  DELETE /notifications/webhooks/:id");
+    logger.info("  POST /notifications/webhooks/:id/test");
+    logger.info("  GET  /notifications/webhooks/:id/deliveries");
+    logger.info("  GET  /analytics/bot/:botId");
+    logger.info("  GET  /analytics/portfolio");
+    logger.info("  GET  /risk/limits");
+    logger.info("  PUT  /risk/limits");
+    logger.info("  GET  /audit");
+    logger.info("  GET  /admin/instances");
+    logger.info("  GET  /admin/bots");
+    logger.info("  POST /admin/bots/:botId/stop");
+    logger.info("  GET  /admin/positions/orphaned");
+    logger.info("  GET  /admin/cache");
+    logger.info("  POST /admin/ml/reload");
+    logger.info("  PUT  /admin/users/:userId/role");
+    logger.info("  GET  /admin/audit");
+    logger.info("  GET  /admin/kill-switch");
+    logger.info("  POST /admin/kill-switch");
+    logger.info("  DELETE /admin/kill-switch");
     logger.info("");
 
     // S2: Recover any bots that were running before server restart
@@ -205,10 +273,26 @@ const server = serve(
       }
     }).catch((err) => {
       logger.error({ err: err instanceof Error ? err.message : String(err) }, "Bot recovery failed");
+    }).finally(() => {
+      // On-chain reconciliation — first pass re-attaches recovered bots' positions
+      if (config.RECONCILER_ENABLED) {
+        positionReconciler.start();
+      }
     });
+
+    // Outbound webhooks (EventBus → user endpoints, with retries)
+    webhookDispatcher.start();
+
+    // Market history recorder (opt-in — writes a row per pool per tick)
+    if (config.SNAPSHOT_RECORDER_ENABLED) {
+      poolRecorder.start();
+    }
   }
 );
 
+// WebSocket upgrades (GET /events/ws)
+injectWebSocket(server);
+
 // Graceful shutdown with timeout
 const SHUTDOWN_TIMEOUT_MS = 30_000; // 30s max to stop bots and close
 let isShuttingDown = false;
@@ -237,7 +321,11 @@ const shutdown = async (signal: string) => {
     }
   });
 
-  // Phase 2: Stop all running bots (waits for active trades to complete)
+  // Phase 2: Stop background recorders and all running bots
+  // (waits for active trades to complete)
+  poolRecorder.stop();
+  webhookDispatcher.stop();
+  positionReconciler.stop();
   try {
     await orchestrator.stopAll();
     logger.info("All bots stopped cleanly");
@@ -3,16 +3,27 @@
  *
  * Extracts Bearer token from Authorization header,
  * verifies it, and sets userId + walletAddress on the context.
+ * `sage_…` bearer tokens are API keys (services/api-keys.ts), accepted
+ * only on routes their scopes cover.
  */
 
 import { createMiddleware } from "hono/factory";
 import { HTTPException } from "hono/http-exception";
+import { eq } from "drizzle-orm";
+import config from "../config.js";
+import db from "../db/index.js";
+import { users } from "../db/schema.js";
 import { verifyAccessToken, type SageJWTPayload } from "../services/auth.js";
+import { apiKeyAllows, isApiKey, verifyApiKey } from "../services/api-keys.js";
+import { clientIp } from "./rate-limit.js";
 
 export type AuthVariables = {
   userId: number;
   walletAddress: string;
-  jwtPayload: SageJWTPayload;
+  /** Absent when the request is authenticated with an API key */
+  jwtPayload?: SageJWTPayload;
+  /** Set when the request is authenticated with an API key */
+  apiKey?: { id: number; scopes: string[] };
 };
 
 /**
@@ -32,6 +43,24 @@ export const requireAuth = createMiddleware<{
 
   const token = authHeader.slice(7); // Remove "Bearer "
 
+  if (isApiKey(token)) {
+    const key = await verifyApiKey(token, clientIp(c));
+    if (!key) {
+      throw new HTTPException(401, { message: "Invalid, expired or revoked API key" });
+    }
+    if (!apiKeyAllows(key.scopes, c.req.method, c.req.path)) {
+      throw new HTTPException(403, {
+        message: `API key scopes (${key.scopes.join(", ")}) do not allow ${c.req.method} ${c.req.path}`,
+      });
+    }
+
+    c.set("userId", key.userId);
+    c.set("walletAddress", key.walletAddress);
+    c.set("apiKey", { id: key.id, scopes: key.scopes });
+    await next();
+    return;
+  }
+
   try {
     const payload = await verifyAccessToken(token);
 
@@ -79,3 +108,25 @@ export const optionalAuth = createMiddleware<{
 
   await next();
 });
+
+/**
+ * Requires an admin: a user with role "admin", or a wallet listed in
+ * ADMIN_WALLETS (bootstrap — works before any role is granted).
+ * The role is read on every request, so revoking it takes effect at once.
+ * Must run after requireAuth.
+ */
+export const requireAdmin = createMiddleware<{
+  Variables: AuthVariables;
+}>(async (c, next) => {
+  if (!config.ADMIN_WALLETS.includes(c.var.walletAddress)) {
+    const [user] = await db
+      .select({ role: users.role })
+      .from(users)
+      .where(eq(users.id, c.var.userId));
+    if (user?.role !== "admin") {
+      throw new HTTPException(403, { message: "Admin access required" });
+    }
+  }
+
+  await next();
+});
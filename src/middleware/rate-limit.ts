@@ -1,7 +1,12 @@
 /**
  * Rate limiting middleware for the Sage Backend.
  *
- * Uses hono-rate-limiter with in-memory store (sufficient for single-process).
+ * Uses hono-rate-limiter with counters in the shared store
+ * (services/shared-store.ts), so limits hold across every replica rather
+ * than per process. Each tier counts under its own key prefix. If the
+ * store is unreachable the request is let through — an outage of the
+ * limiter shouldn't take the API down with it.
+ *
  * Different tiers for different endpoint groups:
  *  - Auth: strict (prevent brute force)
  *  - Bot lifecycle: moderate (prevent spam start/stop)
@@ -9,8 +14,20 @@
  *  - ML: moderate (prevent abuse of inference)
  */
 
-import { rateLimiter } from "hono-rate-limiter";
+import { rateLimiter, type Store } from "hono-rate-limiter";
 import type { Context } from "hono";
+import { logger } from "./logger.js";
+import { sharedStore } from "../services/shared-store.js";
+
+const log = logger.child({ module: "rate-limit" });
+
+/**
+ * Client IP — first X-Forwarded-For hop (set by the Railway proxy).
+ */
+export function clientIp(c: Context): string {
+  const forwarded = c.req.header("x-forwarded-for");
+  return forwarded?.split(",")[0]?.trim() || "unknown";
+}
 
 /**
  * Extract a key for rate limiting.
@@ -22,9 +39,42 @@ function getKeyGenerator(c: Context): string {
   if (userId) return `user:${userId}`;
 
   // Fall back to IP
-  const forwarded = c.req.header("x-forwarded-for");
-  const ip = forwarded?.split(",")[0]?.trim() ?? "unknown";
-  return `ip:${ip}`;
+  return `ip:${clientIp(c)}`;
+}
+
+/**
+ * hono-rate-limiter store backed by the shared store, one per tier.
+ * The window comes from the tier's own options via init().
+ */
+function sharedLimiterStore(tier: string): Store {
+  const prefix = `rl:${tier}:`;
+  let windowMs = 60 * 1000;
+
+  return {
+    prefix,
+    localKeys: false,
+    init(options) {
+      windowMs = options.windowMs;
+    },
+    async increment(key) {
+      try {
+        const hit = await sharedStore().increment(prefix + key, windowMs);
+        return { totalHits: hit.count, resetTime: hit.resetAt };
+      } catch (err) {
+        log.warn(
+          { tier, error: err instanceof Error ? err.message : String(err) },
+          "Rate-limit store unavailable — allowing request"
+        );
+        return { totalHits: 0 };
+      }
+    },
+    async decrement(key) {
+      await sharedStore().decrement(prefix + key).catch(() => {});
+    },
+    async resetKey(key) {
+      await sharedStore().delete(prefix + key).catch(() => {});
+    },
+  };
 }
 
 /**
@@ -35,6 +85,7 @@ export const authRateLimit = rateLimiter({
   windowMs: 60 * 1000, // 1 minute
   limit: 10,
   keyGenerator: getKeyGenerator,
+  store: sharedLimiterStore("auth"),
   message: { error: "Too many auth requests, please try again later" },
 });
 
@@ -46,6 +97,7 @@ export const botLifecycleRateLimit = rateLimiter({
   windowMs: 60 * 1000,
   limit: 30,
   keyGenerator: getKeyGenerator,
+  store: sharedLimiterStore("bot-lifecycle"),
   message: { error: "Too many bot operations, please slow down" },
 });
 
@@ -57,6 +109,7 @@ export const readRateLimit = rateLimiter({
   windowMs: 60 * 1000,
   limit: 120,
   keyGenerator: getKeyGenerator,
+  store: sharedLimiterStore("read"),
   message: { error: "Too many requests, please slow down" },
 });
 
@@ -68,6 +121,7 @@ export const mlRateLimit = rateLimiter({
   windowMs: 60 * 1000,
   limit: 30,
   keyGenerator: getKeyGenerator,
+  store: sharedLimiterStore("ml"),
   message: { error: "Too many ML prediction requests" },
 });
 
@@ -79,5 +133,6 @@ export const globalRateLimit = rateLimiter({
   windowMs: 60 * 1000,
   limit: 300,
   keyGenerator: getKeyGenerator,
+  store: sharedLimiterStore("global"),
   message: { error: "Rate limit exceeded" },
 });
@@ -0,0 +1,395 @@
+/**
+ * Admin routes — operator views and controls across all users.
+ *
+ * GET    /admin/instances          — backend replicas and the bots each one holds
+ * GET    /admin/bots               — every bot with status, owner and lease holder
+ * POST   /admin/bots/:botId/stop   — force-stop any user's bot
+ * GET    /admin/positions/orphaned — orphaned positions platform-wide
+ * GET    /admin/cache              — SharedAPICache stats (this instance)
+ * POST   /admin/ml/reload          — hot-reload the ML model
+ * PUT    /admin/users/:userId/role — grant or revoke the admin role
+ * GET    /admin/audit              — admin audit log
+ * GET    /admin/kill-switch        — platform kill switch state
+ * POST   /admin/kill-switch        — halt new entries on every bot (optionally close all)
+ * DELETE /admin/kill-switch        — lift the kill switch
+ *
+ * Access: users with role "admin", or wallets listed in ADMIN_WALLETS.
+ * Every state-changing route writes an admin_audit_log entry.
+ */
+
+import { Hono, type Context } from "hono";
+import { z } from "zod";
+import { zValidator } from "@hono/zod-validator";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { requireAdmin, requireAuth, type AuthVariables } from "../middleware/auth.js";
+import { createApiError } from "../middleware/error.js";
+import db from "../db/index.js";
+import { botLeases, bots, positions, tradeLog, users } from "../db/schema.js";
+import { botLeaseManager } from "../engine/bot-lease.js";
+import { killSwitch } from "../engine/kill-switch.js";
+import { orchestrator } from "../engine/orchestrator.js";
+import { listAdminActions, recordAdminAction } from "../services/admin-audit.js";
+
+const admin = new Hono<{ Variables: AuthVariables }>();
+
+admin.use("/*", requireAuth, requireAdmin);
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+const activateKillSwitchSchema = z.object({
+  /** Shown to clients in the /health banner */
+  reason: z.string().min(1).max(256),
+  /** Also close every open position via emergencyCloseAll */
+  closePositions: z.boolean().default(false),
+});
+
+const botsQuerySchema = z.object({
+  status: z.enum(["running", "stopped", "error"]).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const forceStopSchema = z.object({
+  /** Recorded in the audit log and shown to the owner as lastError */
+  reason: z.string().min(1).max(256),
+});
+
+const orphanedQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const setRoleSchema = z.object({
+  role: z.enum(["user", "admin"]),
+});
+
+const auditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  /** Keyset cursor — entries older than this ID */
+  before: z.coerce.number().int().positive().optional(),
+  adminUserId: z.coerce.number().int().positive().optional(),
+  action: z.string().max(64).optional(),
+});
+
+const BOT_ID_REGEX = /^[0-9a-f]{8}$/;
+
+// ═══════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════
+
+function audit(
+  c: Context<{ Variables: AuthVariables }>,
+  action: string,
+  target: string | null,
+  details?: Record<string, unknown>
+): Promise<void> {
+  return recordAdminAction({
+    adminUserId: c.var.userId,
+    walletAddress: c.var.walletAddress,
+    action,
+    target,
+    details,
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Routes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /admin/instances
+ * Every registered instance (alive = heartbeat within one lease TTL)
+ * with its leased bots. `self` marks the instance serving this request.
+ */
+admin.get("/instances", async (c) => {
+  const instances = await botLeaseManager.listOwnership();
+
+  return c.json({
+    success: true,
+    instanceId: botLeaseManager.instanceId,
+    leaseTtlSeconds: botLeaseManager.ttlSeconds,
+    instances,
+  });
+});
+
+/**
+ * GET /admin/bots
+ * Every non-deleted bot, newest first, with its owner's wallet and the
+ * instance holding its lease (null = not leased, e.g. stopped).
+ */
+admin.get("/bots", async (c) => {
+  const query = botsQuerySchema.parse(c.req.query());
+
+  const conditions = [
+    isNull(bots.deletedAt),
+    query.status ? eq(bots.status, query.status) : undefined,
+    query.userId ? eq(bots.userId, query.userId) : undefined,
+  ].filter((cond) => cond !== undefined);
+
+  const rows = await db
+    .select({
+      botId: bots.botId,
+      name: bots.name,
+      userId: bots.userId,
+      walletAddress: users.walletAddress,
+      mode: bots.mode,
+      status: bots.status,
+      lastError: bots.lastError,
+      lastActivityAt: bots.lastActivityAt,
+      totalTrades: bots.totalTrades,
+      totalPnlLamports: bots.totalPnlLamports,
+      leaseInstanceId: botLeases.instanceId,
+      leaseExpiresAt: botLeases.expiresAt,
+      createdAt: bots.createdAt,
+    })
+    .from(bots)
+    .innerJoin(users, eq(users.id, bots.userId))
+    .leftJoin(botLeases, eq(botLeases.botId, bots.botId))
+    .where(and(...conditions))
+    .orderBy(desc(bots.createdAt))
+    .limit(query.limit)
+    .offset(query.offset);
+
+  return c.json({
+    success: true,
+    bots: rows.map((row) => ({
+      ...row,
+      runningHere: orchestrator.isRunning(row.botId),
+    })),
+  });
+});
+
+/**
+ * POST /admin/bots/:botId/stop
+ * Stop any user's bot. If another instance runs it, the stop is left on
+ * its lease and executed there within one renewal interval.
+ */
+admin.post(
+  "/bots/:botId/stop",
+  zValidator("json", forceStopSchema),
+  async (c) => {
+    const botId = c.req.param("botId");
+    if (!BOT_ID_REGEX.test(botId)) {
+      throw createApiError("Invalid bot ID format", 400);
+    }
+    const { reason } = c.req.valid("json");
+
+    const [botData] = await db.select().from(bots).where(eq(bots.botId, botId));
+    if (!botData || botData.deletedAt) {
+      throw createApiError("Bot not found", 404);
+    }
+
+    // Status first, so no instance takes the bot over once its lease is released
+    await db.update(bots)
+      .set({
+        status: "stopped",
+        lastError: `Stopped by admin: ${reason}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(bots.botId, botId));
+
+    try {
+      await orchestrator.stopBot(botId);
+    } catch (err) {
+      throw createApiError(err instanceof Error ? err.message : String(err), 409);
+    }
+
+    await db.insert(tradeLog)
+      .values({
+        botId,
+        userId: botData.userId,
+        event: "bot_stopped",
+        details: JSON.stringify({ reason: "admin_force_stop", note: reason }),
+      });
+
+    await audit(c, "bot.force_stop", botId, {
+      ownerUserId: botData.userId,
+      previousStatus: botData.status,
+      reason,
+    });
+
+    return c.json({ success: true, botId, status: "stopped" });
+  }
+);
+
+/**
+ * GET /admin/positions/orphaned
+ * Positions no engine tracks, across all users, oldest first.
+ */
+admin.get("/positions/orphaned", async (c) => {
+  const query = orphanedQuerySchema.parse(c.req.query());
+
+  const rows = await db
+    .select({
+      positionId: positions.positionId,
+      botId: positions.botId,
+      userId: positions.userId,
+      walletAddress: users.walletAddress,
+      poolAddress: positions.poolAddress,
+      poolName: positions.poolName,
+      onChainPositionKey: positions.onChainPositionKey,
+      entryAmountXLamports: positions.entryAmountXLamports,
+      entryAmountYLamports: positions.entryAmountYLamports,
+      entryTimestamp: positions.entryTimestamp,
+      updatedAt: positions.updatedAt,
+    })
+    .from(positions)
+    .innerJoin(users, eq(users.id, positions.userId))
+    .where(eq(positions.status, "orphaned"))
+    .orderBy(positions.updatedAt)
+    .limit(query.limit);
+
+  return c.json({ success: true, count: rows.length, positions: rows });
+});
+
+/**
+ * GET /admin/cache
+ * SharedAPICache stats — per instance, like the cache itself.
+ */
+admin.get("/cache", (c) => {
+  return c.json({
+    success: true,
+    instanceId: botLeaseManager.instanceId,
+    cache: orchestrator.getCacheStats(),
+  });
+});
+
+/**
+ * POST /admin/ml/reload
+ * Hot-reload the ML model; the service's response is passed through.
+ */
+admin.post("/ml/reload", async (c) => {
+  let result;
+  try {
+    result = await orchestrator.reloadMLModel();
+  } catch (err) {
+    throw createApiError(
+      `ML service unreachable: ${err instanceof Error ? err.message : String(err)}`,
+      503
+    );
+  }
+
+  await audit(c, "ml.reload", null, { status: result.status });
+
+  if (!result.ok) {
+    return c.json({ success: false, status: result.status, result: result.body }, 502);
+  }
+  return c.json({ success: true, result: result.body });
+});
+
+/**
+ * PUT /admin/users/:userId/role
+ * ADMIN_WALLETS admins can't be demoted here — remove them from the env.
+ */
+admin.put(
+  "/users/:userId/role",
+  zValidator("json", setRoleSchema),
+  async (c) => {
+    const userId = Number(c.req.param("userId"));
+    if (!Number.isInteger(userId) || userId <= 0) {
+      throw createApiError("Invalid user ID", 400);
+    }
+    const { role } = c.req.valid("json");
+
+    if (userId === c.var.userId && role !== "admin") {
+      throw createApiError("Admins cannot revoke their own role", 400);
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw createApiError("User not found", 404);
+    }
+
+    await db.update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    await audit(c, "user.set_role", String(userId), {
+      walletAddress: user.walletAddress,
+      from: user.role,
+      to: role,
+    });
+
+    return c.json({ success: true, userId, walletAddress: user.walletAddress, role });
+  }
+);
+
+/**
+ * GET /admin/audit
+ * Admin actions, newest first. Page with ?before=<last id>.
+ */
+admin.get("/audit", async (c) => {
+  const query = auditQuerySchema.parse(c.req.query());
+
+  const entries = await listAdminActions({
+    limit: query.limit,
+    beforeId: query.before,
+    adminUserId: query.adminUserId,
+    action: query.action,
+  });
+
+  return c.json({
+    success: true,
+    entries,
+    nextBefore: entries.length === query.limit ? entries[entries.length - 1]!.id : null,
+  });
+});
+
+/**
+ * GET /admin/kill-switch
+ * Re-read from the DB, so it reflects changes made on other instances.
+ */
+admin.get("/kill-switch", async (c) => {
+  const state = await killSwitch.load();
+  return c.json({ success: true, killSwitch: state });
+});
+
+/**
+ * POST /admin/kill-switch
+ * Applied here immediately; other instances pick it up on their next
+ * lease heartbeat (within propagationMs). Re-activating with
+ * closePositions closes positions again.
+ */
+admin.post(
+  "/kill-switch",
+  zValidator("json", activateKillSwitchSchema),
+  async (c) => {
+    const { reason, closePositions } = c.req.valid("json");
+
+    const state = await killSwitch.activate({
+      reason,
+      closePositions,
+      by: c.var.walletAddress,
+    });
+    orchestrator.applyKillSwitch(state);
+
+    await audit(c, "kill_switch.activate", null, { reason, closePositions });
+
+    return c.json({
+      success: true,
+      killSwitch: state,
+      propagationMs: botLeaseManager.renewIntervalMs,
+    });
+  }
+);
+
+/**
+ * DELETE /admin/kill-switch
+ * Bots resume entering positions. Closed positions are not reopened.
+ */
+admin.delete("/kill-switch", async (c) => {
+  const state = await killSwitch.deactivate(c.var.walletAddress);
+  orchestrator.applyKillSwitch(state);
+
+  await audit(c, "kill_switch.deactivate", null);
+
+  return c.json({
+    success: true,
+    killSwitch: state,
+    propagationMs: botLeaseManager.renewIntervalMs,
+  });
+});
+
+export default admin;
@@ -6,6 +6,7 @@
  * GET  /ai/conversations — List user's conversations
  * GET  /ai/conversations/:id — Get conversation by ID
  * DELETE /ai/conversations/:id — Delete conversation
+ * POST /ai/actions/:id/confirm — Run a bot operation the AI proposed
  * GET  /ai/status        — Check AI service availability
  */
 
@@ -20,6 +21,8 @@ import { aiService, type ChatMessage } from "../services/ai.js";
 import { db } from "../db/index.js";
 import { conversations, bots, positions } from "../db/schema.js";
 import { logger } from "../middleware/logger.js";
+import { recordAudit } from "../services/audit.js";
+import { confirmAiAction, proposeAiAction } from "../services/ai-actions.js";
 
 const LAMPORTS_PER_SOL = 1_000_000_000;
 
@@ -49,6 +52,16 @@ const chatSchema = z.object({
         maxHoldTimeMinutes: z.number().optional(),
         maxDailyLossSOL: z.number().optional(),
         cooldownMinutes: z.number().optional(),
+        maxTotalLossSOL: z.number().optional(),
+        maxConsecutiveLosses: z.number().optional(),
+        maxTxFailuresPerHour: z.number().optional(),
+        maxApiErrorsPerHour: z.number().optional(),
+        maxPositionsPerPool: z.number().optional(),
+        maxSinglePositionSOL: z.number().optional(),
+        maxTotalExposureSOL: z.number().optional(),
+        maxTxPerMinute: z.number().optional(),
+        minTimeBetweenTradesMs: z.number().optional(),
+        maxApiCallsPerMinute: z.number().optional(),
     }).optional(),
 });
 
@@ -97,8 +110,17 @@ ai.post("/chat", zValidator("json", chatSchema), async (c) => {
         let portfolioContext = undefined;
         portfolioContext = await buildPortfolioContext(userId);
 
-        // Call Claude
-        const response = await aiService.chat(type, messageHistory, portfolioContext, currentParams);
+        const newConversationId = conversationId || uuidv4();
+
+        // Call Claude. Bot operations it proposes come back as pending
+        // actions the app must confirm via POST /ai/actions/:id/confirm.
+        const response = await aiService.chat(
+            type,
+            messageHistory,
+            portfolioContext,
+            currentParams,
+            (actionType, input) => proposeAiAction(userId, newConversationId, actionType, input)
+        );
 
         // Add assistant message (include strategyParams per-message
         // so individual messages carry their params through restore).
@@ -107,11 +129,11 @@ ai.post("/chat", zValidator("json", chatSchema), async (c) => {
             content: response.message,
             timestamp: new Date().toISOString(),
             ...(response.strategyParams && { strategyParams: response.strategyParams }),
+            ...(response.actions && { actions: response.actions }),
         };
         messageHistory.push(assistantMessage);
 
         // Persist conversation
-        const newConversationId = conversationId || uuidv4();
         const title =
             conversation?.title || generateTitle(message);
 
@@ -137,6 +159,18 @@ ai.post("/chat", zValidator("json", chatSchema), async (c) => {
             });
         }
 
+        // Strategy changes proposed by the AI are audited against what the
+        // conversation (or the app's form) held before this turn.
+        if (response.strategyParams) {
+            await recordAudit(c, {
+                action: "ai.strategy_update",
+                targetType: "conversation",
+                targetId: newConversationId,
+                before: (conversation?.extractedParams ?? currentParams ?? null) as Record<string, unknown> | null,
+                after: response.strategyParams as unknown as Record<string, unknown>,
+            });
+        }
+
         return c.json({
             conversationId: newConversationId,
             message: response.message,
@@ -291,6 +325,19 @@ ai.delete("/conversations/:id", async (c) => {
     return c.json({ success: true });
 });
 
+// ═══════════════════════════════════════════════════════════════
+// POST /ai/actions/:id/confirm — Execute a proposed bot operation
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Runs an action from a chat response's `actions` (one with an `id`).
+ * Single use — 404 once confirmed or after it expires.
+ */
+ai.post("/actions/:id/confirm", async (c) => {
+    const { action, result } = await confirmAiAction(c, c.req.param("id"));
+    return c.json({ success: true, action, result });
+});
+
 // ═══════════════════════════════════════════════════════════════
 // GET /ai/status — Check AI service availability
 // ═══════════════════════════════════════════════════════════════
@@ -354,6 +401,9 @@ async function buildPortfolioContext(userId: number) {
         const winningTrades = userBots.reduce((sum, b) => sum + b.winningTrades, 0);
         const totalPnlLamports = userBots.reduce((sum, b) => sum + b.totalPnlLamports, 0);
 
+        const liveBots = userBots.filter((b) => !b.deletedAt);
+        const botNames = new Map(userBots.map((b) => [b.botId, b.name]));
+
         return {
             totalBots: userBots.length,
             runningBots: userBots.filter((b) => b.status === "running").length,
@@ -361,6 +411,17 @@ async function buildPortfolioContext(userId: number) {
             winRate: totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0,
             totalPnlSOL: totalPnlLamports / LAMPORTS_PER_SOL,
             activePositions: activePositions.length,
+            bots: liveBots.map((b) => ({
+                name: b.name,
+                status: b.status,
+                mode: b.mode,
+                isPublic: b.isPublic,
+            })),
+            openPositions: activePositions.map((p) => ({
+                positionId: p.positionId,
+                pool: p.poolName,
+                botName: botNames.get(p.botId) ?? p.botId,
+            })),
             recentTrades: recentPositions.slice(0, 10).map((p) => ({
                 pool: p.poolName,
                 pnlSOL: (p.realizedPnlLamports ?? 0) / LAMPORTS_PER_SOL,
@@ -0,0 +1,97 @@
+/**
+ * Analytics routes — performance metrics from closed positions.
+ *
+ * GET /analytics/bot/:botId   — one bot
+ * GET /analytics/portfolio    — every bot the user owns
+ *
+ * Both accept ?from=&to= (ISO timestamps, filter on exit time) and
+ * ?capitalSol= to override the starting capital used for returns.
+ * Computation lives in services/analytics.ts.
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import db from "../db/index.js";
+import { bots } from "../db/schema.js";
+import { requireAuth, type AuthVariables } from "../middleware/auth.js";
+import { createApiError } from "../middleware/error.js";
+import {
+  getBotAnalytics,
+  getPortfolioAnalytics,
+  type AnalyticsRange,
+} from "../services/analytics.js";
+
+const analytics = new Hono<{ Variables: AuthVariables }>();
+
+analytics.use("/*", requireAuth);
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+const BOT_ID_REGEX = /^[0-9a-f]{8}$/;
+
+const rangeQuerySchema = z.object({
+  /** ISO timestamp — defaults to the first closed position */
+  from: z.string().datetime().optional(),
+  /** ISO timestamp — defaults to now */
+  to: z.string().datetime().optional(),
+  capitalSol: z.coerce.number().positive().max(1_000_000).optional(),
+});
+
+function parseRange(query: Record<string, string>): AnalyticsRange {
+  const parsed = rangeQuerySchema.parse(query);
+  const from = parsed.from ? Date.parse(parsed.from) : undefined;
+  const to = parsed.to ? Date.parse(parsed.to) : undefined;
+
+  if (from !== undefined && from >= (to ?? Date.now())) {
+    throw createApiError("`from` must be before `to`", 400);
+  }
+  return { from, to, capitalSol: parsed.capitalSol };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Routes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /analytics/bot/:botId
+ */
+analytics.get("/bot/:botId", async (c) => {
+  const userId = c.var.userId;
+  const botId = c.req.param("botId");
+  if (!BOT_ID_REGEX.test(botId)) {
+    throw createApiError("Invalid bot ID format", 400);
+  }
+  const range = parseRange(c.req.query());
+
+  const [botRow] = await db
+    .select({ mode: bots.mode, simulationBalanceSOL: bots.simulationBalanceSOL })
+    .from(bots)
+    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+  if (!botRow) {
+    throw createApiError("Bot not found", 404);
+  }
+
+  const report = await getBotAnalytics(
+    userId,
+    botId,
+    botRow.simulationBalanceSOL,
+    range
+  );
+  return c.json({ success: true, botId, mode: botRow.mode, analytics: report });
+});
+
+/**
+ * GET /analytics/portfolio
+ */
+analytics.get("/portfolio", async (c) => {
+  const userId = c.var.userId;
+  const range = parseRange(c.req.query());
+
+  const report = await getPortfolioAnalytics(userId, range);
+  return c.json({ success: true, analytics: report });
+});
+
+export default analytics;
@@ -0,0 +1,59 @@
+/**
+ * Audit routes — the user's own history of state-changing actions.
+ *
+ * GET  /audit   — audit entries, newest first (?limit, ?before, ?action, ?targetId)
+ *
+ * Entries are written by services/audit.ts from the routes that change
+ * state; the table is append-only.
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { requireAuth, type AuthVariables } from "../middleware/auth.js";
+import { listAudit } from "../services/audit.js";
+
+const audit = new Hono<{ Variables: AuthVariables }>();
+
+audit.use("/*", requireAuth);
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+const auditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  /** Keyset cursor — entries older than this ID */
+  before: z.coerce.number().int().positive().optional(),
+  /** e.g. "bot.config_update" */
+  action: z.string().max(64).optional(),
+  /** Bot ID, webhook ID, conversation ID, … */
+  targetId: z.string().max(128).optional(),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Routes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /audit
+ * Page with ?before=<last id>.
+ */
+audit.get("/", async (c) => {
+  const query = auditQuerySchema.parse(c.req.query());
+
+  const entries = await listAudit({
+    userId: c.var.userId,
+    limit: query.limit,
+    beforeId: query.before,
+    action: query.action,
+    targetId: query.targetId,
+  });
+
+  return c.json({
+    success: true,
+    entries,
+    nextBefore: entries.length === query.limit ? entries[entries.length - 1]!.id : null,
+  });
+});
+
+export default audit;
@@ -5,9 +5,14 @@
  * POST /auth/verify   — Verify signature, return JWT
  * POST /auth/refresh  — Refresh token rotation
  * GET  /auth/me       — Get current user (requires auth)
+ * GET  /auth/sessions — Signed-in devices (requires auth)
+ * DELETE /auth/sessions/:id — Sign a device out (requires auth)
+ * GET  /auth/api-keys — List API keys (requires auth)
+ * POST /auth/api-keys — Create a scoped API key (requires auth)
+ * DELETE /auth/api-keys/:id — Revoke an API key (requires auth)
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
 import {
@@ -16,12 +21,24 @@ import {
   issueTokens,
   refreshTokens,
   buildSIWSMessage,
+  listSessions,
+  revokeSession,
+  type ClientInfo,
 } from "../services/auth.js";
 import { requireAuth, type AuthVariables } from "../middleware/auth.js";
 import { createApiError } from "../middleware/error.js";
 import db from "../db/index.js";
 import { users } from "../db/schema.js";
 import { eq } from "drizzle-orm";
+import { recordAudit } from "../services/audit.js";
+import {
+  API_KEY_SCOPES,
+  countActiveApiKeys,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../services/api-keys.js";
+import { clientIp } from "../middleware/rate-limit.js";
 
 const auth = new Hono<{ Variables: AuthVariables }>();
 
@@ -45,12 +62,42 @@ const verifySchema = z.object({
     .min(64)
     .describe("Ed25519 signature of SIWS message (base58)"),
   message: z.string().min(1).describe("The signed SIWS message"),
+  deviceName: z
+    .string()
+    .trim()
+    .min(1)
+    .max(64)
+    .describe("Shown in GET /auth/sessions")
+    .optional(),
 });
 
 const refreshSchema = z.object({
   refreshToken: z.string().min(1),
 });
 
+const MAX_API_KEYS_PER_USER = 20;
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+const includeRevokedQuerySchema = z.object({
+  includeRevoked: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true"),
+});
+
+function clientInfo(c: Context, deviceName?: string): ClientInfo {
+  return {
+    ip: clientIp(c),
+    userAgent: c.req.header("user-agent")?.slice(0, 256) ?? null,
+    deviceName: deviceName ?? null,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // Routes
 // ═══════════════════════════════════════════════════════════════
@@ -62,7 +109,7 @@ const refreshSchema = z.object({
  * Two modes:
  *  - With `walletAddress`: legacy flow — nonce stored in user record,
  *    full SIWS message returned.
- *  - Without `walletAddress`: MWA-safe flow — nonce stored in memory,
+ *  - Without `walletAddress`: MWA-safe flow — nonce stored in the shared store,
  *    client builds the SIWS message locally after getting the address
  *    from wallet authorization.
  */
@@ -94,7 +141,7 @@ auth.post("/nonce", zValidator("json", nonceSchema), async (c) => {
  * Returns access + refresh JWTs.
  */
 auth.post("/verify", zValidator("json", verifySchema), async (c) => {
-  const { walletAddress, signature, message } = c.req.valid("json");
+  const { walletAddress, signature, message, deviceName } = c.req.valid("json");
 
   try {
     const { userId } = await verifySIWSSignature(
@@ -102,7 +149,7 @@ auth.post("/verify", zValidator("json", verifySchema), async (c) => {
       signature,
       message
     );
-    const tokens = await issueTokens(userId, walletAddress);
+    const tokens = await issueTokens(userId, walletAddress, clientInfo(c, deviceName));
     const [user] = await db
       .select({
         id: users.id,
@@ -116,6 +163,17 @@ auth.post("/verify", zValidator("json", verifySchema), async (c) => {
       .from(users)
       .where(eq(users.id, userId));
 
+    await recordAudit(
+      c,
+      {
+        action: "auth.login",
+        targetType: "session",
+        targetId: tokens.sessionId,
+        after: { deviceName: deviceName ?? null },
+      },
+      { userId, walletAddress }
+    );
+
     return c.json({
       success: true,
       ...tokens,
@@ -138,7 +196,7 @@ auth.post("/refresh", zValidator("json", refreshSchema), async (c) => {
   const { refreshToken } = c.req.valid("json");
 
   try {
-    const tokens = await refreshTokens(refreshToken);
+    const tokens = await refreshTokens(refreshToken, clientInfo(c));
     return c.json({ success: true, ...tokens });
   } catch (err) {
     throw createApiError(
@@ -226,11 +284,25 @@ const setupProgressSchema = z.object({
     positionSizeSOL: z.number().optional(),
     maxConcurrentPositions: z.number().optional(),
     defaultBinRange: z.number().optional(),
+    strategyType: z.enum(["spot", "curve", "bidask"]).optional(),
+    depositMode: z.enum(["one-sided", "balanced"]).optional(),
+    binsBelow: z.number().optional(),
+    binsAbove: z.number().optional(),
     profitTargetPercent: z.number().optional(),
     stopLossPercent: z.number().optional(),
     maxHoldTimeMinutes: z.number().optional(),
     maxDailyLossSOL: z.number().optional(),
     cooldownMinutes: z.number().optional(),
+    maxTotalLossSOL: z.number().optional(),
+    maxConsecutiveLosses: z.number().optional(),
+    maxTxFailuresPerHour: z.number().optional(),
+    maxApiErrorsPerHour: z.number().optional(),
+    maxPositionsPerPool: z.number().optional(),
+    maxSinglePositionSOL: z.number().optional(),
+    maxTotalExposureSOL: z.number().optional(),
+    maxTxPerMinute: z.number().optional(),
+    minTimeBetweenTradesMs: z.number().optional(),
+    maxApiCallsPerMinute: z.number().optional(),
   }).nullable().optional(),
 });
 
@@ -271,4 +343,132 @@ auth.delete("/setup-progress", requireAuth, async (c) => {
   return c.json({ success: true });
 });
 
+// ═══════════════════════════════════════════════════════════════
+// Sessions
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /auth/sessions
+ * Signed-in devices, most recently seen first. `current` marks the
+ * caller's own. ?includeRevoked=true adds signed-out / reuse-revoked ones.
+ */
+auth.get("/sessions", requireAuth, async (c) => {
+  const { includeRevoked } = includeRevokedQuerySchema.parse(c.req.query());
+  const currentSessionId = c.var.jwtPayload?.sid;
+
+  const rows = await listSessions(c.var.userId, includeRevoked);
+  return c.json({
+    success: true,
+    sessions: rows.map((s) => ({ ...s, current: s.id === currentSessionId })),
+  });
+});
+
+/**
+ * DELETE /auth/sessions/:id
+ * Sign a device out (its refresh token stops working; access tokens
+ * already issued expire on their own). Revoking your own session logs out.
+ */
+auth.delete("/sessions/:id", requireAuth, async (c) => {
+  const userId = c.var.userId;
+  const sessionId = Number(c.req.param("id"));
+  if (!Number.isInteger(sessionId) || sessionId <= 0) {
+    throw createApiError("Invalid session ID", 400);
+  }
+
+  const result = await revokeSession(userId, sessionId);
+  if (!result) {
+    throw createApiError("Session not found", 404);
+  }
+
+  const { session, revoked } = result;
+  if (revoked) {
+    await recordAudit(c, {
+      action: "auth.session_revoke",
+      targetType: "session",
+      targetId: sessionId,
+      before: { revokedAt: null },
+      after: { revokedAt: session.revokedAt, revokedReason: session.revokedReason },
+    });
+  }
+
+  return c.json({ success: true, session });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// API Keys
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /auth/api-keys
+ * Newest first; the keys themselves are never returned.
+ * ?includeRevoked=true adds revoked and expired keys.
+ */
+auth.get("/api-keys", requireAuth, async (c) => {
+  const { includeRevoked } = includeRevokedQuerySchema.parse(c.req.query());
+  const keys = await listApiKeys(c.var.userId, includeRevoked);
+  return c.json({ success: true, apiKeys: keys, scopes: API_KEY_SCOPES });
+});
+
+/**
+ * POST /auth/api-keys
+ * Returns the key once — store it, it can't be shown again.
+ */
+auth.post(
+  "/api-keys",
+  requireAuth,
+  zValidator("json", createApiKeySchema),
+  async (c) => {
+    const userId = c.var.userId;
+    const { name, scopes, expiresInDays } = c.req.valid("json");
+
+    if ((await countActiveApiKeys(userId)) >= MAX_API_KEYS_PER_USER) {
+      throw createApiError(`Maximum ${MAX_API_KEYS_PER_USER} active API keys per user`, 400);
+    }
+
+    const { key, apiKey } = await createApiKey({
+      userId,
+      name,
+      scopes,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    });
+
+    await recordAudit(c, {
+      action: "api_key.create",
+      targetType: "api_key",
+      targetId: apiKey.id,
+      after: { name, prefix: apiKey.prefix, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt },
+    });
+
+    return c.json({ success: true, apiKey, key }, 201);
+  }
+);
+
+/**
+ * DELETE /auth/api-keys/:id
+ * Takes effect on the key's next request.
+ */
+auth.delete("/api-keys/:id", requireAuth, async (c) => {
+  const keyId = Number(c.req.param("id"));
+  if (!Number.isInteger(keyId) || keyId <= 0) {
+    throw createApiError("Invalid API key ID", 400);
+  }
+
+  const result = await revokeApiKey(c.var.userId, keyId);
+  if (!result) {
+    throw createApiError("API key not found", 404);
+  }
+
+  if (result.revoked) {
+    await recordAudit(c, {
+      action: "api_key.revoke",
+      targetType: "api_key",
+      targetId: keyId,
+      before: { revokedAt: null },
+      after: { revokedAt: result.apiKey.revokedAt },
+    });
+  }
+
+  return c.json({ success: true, apiKey: result.apiKey });
+});
+
 export default auth;
@@ -3,11 +3,17 @@
  *
  * POST   /bot/create        — create a new bot with config
  * GET    /bot/list           — list user's bots
+ * GET    /bot/scorers        — available pool scorers + default params
  * GET    /bot/:botId         — get bot detail + stats
  * PUT    /bot/:botId/config  — update config (stopped bots only)
  * POST   /bot/:botId/start   — start bot
  * POST   /bot/:botId/stop    — stop bot
  * POST   /bot/:botId/emergency — emergency close all positions
+ * GET    /bot/:botId/safety  — EmergencyStop + CircuitBreaker state
+ * POST   /bot/:botId/safety/reset — clear a triggered emergency stop (acknowledged)
+ * POST   /bot/:botId/backtest — queue a backtest against a snapshot file
+ * GET    /bot/:botId/backtest — list recent backtest jobs
+ * GET    /bot/:botId/backtest/:jobId — backtest status + report
  * DELETE /bot/:botId         — delete stopped bot
  */
 
@@ -22,7 +28,28 @@ import { bots, positions, tradeLog } from "../db/schema.js";
 import { eq, and, sql, isNull } from "drizzle-orm";
 import { orchestrator } from "../engine/orchestrator.js";
 import { LAMPORTS_PER_SOL } from "../engine/types.js";
+import { EmergencyStop, emergencyStopConfigFor } from "../engine/emergency-stop.js";
+import { circuitBreakerConfigFor } from "../engine/circuit-breaker.js";
+import { listScorers } from "../engine/scoring.js";
+import {
+  resolveSnapshotFile,
+  submitBacktestJob,
+  getBacktestJob,
+  listBacktestJobs,
+} from "../services/backtest.js";
 import config from "../config.js";
+import { recordAudit } from "../services/audit.js";
+import {
+  createBotSchema,
+  getUserBot,
+  resolveScorerParams,
+  resolveScorerUpdate,
+  startUserBot,
+  stopUserBot,
+  updateBotConfig,
+  updateBotConfigSchema,
+  validateSafetyThresholds,
+} from "../services/bot-control.js";
 
 const bot = new Hono<{ Variables: AuthVariables }>();
 
@@ -33,34 +60,33 @@ bot.use("/*", requireAuth);
 // Schemas
 // ═══════════════════════════════════════════════════════════════
 
-const createBotSchema = z.object({
-  name: z.string().min(1).max(64).optional(),
-  mode: z.enum(["simulation", "live"]).default("simulation"),
-  strategyMode: z.enum(["rule-based", "sage-ai", "both"]).default("rule-based"),
-  // Entry criteria
-  entryScoreThreshold: z.number().positive().default(150),
-  minVolume24h: z.number().nonnegative().default(1000),
-  minLiquidity: z.number().nonnegative().default(100),
-  maxLiquidity: z.number().positive().default(1_000_000),
-  // Position sizing
-  positionSizeSOL: z.number().positive().max(100).default(1),
-  maxConcurrentPositions: z.number().int().min(1).max(20).default(5),
-  defaultBinRange: z.number().int().min(1).max(50).default(10),
-  // Risk management
-  profitTargetPercent: z.number().positive().max(100).default(8),
-  stopLossPercent: z.number().positive().max(100).default(12),
-  maxHoldTimeMinutes: z.number().int().positive().max(1440).default(240),
-  maxDailyLossSOL: z.number().positive().max(100).default(2),
-  cooldownMinutes: z.number().int().nonnegative().max(1440).default(79),
-  // Scheduler
-  cronIntervalSeconds: z.number().int().min(10).max(300).default(30),
-  // Simulation
-  simulationBalanceSOL: z.number().positive().default(10),
-  // Visibility
-  isPublic: z.boolean().default(false),
+const backtestSchema = z.object({
+  /** File name inside BACKTEST_DATA_DIR (.json or .jsonl) */
+  snapshotFile: z.string().regex(/^[\w.-]+\.jsonl?$/, "Expected a .json or .jsonl file name"),
+  /** Starting balance — defaults to the bot's simulationBalanceSOL */
+  initialBalanceSOL: z.number().positive().max(10_000).optional(),
+  /** Optional replay window */
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  /** Strategy overrides applied on top of the bot's stored config */
+  overrides: updateBotConfigSchema
+    .omit({ name: true, isPublic: true, simulationBalanceSOL: true })
+    .optional(),
 });
 
-const updateBotConfigSchema = createBotSchema.partial().omit({ mode: true });
+const safetyResetSchema = z.object({
+  /** Must be true — the user confirms they reviewed why the stop triggered */
+  acknowledge: z.literal(true, {
+    errorMap: () => ({ message: "Set acknowledge: true to confirm the reset" }),
+  }),
+  /**
+   * trigger — clear the trigger and failure windows, keep loss counters
+   * full    — also zero daily/total P&L and consecutive losses
+   */
+  scope: z.enum(["trigger", "full"]).default("trigger"),
+  /** Why it is safe to resume — kept in the trigger history */
+  note: z.string().min(1).max(256).optional(),
+});
 
 /** Bot ID is an 8-char hex string from crypto.randomBytes(4). */
 const BOT_ID_REGEX = /^[0-9a-f]{8}$/;
@@ -79,14 +105,6 @@ function generateBotId(): string {
   return crypto.randomBytes(4).toString("hex");
 }
 
-async function getUserBot(userId: number, botId: string) {
-  const [row] = await db
-    .select()
-    .from(bots)
-    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
-  return row;
-}
-
 // ═══════════════════════════════════════════════════════════════
 // Routes
 // ═══════════════════════════════════════════════════════════════
@@ -143,6 +161,13 @@ bot.post("/create", zValidator("json", createBotSchema), async (c) => {
     }
   }
 
+  const scorerParams = resolveScorerParams(body.scorer, body.scorerParams);
+  validateSafetyThresholds({
+    ...body,
+    maxTotalLossSOL: body.maxTotalLossSOL ?? null,
+    maxSinglePositionSOL: body.maxSinglePositionSOL ?? null,
+    maxTotalExposureSOL: body.maxTotalExposureSOL ?? null,
+  });
   const botId = generateBotId();
 
   await db.insert(bots)
@@ -156,14 +181,32 @@ bot.post("/create", zValidator("json", createBotSchema), async (c) => {
       minVolume24h: body.minVolume24h,
       minLiquidity: body.minLiquidity,
       maxLiquidity: body.maxLiquidity,
+      scorer: body.scorer,
+      scorerParams,
       positionSizeSOL: body.positionSizeSOL,
       maxConcurrentPositions: body.maxConcurrentPositions,
       defaultBinRange: body.defaultBinRange,
+      strategyType: body.strategyType,
+      depositMode: body.depositMode,
+      binsBelow: body.binsBelow,
+      binsAbove: body.binsAbove,
       profitTargetPercent: body.profitTargetPercent,
       stopLossPercent: body.stopLossPercent,
       maxHoldTimeMinutes: body.maxHoldTimeMinutes,
       maxDailyLossSOL: body.maxDailyLossSOL,
       cooldownMinutes: body.cooldownMinutes,
+      maxTotalLossSOL: body.maxTotalLossSOL,
+      maxConsecutiveLosses: body.maxConsecutiveLosses,
+      maxTxFailuresPerHour: body.maxTxFailuresPerHour,
+      maxApiErrorsPerHour: body.maxApiErrorsPerHour,
+      maxPositionsPerPool: body.maxPositionsPerPool,
+      maxSinglePositionSOL: body.maxSinglePositionSOL,
+      maxTotalExposureSOL: body.maxTotalExposureSOL,
+      maxTxPerMinute: body.maxTxPerMinute,
+      minTimeBetweenTradesMs: body.minTimeBetweenTradesMs,
+      maxApiCallsPerMinute: body.maxApiCallsPerMinute,
+      outOfRangeAction: body.outOfRangeAction,
+      outOfRangeMinutes: body.outOfRangeMinutes,
       cronIntervalSeconds: body.cronIntervalSeconds,
       simulationBalanceSOL: body.simulationBalanceSOL,
     });
@@ -178,10 +221,24 @@ bot.post("/create", zValidator("json", createBotSchema), async (c) => {
     });
 
   const created = await getUserBot(userId, botId);
+  await recordAudit(c, {
+    action: "bot.create",
+    targetType: "bot",
+    targetId: botId,
+    after: created ?? null,
+  });
 
   return c.json({ success: true, bot: created }, 201);
 });
 
+/**
+ * GET /bot/scorers
+ * Scorers a bot can select, with descriptions and default params.
+ */
+bot.get("/scorers", (c) => {
+  return c.json({ success: true, scorers: listScorers() });
+});
+
 /**
  * GET /bot/list
  * List all bots for the authenticated user.
@@ -260,11 +317,18 @@ bot.get("/:botId", async (c) => {
     currentBalanceSol = botData.simulationBalanceSOL;
   }
 
+  // Thresholds as the engine applies them, with defaults filled in
+  const resolvedConfig = orchestrator.botRowToConfig(botData);
+
   return c.json({
     success: true,
     bot: botData,
     /** Current simulation balance in SOL — always accurate, even when stopped */
     currentBalanceSol,
+    safetyThresholds: {
+      emergencyStop: emergencyStopConfigFor(resolvedConfig),
+      circuitBreaker: circuitBreakerConfigFor(resolvedConfig),
+    },
     activePositionCount: Number(activePositions?.count ?? 0),
     engineRunning: orchestrator.isRunning(botId),
     engineStats: engineStats
@@ -306,41 +370,14 @@ bot.put(
     validateBotId(botId);
     const updates = c.req.valid("json");
 
-    const botData = await getUserBot(userId, botId);
-    if (!botData) {
-      throw createApiError("Bot not found", 404);
-    }
-
-    if (botData.status !== "stopped") {
-      throw createApiError(
-        "Cannot update config while bot is running. Stop it first.",
-        400
-      );
-    }
-
-    // If the user changes the starting simulation balance, reset the
-    // persisted virtual balance so the next start uses the new config value.
-    // Also reset accumulated stats since this is effectively a "new session".
-    const resetBalance = updates.simulationBalanceSOL != null &&
-      updates.simulationBalanceSOL !== botData.simulationBalanceSOL;
-
-    await db.update(bots)
-      .set({
-        ...updates,
-        ...(resetBalance
-          ? {
-            currentVirtualBalanceLamports: null,
-            totalTrades: 0,
-            winningTrades: 0,
-            totalPnlLamports: 0,
-            emergencyStopState: null,
-          }
-          : {}),
-        updatedAt: new Date(),
-      })
-      .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
-
-    const updated = await getUserBot(userId, botId);
+    const { before, after: updated } = await updateBotConfig(userId, botId, updates);
+    await recordAudit(c, {
+      action: "bot.config_update",
+      targetType: "bot",
+      targetId: botId,
+      before,
+      after: updated ?? null,
+    });
     return c.json({ success: true, bot: updated });
   }
 );
@@ -392,6 +429,13 @@ bot.put(
       .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
 
     const updated = await getUserBot(userId, botId);
+    await recordAudit(c, {
+      action: "bot.rename",
+      targetType: "bot",
+      targetId: botId,
+      before: { name: botData.name },
+      after: { name },
+    });
     return c.json({ success: true, bot: updated });
   }
 );
@@ -405,53 +449,15 @@ bot.post("/:botId/start", async (c) => {
   const botId = c.req.param("botId");
   validateBotId(botId);
 
-  const botData = await getUserBot(userId, botId);
-  if (!botData) {
-    throw createApiError("Bot not found", 404);
-  }
-
-  if (botData.status === "running") {
-    throw createApiError("Bot is already running", 400);
-  }
-
-  // Update status to running and clear stale error + emergency stop state
-  await db.update(bots)
-    .set({
-      status: "running",
-      lastError: null,
-      emergencyStopState: null,
-      lastActivityAt: new Date(),
-      updatedAt: new Date(),
-    })
-    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+  const previousStatus = await startUserBot(userId, botId);
 
-  // Log start event
-  await db.insert(tradeLog)
-    .values({
-      botId,
-      userId,
-      event: "bot_started",
-      details: JSON.stringify({ mode: botData.mode }),
-    });
-
-  // S2: Spawn TradingEngine via BotOrchestrator
-  try {
-    await orchestrator.startBot(botId, userId);
-  } catch (error) {
-    // Revert status on failure
-    await db.update(bots)
-      .set({
-        status: "error",
-        lastError: error instanceof Error ? error.message : String(error),
-        updatedAt: new Date(),
-      })
-      .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
-
-    throw createApiError(
-      `Failed to start bot: ${error instanceof Error ? error.message : String(error)}`,
-      500
-    );
-  }
+  await recordAudit(c, {
+    action: "bot.start",
+    targetType: "bot",
+    targetId: botId,
+    before: { status: previousStatus },
+    after: { status: "running" },
+  });
 
   return c.json({ success: true, status: "running" });
 });
@@ -465,33 +471,15 @@ bot.post("/:botId/stop", async (c) => {
   const botId = c.req.param("botId");
   validateBotId(botId);
 
-  const botData = await getUserBot(userId, botId);
-  if (!botData) {
-    throw createApiError("Bot not found", 404);
-  }
-
-  if (botData.status === "stopped") {
-    throw createApiError("Bot is already stopped", 400);
-  }
+  const previousStatus = await stopUserBot(userId, botId);
 
-  await db.update(bots)
-    .set({
-      status: "stopped",
-      updatedAt: new Date(),
-    })
-    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
-
-  // Log stop event
-  await db.insert(tradeLog)
-    .values({
-      botId,
-      userId,
-      event: "bot_stopped",
-      details: JSON.stringify({ reason: "user_requested" }),
-    });
-
-  // S2: Stop TradingEngine via BotOrchestrator
-  await orchestrator.stopBot(botId);
+  await recordAudit(c, {
+    action: "bot.stop",
+    targetType: "bot",
+    targetId: botId,
+    before: { status: previousStatus },
+    after: { status: "stopped" },
+  });
 
   return c.json({ success: true, status: "stopped" });
 });
@@ -542,9 +530,259 @@ bot.post("/:botId/emergency", async (c) => {
   // S2: Emergency stop via BotOrchestrator
   await orchestrator.emergencyStop(botId);
 
+  await recordAudit(c, {
+    action: "bot.emergency_stop",
+    targetType: "bot",
+    targetId: botId,
+    before: { status: botData.status },
+    after: { status: "stopped", lastError: "Emergency stop triggered by user" },
+  });
+
   return c.json({ success: true, status: "emergency_stopped" });
 });
 
+// ═══════════════════════════════════════════════════════════════
+// Safety
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /bot/:botId/safety
+ * Full EmergencyStop and CircuitBreaker state. Live from the engine when
+ * the bot runs on this instance; otherwise the EmergencyStop state last
+ * persisted to the DB (the CircuitBreaker only exists while running).
+ */
+bot.get("/:botId/safety", async (c) => {
+  const userId = c.var.userId;
+  const botId = c.req.param("botId");
+  validateBotId(botId);
+
+  const botData = await getUserBot(userId, botId);
+  if (!botData) {
+    throw createApiError("Bot not found", 404);
+  }
+
+  const live = orchestrator.getSafetyState(botId);
+  if (live) {
+    return c.json({ success: true, botId, source: "engine", ...live });
+  }
+
+  const resolvedConfig = orchestrator.botRowToConfig(botData);
+  const saved = botData.emergencyStopState
+    ? EmergencyStop.deserializeState(botData.emergencyStopState)
+    : null;
+
+  return c.json({
+    success: true,
+    botId,
+    source: "persisted",
+    emergencyStop: {
+      config: emergencyStopConfigFor(resolvedConfig),
+      /** null — the bot has never recorded a trade or trigger */
+      state: saved ? EmergencyStop.currentState(saved) : null,
+    },
+    circuitBreaker: {
+      config: circuitBreakerConfigFor(resolvedConfig),
+      state: null,
+    },
+  });
+});
+
+/**
+ * POST /bot/:botId/safety/reset
+ * Clear the emergency stop so the bot can be started again. Requires
+ * { acknowledge: true }; only allowed while the bot is not running.
+ * A "trigger" reset keeps loss counters, so a bot still over a limit
+ * re-triggers on its first entry attempt.
+ */
+bot.post(
+  "/:botId/safety/reset",
+  zValidator("json", safetyResetSchema),
+  async (c) => {
+    const userId = c.var.userId;
+    const botId = c.req.param("botId");
+    validateBotId(botId);
+    const { scope, note } = c.req.valid("json");
+
+    const botData = await getUserBot(userId, botId);
+    if (!botData) {
+      throw createApiError("Bot not found", 404);
+    }
+
+    if (botData.status === "running" || orchestrator.isRunning(botId)) {
+      throw createApiError("Cannot reset safety state while bot is running. Stop it first.", 409);
+    }
+
+    const resolvedConfig = orchestrator.botRowToConfig(botData);
+    const saved = botData.emergencyStopState
+      ? EmergencyStop.deserializeState(botData.emergencyStopState)
+      : null;
+    const emergencyStop = new EmergencyStop(
+      botId,
+      emergencyStopConfigFor(resolvedConfig),
+      saved ?? undefined
+    );
+    const wasTriggered = emergencyStop.isTriggered;
+    const previousReason = emergencyStop.triggerReason;
+
+    if (scope === "full") {
+      emergencyStop.fullReset(note);
+    } else {
+      emergencyStop.reset(note);
+    }
+
+    // An emergency stop leaves the bot in "error" — it is startable again now
+    const clearError =
+      botData.status === "error" && (botData.lastError ?? "").startsWith("Emergency stop");
+
+    await db.update(bots)
+      .set({
+        emergencyStopState: emergencyStop.serializeState(),
+        ...(clearError ? { status: "stopped" as const, lastError: null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+
+    await db.insert(tradeLog)
+      .values({
+        botId,
+        userId,
+        event: "safety_reset",
+        details: JSON.stringify({ scope, note: note ?? null, wasTriggered, previousReason }),
+      });
+
+    await recordAudit(c, {
+      action: "bot.safety_reset",
+      targetType: "bot",
+      targetId: botId,
+      before: { emergencyStopTriggered: wasTriggered, triggerReason: previousReason, status: botData.status },
+      after: {
+        emergencyStopTriggered: false,
+        triggerReason: null,
+        status: clearError ? "stopped" : botData.status,
+        scope,
+        note: note ?? null,
+      },
+    });
+
+    return c.json({
+      success: true,
+      botId,
+      scope,
+      wasTriggered,
+      emergencyStop: {
+        config: emergencyStop.getConfig(),
+        state: emergencyStop.getState(),
+      },
+    });
+  }
+);
+
+// ═══════════════════════════════════════════════════════════════
+// Backtesting
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * POST /bot/:botId/backtest
+ * Queue a backtest of this bot's config (plus optional overrides)
+ * against a recorded snapshot file. Returns 202 with the job ID.
+ */
+bot.post(
+  "/:botId/backtest",
+  zValidator("json", backtestSchema),
+  async (c) => {
+    const userId = c.var.userId;
+    const botId = c.req.param("botId");
+    validateBotId(botId);
+    const body = c.req.valid("json");
+
+    const botData = await getUserBot(userId, botId);
+    if (!botData || botData.deletedAt) {
+      throw createApiError("Bot not found", 404);
+    }
+
+    const snapshotPath = await resolveSnapshotFile(body.snapshotFile);
+    if (!snapshotPath) {
+      throw createApiError(`Snapshot file "${body.snapshotFile}" not found`, 404);
+    }
+
+    // Same checks as PUT /bot/:botId/config — a config that blocks every
+    // entry would otherwise "complete" with zero trades
+    validateSafetyThresholds({ ...botData, ...body.overrides });
+
+    const botConfig = orchestrator.botRowToConfig({
+      ...botData,
+      ...body.overrides,
+      ...resolveScorerUpdate(botData, body.overrides ?? {}),
+    });
+
+    let job;
+    try {
+      job = submitBacktestJob({
+        userId,
+        botId,
+        snapshotFile: body.snapshotFile,
+        snapshotPath,
+        config: botConfig,
+        initialBalanceSol: body.initialBalanceSOL,
+        from: body.from ? Date.parse(body.from) : undefined,
+        to: body.to ? Date.parse(body.to) : undefined,
+      });
+    } catch (err) {
+      throw createApiError(err instanceof Error ? err.message : String(err), 429);
+    }
+
+    return c.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+      },
+      202
+    );
+  }
+);
+
+/**
+ * GET /bot/:botId/backtest
+ * List recent backtest jobs for this bot (reports omitted).
+ */
+bot.get("/:botId/backtest", async (c) => {
+  const userId = c.var.userId;
+  const botId = c.req.param("botId");
+  validateBotId(botId);
+
+  const jobs = listBacktestJobs(userId, botId).map(({ report, ...job }) => ({
+    ...job,
+    summary: report
+      ? {
+        totalTrades: report.totalTrades,
+        winRate: report.winRate,
+        totalPnlSol: report.totalPnlSol,
+        maxDrawdownPercent: report.maxDrawdownPercent,
+      }
+      : null,
+  }));
+
+  return c.json({ jobs });
+});
+
+/**
+ * GET /bot/:botId/backtest/:jobId
+ * Backtest status, plus the full report once completed.
+ */
+bot.get("/:botId/backtest/:jobId", async (c) => {
+  const userId = c.var.userId;
+  const botId = c.req.param("botId");
+  validateBotId(botId);
+
+  const job = getBacktestJob(c.req.param("jobId"));
+  if (!job || job.userId !== userId || job.botId !== botId) {
+    throw createApiError("Backtest job not found", 404);
+  }
+
+  return c.json({ job });
+});
+
 /**
  * DELETE /bot/:botId
  * Delete a stopped bot and its data.
@@ -590,6 +828,14 @@ bot.delete("/:botId", async (c) => {
     })
     .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
 
+  await recordAudit(c, {
+    action: "bot.delete",
+    targetType: "bot",
+    targetId: botId,
+    before: botData,
+    after: null,
+  });
+
   return c.json({ success: true, deleted: true });
 });
 
@@ -1,25 +1,48 @@
 /**
- * Events route — Server-Sent Events (SSE) streaming for real-time updates.
+ * Events route — real-time bot events over SSE and WebSocket.
  *
  * GET /events/stream — SSE stream of all bot events for the authenticated user
+ * GET /events/ws     — WebSocket with per-bot / per-type subscriptions and replay
  *
- * SSE is preferred over WebSocket for Hono because:
- *  - Built-in reconnection in EventSource API
- *  - Works through HTTP/1.1 proxies
- *  - Simpler auth (JWT in query param or header)
- *  - No need for ws library
+ * SSE stays the simplest option (built-in reconnection in EventSource, works
+ * through HTTP/1.1 proxies). Both transports carry the journal seq of each
+ * event (SSE as the event id). The WebSocket additionally lets a client
+ * resume after a disconnect by subscribing with `lastSeq`: missed events are
+ * replayed from trade_log (see EventJournal) before live delivery resumes.
  *
- * Flutter client uses `web_socket_channel` or `eventsource` package.
+ * WebSocket protocol (JSON text frames):
+ *   client → { type: "subscribe", botIds?, events?, lastSeq? }
+ *            { type: "ping" }
+ *   server → { type: "connected", userId, latestSeq }
+ *            { type: "subscribed", botIds, events }
+ *            { type: "event", seq, event, botId, timestamp, data }
+ *            { type: "replay", fromSeq, toSeq, count, truncated }
+ *            { type: "heartbeat" | "pong", timestamp }
+ *            { type: "error", message }
+ *
+ * Nothing is delivered until the first subscribe. Each subscribe replaces
+ * the previous filter; empty or omitted botIds / events mean "all". A
+ * truncated replay stops at REPLAY_LIMIT events — subscribe again with the
+ * last seq received to fetch the next page.
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { streamSSE } from "hono/streaming";
+import type { UpgradeWebSocket, WSContext } from "hono/ws";
+import type WebSocket from "ws";
+import { z } from "zod";
 import { requireAuth, type AuthVariables } from "../middleware/auth.js";
 import { eventBus } from "../engine/event-bus.js";
+import { eventJournal, type ReplayFilter } from "../engine/event-journal.js";
 import { logger } from "../middleware/logger.js";
-import type { BotEvent } from "../engine/types.js";
+import { BOT_EVENT_TYPES, type BotEvent, type BotEventType } from "../engine/types.js";
 
 const log = logger.child({ module: "sse" });
+const wsLog = logger.child({ module: "ws" });
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+/** Max events replayed per subscribe */
+const REPLAY_LIMIT = 500;
 
 const events = new Hono<{ Variables: AuthVariables }>();
 
@@ -50,6 +73,7 @@ events.get("/stream", async (c) => {
       stream
         .writeSSE({
           event: event.type,
+          id: event.seq !== undefined ? String(event.seq) : undefined,
           data: JSON.stringify({
             botId: event.botId,
             timestamp: event.timestamp,
@@ -74,7 +98,7 @@ events.get("/stream", async (c) => {
         .catch(() => {
           // Connection died — cleanup will happen in onAbort
         });
-    }, 30_000);
+    }, HEARTBEAT_INTERVAL_MS);
 
     // Cleanup on disconnect
     stream.onAbort(() => {
@@ -89,4 +113,170 @@ events.get("/stream", async (c) => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════
+// WebSocket — Subscriptions + replay
+// ═══════════════════════════════════════════════════════════════
+
+const wsMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("subscribe"),
+    botIds: z.array(z.string().regex(/^[0-9a-f]{8}$/)).max(50).optional(),
+    events: z
+      .array(z.enum(BOT_EVENT_TYPES as [BotEventType, ...BotEventType[]]))
+      .optional(),
+    lastSeq: z.number().int().nonnegative().optional(),
+  }),
+  z.object({ type: z.literal("ping") }),
+]);
+
+/**
+ * Mount GET /events/ws. Needs the server-level upgrade helper, which only
+ * exists once index.ts has created the app — call before app.route().
+ */
+export function registerEventSocket(
+  upgradeWebSocket: UpgradeWebSocket<WebSocket>
+): void {
+  events.get(
+    "/ws",
+    upgradeWebSocket((c: Context<{ Variables: AuthVariables }>) => {
+      const userId = c.var.userId;
+
+      let filter: ReplayFilter | null = null; // null until first subscribe
+      let lastSent = 0;
+      let replaying = false;
+      let pending: BotEvent[] = [];
+      let unsubscribe: (() => void) | null = null;
+      let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+      const send = (ws: WSContext<WebSocket>, payload: Record<string, unknown>) => {
+        if (ws.readyState === 1) ws.send(JSON.stringify(payload));
+      };
+
+      const matches = (event: BotEvent): boolean =>
+        filter !== null &&
+        (!filter.botIds?.length || filter.botIds.includes(event.botId)) &&
+        (!filter.types?.length || filter.types.includes(event.type));
+
+      const deliver = (ws: WSContext<WebSocket>, event: BotEvent) => {
+        if (!matches(event)) return;
+        if (event.seq !== undefined) {
+          // Already sent (replay and live delivery can overlap)
+          if (event.seq <= lastSent) return;
+          lastSent = event.seq;
+        }
+        send(ws, {
+          type: "event",
+          seq: event.seq ?? null,
+          event: event.type,
+          botId: event.botId,
+          timestamp: event.timestamp,
+          data: event.data,
+        });
+      };
+
+      const subscribe = async (
+        ws: WSContext<WebSocket>,
+        msg: { botIds?: string[]; events?: BotEventType[]; lastSeq?: number }
+      ) => {
+        filter = { botIds: msg.botIds, types: msg.events };
+        send(ws, {
+          type: "subscribed",
+          botIds: msg.botIds ?? [],
+          events: msg.events ?? [],
+        });
+        if (msg.lastSeq === undefined) return;
+
+        // Buffer live events until the replay has been sent
+        replaying = true;
+        try {
+          const { events: missed, truncated } = await eventJournal.replay(
+            userId,
+            msg.lastSeq,
+            filter,
+            REPLAY_LIMIT
+          );
+          lastSent = msg.lastSeq;
+          for (const event of missed) deliver(ws, event);
+          send(ws, {
+            type: "replay",
+            fromSeq: msg.lastSeq,
+            toSeq: lastSent,
+            count: missed.length,
+            truncated,
+          });
+
+          // On truncation the buffered events belong to a later page
+          const buffered = pending;
+          pending = [];
+          if (!truncated) {
+            for (const event of buffered) deliver(ws, event);
+          }
+        } finally {
+          replaying = false;
+          pending = [];
+        }
+      };
+
+      return {
+        onOpen: async (_evt, ws) => {
+          wsLog.info({ userId }, "WebSocket client connected");
+
+          unsubscribe = eventBus.subscribeUser(userId, (event) => {
+            if (replaying) pending.push(event);
+            else deliver(ws, event);
+          });
+          heartbeat = setInterval(
+            () => send(ws, { type: "heartbeat", timestamp: Date.now() }),
+            HEARTBEAT_INTERVAL_MS
+          );
+
+          send(ws, {
+            type: "connected",
+            userId,
+            latestSeq: await eventJournal.latestSeq(userId).catch(() => null),
+            timestamp: Date.now(),
+          });
+        },
+
+        onMessage: async (evt, ws) => {
+          let parsed: z.infer<typeof wsMessageSchema>;
+          try {
+            parsed = wsMessageSchema.parse(JSON.parse(String(evt.data)));
+          } catch (err) {
+            send(ws, {
+              type: "error",
+              message:
+                err instanceof z.ZodError
+                  ? err.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ")
+                  : "Invalid JSON message",
+            });
+            return;
+          }
+
+          if (parsed.type === "ping") {
+            send(ws, { type: "pong", timestamp: Date.now() });
+            return;
+          }
+
+          try {
+            await subscribe(ws, parsed);
+          } catch (err) {
+            wsLog.error(
+              { userId, err: err instanceof Error ? err.message : String(err) },
+              "Event replay failed"
+            );
+            send(ws, { type: "error", message: "Replay failed — try again" });
+          }
+        },
+
+        onClose: () => {
+          wsLog.info({ userId }, "WebSocket client disconnected");
+          unsubscribe?.();
+          if (heartbeat) clearInterval(heartbeat);
+        },
+      };
+    })
+  );
+}
+
 export default events;
@@ -13,10 +13,11 @@ import { Hono } from "hono";
 import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
 import { requireAuth, optionalAuth, type AuthVariables } from "../middleware/auth.js";
-import { createApiError } from "../middleware/error.js";
 import db from "../db/index.js";
 import { bots, users } from "../db/schema.js";
 import { eq, and, or, sql, desc, isNull } from "drizzle-orm";
+import { recordAudit } from "../services/audit.js";
+import { setBotVisibility } from "../services/bot-control.js";
 
 const fleet = new Hono<{ Variables: AuthVariables }>();
 
@@ -188,20 +189,15 @@ fleet.put(
         const userId = c.var.userId;
         const { botId, isPublic } = c.req.valid("json");
 
-        // Verify ownership
-        const [bot] = await db
-            .select({ id: bots.id })
-            .from(bots)
-            .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+        const wasPublic = await setBotVisibility(userId, botId, isPublic);
 
-        if (!bot) {
-            throw createApiError("Bot not found", 404);
-        }
-
-        await db
-            .update(bots)
-            .set({ isPublic, updatedAt: new Date() })
-            .where(eq(bots.botId, botId));
+        await recordAudit(c, {
+            action: "bot.visibility_update",
+            targetType: "bot",
+            targetId: botId,
+            before: { isPublic: wasPublic },
+            after: { isPublic },
+        });
 
         return c.json({ success: true, botId, isPublic });
     }
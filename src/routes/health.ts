@@ -2,6 +2,7 @@
  * Health check route.
  *
  * Checks: Solana RPC connectivity, SQLite database, ML prediction service.
+ * Also reports the platform kill switch so clients can show a banner.
  * Returns 200 if all healthy, 503 if any degraded.
  */
 
@@ -11,6 +12,9 @@ import config from "../config.js";
 import db from "../db/index.js";
 import { users } from "../db/schema.js";
 import { sql } from "drizzle-orm";
+import { botLeaseManager } from "../engine/bot-lease.js";
+import { orchestrator } from "../engine/orchestrator.js";
+import { killSwitch } from "../engine/kill-switch.js";
 
 const health = new Hono();
 
@@ -26,6 +30,17 @@ health.get("/", async (c) => {
     environment: config.NODE_ENV,
     network: config.SOLANA_NETWORK,
     programId: SEAL_PROGRAM_ID.toBase58(),
+    instanceId: botLeaseManager.instanceId,
+    runningBots: orchestrator.runningCount,
+  };
+
+  // Platform kill switch — clients show a banner while active.
+  // Cached state, refreshed on every lease heartbeat.
+  const halt = killSwitch.state;
+  checks.killSwitch = {
+    active: halt.active,
+    reason: halt.active ? halt.reason : null,
+    activatedAt: halt.active ? halt.activatedAt : null,
   };
 
   // Solana RPC check
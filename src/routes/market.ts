@@ -0,0 +1,75 @@
+/**
+ * Market data routes — recorded pool history.
+ *
+ * GET /market/pools/:address/history — time series from the snapshot recorder
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { requireAuth, type AuthVariables } from "../middleware/auth.js";
+import { createApiError } from "../middleware/error.js";
+import { poolRecorder } from "../services/pool-recorder.js";
+
+const market = new Hono<{ Variables: AuthVariables }>();
+
+market.use("/*", requireAuth);
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+/** Solana base58 public key (32–44 chars) */
+const POOL_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+const historyQuerySchema = z.object({
+  /** ISO timestamp — defaults to 24h before `to` */
+  from: z.string().datetime().optional(),
+  /** ISO timestamp — defaults to now */
+  to: z.string().datetime().optional(),
+  resolution: z.enum(["auto", "raw", "hourly"]).default("auto"),
+  limit: z.coerce.number().int().min(1).max(5000).default(1000),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Routes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /market/pools/:address/history
+ * Recorded price/liquidity/volume/fee history for a pool, oldest first.
+ */
+market.get("/pools/:address/history", async (c) => {
+  const address = c.req.param("address");
+  if (!POOL_ADDRESS_REGEX.test(address)) {
+    throw createApiError("Invalid pool address", 400);
+  }
+
+  const query = historyQuerySchema.parse(c.req.query());
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+  if (from >= to) {
+    throw createApiError("`from` must be before `to`", 400);
+  }
+
+  const history = await poolRecorder.getPoolHistory(address, {
+    from,
+    to,
+    resolution: query.resolution,
+    limit: query.limit,
+  });
+
+  return c.json({
+    success: true,
+    poolAddress: address,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    resolution: history.resolution,
+    count: history.points.length,
+    points: history.points,
+  });
+});
+
+export default market;
@@ -3,14 +3,14 @@
  *
  * GET  /ml/health    — check ML service status + model info
  * POST /ml/predict   — direct prediction from features (for testing/debugging)
- * POST /ml/reload    — hot-reload the model without restarting ML service
+ * POST /ml/reload    — hot-reload the model without restarting ML service (admin)
  * GET  /ml/feedback  — export closed positions with V3 features for online learning
  */
 
 import { Hono } from "hono";
 import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
-import { requireAuth, type AuthVariables } from "../middleware/auth.js";
+import { requireAdmin, requireAuth, type AuthVariables } from "../middleware/auth.js";
 import { createApiError } from "../middleware/error.js";
 import { MLPredictor } from "../engine/ml-predictor.js";
 import { V3_FEATURE_NAMES } from "../engine/ml-features.js";
@@ -19,6 +19,7 @@ import db from "../db/index.js";
 import { positions } from "../db/schema.js";
 import { eq, and, isNotNull } from "drizzle-orm";
 import { LAMPORTS_PER_SOL } from "../engine/types.js";
+import { recordAdminAction } from "../services/admin-audit.js";
 
 const ml = new Hono<{ Variables: AuthVariables }>();
 
@@ -93,40 +94,34 @@ ml.post(
 );
 
 // ═══════════════════════════════════════════════════════════════
-// Auth-protected: Reload Model
+// Admin-only: Reload Model
 // ═══════════════════════════════════════════════════════════════
 
-ml.post("/reload", requireAuth, async (c) => {
+ml.post("/reload", requireAuth, requireAdmin, async (c) => {
+  let result;
   try {
-    const headers: Record<string, string> = { "Content-Type": "application/json" };
-    if (config.ML_API_KEY) {
-      headers["X-ML-API-Key"] = config.ML_API_KEY;
-    }
-
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10_000);
-
-    const response = await fetch(`${config.ML_SERVICE_URL}/reload`, {
-      method: "POST",
-      headers,
-      signal: controller.signal,
-    });
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw createApiError(`Reload failed: ${text}`, response.status);
-    }
-
-    const result = await response.json();
-    return c.json(result);
+    result = await mlPredictor.reloadModel();
   } catch (error) {
-    if (error && typeof error === "object" && "statusCode" in error) throw error;
     throw createApiError(
       `ML service unreachable: ${error instanceof Error ? error.message : String(error)}`,
       503
     );
   }
+
+  await recordAdminAction({
+    adminUserId: c.var.userId,
+    walletAddress: c.var.walletAddress,
+    action: "ml.reload",
+    details: { status: result.status, via: "/ml/reload" },
+  });
+
+  if (!result.ok) {
+    throw createApiError(
+      `Reload failed: ${typeof result.body === "string" ? result.body : JSON.stringify(result.body)}`,
+      result.status
+    );
+  }
+  return c.json(result.body as Record<string, unknown>);
 });
 
 // ═══════════════════════════════════════════════════════════════
@@ -0,0 +1,317 @@
+/**
+ * Notification routes — outbound webhooks for bot and position events.
+ *
+ * GET    /notifications/webhooks                   — list the user's webhooks
+ * POST   /notifications/webhooks                   — register a webhook (returns the secret once)
+ * PUT    /notifications/webhooks/:id               — update url / filters / active / rotate secret
+ * DELETE /notifications/webhooks/:id               — remove a webhook and its delivery history
+ * POST   /notifications/webhooks/:id/test          — send a webhook:test delivery now
+ * GET    /notifications/webhooks/:id/deliveries    — recent deliveries with every attempt
+ *
+ * Delivery, signing and retries live in services/webhooks.ts.
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { zValidator } from "@hono/zod-validator";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { requireAuth, type AuthVariables } from "../middleware/auth.js";
+import { createApiError } from "../middleware/error.js";
+import db from "../db/index.js";
+import {
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  webhooks,
+} from "../db/schema.js";
+import {
+  DEFAULT_WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_TYPES,
+  assertWebhookUrl,
+  generateWebhookSecret,
+  webhookDispatcher,
+} from "../services/webhooks.js";
+import { recordAudit } from "../services/audit.js";
+
+const notifications = new Hono<{ Variables: AuthVariables }>();
+
+notifications.use("/*", requireAuth);
+
+const MAX_WEBHOOKS_PER_USER = 10;
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+const eventsSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).max(WEBHOOK_EVENT_TYPES.length);
+const botIdsSchema = z.array(z.string().regex(/^[0-9a-f]{8}$/)).max(50);
+const secretSchema = z.string().min(16).max(128);
+
+const createWebhookSchema = z.object({
+  url: z.string().url().max(2048),
+  /** Omit to have the server generate one */
+  secret: secretSchema.optional(),
+  description: z.string().max(256).optional(),
+  events: eventsSchema.default(DEFAULT_WEBHOOK_EVENTS),
+  /** Omit or null for all bots */
+  botIds: botIdsSchema.nullable().optional(),
+});
+
+const updateWebhookSchema = z.object({
+  url: z.string().url().max(2048).optional(),
+  description: z.string().max(256).nullable().optional(),
+  events: eventsSchema.optional(),
+  botIds: botIdsSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+  /** true = generate a new secret (returned once), or pass your own */
+  rotateSecret: z.union([z.literal(true), secretSchema]).optional(),
+});
+
+const deliveriesQuerySchema = z.object({
+  status: z.enum(["pending", "sending", "retrying", "delivered", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════
+
+type WebhookRow = typeof webhooks.$inferSelect;
+
+function parseWebhookId(raw: string): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw createApiError("Invalid webhook ID", 400);
+  }
+  return id;
+}
+
+async function getUserWebhook(userId: number, id: number): Promise<WebhookRow> {
+  const [hook] = await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+  if (!hook) {
+    throw createApiError("Webhook not found", 404);
+  }
+  return hook;
+}
+
+async function validateUrl(url: string): Promise<void> {
+  try {
+    await assertWebhookUrl(url);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid webhook URL";
+    throw createApiError(message, 400, [{ path: "url", message }]);
+  }
+}
+
+/** Public view — never includes the secret. */
+function serializeWebhook(hook: WebhookRow) {
+  return {
+    id: hook.id,
+    url: hook.url,
+    description: hook.description,
+    events: hook.events,
+    botIds: hook.botIds,
+    isActive: hook.isActive,
+    consecutiveFailures: hook.consecutiveFailures,
+    secretHint: `…${hook.secret.slice(-4)}`,
+    createdAt: hook.createdAt,
+    updatedAt: hook.updatedAt,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Routes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /notifications/webhooks
+ */
+notifications.get("/webhooks", async (c) => {
+  const userId = c.var.userId;
+  const rows = await db
+    .select()
+    .from(webhooks)
+    .where(eq(webhooks.userId, userId))
+    .orderBy(webhooks.id);
+
+  return c.json({ success: true, webhooks: rows.map(serializeWebhook) });
+});
+
+/**
+ * POST /notifications/webhooks
+ * The secret is only ever returned here (and on rotation).
+ */
+notifications.post(
+  "/webhooks",
+  zValidator("json", createWebhookSchema),
+  async (c) => {
+    const userId = c.var.userId;
+    const body = c.req.valid("json");
+
+    const [existing] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId));
+    if (existing && existing.count >= MAX_WEBHOOKS_PER_USER) {
+      throw createApiError(`Maximum ${MAX_WEBHOOKS_PER_USER} webhooks per user`, 400);
+    }
+
+    await validateUrl(body.url);
+
+    const secret = body.secret ?? generateWebhookSecret();
+    const [hook] = await db
+      .insert(webhooks)
+      .values({
+        userId,
+        url: body.url,
+        secret,
+        description: body.description,
+        events: body.events,
+        botIds: body.botIds ?? null,
+      })
+      .returning();
+
+    await recordAudit(c, {
+      action: "webhook.create",
+      targetType: "webhook",
+      targetId: hook.id,
+      after: hook,
+    });
+
+    return c.json({ success: true, webhook: serializeWebhook(hook), secret }, 201);
+  }
+);
+
+/**
+ * PUT /notifications/webhooks/:id
+ * Re-enabling a webhook resets its failure counter.
+ */
+notifications.put(
+  "/webhooks/:id",
+  zValidator("json", updateWebhookSchema),
+  async (c) => {
+    const userId = c.var.userId;
+    const id = parseWebhookId(c.req.param("id"));
+    const { rotateSecret, ...updates } = c.req.valid("json");
+
+    const hook = await getUserWebhook(userId, id);
+    if (updates.url) await validateUrl(updates.url);
+
+    const secret =
+      rotateSecret === true
+        ? generateWebhookSecret()
+        : rotateSecret ?? undefined;
+
+    const [updated] = await db
+      .update(webhooks)
+      .set({
+        ...updates,
+        ...(secret ? { secret } : {}),
+        ...(updates.isActive && !hook.isActive ? { consecutiveFailures: 0 } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhooks.id, id))
+      .returning();
+
+    await recordAudit(c, {
+      action: "webhook.update",
+      targetType: "webhook",
+      targetId: id,
+      before: hook,
+      after: updated,
+    });
+
+    return c.json({
+      success: true,
+      webhook: serializeWebhook(updated),
+      ...(secret ? { secret } : {}),
+    });
+  }
+);
+
+/**
+ * DELETE /notifications/webhooks/:id
+ */
+notifications.delete("/webhooks/:id", async (c) => {
+  const userId = c.var.userId;
+  const id = parseWebhookId(c.req.param("id"));
+  const hook = await getUserWebhook(userId, id);
+
+  await db.delete(webhooks).where(eq(webhooks.id, id));
+  await recordAudit(c, {
+    action: "webhook.delete",
+    targetType: "webhook",
+    targetId: id,
+    before: hook,
+    after: null,
+  });
+  return c.json({ success: true });
+});
+
+/**
+ * POST /notifications/webhooks/:id/test
+ * Sends a webhook:test event immediately (retried like any delivery).
+ */
+notifications.post("/webhooks/:id/test", async (c) => {
+  const userId = c.var.userId;
+  const id = parseWebhookId(c.req.param("id"));
+  const hook = await getUserWebhook(userId, id);
+
+  const delivery = await webhookDispatcher.sendTest(hook);
+  const attempts = delivery
+    ? await db
+      .select()
+      .from(webhookDeliveryAttempts)
+      .where(eq(webhookDeliveryAttempts.deliveryId, delivery.id))
+    : [];
+
+  return c.json({ success: true, delivery: delivery ? { ...delivery, attempts } : null });
+});
+
+/**
+ * GET /notifications/webhooks/:id/deliveries?status=&limit=
+ * Most recent first, each with its attempts (oldest attempt first).
+ */
+notifications.get("/webhooks/:id/deliveries", async (c) => {
+  const userId = c.var.userId;
+  const id = parseWebhookId(c.req.param("id"));
+  await getUserWebhook(userId, id);
+  const query = deliveriesQuerySchema.parse(c.req.query());
+
+  const deliveries = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.webhookId, id),
+        query.status ? eq(webhookDeliveries.status, query.status) : undefined
+      )
+    )
+    .orderBy(desc(webhookDeliveries.id))
+    .limit(query.limit);
+
+  const attempts = deliveries.length
+    ? await db
+      .select()
+      .from(webhookDeliveryAttempts)
+      .where(
+        inArray(
+          webhookDeliveryAttempts.deliveryId,
+          deliveries.map((d) => d.id)
+        )
+      )
+      .orderBy(webhookDeliveryAttempts.id)
+    : [];
+
+  return c.json({
+    success: true,
+    deliveries: deliveries.map((d) => ({
+      ...d,
+      attempts: attempts.filter((a) => a.deliveryId === d.id),
+    })),
+  });
+});
+
+export default notifications;
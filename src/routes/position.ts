@@ -4,6 +4,9 @@
  * Endpoints:
  *   GET  /position/active          — all active positions for user
  *   GET  /position/history         — closed positions (paginated)
+ *   GET  /position/export          — closed positions as CSV/JSON (streamed)
+ *   POST /position/reconcile       — reconcile positions with the chain now
+ *   POST /position/:positionId/adopt — hand a position to a running bot
  *   POST /position/:positionId/close — close a specific position
  *   GET  /position/:positionId     — single position detail
  *   GET  /position/bot/:botId      — positions for a specific bot
@@ -11,15 +14,34 @@
 
 import { Hono } from "hono";
 import { z } from "zod";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, inArray, or } from "drizzle-orm";
+import { stream } from "hono/streaming";
 import { PublicKey } from "@solana/web3.js";
+import { v4 as uuidv4 } from "uuid";
 import db from "../db/index.js";
-import { positions } from "../db/schema.js";
+import { bots, positionJobs, positions } from "../db/schema.js";
 import { requireAuth, type AuthVariables } from "../middleware/auth.js";
 import { createApiError } from "../middleware/error.js";
+import { logger } from "../middleware/logger.js";
 import { orchestrator } from "../engine/orchestrator.js";
+import { botLeaseManager } from "../engine/bot-lease.js";
+import { readPositionAccount } from "../engine/market-data.js";
+import { getSharedCache } from "../engine/shared-cache.js";
 import { LAMPORTS_PER_SOL } from "../engine/types.js";
+import { positionReconciler } from "../services/position-reconciler.js";
+import { recordAudit } from "../services/audit.js";
 import { getConnection } from "../services/solana.js";
+import {
+  COST_BASIS_COLUMNS,
+  EXPORT_COLUMNS,
+  computeCostBasis,
+  csvLine,
+  csvRow,
+  iterateExportRows,
+  type ExportFilter,
+} from "../services/trade-export.js";
+
+const log = logger.child({ module: "position-export" });
 
 const app = new Hono<{ Variables: AuthVariables }>();
 
@@ -142,6 +164,84 @@ app.get("/history", async (c) => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════
+// GET /position/export — Closed positions for tax / accounting
+// ═══════════════════════════════════════════════════════════════
+
+const exportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  /** ISO timestamp — exit time lower bound */
+  from: z.string().datetime().optional(),
+  /** ISO timestamp — exit time upper bound */
+  to: z.string().datetime().optional(),
+  botId: z.string().regex(/^[0-9a-f]{8}$/).optional(),
+  /** fifo = append a per-mint FIFO cost-basis summary */
+  costBasis: z.enum(["none", "fifo"]).default("none"),
+});
+
+app.get("/export", async (c) => {
+  const userId = c.get("userId") as number;
+  const query = exportQuerySchema.parse(c.req.query());
+
+  const filter: ExportFilter = {
+    userId,
+    from: query.from ? Date.parse(query.from) : undefined,
+    to: query.to ? Date.parse(query.to) : undefined,
+    botId: query.botId,
+  };
+  if (filter.from !== undefined && filter.to !== undefined && filter.from >= filter.to) {
+    throw createApiError("`from` must be before `to`", 400);
+  }
+
+  const filename = `sage-trades-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+  c.header(
+    "Content-Type",
+    query.format === "csv" ? "text/csv; charset=utf-8" : "application/json"
+  );
+  c.header("Content-Disposition", `attachment; filename="${filename}"`);
+
+  return stream(
+    c,
+    async (out) => {
+      let count = 0;
+
+      if (query.format === "csv") {
+        await out.write(csvLine(EXPORT_COLUMNS));
+        for await (const batch of iterateExportRows(filter)) {
+          await out.write(batch.map(csvRow).join(""));
+          count += batch.length;
+        }
+        if (query.costBasis === "fifo") {
+          const summary = await computeCostBasis(filter);
+          await out.write("\r\n" + csvLine(COST_BASIS_COLUMNS));
+          for (const s of summary) {
+            await out.write(csvLine(COST_BASIS_COLUMNS.map((col) => s[col])));
+          }
+        }
+        return;
+      }
+
+      await out.write(`{"success":true,"positions":[`);
+      for await (const batch of iterateExportRows(filter)) {
+        const json = batch.map((row) => JSON.stringify(row)).join(",");
+        await out.write(count > 0 ? `,${json}` : json);
+        count += batch.length;
+      }
+      await out.write(`],"count":${count}`);
+      if (query.costBasis === "fifo") {
+        const summary = await computeCostBasis(filter);
+        await out.write(`,"costBasis":${JSON.stringify(summary)}`);
+      }
+      await out.write("}");
+    },
+    async (err) => {
+      // Headers are already sent — the response just ends early (JSON
+      // output is left unterminated, so clients can tell)
+      log.error({ userId, err: err.message }, "Trade export failed");
+    }
+  );
+});
+
 // ═══════════════════════════════════════════════════════════════
 // GET /position/bot/:botId — All positions for a specific bot
 // ═══════════════════════════════════════════════════════════════
@@ -167,6 +267,178 @@ app.get("/bot/:botId", async (c) => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════
+// POST /position/:positionId/adopt — Hand a position to a running bot
+//
+// `:positionId` is either an orphaned Sage position (its ID or on-chain
+// key) or the address of a DLMM position opened outside Sage. The bot
+// must be a live bot running on this instance whose wallet owns the
+// position; its exit rules manage the position from then on.
+// ═══════════════════════════════════════════════════════════════
+
+const adoptBodySchema = z.object({
+  botId: z.string().regex(/^[0-9a-f]{8}$/, "Invalid bot ID format"),
+});
+
+app.post("/:positionId/adopt", async (c) => {
+  const userId = c.get("userId") as number;
+  const positionId = c.req.param("positionId");
+  const body = adoptBodySchema.parse(await c.req.json().catch(() => ({})));
+
+  const [bot] = await db
+    .select()
+    .from(bots)
+    .where(and(eq(bots.botId, body.botId), eq(bots.userId, userId)));
+  if (!bot) {
+    throw createApiError("Bot not found", 404);
+  }
+  if (bot.mode !== "live") {
+    throw createApiError("Only live bots can adopt on-chain positions", 400);
+  }
+  if (!orchestrator.isRunning(bot.botId)) {
+    const owner = await botLeaseManager.ownerOf(bot.botId);
+    throw createApiError(
+      owner
+        ? `Bot runs on another instance (${owner}) — retry there`
+        : "Bot is not running — start it first",
+      409
+    );
+  }
+
+  const [existing] = await db
+    .select()
+    .from(positions)
+    .where(
+      or(
+        eq(positions.positionId, positionId),
+        eq(positions.onChainPositionKey, positionId)
+      )
+    );
+  if (existing && existing.userId !== userId) {
+    throw createApiError("Position not found", 404);
+  }
+
+  let row: typeof positions.$inferSelect;
+  let inserted = false;
+  if (existing) {
+    if (existing.status !== "orphaned") {
+      throw createApiError(
+        `Position is ${existing.status} — only orphaned positions can be adopted`,
+        409
+      );
+    }
+    if (!existing.onChainPositionKey) {
+      throw createApiError("Simulated positions have no on-chain account to adopt", 400);
+    }
+    const [job] = await db
+      .select({ jobId: positionJobs.jobId })
+      .from(positionJobs)
+      .where(
+        and(
+          eq(positionJobs.positionId, existing.positionId),
+          inArray(positionJobs.status, ["queued", "submitted"])
+        )
+      );
+    if (job) {
+      throw createApiError("Position has a transaction in flight — retry shortly", 409);
+    }
+    row = existing;
+  } else {
+    row = await insertExternalPosition(userId, bot, positionId);
+    inserted = true;
+  }
+
+  const result = await orchestrator.adoptPosition(bot.botId, row);
+  if (!result.success || !result.position) {
+    // Don't leave a row behind for a position the bot can't manage
+    if (inserted) {
+      await db.delete(positions).where(eq(positions.id, row.id));
+    }
+    throw createApiError(result.error ?? "Failed to adopt position", 400);
+  }
+
+  const adopted = result.position;
+  await recordAudit(c, {
+    action: "position.adopt",
+    targetType: "position",
+    targetId: adopted.id,
+    before: { botId: row.botId, status: row.status },
+    after: { botId: bot.botId, status: "active", onChainPositionKey: row.onChainPositionKey },
+  });
+
+  return c.json({
+    success: true,
+    positionId: adopted.id,
+    botId: bot.botId,
+    onChainPositionKey: row.onChainPositionKey,
+    poolAddress: adopted.poolAddress,
+    poolName: adopted.poolName,
+    minBinId: adopted.strategy.minBinId,
+    maxBinId: adopted.strategy.maxBinId,
+    entryPrice: adopted.entryPricePerToken,
+    entryValueSol:
+      adopted.entryAmountX.add(adopted.entryAmountY).toNumber() / LAMPORTS_PER_SOL,
+    profitTargetPercent: adopted.profitTargetPercent,
+    stopLossPercent: adopted.stopLossPercent,
+    maxHoldTimeMinutes: adopted.maxHoldTimeMinutes,
+  });
+});
+
+/**
+ * Record a DLMM position opened outside Sage as an orphaned row of `bot`,
+ * ready to adopt. Entry price and amounts are left empty — the executor
+ * values the position at adoption.
+ */
+async function insertExternalPosition(
+  userId: number,
+  bot: typeof bots.$inferSelect,
+  address: string
+): Promise<typeof positions.$inferSelect> {
+  let positionKey: PublicKey;
+  try {
+    positionKey = new PublicKey(address);
+  } catch {
+    throw createApiError("Position not found", 404);
+  }
+
+  let account: Awaited<ReturnType<typeof readPositionAccount>>;
+  try {
+    account = await readPositionAccount(getConnection(), positionKey);
+  } catch {
+    throw createApiError("Account is not a DLMM position", 400);
+  }
+  if (!account) {
+    throw createApiError("Position account not found on-chain", 404);
+  }
+
+  const poolAddress = account.lbPair.toBase58();
+  const pool = await getSharedCache().getPoolData(poolAddress).catch(() => null);
+  if (!pool) {
+    throw createApiError(`Could not load pool ${poolAddress}`, 502);
+  }
+
+  const [row] = await db
+    .insert(positions)
+    .values({
+      positionId: uuidv4(),
+      botId: bot.botId,
+      userId,
+      status: "orphaned",
+      poolAddress,
+      poolName: pool.name,
+      tokenXMint: pool.mint_x,
+      tokenYMint: pool.mint_y,
+      binStep: pool.bin_step,
+      onChainPositionKey: positionKey.toBase58(),
+      entryTimestamp: Date.now(),
+      profitTargetPercent: bot.profitTargetPercent,
+      stopLossPercent: bot.stopLossPercent,
+      maxHoldTimeMinutes: bot.maxHoldTimeMinutes,
+    })
+    .returning();
+  return row;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // POST /position/:positionId/close — Close a specific active position
 // ═══════════════════════════════════════════════════════════════
@@ -186,6 +458,14 @@ app.post("/:positionId/close", async (c) => {
     throw createApiError(result.error ?? "Failed to close position", 400);
   }
 
+  await recordAudit(c, {
+    action: "position.close",
+    targetType: "position",
+    targetId: positionId,
+    before: { status: "active" },
+    after: { status: "closed", exitReason: body.reason, pnlLamports: result.pnlLamports ?? 0 },
+  });
+
   return c.json({
     success: true,
     positionId,
@@ -307,145 +587,24 @@ function calculatePnlPercent(
 // ═══════════════════════════════════════════════════════════════
 // POST /position/reconcile — Compare DB positions vs on-chain state
 //
-// Finds active positions whose on-chain account has been closed
-// (e.g. the app crashed mid-close, or the user closed via a
-// different wallet tool). Marks them as resolved so they don't
-// show as phantom open positions forever.
+// Runs the background reconciler now, for this user only: closes
+// positions whose on-chain account is gone, re-attaches live ones to
+// their running bot, and marks the rest orphaned. Positions a bot still
+// tracks but whose account is gone are reported as missing, not closed.
 // ═══════════════════════════════════════════════════════════════
 
 app.post("/reconcile", async (c) => {
   const userId = c.get("userId") as number;
-
-  // 1. Fetch all "active" positions for this user that have an on-chain key
-  const activeRows = await db
-    .select()
-    .from(positions)
-    .where(
-      and(
-        eq(positions.userId, userId),
-        eq(positions.status, "active")
-      )
-    );
-
-  if (activeRows.length === 0) {
-    return c.json({ success: true, reconciled: 0, orphaned: 0, details: [] });
-  }
-
-  const connection = getConnection();
-  const details: Array<{
-    positionId: string;
-    poolName: string;
-    action: "closed" | "orphaned" | "ok";
-  }> = [];
-
-  let reconciledCount = 0;
-  let orphanedCount = 0;
-
-  // 2. Check which positions have on-chain keys we can verify
-  const withOnChainKey = activeRows.filter((r) => r.onChainPositionKey);
-  const withoutOnChainKey = activeRows.filter((r) => !r.onChainPositionKey);
-
-  // 3. Batch-fetch account info for all on-chain keys (efficient RPC call)
-  if (withOnChainKey.length > 0) {
-    const pubkeys = withOnChainKey.map(
-      (r) => new PublicKey(r.onChainPositionKey!)
-    );
-
-    const accounts = await connection.getMultipleAccountsInfo(pubkeys);
-
-    for (let i = 0; i < withOnChainKey.length; i++) {
-      const row = withOnChainKey[i];
-      const accountInfo = accounts[i];
-
-      if (!accountInfo) {
-        // Account doesn't exist on-chain — position was closed outside our tracking
-        await db
-          .update(positions)
-          .set({
-            status: "closed",
-            exitTimestamp: Date.now(),
-            exitReason: "RECONCILED_MISSING",
-            updatedAt: new Date(),
-          })
-          .where(eq(positions.positionId, row.positionId));
-
-        reconciledCount++;
-        details.push({
-          positionId: row.positionId,
-          poolName: row.poolName,
-          action: "closed",
-        });
-      } else {
-        // Account exists on-chain — check if a bot is actively tracking it
-        const isTracked = orchestrator
-          .getAllLivePositions(userId)
-          .some((p) => p.id === row.positionId);
-
-        if (!isTracked) {
-          // On-chain but no bot watching it → orphaned
-          await db
-            .update(positions)
-            .set({
-              status: "orphaned",
-              updatedAt: new Date(),
-            })
-            .where(eq(positions.positionId, row.positionId));
-
-          orphanedCount++;
-          details.push({
-            positionId: row.positionId,
-            poolName: row.poolName,
-            action: "orphaned",
-          });
-        } else {
-          details.push({
-            positionId: row.positionId,
-            poolName: row.poolName,
-            action: "ok",
-          });
-        }
-      }
-    }
-  }
-
-  // 4. Positions without on-chain key — check if bot is tracking
-  for (const row of withoutOnChainKey) {
-    const isTracked = orchestrator
-      .getAllLivePositions(userId)
-      .some((p) => p.id === row.positionId);
-
-    if (!isTracked) {
-      // No on-chain key and no bot tracking → likely a simulation position
-      // that got stuck. Mark orphaned.
-      await db
-        .update(positions)
-        .set({
-          status: "orphaned",
-          updatedAt: new Date(),
-        })
-        .where(eq(positions.positionId, row.positionId));
-
-      orphanedCount++;
-      details.push({
-        positionId: row.positionId,
-        poolName: row.poolName,
-        action: "orphaned",
-      });
-    } else {
-      details.push({
-        positionId: row.positionId,
-        poolName: row.poolName,
-        action: "ok",
-      });
-    }
-  }
+  const report = await positionReconciler.reconcile({ userId });
 
   return c.json({
     success: true,
-    reconciled: reconciledCount,
-    orphaned: orphanedCount,
-    total: activeRows.length,
-    details,
+    reconciled: report.closed,
+    reattached: report.reattached,
+    orphaned: report.orphaned,
+    missing: report.missing,
+    total: report.details.length,
+    details: report.details,
   });
 });
 
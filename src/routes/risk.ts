@@ -0,0 +1,98 @@
+/**
+ * Risk routes — portfolio-level limits across all of a user's bots.
+ *
+ * GET  /risk/limits   — limits plus current exposure and daily P&L per mode
+ * PUT  /risk/limits   — set or clear limits (null = off)
+ *
+ * Enforcement lives in engine/portfolio-risk.ts: every bot's engine checks
+ * these limits before entering a position.
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { zValidator } from "@hono/zod-validator";
+import { requireAuth, type AuthVariables } from "../middleware/auth.js";
+import db from "../db/index.js";
+import { userRiskLimits } from "../db/schema.js";
+import { eq } from "drizzle-orm";
+import { portfolioRisk } from "../engine/portfolio-risk.js";
+import { recordAudit } from "../services/audit.js";
+
+const risk = new Hono<{ Variables: AuthVariables }>();
+
+risk.use("/*", requireAuth);
+
+const MAX_TOKEN_CAPS = 50;
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+const solLimit = z.number().positive().max(100_000).nullable().optional();
+
+const updateLimitsSchema = z.object({
+  maxTotalExposureSol: solLimit,
+  maxDailyLossSol: solLimit,
+  maxConcurrentPositions: z.number().int().min(1).max(100).nullable().optional(),
+  maxTokenExposureSol: solLimit,
+  /** Per-mint caps (token X mint → SOL); replaces the stored map */
+  tokenExposureCaps: z
+    .record(
+      z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Invalid mint address"),
+      z.number().positive().max(100_000)
+    )
+    .refine((caps) => Object.keys(caps).length <= MAX_TOKEN_CAPS, {
+      message: `At most ${MAX_TOKEN_CAPS} token caps`,
+    })
+    .optional(),
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Routes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * GET /risk/limits
+ */
+risk.get("/limits", async (c) => {
+  const userId = c.var.userId;
+  const status = await portfolioRisk.getStatus(userId);
+  return c.json({ success: true, ...status });
+});
+
+/**
+ * PUT /risk/limits
+ * Omitted fields are left as they are. Takes effect on the next entry
+ * attempt of every running bot.
+ */
+risk.put("/limits", zValidator("json", updateLimitsSchema), async (c) => {
+  const userId = c.var.userId;
+  const updates = c.req.valid("json");
+
+  const [before] = await db
+    .select()
+    .from(userRiskLimits)
+    .where(eq(userRiskLimits.userId, userId));
+
+  const [after] = await db
+    .insert(userRiskLimits)
+    .values({ userId, ...updates })
+    .onConflictDoUpdate({
+      target: userRiskLimits.userId,
+      set: { ...updates, updatedAt: new Date() },
+    })
+    .returning();
+
+  await recordAudit(c, {
+    action: "risk.limits_update",
+    targetType: "risk_limits",
+    targetId: userId,
+    before: before ?? null,
+    after: after ?? null,
+  });
+
+  const status = await portfolioRisk.getStatus(userId);
+  return c.json({ success: true, ...status });
+});
+
+export default risk;
@@ -13,6 +13,7 @@ import { createApiError } from "../middleware/error.js";
 import db from "../db/index.js";
 import { strategyPresets } from "../db/schema.js";
 import { eq, or, sql } from "drizzle-orm";
+import { recordAudit } from "../services/audit.js";
 
 const strategy = new Hono<{ Variables: AuthVariables }>();
 
@@ -33,6 +34,22 @@ const createPresetSchema = z.object({
   stopLossPercent: z.number().positive().max(100),
   maxHoldTimeMinutes: z.number().int().positive().max(1440),
   cooldownMinutes: z.number().int().nonnegative().max(1440),
+  strategyType: z.enum(["spot", "curve", "bidask"]).default("spot"),
+  depositMode: z.enum(["one-sided", "balanced"]).default("one-sided"),
+  binsBelow: z.number().int().min(0).max(50).optional(),
+  binsAbove: z.number().int().min(0).max(50).optional(),
+  // Safety thresholds — omitted fields keep the bot defaults
+  maxDailyLossSOL: z.number().positive().max(100).optional(),
+  maxTotalLossSOL: z.number().positive().max(1000).optional(),
+  maxConsecutiveLosses: z.number().int().min(1).max(50).optional(),
+  maxTxFailuresPerHour: z.number().int().min(1).max(100).optional(),
+  maxApiErrorsPerHour: z.number().int().min(1).max(1000).optional(),
+  maxPositionsPerPool: z.number().int().min(1).max(20).optional(),
+  maxSinglePositionSOL: z.number().positive().max(200).optional(),
+  maxTotalExposureSOL: z.number().positive().max(4000).optional(),
+  maxTxPerMinute: z.number().int().min(1).max(60).optional(),
+  minTimeBetweenTradesMs: z.number().int().min(0).max(600_000).optional(),
+  maxApiCallsPerMinute: z.number().int().min(10).max(600).optional(),
 });
 
 // ═══════════════════════════════════════════════════════════════
@@ -78,12 +95,20 @@ strategy.post(
       throw createApiError("Maximum 20 custom presets per user", 400);
     }
 
-    await db.insert(strategyPresets)
+    const [preset] = await db.insert(strategyPresets)
       .values({
         userId,
         isSystem: false,
         ...body,
-      });
+      })
+      .returning();
+
+    await recordAudit(c, {
+      action: "strategy.preset_create",
+      targetType: "strategy_preset",
+      targetId: preset?.id,
+      after: preset ?? null,
+    });
 
     return c.json({ success: true }, 201);
   }
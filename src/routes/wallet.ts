@@ -6,7 +6,7 @@
  * pays for rent and transaction fees.
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { z } from "zod";
 import { zValidator } from "@hono/zod-validator";
 import {
@@ -37,6 +37,8 @@ import config from "../config.js";
 import db from "../db/index.js";
 import { users, bots } from "../db/schema.js";
 import { eq, and, isNotNull } from "drizzle-orm";
+import { recordAudit } from "../services/audit.js";
+import { decryptSecret, encryptSecret } from "../services/kms.js";
 
 const wallet = new Hono<{ Variables: AuthVariables }>();
 
@@ -783,10 +785,10 @@ async function finalizeLiveSession(opts: {
   const agentPubkey = new PublicKey(bot.agentPubkey);
   const sessionPubkey = new PublicKey(bot.sessionPubkey);
   const agentKeypair = Keypair.fromSecretKey(
-    Buffer.from(bot.agentSecretKey, "base64")
+    Buffer.from(await decryptSecret(bot.agentSecretKey), "base64")
   );
   const sessionKeypair = Keypair.fromSecretKey(
-    Buffer.from(bot.sessionSecretKey, "base64")
+    Buffer.from(await decryptSecret(bot.sessionSecretKey), "base64")
   );
 
   const [agentPda] = deriveAgentPda(opts.walletPda, agentPubkey);
@@ -1230,6 +1232,20 @@ wallet.post(
       })
       .where(eq(bots.botId, body.botId));
 
+    await recordAudit(c, {
+      action: "session.prepare_create",
+      targetType: "bot",
+      targetId: body.botId,
+      before: { sessionAddress: bot.sessionAddress },
+      after: {
+        sessionAddress: sessionPda.toBase58(),
+        sessionPubkey: sessionPubkey.toBase58(),
+        durationSecs: body.durationSecs,
+        maxAmountSol: body.maxAmountSol,
+        maxPerTxSol: body.maxPerTxSol,
+      },
+    });
+
     return c.json({
       success: true,
       botId: body.botId,
@@ -1388,6 +1404,13 @@ wallet.post(
           maxAmountSol: effectiveSessionMaxAmountSol,
           maxPerTxSol: effectiveSessionMaxPerTxSol,
         });
+        await recordAudit(c, {
+          action: "session.finalize",
+          targetType: "bot",
+          targetId: body.botId,
+          before: { sessionAddress: bot.sessionAddress },
+          after: { sessionAddress: finalized.sessionAddress, signature: finalized.signature },
+        });
 
         return c.json({
           success: true,
@@ -1408,10 +1431,10 @@ wallet.post(
         `[setup-live] Bot ${body.botId}: keys in DB but not on-chain — rebuilding TX for retry`
       );
       agentKeypair = Keypair.fromSecretKey(
-        Buffer.from(bot.agentSecretKey, "base64")
+        Buffer.from(await decryptSecret(bot.agentSecretKey), "base64")
       );
       sessionKeypair = Keypair.fromSecretKey(
-        Buffer.from(bot.sessionSecretKey, "base64")
+        Buffer.from(await decryptSecret(bot.sessionSecretKey), "base64")
       );
     } else {
       // ── Generate fresh keypairs server-side ──
@@ -1445,6 +1468,13 @@ wallet.post(
         maxAmountSol: effectiveSessionMaxAmountSol,
         maxPerTxSol: effectiveSessionMaxPerTxSol,
       });
+      await recordAudit(c, {
+        action: "session.finalize",
+        targetType: "bot",
+        targetId: body.botId,
+        before: { sessionAddress: bot.sessionAddress },
+        after: { sessionAddress: finalized.sessionAddress, signature: finalized.signature },
+      });
 
       return c.json({
         success: true,
@@ -1540,19 +1570,35 @@ wallet.post(
     const sessionFundingSol = depositLamports / LAMPORTS_PER_SOL;
 
     // ── Persist keys in DB ──
-    // Store private keys as base64-encoded Uint8Array (64 bytes: seed + pubkey)
+    // Private keys are base64-encoded Uint8Array (64 bytes: seed + pubkey),
+    // envelope-encrypted at rest (services/kms.ts)
     await db.update(bots)
       .set({
         agentPubkey: agentKeypair.publicKey.toBase58(),
-        agentSecretKey: Buffer.from(agentKeypair.secretKey).toString("base64"),
+        agentSecretKey: await encryptSecret(Buffer.from(agentKeypair.secretKey).toString("base64")),
         agentConfigAddress: agentPda.toBase58(),
         sessionAddress: sessionPda.toBase58(),
         sessionPubkey: sessionKeypair.publicKey.toBase58(),
-        sessionSecretKey: Buffer.from(sessionKeypair.secretKey).toString("base64"),
+        sessionSecretKey: await encryptSecret(Buffer.from(sessionKeypair.secretKey).toString("base64")),
         updatedAt: new Date(),
       })
       .where(eq(bots.botId, body.botId));
 
+    await recordAudit(c, {
+      action: "session.setup_live",
+      targetType: "bot",
+      targetId: body.botId,
+      before: { agentPubkey: bot.agentPubkey, sessionAddress: bot.sessionAddress },
+      after: {
+        agentPubkey: agentKeypair.publicKey.toBase58(),
+        sessionAddress: sessionPda.toBase58(),
+        sessionDurationSecs: body.sessionDurationSecs,
+        sessionMaxAmountSol: effectiveSessionMaxAmountSol,
+        sessionMaxPerTxSol: effectiveSessionMaxPerTxSol,
+        depositSol: body.depositSol,
+      },
+    });
+
     return c.json({
       success: true,
       botId: body.botId,
@@ -1630,6 +1676,7 @@ wallet.post(
           updatedAt: new Date(),
         })
         .where(eq(bots.botId, body.botId));
+      await auditSessionRevoke(c, body.botId, bot.sessionAddress);
 
       return c.json({
         success: true,
@@ -1654,6 +1701,7 @@ wallet.post(
           updatedAt: new Date(),
         })
         .where(eq(bots.botId, body.botId));
+      await auditSessionRevoke(c, body.botId, bot.sessionAddress);
 
       return c.json({
         success: true,
@@ -1692,6 +1740,7 @@ wallet.post(
         updatedAt: new Date(),
       })
       .where(eq(bots.botId, body.botId));
+    await auditSessionRevoke(c, body.botId, bot.sessionAddress);
 
     return c.json({
       success: true,
@@ -1705,6 +1754,21 @@ wallet.post(
   }
 );
 
+/** Every revoke path — including the already-closed cleanups — clears the DB session. */
+function auditSessionRevoke(
+  c: Context<{ Variables: AuthVariables }>,
+  botId: string,
+  sessionAddress: string
+) {
+  return recordAudit(c, {
+    action: "session.prepare_revoke",
+    targetType: "bot",
+    targetId: botId,
+    before: { sessionAddress },
+    after: { sessionAddress: null },
+  });
+}
+
 // ═══════════════════════════════════════════════════════════════
 // Withdraw SOL from session signers → owner
 // ═══════════════════════════════════════════════════════════════
@@ -1785,7 +1849,7 @@ wallet.post(
       seen.add(bot.sessionPubkey);
       try {
         const sessionKp = Keypair.fromSecretKey(
-          Buffer.from(bot.sessionSecretKey, "base64")
+          Buffer.from(await decryptSecret(bot.sessionSecretKey), "base64")
         );
         const balance = await connection.getBalance(sessionKp.publicKey);
         if (balance > 0) {
@@ -1926,7 +1990,7 @@ wallet.post(
       if (!row.sessionPubkey || !row.sessionSecretKey || seen.has(row.sessionPubkey)) continue;
       seen.add(row.sessionPubkey);
       try {
-        const kp = Keypair.fromSecretKey(Buffer.from(row.sessionSecretKey, "base64"));
+        const kp = Keypair.fromSecretKey(Buffer.from(await decryptSecret(row.sessionSecretKey), "base64"));
         const balance = await connection.getBalance(kp.publicKey);
         if (balance > 0) {
           sources.push({ kp, balance, botId: row.botId, name: row.name });
@@ -2033,6 +2097,19 @@ wallet.post(
     const totalWithdrawLamports = sessionDrained + (closesWallet ? walletPdaLamports : 0);
     const withdrawSol = totalWithdrawLamports / LAMPORTS_PER_SOL;
 
+    await recordAudit(c, {
+      action: "wallet.prepare_withdraw",
+      targetType: "wallet",
+      targetId: ownerAddress,
+      after: {
+        requestedSol: body.amountSol,
+        botIds: body.botIds ?? null,
+        withdrawSol: +withdrawSol.toFixed(6),
+        closesWallet,
+        fromBots: drainDetails.map((d) => d.botId),
+      },
+    });
+
     return c.json({
       success: true,
       transaction: tx.serialize({
@@ -0,0 +1,76 @@
+/**
+ * Admin audit — append-only record of actions taken through the admin API.
+ *
+ * Every state-changing admin route (force stop, kill switch, role change,
+ * ML reload) writes one `admin_audit_log` row after it acts, with the
+ * admin's user ID and wallet. Read-only admin views are not recorded.
+ */
+
+import { and, desc, eq, lt } from "drizzle-orm";
+import db from "../db/index.js";
+import { adminAuditLog } from "../db/schema.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "admin-audit" });
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export interface AdminActionInput {
+  adminUserId: number;
+  walletAddress: string;
+  action: string;
+  target?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AdminAuditQuery {
+  limit: number;
+  /** Only entries with a smaller ID (keyset pagination) */
+  beforeId?: number;
+  adminUserId?: number;
+  action?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Write / Read
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Record an admin action. Never throws — the action already happened, so
+ * a failed write is logged (with the full entry) instead of failing the
+ * request.
+ */
+export async function recordAdminAction(entry: AdminActionInput): Promise<void> {
+  try {
+    await db.insert(adminAuditLog).values({
+      adminUserId: entry.adminUserId,
+      walletAddress: entry.walletAddress,
+      action: entry.action,
+      target: entry.target ?? null,
+      details: entry.details ?? null,
+    });
+  } catch (err) {
+    log.error(
+      { ...entry, err: err instanceof Error ? err.message : String(err) },
+      "Failed to write admin audit entry"
+    );
+  }
+}
+
+/** Newest first. */
+export async function listAdminActions(query: AdminAuditQuery) {
+  const conditions = [
+    query.beforeId !== undefined ? lt(adminAuditLog.id, query.beforeId) : undefined,
+    query.adminUserId !== undefined ? eq(adminAuditLog.adminUserId, query.adminUserId) : undefined,
+    query.action !== undefined ? eq(adminAuditLog.action, query.action) : undefined,
+  ].filter((c) => c !== undefined);
+
+  return db
+    .select()
+    .from(adminAuditLog)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(adminAuditLog.id))
+    .limit(query.limit);
+}
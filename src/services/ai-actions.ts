@@ -0,0 +1,369 @@
+/**
+ * AI actions — bot operations the assistant proposes and the user confirms.
+ *
+ * Mutating chat tools (start / stop a bot, close a position, apply a
+ * strategy, Fleet visibility) never act directly. The tool call is checked
+ * and resolved to a concrete target — a bot name becomes its botId, a
+ * preset its field values — then parked in the shared store and handed to
+ * the app as a pending AppAction with an `id`. Nothing changes until the
+ * app calls POST /ai/actions/:id/confirm.
+ *
+ * Confirming takes the action out of the store, so it runs at most once
+ * (a double tap gets a 404), and executes it through services/bot-control.ts
+ * and the orchestrator — the same paths and audit entries as the manual
+ * routes. A failed execution is not retried; the user asks again.
+ */
+
+import crypto from "node:crypto";
+import type { Context } from "hono";
+import type { z } from "zod";
+import { and, eq, isNull, or, sql } from "drizzle-orm";
+import db from "../db/index.js";
+import { bots, positions, strategyPresets } from "../db/schema.js";
+import { orchestrator } from "../engine/orchestrator.js";
+import { LAMPORTS_PER_SOL } from "../engine/types.js";
+import type { AuthVariables } from "../middleware/auth.js";
+import { createApiError } from "../middleware/error.js";
+import { logger } from "../middleware/logger.js";
+import type { AppAction, StrategyParams } from "./ai.js";
+import { recordAudit } from "./audit.js";
+import {
+  setBotVisibility,
+  startUserBot,
+  stopUserBot,
+  updateBotConfig,
+  updateBotConfigSchema,
+  validateSafetyThresholds,
+  type BotConfigUpdate,
+} from "./bot-control.js";
+import { sharedStore } from "./shared-store.js";
+
+const log = logger.child({ module: "ai-actions" });
+
+/** How long the app has to confirm a proposed action */
+const AI_ACTION_TTL_MS = 10 * 60 * 1000;
+
+export const AI_ACTION_TYPES = [
+  "start_bot",
+  "stop_bot",
+  "close_position",
+  "apply_strategy",
+  "set_fleet_visibility",
+] as const;
+export type AiActionType = (typeof AI_ACTION_TYPES)[number];
+
+/** What the shared store holds until the action is confirmed */
+interface PendingAiAction {
+  id: string;
+  type: AiActionType;
+  summary: string;
+  conversationId: string;
+  payload: Record<string, unknown>;
+}
+
+/** Outcome of a tool call: the text Claude sees, plus the action if one was proposed */
+export interface ActionProposal {
+  result: string;
+  action?: AppAction;
+}
+
+const pendingKey = (userId: number, actionId: string) => `ai-action:${userId}:${actionId}`;
+
+// ═══════════════════════════════════════════════════════════════
+// Resolving tool input
+// ═══════════════════════════════════════════════════════════════
+
+async function findBotByName(userId: number, name: unknown) {
+  if (typeof name !== "string" || !name.trim()) return undefined;
+  const [row] = await db
+    .select()
+    .from(bots)
+    .where(
+      and(
+        eq(bots.userId, userId),
+        isNull(bots.deletedAt),
+        sql`lower(${bots.name}) = lower(${name.trim()})`
+      )
+    );
+  return row;
+}
+
+async function unknownBot(userId: number, name: unknown): Promise<ActionProposal> {
+  const names = await db
+    .select({ name: bots.name })
+    .from(bots)
+    .where(and(eq(bots.userId, userId), isNull(bots.deletedAt)));
+  return {
+    result:
+      `No bot named "${String(name)}". ` +
+      (names.length > 0
+        ? `The user's bots are: ${names.map((b) => b.name).join(", ")}.`
+        : "The user has no bots yet."),
+  };
+}
+
+function describeIssues(err: z.ZodError): string {
+  return err.errors.map((e) => `${e.path.join(".") || "params"}: ${e.message}`).join("; ");
+}
+
+/** Preset columns that aren't bot config */
+const PRESET_META_FIELDS = new Set(["id", "userId", "name", "description", "isSystem", "createdAt"]);
+
+/** Config a preset sets on a bot. Thresholds the preset leaves unset keep the bot's values. */
+function presetUpdates(preset: typeof strategyPresets.$inferSelect): BotConfigUpdate {
+  return Object.fromEntries(
+    Object.entries(preset).filter(
+      ([key, value]) =>
+        !PRESET_META_FIELDS.has(key) &&
+        (value !== null || key === "binsBelow" || key === "binsAbove")
+    )
+  ) as BotConfigUpdate;
+}
+
+async function resolveStrategy(
+  userId: number,
+  input: Record<string, unknown>
+): Promise<{ label: string; updates: BotConfigUpdate } | string> {
+  const presetName = typeof input.presetName === "string" ? input.presetName.trim() : "";
+  const params = input.params as StrategyParams | undefined;
+
+  if (presetName && params) return "Pass either presetName or params, not both.";
+
+  if (presetName) {
+    const [preset] = await db
+      .select()
+      .from(strategyPresets)
+      .where(
+        and(
+          or(eq(strategyPresets.isSystem, true), eq(strategyPresets.userId, userId)),
+          sql`lower(${strategyPresets.name}) = lower(${presetName})`
+        )
+      );
+    if (!preset) return `No strategy preset named "${presetName}".`;
+    const parsed = updateBotConfigSchema.safeParse(presetUpdates(preset));
+    if (!parsed.success) {
+      return `The ${preset.name} preset can't be applied: ${describeIssues(parsed.error)}.`;
+    }
+    return { label: `the ${preset.name} preset`, updates: parsed.data };
+  }
+
+  if (params && Object.keys(params).length > 0) {
+    // Same checks as PUT /bot/:botId/config — model output is untrusted input
+    const parsed = updateBotConfigSchema.safeParse(params);
+    if (!parsed.success) return `Invalid params: ${describeIssues(parsed.error)}.`;
+    return { label: "the proposed parameters", updates: parsed.data };
+  }
+  return "Pass presetName or params.";
+}
+
+/**
+ * Check a mutating tool call and park it as a pending action. Problems
+ * (unknown bot, nothing to change, …) come back as the tool result so
+ * Claude can tell the user — no action is created for them.
+ */
+export async function proposeAiAction(
+  userId: number,
+  conversationId: string,
+  type: AiActionType,
+  input: Record<string, unknown>
+): Promise<ActionProposal> {
+  let summary: string;
+  let payload: Record<string, unknown>;
+
+  if (type === "close_position") {
+    const positionId = typeof input.positionId === "string" ? input.positionId : "";
+    const [position] = positionId
+      ? await db
+        .select({ positionId: positions.positionId, botId: positions.botId, poolName: positions.poolName })
+        .from(positions)
+        .where(
+          and(
+            eq(positions.positionId, positionId),
+            eq(positions.userId, userId),
+            eq(positions.status, "active")
+          )
+        )
+      : [];
+    if (!position) {
+      return { result: `No open position with ID "${positionId}".` };
+    }
+    summary = `Close the ${position.poolName} position`;
+    payload = { ...position };
+  } else {
+    const bot = await findBotByName(userId, input.botName);
+    if (!bot) return unknownBot(userId, input.botName);
+    const target = { botId: bot.botId, botName: bot.name };
+
+    switch (type) {
+      case "start_bot":
+        if (bot.status === "running") return { result: `${bot.name} is already running.` };
+        summary = `Start ${bot.name}`;
+        payload = target;
+        break;
+
+      case "stop_bot":
+        if (bot.status === "stopped") return { result: `${bot.name} is already stopped.` };
+        summary = `Stop ${bot.name}`;
+        payload = target;
+        break;
+
+      case "set_fleet_visibility": {
+        const isPublic = input.isPublic === true;
+        if (bot.isPublic === isPublic) {
+          return { result: `${bot.name} is already ${isPublic ? "public" : "hidden"} on Fleet.` };
+        }
+        summary = isPublic ? `Show ${bot.name} on Fleet` : `Hide ${bot.name} from Fleet`;
+        payload = { ...target, isPublic };
+        break;
+      }
+
+      case "apply_strategy": {
+        if (bot.status !== "stopped") {
+          return {
+            result: `${bot.name} is ${bot.status}; its strategy can only change while it is stopped. Offer to stop it first.`,
+          };
+        }
+        const strategy = await resolveStrategy(userId, input);
+        if (typeof strategy === "string") return { result: strategy };
+        try {
+          validateSafetyThresholds({ ...bot, ...strategy.updates });
+        } catch (err) {
+          return { result: `That strategy can't be applied: ${err instanceof Error ? err.message : String(err)}.` };
+        }
+        summary = `Apply ${strategy.label} to ${bot.name}`;
+        payload = { ...target, updates: strategy.updates };
+        break;
+      }
+    }
+  }
+
+  const pending: PendingAiAction = { id: crypto.randomUUID(), type, summary, conversationId, payload };
+  await sharedStore().putIfAbsent(pendingKey(userId, pending.id), JSON.stringify(pending), AI_ACTION_TTL_MS);
+
+  return {
+    result:
+      `Proposed: ${summary}. Nothing has happened yet — the user must confirm it in the app. ` +
+      "Tell them what will change and ask them to confirm; do not say it is done.",
+    action: {
+      type,
+      payload,
+      id: pending.id,
+      status: "pending",
+      summary,
+      expiresAt: new Date(Date.now() + AI_ACTION_TTL_MS).toISOString(),
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Confirmation
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Run a pending action the user confirmed. 404 if it doesn't exist, has
+ * expired, belongs to someone else, or was already confirmed.
+ */
+export async function confirmAiAction(
+  c: Context<{ Variables: AuthVariables }>,
+  actionId: string
+): Promise<{ action: { id: string; type: AiActionType; summary: string }; result: Record<string, unknown> }> {
+  const userId = c.var.userId;
+  const raw = await sharedStore().take(pendingKey(userId, actionId));
+  if (!raw) {
+    throw createApiError("Action not found or expired", 404);
+  }
+
+  const pending = JSON.parse(raw) as PendingAiAction;
+  const botId = pending.payload.botId as string;
+  let result: Record<string, unknown>;
+
+  switch (pending.type) {
+    case "start_bot": {
+      const previousStatus = await startUserBot(userId, botId);
+      await recordAudit(c, {
+        action: "bot.start",
+        targetType: "bot",
+        targetId: botId,
+        before: { status: previousStatus },
+        after: { status: "running" },
+      });
+      result = { botId, status: "running" };
+      break;
+    }
+
+    case "stop_bot": {
+      const previousStatus = await stopUserBot(userId, botId);
+      await recordAudit(c, {
+        action: "bot.stop",
+        targetType: "bot",
+        targetId: botId,
+        before: { status: previousStatus },
+        after: { status: "stopped" },
+      });
+      result = { botId, status: "stopped" };
+      break;
+    }
+
+    case "close_position": {
+      const positionId = pending.payload.positionId as string;
+      const closed = await orchestrator.closePosition(positionId, userId);
+      if (!closed.success) {
+        throw createApiError(closed.error ?? "Failed to close position", 400);
+      }
+      await recordAudit(c, {
+        action: "position.close",
+        targetType: "position",
+        targetId: positionId,
+        before: { status: "active" },
+        after: { status: "closed", exitReason: "USER_CLOSE", pnlLamports: closed.pnlLamports ?? 0 },
+      });
+      result = {
+        positionId,
+        pnlLamports: closed.pnlLamports ?? 0,
+        pnlSol: (closed.pnlLamports ?? 0) / LAMPORTS_PER_SOL,
+      };
+      break;
+    }
+
+    case "apply_strategy": {
+      const { before, after } = await updateBotConfig(
+        userId,
+        botId,
+        pending.payload.updates as BotConfigUpdate
+      );
+      await recordAudit(c, {
+        action: "bot.config_update",
+        targetType: "bot",
+        targetId: botId,
+        before,
+        after: after ?? null,
+      });
+      result = { botId, bot: after };
+      break;
+    }
+
+    case "set_fleet_visibility": {
+      const isPublic = pending.payload.isPublic as boolean;
+      const wasPublic = await setBotVisibility(userId, botId, isPublic);
+      await recordAudit(c, {
+        action: "bot.visibility_update",
+        targetType: "bot",
+        targetId: botId,
+        before: { isPublic: wasPublic },
+        after: { isPublic },
+      });
+      result = { botId, isPublic };
+      break;
+    }
+  }
+
+  log.info(
+    { userId, actionId, type: pending.type, conversationId: pending.conversationId },
+    "AI action confirmed"
+  );
+
+  return {
+    action: { id: pending.id, type: pending.type, summary: pending.summary },
+    result,
+  };
+}
@@ -13,6 +13,7 @@ import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
 import config from "../config.js";
 import { logger } from "../middleware/logger.js";
+import type { ActionProposal, AiActionType } from "./ai-actions.js";
 
 // ═══════════════════════════════════════════════════════════════
 // Types
@@ -23,6 +24,8 @@ export interface ChatMessage {
     content: string;
     timestamp: string;
     strategyParams?: StrategyParams;
+    /** Actions proposed in this turn (pending ones expire; see /ai/actions) */
+    actions?: AppAction[];
 }
 
 export interface StrategyParams {
@@ -38,6 +41,17 @@ export interface StrategyParams {
     maxHoldTimeMinutes?: number;
     maxDailyLossSOL?: number;
     cooldownMinutes?: number;
+    // Safety thresholds (EmergencyStop / CircuitBreaker)
+    maxTotalLossSOL?: number;
+    maxConsecutiveLosses?: number;
+    maxTxFailuresPerHour?: number;
+    maxApiErrorsPerHour?: number;
+    maxPositionsPerPool?: number;
+    maxSinglePositionSOL?: number;
+    maxTotalExposureSOL?: number;
+    maxTxPerMinute?: number;
+    minTimeBetweenTradesMs?: number;
+    maxApiCallsPerMinute?: number;
 }
 
 export interface ChatResponse {
@@ -46,12 +60,28 @@ export interface ChatResponse {
     actions?: AppAction[];
 }
 
-/** An action the AI wants to perform in the app. */
+/**
+ * An action the AI wants to perform in the app.
+ *
+ * Client-side actions (change_theme) have no `id` and apply immediately.
+ * Bot operations come back `pending` with an `id`: the app shows `summary`
+ * and runs it only by calling POST /ai/actions/:id/confirm before `expiresAt`.
+ */
 export interface AppAction {
     type: string;
     payload: Record<string, unknown>;
+    id?: string;
+    status?: "pending";
+    summary?: string;
+    expiresAt?: string;
 }
 
+/** Turns a bot-operation tool call into a pending action (services/ai-actions.ts). */
+export type ActionProposer = (
+    type: AiActionType,
+    input: Record<string, unknown>
+) => Promise<ActionProposal>;
+
 export interface PortfolioContext {
     totalBots: number;
     runningBots: number;
@@ -59,6 +89,18 @@ export interface PortfolioContext {
     winRate: number;
     totalPnlSOL: number;
     activePositions: number;
+    /** Bots by name, for the bot-operation tools */
+    bots: Array<{
+        name: string;
+        status: string;
+        mode: string;
+        isPublic: boolean;
+    }>;
+    openPositions: Array<{
+        positionId: string;
+        pool: string;
+        botName: string;
+    }>;
     recentTrades: Array<{
         pool: string;
         pnlSOL: number;
@@ -99,7 +141,24 @@ const SETUP_SYSTEM_PROMPT = `You are Sage — a concise, decisive AI that config
 - stopLossPercent: 1-20% (default 6%)
 - maxHoldTimeMinutes: 15-1440 (default 240)
 - maxDailyLossSOL: 0.5-25.0 (default 3.0)
-- cooldownMinutes: 0-240 (default 79)`;
+- cooldownMinutes: 0-240 (default 79)
+
+## Safety Thresholds
+Two independent guards protect every bot. Leave them at their defaults unless the user asks about safety or picks an extreme profile; when you do change one, say in one sentence what it stops.
+Emergency stop — halts the bot and closes positions when tripped:
+- maxDailyLossSOL: net loss since midnight UTC (above)
+- maxTotalLossSOL: 0.5-100 lifetime net loss (default 3× maxDailyLossSOL); never below maxDailyLossSOL
+- maxConsecutiveLosses: 1-20 losing trades in a row (default 5)
+- maxTxFailuresPerHour: 1-50 failed transactions (default 10)
+- maxApiErrorsPerHour: 5-500 market data/RPC errors (default 50)
+Circuit breaker — refuses a single entry without stopping the bot:
+- maxPositionsPerPool: 1-5 open positions in one pool (default 1); never above maxConcurrentPositions
+- maxSinglePositionSOL: 0.1-20 SOL in one position (default 2× positionSizeSOL); never below positionSizeSOL
+- maxTotalExposureSOL: 0.1-200 SOL across open positions (default maxSinglePositionSOL × maxConcurrentPositions)
+- maxTxPerMinute: 1-30 transactions (default 10)
+- minTimeBetweenTradesMs: 0-600000 ms between trades (default 5000)
+- maxApiCallsPerMinute: 10-300 (default 60)
+Conservative users: tighter losses (3 consecutive). Aggressive users: looser losses (8 consecutive) and up to 2 positions per pool.`;
 
 const PORTFOLIO_SYSTEM_PROMPT = `You are Sage — a concise AI assistant for Meteora DLMM LP portfolio analysis and the user's agentic assistant inside the Sage app.
 
@@ -108,10 +167,13 @@ const PORTFOLIO_SYSTEM_PROMPT = `You are Sage — a concise AI assistant for Met
 - Do NOT use markdown asterisks (*text* or **text**). Write plainly.
 - When the user asks about their portfolio, bots, or trades, use get_portfolio_summary to fetch fresh data before answering.
 - When the user asks to change the app's theme or colors, use change_app_theme immediately.
+- When the user asks you to start or stop a bot, close a position, apply a strategy to a bot, or show/hide a bot on Fleet, use the matching tool. Refer to bots by their exact name and positions by positionId from the portfolio data.
+- Those tools only propose the change: the app asks the user to confirm before anything happens. Say what will change and that they need to confirm. Never say it is done.
 
 ## What You Can Do
 - Answer questions about the user's LP bots, positions, win rate, and PnL
 - Change the app's color theme (dark, light, midnight, solana)
+- Start or stop a bot, close an open position, apply a preset or parameters to a stopped bot, and show or hide a bot on the Fleet leaderboard — each confirmed by the user in the app
 - Provide strategy advice based on portfolio performance
 - Explain Meteora DLMM concepts
 
@@ -182,6 +244,46 @@ const SET_STRATEGY_TOOL: Anthropic.Tool = {
                 type: "integer",
                 description: "Cooldown between positions in minutes (0-240).",
             },
+            maxTotalLossSOL: {
+                type: "number",
+                description: "Emergency stop: lifetime net loss limit in SOL (0.5-100). Default 3× maxDailyLossSOL.",
+            },
+            maxConsecutiveLosses: {
+                type: "integer",
+                description: "Emergency stop: losing trades in a row before halting (1-20).",
+            },
+            maxTxFailuresPerHour: {
+                type: "integer",
+                description: "Emergency stop: failed transactions per hour before halting (1-50).",
+            },
+            maxApiErrorsPerHour: {
+                type: "integer",
+                description: "Emergency stop: API/RPC errors per hour before halting (5-500).",
+            },
+            maxPositionsPerPool: {
+                type: "integer",
+                description: "Circuit breaker: open positions allowed in one pool (1-5).",
+            },
+            maxSinglePositionSOL: {
+                type: "number",
+                description: "Circuit breaker: max SOL in one position (0.1-20). Default 2× positionSizeSOL.",
+            },
+            maxTotalExposureSOL: {
+                type: "number",
+                description: "Circuit breaker: max SOL across open positions (0.1-200).",
+            },
+            maxTxPerMinute: {
+                type: "integer",
+                description: "Circuit breaker: transactions per minute (1-30).",
+            },
+            minTimeBetweenTradesMs: {
+                type: "integer",
+                description: "Circuit breaker: minimum milliseconds between trades (0-600000).",
+            },
+            maxApiCallsPerMinute: {
+                type: "integer",
+                description: "Circuit breaker: API calls per minute (10-300).",
+            },
         },
         required: [],
     },
@@ -218,12 +320,105 @@ const GET_PORTFOLIO_SUMMARY_TOOL: Anthropic.Tool = {
     },
 };
 
+const BOT_NAME_PROPERTY = {
+    type: "string",
+    description: "The bot's exact name, as listed in the portfolio data.",
+};
+
+const START_BOT_TOOL: Anthropic.Tool = {
+    name: "start_bot",
+    description:
+        "Propose starting one of the user's bots. The user confirms in the app before it starts.",
+    input_schema: {
+        type: "object" as const,
+        properties: { botName: BOT_NAME_PROPERTY },
+        required: ["botName"],
+    },
+};
+
+const STOP_BOT_TOOL: Anthropic.Tool = {
+    name: "stop_bot",
+    description:
+        "Propose stopping one of the user's bots. Open positions stay open. " +
+        "The user confirms in the app before it stops.",
+    input_schema: {
+        type: "object" as const,
+        properties: { botName: BOT_NAME_PROPERTY },
+        required: ["botName"],
+    },
+};
+
+const CLOSE_POSITION_TOOL: Anthropic.Tool = {
+    name: "close_position",
+    description:
+        "Propose closing one open LP position. The user confirms in the app before it closes.",
+    input_schema: {
+        type: "object" as const,
+        properties: {
+            positionId: {
+                type: "string",
+                description: "positionId from the portfolio data's openPositions.",
+            },
+        },
+        required: ["positionId"],
+    },
+};
+
+const APPLY_STRATEGY_TOOL: Anthropic.Tool = {
+    name: "apply_strategy",
+    description:
+        "Propose replacing a stopped bot's strategy with a saved preset (presetName) " +
+        "or with explicit parameters (params) — one or the other. A running bot must be stopped first. " +
+        "The user confirms in the app before it changes.",
+    input_schema: {
+        type: "object" as const,
+        properties: {
+            botName: BOT_NAME_PROPERTY,
+            presetName: {
+                type: "string",
+                description: "Name of a strategy preset, e.g. Conservative, Balanced, Aggressive.",
+            },
+            params: {
+                type: "object",
+                description: "Strategy parameters to set; omitted ones keep the bot's values.",
+                properties: SET_STRATEGY_TOOL.input_schema.properties,
+            },
+        },
+        required: ["botName"],
+    },
+};
+
+const SET_FLEET_VISIBILITY_TOOL: Anthropic.Tool = {
+    name: "set_fleet_visibility",
+    description:
+        "Propose showing (isPublic true) or hiding a bot on the public Fleet leaderboard. " +
+        "The user confirms in the app before it changes.",
+    input_schema: {
+        type: "object" as const,
+        properties: {
+            botName: BOT_NAME_PROPERTY,
+            isPublic: { type: "boolean" },
+        },
+        required: ["botName", "isPublic"],
+    },
+};
+
 /** Tools available during general/portfolio conversations (agentic assistant). */
 const GENERAL_TOOLS: Anthropic.Tool[] = [
     CHANGE_THEME_TOOL,
     GET_PORTFOLIO_SUMMARY_TOOL,
 ];
 
+/** Bot operations — offered only when chat() can turn them into pending actions. */
+const ACTION_TOOLS: Anthropic.Tool[] = [
+    START_BOT_TOOL,
+    STOP_BOT_TOOL,
+    CLOSE_POSITION_TOOL,
+    APPLY_STRATEGY_TOOL,
+    SET_FLEET_VISIBILITY_TOOL,
+];
+const ACTION_TOOL_NAMES = new Set(ACTION_TOOLS.map((t) => t.name));
+
 // ═══════════════════════════════════════════════════════════════
 // AI Service
 // ═══════════════════════════════════════════════════════════════
@@ -263,12 +458,14 @@ class AiService {
     /**
      * Send a message to Claude and get a response.
      * For setup conversations, Claude may use the set_strategy_parameters tool.
+     * Elsewhere, with `proposeAction`, it can also propose bot operations.
      */
     async chat(
         conversationType: "setup" | "portfolio" | "general",
         messages: ChatMessage[],
         portfolioContext?: PortfolioContext,
-        currentParams?: StrategyParams
+        currentParams?: StrategyParams,
+        proposeAction?: ActionProposer
     ): Promise<ChatResponse> {
         if (!this.anthropic) {
             throw new Error("Anthropic API key not configured");
@@ -300,7 +497,9 @@ class AiService {
         const tools =
             conversationType === "setup"
                 ? [SET_STRATEGY_TOOL]
-                : GENERAL_TOOLS;
+                : proposeAction
+                    ? [...GENERAL_TOOLS, ...ACTION_TOOLS]
+                    : GENERAL_TOOLS;
 
         // Retry helper for transient Anthropic errors (529 overloaded, 503, etc.)
         const callWithRetry = async <T>(fn: () => Promise<T>, retries = 3): Promise<T> => {
@@ -370,6 +569,14 @@ class AiService {
                                 ? JSON.stringify(portfolioContext)
                                 : "No portfolio data available yet. The user may not have set up any bots.",
                         });
+                    } else if (ACTION_TOOL_NAMES.has(block.name) && proposeAction) {
+                        const input = { ...(block.input as Record<string, unknown>) };
+                        if (input.params && typeof input.params === "object") {
+                            input.params = this.clampParams(input.params as StrategyParams);
+                        }
+                        const proposal = await proposeAction(block.name as AiActionType, input);
+                        if (proposal.action) actions.push(proposal.action);
+                        toolResults.push({ id: block.id, result: proposal.result });
                     }
                 }
             }
@@ -505,6 +712,26 @@ class AiService {
             clamped.maxDailyLossSOL = Math.max(0.5, Math.min(25.0, params.maxDailyLossSOL));
         if (params.cooldownMinutes !== undefined)
             clamped.cooldownMinutes = Math.max(0, Math.min(240, Math.round(params.cooldownMinutes)));
+        if (params.maxTotalLossSOL !== undefined)
+            clamped.maxTotalLossSOL = Math.max(0.5, Math.min(100, params.maxTotalLossSOL));
+        if (params.maxConsecutiveLosses !== undefined)
+            clamped.maxConsecutiveLosses = Math.max(1, Math.min(20, Math.round(params.maxConsecutiveLosses)));
+        if (params.maxTxFailuresPerHour !== undefined)
+            clamped.maxTxFailuresPerHour = Math.max(1, Math.min(50, Math.round(params.maxTxFailuresPerHour)));
+        if (params.maxApiErrorsPerHour !== undefined)
+            clamped.maxApiErrorsPerHour = Math.max(5, Math.min(500, Math.round(params.maxApiErrorsPerHour)));
+        if (params.maxPositionsPerPool !== undefined)
+            clamped.maxPositionsPerPool = Math.max(1, Math.min(5, Math.round(params.maxPositionsPerPool)));
+        if (params.maxSinglePositionSOL !== undefined)
+            clamped.maxSinglePositionSOL = Math.max(0.1, Math.min(20, params.maxSinglePositionSOL));
+        if (params.maxTotalExposureSOL !== undefined)
+            clamped.maxTotalExposureSOL = Math.max(0.1, Math.min(200, params.maxTotalExposureSOL));
+        if (params.maxTxPerMinute !== undefined)
+            clamped.maxTxPerMinute = Math.max(1, Math.min(30, Math.round(params.maxTxPerMinute)));
+        if (params.minTimeBetweenTradesMs !== undefined)
+            clamped.minTimeBetweenTradesMs = Math.max(0, Math.min(600000, Math.round(params.minTimeBetweenTradesMs)));
+        if (params.maxApiCallsPerMinute !== undefined)
+            clamped.maxApiCallsPerMinute = Math.max(10, Math.min(300, Math.round(params.maxApiCallsPerMinute)));
 
         return clamped;
     }
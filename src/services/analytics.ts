@@ -0,0 +1,465 @@
+/**
+ * Analytics — performance metrics computed from closed positions.
+ *
+ * Everything is derived from the `positions` table (joined with the bot's
+ * mode), so results are identical whether the bot is running or not:
+ *   - daily equity curve (UTC days) with drawdown
+ *   - max drawdown, Sharpe and Sortino (daily returns, annualized ×√365)
+ *   - average hold time, P&L by exit reason and by pool
+ *   - fees vs price P&L breakdown
+ *
+ * Executors record `realized_pnl_lamports` differently: the simulation
+ * executor includes claimed fees, the live executors record price P&L only
+ * (fees and tx costs are stored in their own columns). `splitPnl` normalizes
+ * both into the same price / fees / tx cost / net breakdown. Closed rows with
+ * no realized P&L (closes found by the reconciler or recovered by a position
+ * job) have unknown outcomes and are left out rather than counted as 0.
+ */
+
+import { and, eq, inArray, isNotNull, lte } from "drizzle-orm";
+import db from "../db/index.js";
+import { bots, positions } from "../db/schema.js";
+import { LAMPORTS_PER_SOL } from "../engine/types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRADING_DAYS_PER_YEAR = 365;
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export interface AnalyticsRange {
+  /** Only positions closed at or after this time (epoch ms) */
+  from?: number;
+  /** Only positions closed at or before this time (epoch ms, default now) */
+  to?: number;
+  /** Starting capital override — defaults to the bots' simulation balance */
+  capitalSol?: number;
+}
+
+export interface ClosedPositionRow {
+  positionId: string;
+  botId: string;
+  botMode: "simulation" | "live";
+  poolAddress: string;
+  poolName: string;
+  entryTimestamp: number;
+  exitTimestamp: number;
+  exitReason: string | null;
+  exitPricePerToken: string | null;
+  realizedPnlLamports: number | null;
+  feesEarnedXLamports: number | null;
+  feesEarnedYLamports: number | null;
+  txCostLamports: number | null;
+}
+
+export interface DailyEquityPoint {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  trades: number;
+  pnlSol: number;
+  cumulativePnlSol: number;
+  equitySol: number;
+  drawdownSol: number;
+  drawdownPercent: number;
+}
+
+export interface PnlGroup {
+  trades: number;
+  wins: number;
+  netPnlSol: number;
+  avgPnlSol: number;
+  feesSol: number;
+}
+
+export interface AnalyticsReport {
+  from: string | null;
+  to: string;
+  capitalSol: number;
+  summary: {
+    trades: number;
+    wins: number;
+    losses: number;
+    /** Percentage (0-100) */
+    winRate: number;
+    netPnlSol: number;
+    returnPercent: number;
+    bestTradeSol: number;
+    worstTradeSol: number;
+    avgHoldMinutes: number;
+  };
+  breakdown: {
+    pricePnlSol: number;
+    feesSol: number;
+    txCostSol: number;
+    netPnlSol: number;
+  };
+  risk: {
+    maxDrawdownSol: number;
+    maxDrawdownPercent: number;
+    /** null with fewer than two days of returns or zero variance */
+    sharpeRatio: number | null;
+    sortinoRatio: number | null;
+  };
+  byExitReason: Array<PnlGroup & { exitReason: string }>;
+  byPool: Array<PnlGroup & { poolAddress: string; poolName: string }>;
+  equityCurve: DailyEquityPoint[];
+}
+
+export interface PnlSplit {
+  priceLamports: number;
+  feesLamports: number;
+  txCostLamports: number;
+  netLamports: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Queries
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Analytics for one bot. Caller must have checked ownership.
+ */
+export async function getBotAnalytics(
+  userId: number,
+  botId: string,
+  simulationBalanceSol: number,
+  range: AnalyticsRange
+): Promise<AnalyticsReport> {
+  const rows = await loadClosedPositions(userId, range.to, [botId]);
+  return computeAnalytics(rows, {
+    ...range,
+    capitalSol: range.capitalSol ?? simulationBalanceSol,
+  });
+}
+
+/**
+ * Analytics across all of a user's bots (including deleted ones — their
+ * history still counts). Capital defaults to the sum of the simulation
+ * balances of every bot that has closed a position.
+ */
+export async function getPortfolioAnalytics(
+  userId: number,
+  range: AnalyticsRange
+): Promise<AnalyticsReport> {
+  const rows = await loadClosedPositions(userId, range.to);
+
+  let capitalSol = range.capitalSol;
+  if (capitalSol === undefined) {
+    const botIds = [...new Set(rows.map((r) => r.botId))];
+    const botRows = botIds.length
+      ? await db
+        .select({ balance: bots.simulationBalanceSOL })
+        .from(bots)
+        .where(and(eq(bots.userId, userId), inArray(bots.botId, botIds)))
+      : [];
+    capitalSol = botRows.reduce((sum, b) => sum + b.balance, 0);
+  }
+
+  return computeAnalytics(rows, { ...range, capitalSol });
+}
+
+/**
+ * Every closed position with a known P&L up to `to`, oldest exit first.
+ * Positions closed before `from` are still loaded — they set the starting
+ * equity.
+ */
+async function loadClosedPositions(
+  userId: number,
+  to: number | undefined,
+  botIds?: string[]
+): Promise<ClosedPositionRow[]> {
+  const conditions = [
+    eq(positions.userId, userId),
+    eq(positions.status, "closed"),
+    isNotNull(positions.exitTimestamp),
+    isNotNull(positions.realizedPnlLamports),
+  ];
+  if (to !== undefined) conditions.push(lte(positions.exitTimestamp, to));
+  if (botIds) conditions.push(inArray(positions.botId, botIds));
+
+  const rows = await db
+    .select({
+      positionId: positions.positionId,
+      botId: positions.botId,
+      botMode: bots.mode,
+      poolAddress: positions.poolAddress,
+      poolName: positions.poolName,
+      entryTimestamp: positions.entryTimestamp,
+      exitTimestamp: positions.exitTimestamp,
+      exitReason: positions.exitReason,
+      exitPricePerToken: positions.exitPricePerToken,
+      realizedPnlLamports: positions.realizedPnlLamports,
+      feesEarnedXLamports: positions.feesEarnedXLamports,
+      feesEarnedYLamports: positions.feesEarnedYLamports,
+      txCostLamports: positions.txCostLamports,
+    })
+    .from(positions)
+    .innerJoin(bots, eq(bots.botId, positions.botId))
+    .where(and(...conditions))
+    .orderBy(positions.exitTimestamp);
+
+  return rows as ClosedPositionRow[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Computation
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Build the report from closed positions sorted by exit time.
+ * Pure — no I/O, so it can be reused on any row set.
+ */
+export function computeAnalytics(
+  rows: ClosedPositionRow[],
+  options: AnalyticsRange & { capitalSol: number }
+): AnalyticsReport {
+  const to = options.to ?? Date.now();
+  const from = options.from;
+
+  // P&L realized before the window moves the starting equity
+  let startingEquityLamports = options.capitalSol * LAMPORTS_PER_SOL;
+  const inRange: Array<{ row: ClosedPositionRow; pnl: PnlSplit }> = [];
+  for (const row of rows) {
+    const pnl = splitPnl(row);
+    if (from !== undefined && row.exitTimestamp < from) {
+      startingEquityLamports += pnl.netLamports;
+    } else {
+      inRange.push({ row, pnl });
+    }
+  }
+
+  // ── Summary + breakdown ──
+  let wins = 0;
+  let holdMs = 0;
+  let best = 0;
+  let worst = 0;
+  const totals: PnlSplit = {
+    priceLamports: 0,
+    feesLamports: 0,
+    txCostLamports: 0,
+    netLamports: 0,
+  };
+  for (const [i, { row, pnl }] of inRange.entries()) {
+    if (pnl.netLamports > 0) wins++;
+    holdMs += row.exitTimestamp - row.entryTimestamp;
+    best = i === 0 ? pnl.netLamports : Math.max(best, pnl.netLamports);
+    worst = i === 0 ? pnl.netLamports : Math.min(worst, pnl.netLamports);
+    totals.priceLamports += pnl.priceLamports;
+    totals.feesLamports += pnl.feesLamports;
+    totals.txCostLamports += pnl.txCostLamports;
+    totals.netLamports += pnl.netLamports;
+  }
+  const trades = inRange.length;
+
+  // ── Daily equity curve ──
+  const equityCurve = buildEquityCurve(
+    inRange,
+    startingEquityLamports,
+    from ?? inRange[0]?.row.exitTimestamp,
+    to
+  );
+
+  let maxDrawdownSol = 0;
+  let maxDrawdownPercent = 0;
+  for (const point of equityCurve) {
+    maxDrawdownSol = Math.max(maxDrawdownSol, point.drawdownSol);
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, point.drawdownPercent);
+  }
+
+  const returns = dailyReturns(equityCurve, startingEquityLamports / LAMPORTS_PER_SOL);
+
+  return {
+    from: from !== undefined ? new Date(from).toISOString() : null,
+    to: new Date(to).toISOString(),
+    capitalSol: options.capitalSol,
+    summary: {
+      trades,
+      wins,
+      losses: trades - wins,
+      winRate: trades > 0 ? (wins / trades) * 100 : 0,
+      netPnlSol: toSol(totals.netLamports),
+      returnPercent:
+        startingEquityLamports > 0
+          ? (totals.netLamports / startingEquityLamports) * 100
+          : 0,
+      bestTradeSol: toSol(best),
+      worstTradeSol: toSol(worst),
+      avgHoldMinutes: trades > 0 ? holdMs / trades / 60_000 : 0,
+    },
+    breakdown: {
+      pricePnlSol: toSol(totals.priceLamports),
+      feesSol: toSol(totals.feesLamports),
+      txCostSol: toSol(totals.txCostLamports),
+      netPnlSol: toSol(totals.netLamports),
+    },
+    risk: {
+      maxDrawdownSol,
+      maxDrawdownPercent,
+      sharpeRatio: sharpe(returns),
+      sortinoRatio: sortino(returns),
+    },
+    byExitReason: groupBy(inRange, ({ row }) => row.exitReason ?? "UNKNOWN").map(
+      ([exitReason, group]) => ({ exitReason, ...group })
+    ),
+    byPool: groupBy(inRange, ({ row }) => row.poolAddress).map(
+      ([poolAddress, group, first]) => ({
+        poolAddress,
+        poolName: first.row.poolName,
+        ...group,
+      })
+    ),
+    equityCurve,
+  };
+}
+
+/**
+ * Normalize one position's P&L (see file header for executor semantics).
+ * Token X fees are valued at the exit price, as the live executors do.
+ */
+export function splitPnl(
+  row: Pick<
+    ClosedPositionRow,
+    | "botMode"
+    | "exitPricePerToken"
+    | "realizedPnlLamports"
+    | "feesEarnedXLamports"
+    | "feesEarnedYLamports"
+    | "txCostLamports"
+  >
+): PnlSplit {
+  const realized = row.realizedPnlLamports ?? 0;
+  const exitPrice = parseFloat(row.exitPricePerToken ?? "0") || 0;
+  const feesLamports =
+    (row.feesEarnedYLamports ?? 0) + (row.feesEarnedXLamports ?? 0) * exitPrice;
+  const txCostLamports = row.txCostLamports ?? 0;
+
+  if (row.botMode === "simulation") {
+    return {
+      priceLamports: realized - feesLamports,
+      feesLamports,
+      txCostLamports,
+      netLamports: realized - txCostLamports,
+    };
+  }
+  return {
+    priceLamports: realized,
+    feesLamports,
+    txCostLamports,
+    netLamports: realized + feesLamports - txCostLamports,
+  };
+}
+
+function buildEquityCurve(
+  trades: Array<{ row: ClosedPositionRow; pnl: PnlSplit }>,
+  startingEquityLamports: number,
+  start: number | undefined,
+  end: number
+): DailyEquityPoint[] {
+  if (start === undefined) return [];
+
+  const byDay = new Map<number, { trades: number; pnlLamports: number }>();
+  for (const { row, pnl } of trades) {
+    const day = Math.floor(row.exitTimestamp / DAY_MS);
+    const bucket = byDay.get(day) ?? { trades: 0, pnlLamports: 0 };
+    bucket.trades++;
+    bucket.pnlLamports += pnl.netLamports;
+    byDay.set(day, bucket);
+  }
+
+  const points: DailyEquityPoint[] = [];
+  let cumulative = 0;
+  let peak = startingEquityLamports;
+  for (
+    let day = Math.floor(start / DAY_MS);
+    day <= Math.floor(end / DAY_MS);
+    day++
+  ) {
+    const bucket = byDay.get(day);
+    cumulative += bucket?.pnlLamports ?? 0;
+    const equity = startingEquityLamports + cumulative;
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+
+    points.push({
+      date: new Date(day * DAY_MS).toISOString().slice(0, 10),
+      trades: bucket?.trades ?? 0,
+      pnlSol: toSol(bucket?.pnlLamports ?? 0),
+      cumulativePnlSol: toSol(cumulative),
+      equitySol: toSol(equity),
+      drawdownSol: toSol(drawdown),
+      drawdownPercent: peak > 0 ? (drawdown / peak) * 100 : 0,
+    });
+  }
+  return points;
+}
+
+/** Day-over-day returns; empty when there's no capital to measure against. */
+function dailyReturns(curve: DailyEquityPoint[], startingEquitySol: number): number[] {
+  const returns: number[] = [];
+  let previous = startingEquitySol;
+  for (const point of curve) {
+    if (previous <= 0) return [];
+    returns.push(point.pnlSol / previous);
+    previous = point.equitySol;
+  }
+  return returns;
+}
+
+function sharpe(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const mean = average(returns);
+  const variance =
+    returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  return std > 0 ? (mean / std) * Math.sqrt(TRADING_DAYS_PER_YEAR) : null;
+}
+
+function sortino(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const downside = Math.sqrt(
+    returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length
+  );
+  return downside > 0
+    ? (average(returns) / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+    : null;
+}
+
+/** Groups sorted by net P&L, best first. */
+function groupBy<T extends { pnl: PnlSplit }>(
+  items: T[],
+  key: (item: T) => string
+): Array<[string, PnlGroup, T]> {
+  const groups = new Map<string, { first: T; trades: number; wins: number; net: number; fees: number }>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k) ?? { first: item, trades: 0, wins: 0, net: 0, fees: 0 };
+    group.trades++;
+    if (item.pnl.netLamports > 0) group.wins++;
+    group.net += item.pnl.netLamports;
+    group.fees += item.pnl.feesLamports;
+    groups.set(k, group);
+  }
+
+  return [...groups.entries()]
+    .sort(([, a], [, b]) => b.net - a.net)
+    .map(([k, g]): [string, PnlGroup, T] => [
+      k,
+      {
+        trades: g.trades,
+        wins: g.wins,
+        netPnlSol: toSol(g.net),
+        avgPnlSol: toSol(g.net / g.trades),
+        feesSol: toSol(g.fees),
+      },
+      g.first,
+    ]);
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function toSol(lamports: number): number {
+  return lamports / LAMPORTS_PER_SOL;
+}
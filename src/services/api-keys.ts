@@ -0,0 +1,175 @@
+/**
+ * API keys — scoped bearer keys for scripts and headless access.
+ *
+ * A key is `sage_<random>`, sent as `Authorization: Bearer sage_…` in place
+ * of a JWT. Only its SHA-256 is stored; the key is shown once at creation.
+ *
+ * Keys are deny-by-default: requireAuth lets a key through only if one of
+ * its scopes covers the request (see apiKeyAllows). No scope reaches
+ * /auth (keys can't mint keys or sessions), /admin, or any state-changing
+ * /wallet route — prepare-*, setup-live, withdraw and submit-signed need a
+ * signed-in wallet.
+ */
+
+import crypto from "node:crypto";
+import { and, desc, eq, gt, isNull, lt, or, sql } from "drizzle-orm";
+import db from "../db/index.js";
+import { apiKeys, users } from "../db/schema.js";
+
+const KEY_PREFIX = "sage_";
+/** Characters of the key kept for display */
+const DISPLAY_PREFIX_LENGTH = 12;
+/** last_used_at is written at most this often per key */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export const API_KEY_SCOPES = ["read-only", "bot-control", "ml-predict"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// ═══════════════════════════════════════════════════════════════
+// Scope policy
+// ═══════════════════════════════════════════════════════════════
+
+/** Unreachable with an API key whatever its scopes */
+function isDenied(method: string, path: string): boolean {
+  if (/^\/(auth|admin)(\/|$)/.test(path)) return true;
+  return path.startsWith("/wallet/") && method !== "GET" && method !== "HEAD";
+}
+
+const SCOPE_RULES: Record<ApiKeyScope, (method: string, path: string) => boolean> = {
+  /** Any read: bots, positions, trade export, analytics, events */
+  "read-only": (method) => method === "GET" || method === "HEAD",
+  /** Start / stop / emergency-stop bots and close positions */
+  "bot-control": (method, path) =>
+    method === "POST" &&
+    (/^\/bot\/[0-9a-f]{8}\/(start|stop|emergency)$/.test(path) ||
+      /^\/position\/[^/]+\/close$/.test(path)),
+  "ml-predict": (method, path) => method === "POST" && path === "/ml/predict",
+};
+
+export function apiKeyAllows(scopes: readonly string[], method: string, path: string): boolean {
+  if (isDenied(method, path)) return false;
+  return scopes.some((scope) => SCOPE_RULES[scope as ApiKeyScope]?.(method, path) ?? false);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Keys
+// ═══════════════════════════════════════════════════════════════
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(KEY_PREFIX);
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+const keyColumns = {
+  id: apiKeys.id,
+  name: apiKeys.name,
+  prefix: apiKeys.prefix,
+  scopes: apiKeys.scopes,
+  expiresAt: apiKeys.expiresAt,
+  lastUsedAt: apiKeys.lastUsedAt,
+  lastUsedIp: apiKeys.lastUsedIp,
+  revokedAt: apiKeys.revokedAt,
+  createdAt: apiKeys.createdAt,
+};
+
+/** Create a key. The returned `key` is the only time it is available. */
+export async function createApiKey(params: {
+  userId: number;
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Date;
+}) {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  const [row] = await db
+    .insert(apiKeys)
+    .values({
+      userId: params.userId,
+      name: params.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashKey(key),
+      scopes: [...new Set(params.scopes)],
+      expiresAt: params.expiresAt,
+    })
+    .returning(keyColumns);
+  return { key, apiKey: row! };
+}
+
+/** The user's keys, newest first. Active only unless includeRevoked. */
+export async function listApiKeys(userId: number, includeRevoked = false) {
+  return db
+    .select(keyColumns)
+    .from(apiKeys)
+    .where(
+      includeRevoked
+        ? eq(apiKeys.userId, userId)
+        : and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt), gt(apiKeys.expiresAt, new Date()))
+    )
+    .orderBy(desc(apiKeys.id));
+}
+
+export async function countActiveApiKeys(userId: number): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt), gt(apiKeys.expiresAt, new Date())));
+  return row?.count ?? 0;
+}
+
+/** Revoke a key. Null if it isn't the user's; `revoked` false if it already was. */
+export async function revokeApiKey(userId: number, keyId: number) {
+  const [revoked] = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+    .returning(keyColumns);
+  if (revoked) return { apiKey: revoked, revoked: true };
+
+  const [existing] = await db
+    .select(keyColumns)
+    .from(apiKeys)
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)));
+  return existing ? { apiKey: existing, revoked: false } : null;
+}
+
+/**
+ * Resolve a presented key to its owner. Null if unknown, revoked or
+ * expired. Records last use (coarsely — at most once a minute).
+ */
+export async function verifyApiKey(key: string, ip: string) {
+  const now = new Date();
+  const [row] = await db
+    .select({
+      id: apiKeys.id,
+      userId: apiKeys.userId,
+      walletAddress: users.walletAddress,
+      scopes: apiKeys.scopes,
+    })
+    .from(apiKeys)
+    .innerJoin(users, eq(users.id, apiKeys.userId))
+    .where(
+      and(
+        eq(apiKeys.keyHash, hashKey(key)),
+        isNull(apiKeys.revokedAt),
+        gt(apiKeys.expiresAt, now)
+      )
+    );
+  if (!row) return null;
+
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: now, lastUsedIp: ip })
+    .where(
+      and(
+        eq(apiKeys.id, row.id),
+        or(
+          isNull(apiKeys.lastUsedAt),
+          lt(apiKeys.lastUsedAt, new Date(now.getTime() - LAST_USED_RESOLUTION_MS))
+        )
+      )
+    );
+
+  return row;
+}
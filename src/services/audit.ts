@@ -0,0 +1,172 @@
+/**
+ * Audit log — append-only record of every state-changing user action.
+ *
+ * `trade_log` holds what the engines did; `audit_log` holds what users
+ * did: config changes, bot start / stop / delete, visibility toggles, Seal
+ * session creation / revocation, withdrawal preparation, AI strategy
+ * changes. Each row carries a before/after diff of the changed fields,
+ * the request ID (X-Request-Id), client IP, user agent and wallet.
+ *
+ * Secrets (agent / session keys, webhook secrets, token hashes) are never
+ * written — a changed secret shows up as "[redacted]".
+ */
+
+import type { Context } from "hono";
+import { and, desc, eq, lt } from "drizzle-orm";
+import db from "../db/index.js";
+import { auditLog } from "../db/schema.js";
+import type { AuthVariables } from "../middleware/auth.js";
+import { clientIp } from "../middleware/rate-limit.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "audit" });
+
+/** Fields whose values must never reach the audit log */
+const REDACTED_FIELDS = new Set([
+  "agentSecretKey",
+  "sessionSecretKey",
+  "secret",
+  "refreshTokenHash",
+  "keyHash",
+  "authNonce",
+]);
+
+/** Bookkeeping fields and serialized engine state — not user edits */
+const IGNORED_FIELDS = new Set([
+  "createdAt",
+  "updatedAt",
+  "lastActivityAt",
+  "emergencyStopState",
+]);
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditEntry {
+  action: string;
+  targetType?: string;
+  targetId?: string | number | null;
+  /** State before the change (null for creations) */
+  before?: Snapshot | null;
+  /** State after the change (null for deletions) */
+  after?: Snapshot | null;
+}
+
+export interface AuditQuery {
+  userId: number;
+  limit: number;
+  /** Only entries with a smaller ID (keyset pagination) */
+  beforeId?: number;
+  action?: string;
+  targetId?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Diff
+// ═══════════════════════════════════════════════════════════════
+
+function redact(key: string, value: unknown): unknown {
+  if (!REDACTED_FIELDS.has(key) || value === null || value === undefined) return value;
+  return "[redacted]";
+}
+
+function sanitize(snapshot: Snapshot): Snapshot {
+  const out: Snapshot = {};
+  for (const [key, value] of Object.entries(snapshot)) {
+    if (IGNORED_FIELDS.has(key) || value === undefined) continue;
+    out[key] = redact(key, value);
+  }
+  return out;
+}
+
+/**
+ * Reduce two snapshots to the fields that differ. A creation (no before)
+ * or deletion (no after) keeps the whole other side.
+ */
+export function diffSnapshots(
+  before: Snapshot | null | undefined,
+  after: Snapshot | null | undefined
+): { before: Snapshot | null; after: Snapshot | null } {
+  if (!before || !after) {
+    return {
+      before: before ? sanitize(before) : null,
+      after: after ? sanitize(after) : null,
+    };
+  }
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_FIELDS.has(key) || !(key in after)) continue;
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    changedBefore[key] = redact(key, before[key] ?? null);
+    changedAfter[key] = redact(key, after[key] ?? null);
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Write / Read
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Record a user action. Call after the change succeeded. Never throws —
+ * the change already happened, so a failed write is logged instead.
+ *
+ * `actor` overrides the authenticated user for routes that run before
+ * requireAuth has set one (sign-in).
+ */
+export async function recordAudit(
+  c: Context<{ Variables: AuthVariables }>,
+  entry: AuditEntry,
+  actor?: { userId: number; walletAddress: string }
+): Promise<void> {
+  const userId = actor?.userId ?? c.var.userId;
+  const walletAddress = actor?.walletAddress ?? c.var.walletAddress;
+  const { before, after } = diffSnapshots(entry.before, entry.after);
+
+  try {
+    await db.insert(auditLog).values({
+      userId,
+      walletAddress,
+      action: entry.action,
+      targetType: entry.targetType ?? null,
+      targetId: entry.targetId != null ? String(entry.targetId) : null,
+      before,
+      after,
+      requestId: c.get("requestId") ?? null,
+      ip: clientIp(c),
+      userAgent: c.req.header("user-agent")?.slice(0, 256) ?? null,
+    });
+  } catch (err) {
+    log.error(
+      {
+        userId,
+        action: entry.action,
+        targetId: entry.targetId,
+        err: err instanceof Error ? err.message : String(err),
+      },
+      "Failed to write audit entry"
+    );
+  }
+}
+
+/** The user's own entries, newest first. */
+export async function listAudit(query: AuditQuery) {
+  const conditions = [
+    eq(auditLog.userId, query.userId),
+    query.beforeId !== undefined ? lt(auditLog.id, query.beforeId) : undefined,
+    query.action !== undefined ? eq(auditLog.action, query.action) : undefined,
+    query.targetId !== undefined ? eq(auditLog.targetId, query.targetId) : undefined,
+  ].filter((c) => c !== undefined);
+
+  return db
+    .select()
+    .from(auditLog)
+    .where(and(...conditions))
+    .orderBy(desc(auditLog.id))
+    .limit(query.limit);
+}
@@ -6,20 +6,29 @@
  *  2. Backend generates nonce, stores it with 5-min TTL, returns it
  *  3. Client signs the SIWS message with their wallet (via MWA)
  *  4. Client calls POST /auth/verify with address + signature + message
- *  5. Backend verifies Ed25519 signature, upserts user, returns JWT
+ *  5. Backend verifies Ed25519 signature, upserts user, starts a session
+ *     for the device, returns JWT
+ *
+ * Sessions: each sign-in is a `sessions` row (one per device) holding a
+ * refresh-token family. Refreshing rotates the token; reusing a rotated
+ * token revokes the family.
  *
  * Uses `jose` for JWT (zero-dependency, Web Crypto compatible)
  * Uses `tweetnacl` for Ed25519 signature verification
  */
 
-import { SignJWT, jwtVerify, type JWTPayload } from "jose";
+import { SignJWT, decodeJwt, jwtVerify, type JWTPayload } from "jose";
 import nacl from "tweetnacl";
 import bs58 from "bs58";
 import crypto from "node:crypto";
 import config from "../config.js";
 import db from "../db/index.js";
-import { users } from "../db/schema.js";
-import { eq } from "drizzle-orm";
+import { sessions, users } from "../db/schema.js";
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import { logger } from "../middleware/logger.js";
+import { sharedStore } from "./shared-store.js";
+
+const log = logger.child({ module: "auth" });
 
 // ═══════════════════════════════════════════════════════════════
 // Types
@@ -28,12 +37,24 @@ import { eq } from "drizzle-orm";
 export interface SageJWTPayload extends JWTPayload {
   sub: string; // wallet address
   userId: number;
+  /** sessions.id — absent on tokens issued before per-device sessions */
+  sid?: number;
 }
 
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
   expiresIn: string;
+  /** sessions.id of this device */
+  sessionId: number;
+}
+
+/** The signing-in / refreshing client, recorded on its session */
+export interface ClientInfo {
+  ip: string;
+  userAgent?: string | null;
+  /** Client-supplied device name (sign-in only) */
+  deviceName?: string | null;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -48,30 +69,23 @@ const JWT_SECRET = new TextEncoder().encode(config.JWT_SECRET);
 
 const NONCE_TTL_SECONDS = 300; // 5 minutes
 
-// ═══════════════════════════════════════════════════════════════
-// In-memory nonce store (for MWA / address-free flow)
-// ═══════════════════════════════════════════════════════════════
-
 /**
- * Standalone nonces not tied to a wallet address.
- * Used when the mobile client fetches a nonce before knowing
- * the wallet address (pre-MWA flow on Seeker).
+ * Standalone nonces not tied to a wallet address live in the shared
+ * store (services/shared-store.ts), so any replica can verify a nonce
+ * another one issued. Used when the mobile client fetches a nonce before
+ * knowing the wallet address (pre-MWA flow on Seeker).
+ *
+ * The entry holds the nonce's own expiry and is kept a minute past it,
+ * so a late sign-in gets "Nonce expired" rather than an unknown nonce.
  */
-const standaloneNonces = new Map<string, number>(); // nonce → expiresAt
-
-/** Periodically clean expired standalone nonces (every 60s). */
-setInterval(() => {
-  const now = Math.floor(Date.now() / 1000);
-  for (const [nonce, expiresAt] of standaloneNonces) {
-    if (expiresAt < now) standaloneNonces.delete(nonce);
-  }
-}, 60_000);
+const standaloneNonceKey = (nonce: string) => `nonce:${nonce}`;
+const STANDALONE_NONCE_RETENTION_MS = (NONCE_TTL_SECONDS + 60) * 1000;
 
 /**
  * Generate a random nonce.
  *
  * - With `walletAddress`: legacy flow — nonce stored in the user's DB record.
- * - Without `walletAddress`: MWA-safe flow — nonce stored in memory. The
+ * - Without `walletAddress`: MWA-safe flow — nonce stored in the shared store. The
  *   client will build the SIWS message locally after getting the address
  *   from wallet authorization.
  */
@@ -99,8 +113,12 @@ export async function generateNonce(walletAddress: string | null): Promise<strin
         });
     }
   } else {
-    // MWA-safe flow: store nonce in memory
-    standaloneNonces.set(nonce, expiresAt);
+    // MWA-safe flow: store nonce in the shared store
+    await sharedStore().putIfAbsent(
+      standaloneNonceKey(nonce),
+      String(expiresAt),
+      STANDALONE_NONCE_RETENTION_MS
+    );
   }
 
   return nonce;
@@ -140,7 +158,8 @@ export function buildSIWSMessage(
  * Supports two nonce modes:
  *  1. **Legacy (DB nonce)**: nonce was stored against the user's record
  *     via `POST /auth/nonce` with `walletAddress`.
- *  2. **MWA-safe (standalone nonce)**: nonce was stored in memory via
+ *  2. **MWA-safe (standalone nonce)**: nonce was stored in the shared
+ *     store (services/shared-store.ts, so any replica can verify it) via
  *     `POST /auth/nonce` without `walletAddress`. The client built the
  *     SIWS message locally after getting the address from MWA.
  */
@@ -175,15 +194,15 @@ export async function verifySIWSSignature(
   // 4. Verify nonce — check standalone store first, then user record
   const now = Math.floor(Date.now() / 1000);
 
-  if (standaloneNonces.has(messageNonce)) {
-    // MWA-safe flow: nonce from in-memory store
-    const expiresAt = standaloneNonces.get(messageNonce)!;
-    if (expiresAt < now) {
-      standaloneNonces.delete(messageNonce);
+  // Taking the entry invalidates it (single-use) — atomically, so two
+  // concurrent verifies with the same nonce can't both succeed
+  const standalone = await sharedStore().take(standaloneNonceKey(messageNonce));
+
+  if (standalone !== null) {
+    // MWA-safe flow: nonce from the shared store
+    if (Number(standalone) < now) {
       throw new Error("Nonce expired");
     }
-    // Invalidate (single-use)
-    standaloneNonces.delete(messageNonce);
   } else {
     // Legacy flow: nonce from user's DB record
     const [user] = await db
@@ -241,14 +260,21 @@ export async function verifySIWSSignature(
 // JWT Token Management
 // ═══════════════════════════════════════════════════════════════
 
-/** Issue access + refresh JWT tokens for a verified user. */
-export async function issueTokens(
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/** Sign an access + refresh pair for one session at one rotation. */
+async function signTokens(
   userId: number,
-  walletAddress: string
-): Promise<AuthTokens> {
+  walletAddress: string,
+  sessionId: number,
+  generation: number
+) {
   const accessToken = await new SignJWT({
     sub: walletAddress,
     userId,
+    sid: sessionId,
   } satisfies SageJWTPayload)
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt()
@@ -260,6 +286,8 @@ export async function issueTokens(
     sub: walletAddress,
     userId,
     type: "refresh",
+    sid: sessionId,
+    gen: generation,
   })
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt()
@@ -267,23 +295,53 @@ export async function issueTokens(
     .setExpirationTime(config.JWT_REFRESH_TTL)
     .sign(JWT_SECRET);
 
-  // Store refresh token hash for rotation
-  const hash = crypto
-    .createHash("sha256")
-    .update(refreshToken)
-    .digest("hex");
-
-  await db.update(users)
-    .set({ refreshTokenHash: hash })
-    .where(eq(users.walletAddress, walletAddress));
-
   return {
     accessToken,
     refreshToken,
-    expiresIn: config.JWT_ACCESS_TTL,
+    refreshTokenHash: hashToken(refreshToken),
+    refreshExpiresAt: new Date(decodeJwt(refreshToken).exp! * 1000),
   };
 }
 
+/**
+ * Sign in a new device: start a session (refresh-token family) and issue
+ * its first token pair. Other devices' sessions are left alone.
+ */
+export async function issueTokens(
+  userId: number,
+  walletAddress: string,
+  client: ClientInfo
+): Promise<AuthTokens> {
+  return db.transaction(async (tx) => {
+    const [session] = await tx
+      .insert(sessions)
+      .values({
+        userId,
+        deviceName: client.deviceName ?? null,
+        userAgent: client.userAgent ?? null,
+        createdIp: client.ip,
+        lastIp: client.ip,
+        // Replaced below once the token (which carries the ID) is signed
+        refreshTokenHash: hashToken(crypto.randomBytes(32).toString("hex")),
+        expiresAt: new Date(),
+      })
+      .returning({ id: sessions.id });
+
+    const tokens = await signTokens(userId, walletAddress, session!.id, 0);
+    await tx
+      .update(sessions)
+      .set({ refreshTokenHash: tokens.refreshTokenHash, expiresAt: tokens.refreshExpiresAt })
+      .where(eq(sessions.id, session!.id));
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: config.JWT_ACCESS_TTL,
+      sessionId: session!.id,
+    };
+  });
+}
+
 /** Verify a JWT access token and return the payload. */
 export async function verifyAccessToken(
   token: string
@@ -294,34 +352,167 @@ export async function verifyAccessToken(
   return payload as SageJWTPayload;
 }
 
-/** Verify a refresh token, issue new tokens (rotation). */
+/**
+ * Rotate a refresh token within its session. Each token is accepted once:
+ * presenting one that was already rotated means two parties hold the
+ * family (a stolen token), so the whole session is revoked and both must
+ * sign in again.
+ */
 export async function refreshTokens(
-  refreshToken: string
+  refreshToken: string,
+  client: ClientInfo
 ): Promise<AuthTokens> {
   const { payload } = await jwtVerify(refreshToken, JWT_SECRET, {
     issuer: config.JWT_ISSUER,
   });
 
   const walletAddress = payload.sub;
-  if (!walletAddress) {
-    throw new Error("Invalid refresh token: missing sub");
+  const userId = payload.userId;
+  if (!walletAddress || typeof userId !== "number" || payload.type !== "refresh") {
+    throw new Error("Invalid refresh token");
   }
 
-  // Verify the refresh token hash matches what's stored
-  const hash = crypto
-    .createHash("sha256")
-    .update(refreshToken)
-    .digest("hex");
+  const hash = hashToken(refreshToken);
+
+  // Tokens issued before per-device sessions carry no session ID
+  if (typeof payload.sid !== "number") {
+    return adoptLegacyRefreshToken(userId, walletAddress, hash, client);
+  }
+  const sessionId = payload.sid;
 
-  const [refreshUser] = await db
+  const [session] = await db
     .select()
-    .from(users)
-    .where(eq(users.walletAddress, walletAddress));
+    .from(sessions)
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)));
+
+  if (!session || session.revokedAt) {
+    throw new Error("Refresh token revoked or invalid");
+  }
+
+  const next = await signTokens(userId, walletAddress, sessionId, session.generation + 1);
+
+  // Compare-and-set on the current hash: of two concurrent refreshes with
+  // the same token, only one rotates; the other counts as reuse.
+  const [rotated] = session.refreshTokenHash === hash
+    ? await db
+      .update(sessions)
+      .set({
+        refreshTokenHash: next.refreshTokenHash,
+        generation: session.generation + 1,
+        expiresAt: next.refreshExpiresAt,
+        lastSeenAt: new Date(),
+        lastIp: client.ip,
+        ...(client.userAgent ? { userAgent: client.userAgent } : {}),
+      })
+      .where(
+        and(
+          eq(sessions.id, sessionId),
+          eq(sessions.refreshTokenHash, hash),
+          isNull(sessions.revokedAt)
+        )
+      )
+      .returning({ id: sessions.id })
+    : [];
+
+  if (!rotated) {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date(), revokedReason: "token_reuse" })
+      .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)));
+    log.warn(
+      { userId, sessionId, presentedGeneration: payload.gen, currentGeneration: session.generation, ip: client.ip },
+      "Refresh token reuse detected — session revoked"
+    );
+    throw new Error("Refresh token reuse detected — session revoked. Sign in again.");
+  }
+
+  return {
+    accessToken: next.accessToken,
+    refreshToken: next.refreshToken,
+    expiresIn: config.JWT_ACCESS_TTL,
+    sessionId,
+  };
+}
+
+/**
+ * Accept a pre-sessions refresh token once, if it still matches
+ * users.refreshTokenHash, and move the device onto its own session.
+ */
+async function adoptLegacyRefreshToken(
+  userId: number,
+  walletAddress: string,
+  hash: string,
+  client: ClientInfo
+): Promise<AuthTokens> {
+  const [cleared] = await db
+    .update(users)
+    .set({ refreshTokenHash: null })
+    .where(and(eq(users.id, userId), eq(users.refreshTokenHash, hash)))
+    .returning({ id: users.id });
 
-  if (!refreshUser || refreshUser.refreshTokenHash !== hash) {
+  if (!cleared) {
     throw new Error("Refresh token revoked or invalid");
   }
+  return issueTokens(userId, walletAddress, client);
+}
 
-  // Issue new token pair (rotation)
-  return issueTokens(refreshUser.id, refreshUser.walletAddress);
+// ═══════════════════════════════════════════════════════════════
+// Sessions (signed-in devices)
+// ═══════════════════════════════════════════════════════════════
+
+const sessionColumns = {
+  id: sessions.id,
+  deviceName: sessions.deviceName,
+  userAgent: sessions.userAgent,
+  createdIp: sessions.createdIp,
+  lastIp: sessions.lastIp,
+  lastSeenAt: sessions.lastSeenAt,
+  expiresAt: sessions.expiresAt,
+  revokedAt: sessions.revokedAt,
+  revokedReason: sessions.revokedReason,
+  createdAt: sessions.createdAt,
+};
+
+/** The user's sessions, most recently seen first. Active only by default. */
+export async function listSessions(userId: number, includeRevoked = false) {
+  return db
+    .select(sessionColumns)
+    .from(sessions)
+    .where(
+      includeRevoked
+        ? eq(sessions.userId, userId)
+        : and(
+          eq(sessions.userId, userId),
+          isNull(sessions.revokedAt),
+          gt(sessions.expiresAt, new Date())
+        )
+    )
+    .orderBy(desc(sessions.lastSeenAt));
+}
+
+/**
+ * Sign a device out: its refresh token stops working immediately. Access
+ * tokens already issued to it stay valid until they expire
+ * (JWT_ACCESS_TTL). Returns null if the session isn't the user's;
+ * `revoked` is false when it was already revoked.
+ */
+export async function revokeSession(userId: number, sessionId: number) {
+  const [revoked] = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: "user_revoked" })
+    .where(
+      and(
+        eq(sessions.id, sessionId),
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt)
+      )
+    )
+    .returning(sessionColumns);
+  if (revoked) return { session: revoked, revoked: true };
+
+  const [existing] = await db
+    .select(sessionColumns)
+    .from(sessions)
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)));
+  return existing ? { session: existing, revoked: false } : null;
 }
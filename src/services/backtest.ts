@@ -0,0 +1,181 @@
+/**
+ * Backtest job service — runs backtests in the background for the API.
+ *
+ * Jobs are in-memory only: a backtest is cheap to re-run and its report
+ * is returned to the client, so nothing is persisted. Finished jobs are
+ * pruned after JOB_RETENTION_MS.
+ *
+ * Snapshot files are resolved inside BACKTEST_DATA_DIR only — clients
+ * pass a bare file name, never a path.
+ */
+
+import crypto from "node:crypto";
+import path from "node:path";
+import { access } from "node:fs/promises";
+import config from "../config.js";
+import {
+  loadSnapshotFile,
+  runBacktest,
+  type BacktestReport,
+} from "../engine/backtest.js";
+import type { BotConfig } from "../engine/types.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "backtest-service" });
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export type BacktestJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface BacktestJob {
+  id: string;
+  userId: number;
+  botId: string;
+  snapshotFile: string;
+  status: BacktestJobStatus;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+  report: BacktestReport | null;
+}
+
+export interface SubmitBacktestInput {
+  userId: number;
+  botId: string;
+  snapshotFile: string;
+  /** Absolute path returned by resolveSnapshotFile() */
+  snapshotPath: string;
+  config: BotConfig;
+  initialBalanceSol?: number;
+  from?: number;
+  to?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Job store
+// ═══════════════════════════════════════════════════════════════
+
+const JOB_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+const MAX_ACTIVE_JOBS_PER_USER = 2;
+
+const jobs = new Map<string, BacktestJob>();
+
+function pruneJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt !== null && job.finishedAt < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
+
+/**
+ * Resolve a snapshot file name inside BACKTEST_DATA_DIR.
+ * Returns null if the name escapes the directory or the file is missing.
+ */
+export async function resolveSnapshotFile(fileName: string): Promise<string | null> {
+  const baseDir = path.resolve(config.BACKTEST_DATA_DIR);
+  const fullPath = path.resolve(baseDir, fileName);
+  if (path.dirname(fullPath) !== baseDir) return null;
+
+  try {
+    await access(fullPath);
+    return fullPath;
+  } catch {
+    return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Public API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Queue a backtest. Throws if the user already has too many active jobs.
+ * The job runs on the next tick; poll getBacktestJob() for the result.
+ */
+export function submitBacktestJob(input: SubmitBacktestInput): BacktestJob {
+  pruneJobs();
+
+  const active = Array.from(jobs.values()).filter(
+    (j) => j.userId === input.userId && (j.status === "queued" || j.status === "running")
+  );
+  if (active.length >= MAX_ACTIVE_JOBS_PER_USER) {
+    throw new Error(
+      `Maximum ${MAX_ACTIVE_JOBS_PER_USER} concurrent backtests per user`
+    );
+  }
+
+  const job: BacktestJob = {
+    id: crypto.randomUUID(),
+    userId: input.userId,
+    botId: input.botId,
+    snapshotFile: input.snapshotFile,
+    status: "queued",
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+    error: null,
+    report: null,
+  };
+  jobs.set(job.id, job);
+
+  setImmediate(() => {
+    executeJob(job, input).catch(() => {
+      // executeJob records its own failures
+    });
+  });
+
+  return job;
+}
+
+export function getBacktestJob(jobId: string): BacktestJob | undefined {
+  return jobs.get(jobId);
+}
+
+export function listBacktestJobs(userId: number, botId: string): BacktestJob[] {
+  pruneJobs();
+  return Array.from(jobs.values())
+    .filter((j) => j.userId === userId && j.botId === botId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// ── Execution ──
+
+async function executeJob(
+  job: BacktestJob,
+  input: SubmitBacktestInput
+): Promise<void> {
+  job.status = "running";
+  job.startedAt = Date.now();
+
+  try {
+    const snapshots = await loadSnapshotFile(input.snapshotPath, {
+      from: input.from,
+      to: input.to,
+    });
+    if (snapshots.length === 0) {
+      throw new Error("No snapshots in the requested time window");
+    }
+
+    job.report = await runBacktest({
+      config: input.config,
+      snapshots,
+      initialBalanceSol: input.initialBalanceSol,
+      label: `backtest:${input.botId}`,
+    });
+    job.status = "completed";
+  } catch (err) {
+    job.status = "failed";
+    job.error = err instanceof Error ? err.message : String(err);
+    log.error(
+      { jobId: job.id, botId: job.botId, err: job.error },
+      "Backtest job failed"
+    );
+  } finally {
+    job.finishedAt = Date.now();
+  }
+}
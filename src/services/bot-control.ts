@@ -0,0 +1,372 @@
+/**
+ * Bot control — config changes and lifecycle for a user's own bot.
+ *
+ * Shared by the bot / fleet routes and by AI actions the user confirmed
+ * (services/ai-actions.ts), so both paths apply the same checks and go
+ * through the orchestrator the same way. Failures are API errors with the
+ * status the routes return; auditing is left to the caller.
+ */
+
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import db from "../db/index.js";
+import { bots, tradeLog } from "../db/schema.js";
+import { orchestrator } from "../engine/orchestrator.js";
+import { EmergencyStop } from "../engine/emergency-stop.js";
+import { DEFAULT_SCORER, isScorerName, parseScorerParams } from "../engine/scoring.js";
+import { createApiError } from "../middleware/error.js";
+
+type BotRow = typeof bots.$inferSelect;
+
+/** Fields PUT /bot/:botId/config may change */
+export type BotConfigUpdate = Partial<
+  Omit<BotRow, "id" | "botId" | "userId" | "mode" | "scorerParams">
+> & { scorerParams?: Record<string, unknown> };
+
+export async function getUserBot(userId: number, botId: string) {
+  const [row] = await db
+    .select()
+    .from(bots)
+    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+  return row;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+export const createBotSchema = z.object({
+  name: z.string().min(1).max(64).optional(),
+  mode: z.enum(["simulation", "live"]).default("simulation"),
+  strategyMode: z.enum(["rule-based", "sage-ai", "both"]).default("rule-based"),
+  // Entry criteria
+  entryScoreThreshold: z.number().positive().default(150),
+  minVolume24h: z.number().nonnegative().default(1000),
+  minLiquidity: z.number().nonnegative().default(100),
+  maxLiquidity: z.number().positive().default(1_000_000),
+  // Scoring — params are validated against the scorer's own schema
+  scorer: z
+    .string()
+    .refine(isScorerName, { message: "Unknown scorer — see GET /bot/scorers" })
+    .default(DEFAULT_SCORER),
+  scorerParams: z.record(z.unknown()).optional(),
+  // Position sizing
+  positionSizeSOL: z.number().positive().max(100).default(1),
+  maxConcurrentPositions: z.number().int().min(1).max(20).default(5),
+  defaultBinRange: z.number().int().min(1).max(50).default(10),
+  // Liquidity distribution — bins below/above default to defaultBinRange
+  strategyType: z.enum(["spot", "curve", "bidask"]).default("spot"),
+  depositMode: z.enum(["one-sided", "balanced"]).default("one-sided"),
+  binsBelow: z.number().int().min(0).max(50).nullable().optional(),
+  binsAbove: z.number().int().min(0).max(50).nullable().optional(),
+  // Risk management
+  profitTargetPercent: z.number().positive().max(100).default(8),
+  stopLossPercent: z.number().positive().max(100).default(12),
+  maxHoldTimeMinutes: z.number().int().positive().max(1440).default(240),
+  maxDailyLossSOL: z.number().positive().max(100).default(2),
+  cooldownMinutes: z.number().int().nonnegative().max(1440).default(79),
+  // Safety thresholds — EmergencyStop (null = 3× maxDailyLossSOL)
+  maxTotalLossSOL: z.number().positive().max(1000).nullable().optional(),
+  maxConsecutiveLosses: z.number().int().min(1).max(50).default(5),
+  maxTxFailuresPerHour: z.number().int().min(1).max(100).default(10),
+  maxApiErrorsPerHour: z.number().int().min(1).max(1000).default(50),
+  // Safety thresholds — CircuitBreaker (null single cap = 2× positionSizeSOL,
+  // null total = single cap × maxConcurrentPositions)
+  maxPositionsPerPool: z.number().int().min(1).max(20).default(1),
+  maxSinglePositionSOL: z.number().positive().max(200).nullable().optional(),
+  maxTotalExposureSOL: z.number().positive().max(4000).nullable().optional(),
+  maxTxPerMinute: z.number().int().min(1).max(60).default(10),
+  minTimeBetweenTradesMs: z.number().int().min(0).max(600_000).default(5000),
+  maxApiCallsPerMinute: z.number().int().min(10).max(600).default(60),
+  // Out-of-range handling
+  outOfRangeAction: z.enum(["none", "close", "rebalance"]).default("none"),
+  outOfRangeMinutes: z.number().int().min(1).max(1440).default(30),
+  // Scheduler
+  cronIntervalSeconds: z.number().int().min(10).max(300).default(30),
+  // Simulation
+  simulationBalanceSOL: z.number().positive().default(10),
+  // Visibility
+  isPublic: z.boolean().default(false),
+});
+
+/** PUT /bot/:botId/config — also checks AI-proposed strategy changes */
+export const updateBotConfigSchema = createBotSchema.partial().omit({ mode: true });
+
+// ═══════════════════════════════════════════════════════════════
+// Config validation
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Validate scorer params against the scorer's schema.
+ * Returns the params with defaults filled in, so the stored row is explicit.
+ */
+export function resolveScorerParams(
+  scorer: string,
+  params: unknown
+): Record<string, unknown> {
+  try {
+    return parseScorerParams(scorer, params) as Record<string, unknown>;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw createApiError(
+        `Invalid scorerParams for scorer "${scorer}"`,
+        400,
+        err.errors.map((e) => ({
+          path: ["scorerParams", ...e.path].join("."),
+          message: e.message,
+        }))
+      );
+    }
+    throw createApiError(
+      err instanceof Error ? err.message : "Invalid scorer",
+      400
+    );
+  }
+}
+
+/**
+ * Apply a partial scorer change on top of a bot's current scorer.
+ * Switching scorer drops the old scorer's params unless new ones are sent.
+ * Returns {} when neither field is being changed.
+ */
+export function resolveScorerUpdate(
+  current: { scorer: string; scorerParams: unknown },
+  update: { scorer?: string; scorerParams?: Record<string, unknown> }
+): { scorer?: string; scorerParams?: Record<string, unknown> } {
+  if (update.scorer === undefined && update.scorerParams === undefined) {
+    return {};
+  }
+  const scorer = update.scorer ?? current.scorer;
+  const params =
+    update.scorerParams ??
+    (scorer === current.scorer ? current.scorerParams : undefined);
+  return { scorer, scorerParams: resolveScorerParams(scorer, params) };
+}
+
+type SafetyFields = Pick<
+  BotRow,
+  | "positionSizeSOL"
+  | "maxConcurrentPositions"
+  | "maxDailyLossSOL"
+  | "maxTotalLossSOL"
+  | "maxPositionsPerPool"
+  | "maxSinglePositionSOL"
+  | "maxTotalExposureSOL"
+>;
+
+/**
+ * Reject threshold combinations that would halt or block a bot on its
+ * first trade. Checked against the full config, so a partial update is
+ * merged with the stored row first.
+ */
+export function validateSafetyThresholds(cfg: SafetyFields): void {
+  const issues: { path: string; message: string }[] = [];
+
+  if (cfg.maxTotalLossSOL != null && cfg.maxTotalLossSOL < cfg.maxDailyLossSOL) {
+    issues.push({
+      path: "maxTotalLossSOL",
+      message: "Must be at least maxDailyLossSOL",
+    });
+  }
+  if (cfg.maxSinglePositionSOL != null && cfg.maxSinglePositionSOL < cfg.positionSizeSOL) {
+    issues.push({
+      path: "maxSinglePositionSOL",
+      message: "Must be at least positionSizeSOL, or every entry is blocked",
+    });
+  }
+  if (cfg.maxTotalExposureSOL != null && cfg.maxTotalExposureSOL < cfg.positionSizeSOL) {
+    issues.push({
+      path: "maxTotalExposureSOL",
+      message: "Must be at least positionSizeSOL, or every entry is blocked",
+    });
+  }
+  if (cfg.maxPositionsPerPool > cfg.maxConcurrentPositions) {
+    issues.push({
+      path: "maxPositionsPerPool",
+      message: "Cannot exceed maxConcurrentPositions",
+    });
+  }
+
+  if (issues.length > 0) {
+    throw createApiError("Inconsistent safety thresholds", 400, issues);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Operations
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Update a stopped bot's config. Returns the row before and after.
+ */
+export async function updateBotConfig(
+  userId: number,
+  botId: string,
+  updates: BotConfigUpdate
+): Promise<{ before: BotRow; after: BotRow | undefined }> {
+  const botData = await getUserBot(userId, botId);
+  if (!botData) {
+    throw createApiError("Bot not found", 404);
+  }
+
+  if (botData.status !== "stopped") {
+    throw createApiError(
+      "Cannot update config while bot is running. Stop it first.",
+      400
+    );
+  }
+
+  // If the user changes the starting simulation balance, reset the
+  // persisted virtual balance so the next start uses the new config value.
+  // Also reset accumulated stats since this is effectively a "new session".
+  validateSafetyThresholds({ ...botData, ...updates });
+
+  const resetBalance = updates.simulationBalanceSOL != null &&
+    updates.simulationBalanceSOL !== botData.simulationBalanceSOL;
+
+  await db.update(bots)
+    .set({
+      ...updates,
+      ...resolveScorerUpdate(botData, updates),
+      ...(resetBalance
+        ? {
+          currentVirtualBalanceLamports: null,
+          totalTrades: 0,
+          winningTrades: 0,
+          totalPnlLamports: 0,
+          emergencyStopState: null,
+        }
+        : {}),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+
+  return { before: botData, after: await getUserBot(userId, botId) };
+}
+
+/**
+ * Start a bot. Returns the status it had before.
+ */
+export async function startUserBot(userId: number, botId: string): Promise<BotRow["status"]> {
+  const botData = await getUserBot(userId, botId);
+  if (!botData) {
+    throw createApiError("Bot not found", 404);
+  }
+
+  if (botData.status === "running") {
+    throw createApiError("Bot is already running", 400);
+  }
+
+  // A triggered emergency stop needs an explicit reset — never cleared by a restart
+  const emergencyState = botData.emergencyStopState
+    ? EmergencyStop.deserializeState(botData.emergencyStopState)
+    : null;
+  if (emergencyState?.isTriggered) {
+    throw createApiError(
+      `Emergency stop is triggered: ${emergencyState.triggerReason}. ` +
+      `Review GET /bot/${botId}/safety, then reset it via POST /bot/${botId}/safety/reset.`,
+      409
+    );
+  }
+
+  // Update status to running and clear stale error
+  await db.update(bots)
+    .set({
+      status: "running",
+      lastError: null,
+      lastActivityAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+
+  // Log start event
+  await db.insert(tradeLog)
+    .values({
+      botId,
+      userId,
+      event: "bot_started",
+      details: JSON.stringify({ mode: botData.mode }),
+    });
+
+  // S2: Spawn TradingEngine via BotOrchestrator
+  try {
+    await orchestrator.startBot(botId, userId);
+  } catch (error) {
+    // Revert status on failure
+    await db.update(bots)
+      .set({
+        status: "error",
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+
+    throw createApiError(
+      `Failed to start bot: ${error instanceof Error ? error.message : String(error)}`,
+      500
+    );
+  }
+
+  return botData.status;
+}
+
+/**
+ * Stop a bot gracefully. Returns the status it had before.
+ */
+export async function stopUserBot(userId: number, botId: string): Promise<BotRow["status"]> {
+  const botData = await getUserBot(userId, botId);
+  if (!botData) {
+    throw createApiError("Bot not found", 404);
+  }
+
+  if (botData.status === "stopped") {
+    throw createApiError("Bot is already stopped", 400);
+  }
+
+  await db.update(bots)
+    .set({
+      status: "stopped",
+      updatedAt: new Date(),
+    })
+    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+
+  // Log stop event
+  await db.insert(tradeLog)
+    .values({
+      botId,
+      userId,
+      event: "bot_stopped",
+      details: JSON.stringify({ reason: "user_requested" }),
+    });
+
+  // S2: Stop TradingEngine via BotOrchestrator
+  await orchestrator.stopBot(botId);
+
+  return botData.status;
+}
+
+/**
+ * Show or hide a bot on the public leaderboard. Returns the previous value.
+ */
+export async function setBotVisibility(
+  userId: number,
+  botId: string,
+  isPublic: boolean
+): Promise<boolean> {
+  // Verify ownership
+  const [bot] = await db
+    .select({ id: bots.id, isPublic: bots.isPublic })
+    .from(bots)
+    .where(and(eq(bots.botId, botId), eq(bots.userId, userId)));
+
+  if (!bot) {
+    throw createApiError("Bot not found", 404);
+  }
+
+  await db
+    .update(bots)
+    .set({ isPublic, updatedAt: new Date() })
+    .where(eq(bots.botId, botId));
+
+  return bot.isPublic;
+}
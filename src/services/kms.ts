@@ -0,0 +1,373 @@
+/**
+ * Key management — envelope encryption for secrets stored in the DB.
+ *
+ * `bots.agentSecretKey` and `bots.sessionSecretKey` hold keypairs that can
+ * move user funds. Each value is encrypted with its own random data key
+ * (AES-256-GCM); the data key is wrapped by a master key and stored next
+ * to the ciphertext:
+ *
+ *   enc:v1:<masterKeyId>:<wrapped data key>:<ciphertext>
+ *
+ * Master keys come from KMS_MASTER_KEYS, or from the local file-based KMS
+ * stand-in at KMS_KEY_FILE. Only the master key provider knows the key
+ * material, so a hosted KMS (AWS KMS, GCP KMS, Turnkey) can replace it
+ * behind the same wrap / unwrap interface.
+ *
+ * Rotation: make a new master key current (first in KMS_MASTER_KEYS, or
+ * `npm run kms:rotate -- --new-key` for the key file) and keep the old one
+ * listed. migrateBotSecrets() — run on startup and by the rotate script —
+ * re-wraps every data key under the current master key and encrypts any
+ * legacy plaintext rows.
+ *
+ * A running server re-reads the key file when it meets a key id it doesn't
+ * know, so it can still decrypt rows the rotate script re-wrapped. It keeps
+ * wrapping new secrets under the key it loaded, though, and KMS_MASTER_KEYS
+ * is only read at startup — restart every server after rotating, run the
+ * rotate script once more, and only then drop the old key.
+ */
+
+import crypto from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { and, eq, isNotNull, isNull, or } from "drizzle-orm";
+import config from "../config.js";
+import db from "../db/index.js";
+import { bots } from "../db/schema.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "kms" });
+
+const PREFIX = "enc:v1:";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_ID_REGEX = /^[A-Za-z0-9_-]{1,32}$/;
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+/** Wraps and unwraps data keys. Never hands out master key material. */
+export interface MasterKeyProvider {
+  readonly currentKeyId: string;
+  wrap(dataKey: Buffer): Promise<{ keyId: string; wrapped: string }>;
+  unwrap(keyId: string, wrapped: string): Promise<Buffer>;
+}
+
+/** Shape of the KMS_KEY_FILE keyring */
+interface KeyFile {
+  currentKeyId: string;
+  keys: Record<string, string>;
+}
+
+export interface SecretMigrationResult {
+  scanned: number;
+  /** Legacy plaintext values encrypted */
+  encrypted: number;
+  /** Values re-wrapped under the current master key */
+  rewrapped: number;
+  failed: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// AES-256-GCM
+// ═══════════════════════════════════════════════════════════════
+
+/** iv | tag | ciphertext, base64 */
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, "base64");
+  const iv = raw.subarray(0, IV_BYTES);
+  const tag = raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Local master keys (env or key file)
+// ═══════════════════════════════════════════════════════════════
+
+export class LocalMasterKeys implements MasterKeyProvider {
+  constructor(
+    readonly currentKeyId: string,
+    private readonly keys: Map<string, Buffer>
+  ) {
+    if (!keys.has(currentKeyId)) {
+      throw new Error(`KMS: current master key "${currentKeyId}" is not in the keyring`);
+    }
+  }
+
+  async wrap(dataKey: Buffer) {
+    return { keyId: this.currentKeyId, wrapped: seal(this.keys.get(this.currentKeyId)!, dataKey) };
+  }
+
+  has(keyId: string): boolean {
+    return this.keys.has(keyId);
+  }
+
+  async unwrap(keyId: string, wrapped: string): Promise<Buffer> {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`KMS: master key "${keyId}" is not configured — it may have been retired too early`);
+    }
+    return open(key, wrapped);
+  }
+}
+
+function parseKey(id: string, b64: string): Buffer {
+  if (!KEY_ID_REGEX.test(id)) {
+    throw new Error(`KMS: invalid master key id "${id}" (letters, digits, _ and -)`);
+  }
+  const key = Buffer.from(b64, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`KMS: master key "${id}" must be ${KEY_BYTES} bytes of base64`);
+  }
+  return key;
+}
+
+/** KMS_MASTER_KEYS="v2:<base64>,v1:<base64>" — first is current */
+function fromEnv(value: string): LocalMasterKeys {
+  const keys = new Map<string, Buffer>();
+  for (const entry of value.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const sep = entry.indexOf(":");
+    if (sep <= 0) throw new Error("KMS_MASTER_KEYS entries must be <id>:<base64>");
+    const id = entry.slice(0, sep);
+    keys.set(id, parseKey(id, entry.slice(sep + 1)));
+  }
+  const [currentKeyId] = keys.keys();
+  if (!currentKeyId) throw new Error("KMS_MASTER_KEYS is empty");
+  return new LocalMasterKeys(currentKeyId, keys);
+}
+
+function readKeyFile(path: string): KeyFile {
+  return JSON.parse(readFileSync(path, "utf8")) as KeyFile;
+}
+
+function writeKeyFile(path: string, file: KeyFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(file, null, 2) + "\n", { mode: 0o600 });
+}
+
+function newKeyId(): string {
+  return `k${new Date().toISOString().replace(/\D/g, "").slice(0, 14)}`;
+}
+
+function fromKeyFile(path: string): LocalMasterKeys {
+  if (!existsSync(path)) {
+    if (config.NODE_ENV === "production") {
+      throw new Error(
+        `KMS: no master key — set KMS_MASTER_KEYS or provide ${path}. ` +
+        "Refusing to store wallet secrets unencrypted."
+      );
+    }
+    const id = newKeyId();
+    writeKeyFile(path, {
+      currentKeyId: id,
+      keys: { [id]: crypto.randomBytes(KEY_BYTES).toString("base64") },
+    });
+    log.warn({ path, keyId: id }, "Created local KMS key file — back it up, secrets are unreadable without it");
+  }
+
+  const file = readKeyFile(path);
+  const keys = new Map<string, Buffer>();
+  for (const [id, b64] of Object.entries(file.keys ?? {})) {
+    keys.set(id, parseKey(id, b64));
+  }
+  return new LocalMasterKeys(file.currentKeyId, keys);
+}
+
+/**
+ * Add a fresh master key to the key file and make it current. The old keys
+ * stay so existing rows still decrypt until migrateBotSecrets() re-wraps them.
+ */
+export function addKeyFileMasterKey(path: string = config.KMS_KEY_FILE): string {
+  const file: KeyFile = existsSync(path) ? readKeyFile(path) : { currentKeyId: "", keys: {} };
+  let id = newKeyId();
+  while (file.keys[id]) id = `${id}-${crypto.randomBytes(2).toString("hex")}`;
+  file.keys[id] = crypto.randomBytes(KEY_BYTES).toString("base64");
+  file.currentKeyId = id;
+  writeKeyFile(path, file);
+  setMasterKeyProvider(null);
+  return id;
+}
+
+let provider: MasterKeyProvider | null = null;
+
+function masterKeys(): MasterKeyProvider {
+  if (!provider) {
+    provider = config.KMS_MASTER_KEYS
+      ? fromEnv(config.KMS_MASTER_KEYS)
+      : fromKeyFile(config.KMS_KEY_FILE);
+  }
+  return provider;
+}
+
+/**
+ * The provider that can unwrap `keyId`. A keyring loaded from config that
+ * lacks it is reloaded once — the key may have been added after this
+ * process started (rotate script, another replica). A provider set with
+ * setMasterKeyProvider() is never replaced.
+ */
+function masterKeysFor(keyId: string): MasterKeyProvider {
+  const keys = masterKeys();
+  if (!(keys instanceof LocalMasterKeys) || keys.has(keyId)) return keys;
+
+  provider = null;
+  const reloaded = masterKeys();
+  log.info({ keyId, currentKeyId: reloaded.currentKeyId }, "Reloaded KMS master keys for an unknown key id");
+  return reloaded;
+}
+
+/** Swap the master key provider (hosted KMS, tests). null reloads from config. */
+export function setMasterKeyProvider(next: MasterKeyProvider | null): void {
+  provider = next;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Encrypt / Decrypt
+// ═══════════════════════════════════════════════════════════════
+
+export function isEncryptedSecret(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+function parseEnvelope(stored: string) {
+  const [keyId, wrapped, payload] = stored.slice(PREFIX.length).split(":");
+  if (!keyId || !wrapped || !payload) {
+    throw new Error("KMS: malformed encrypted secret");
+  }
+  return { keyId, wrapped, payload };
+}
+
+/** Encrypt a secret for storage. */
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  try {
+    const { keyId, wrapped } = await masterKeys().wrap(dataKey);
+    return `${PREFIX}${keyId}:${wrapped}:${seal(dataKey, Buffer.from(plaintext, "utf8"))}`;
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a stored secret. Values written before encryption was enabled
+ * (no `enc:` prefix) are returned as they are until the migration
+ * encrypts them.
+ */
+export async function decryptSecret(stored: string): Promise<string> {
+  if (!isEncryptedSecret(stored)) return stored;
+
+  const { keyId, wrapped, payload } = parseEnvelope(stored);
+  const dataKey = await masterKeysFor(keyId).unwrap(keyId, wrapped);
+  try {
+    return open(dataKey, payload).toString("utf8");
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Bring a stored secret up to date: encrypt plaintext, re-wrap a data key
+ * held under a retired master key. Returns null when nothing changes.
+ * The secret itself is not re-encrypted on re-wrap.
+ */
+export async function refreshSecret(
+  stored: string
+): Promise<{ value: string; change: "encrypted" | "rewrapped" } | null> {
+  if (!isEncryptedSecret(stored)) {
+    return { value: await encryptSecret(stored), change: "encrypted" };
+  }
+
+  const { keyId, wrapped, payload } = parseEnvelope(stored);
+  const keys = masterKeysFor(keyId);
+  if (keyId === keys.currentKeyId) return null;
+
+  const dataKey = await keys.unwrap(keyId, wrapped);
+  try {
+    const next = await keys.wrap(dataKey);
+    return { value: `${PREFIX}${next.keyId}:${next.wrapped}:${payload}`, change: "rewrapped" };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Data migration / rotation
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Encrypt legacy plaintext bot secrets and re-wrap any under a non-current
+ * master key. Idempotent; rows already current are not written. Each row
+ * is updated only if its stored values are unchanged since they were read,
+ * so a concurrent setup-live write is never overwritten.
+ */
+export async function migrateBotSecrets(): Promise<SecretMigrationResult> {
+  const result: SecretMigrationResult = { scanned: 0, encrypted: 0, rewrapped: 0, failed: 0 };
+  // Fail fast on a missing / invalid keyring rather than once per row
+  const { currentKeyId } = masterKeys();
+
+  const rows = await db
+    .select({
+      id: bots.id,
+      botId: bots.botId,
+      agentSecretKey: bots.agentSecretKey,
+      sessionSecretKey: bots.sessionSecretKey,
+    })
+    .from(bots)
+    .where(or(isNotNull(bots.agentSecretKey), isNotNull(bots.sessionSecretKey)));
+
+  for (const row of rows) {
+    result.scanned++;
+    try {
+      const agent = row.agentSecretKey ? await refreshSecret(row.agentSecretKey) : null;
+      const session = row.sessionSecretKey ? await refreshSecret(row.sessionSecretKey) : null;
+      if (!agent && !session) continue;
+
+      const updated = await db
+        .update(bots)
+        .set({
+          ...(agent ? { agentSecretKey: agent.value } : {}),
+          ...(session ? { sessionSecretKey: session.value } : {}),
+        })
+        .where(matchesStored(row))
+        .returning({ id: bots.id });
+      if (updated.length === 0) continue;
+
+      for (const change of [agent?.change, session?.change]) {
+        if (change === "encrypted") result.encrypted++;
+        if (change === "rewrapped") result.rewrapped++;
+      }
+    } catch (err) {
+      result.failed++;
+      log.error(
+        { botId: row.botId, err: err instanceof Error ? err.message : String(err) },
+        "Failed to migrate bot secrets"
+      );
+    }
+  }
+
+  if (result.encrypted > 0 || result.rewrapped > 0 || result.failed > 0) {
+    log.info({ ...result, currentKeyId }, "Bot secrets migrated");
+  }
+  return result;
+}
+
+function matchesStored(row: {
+  id: number;
+  agentSecretKey: string | null;
+  sessionSecretKey: string | null;
+}) {
+  return and(
+    eq(bots.id, row.id),
+    row.agentSecretKey === null ? isNull(bots.agentSecretKey) : eq(bots.agentSecretKey, row.agentSecretKey),
+    row.sessionSecretKey === null ? isNull(bots.sessionSecretKey) : eq(bots.sessionSecretKey, row.sessionSecretKey)
+  );
+}
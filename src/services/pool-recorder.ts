@@ -0,0 +1,452 @@
+/**
+ * Pool snapshot recorder — persists Meteora market history to Postgres.
+ *
+ * Every SNAPSHOT_INTERVAL_SECONDS:
+ *  1. Reads the pool list through SharedAPICache (no extra API pressure)
+ *  2. Keeps the top SNAPSHOT_MAX_POOLS by 24h volume + any pool with an
+ *     active position
+ *  3. Reads on-chain active bins for the first SNAPSHOT_ACTIVE_BIN_POOLS
+ *  4. Inserts one pool_snapshots row per pool
+ *
+ * Once an hour, raw rows older than SNAPSHOT_RAW_RETENTION_HOURS are folded
+ * into pool_snapshots_hourly (OHLC + averages) and deleted; hourly rows
+ * older than SNAPSHOT_HOURLY_RETENTION_DAYS are dropped.
+ */
+
+import { and, asc, eq, gte, lte, sql } from "drizzle-orm";
+import config from "../config.js";
+import db from "../db/index.js";
+import { poolSnapshots, poolSnapshotsHourly, positions } from "../db/schema.js";
+import { getSharedCache } from "../engine/shared-cache.js";
+import { loadDLMM } from "../engine/market-data.js";
+import type { BinLiquidity, MeteoraPairData } from "../engine/types.js";
+import { getConnection } from "./solana.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "pool-recorder" });
+
+const INSERT_BATCH_SIZE = 100;
+const COMPACTION_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export type HistoryResolution = "raw" | "hourly";
+
+export interface PoolHistoryPoint {
+  timestamp: string;
+  price: number;
+  priceHigh: number | null;
+  priceLow: number | null;
+  liquidity: number;
+  volume1h: number;
+  fees1h: number;
+  apr: number;
+  activeBinId: number | null;
+  samples: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PoolSnapshotRecorder
+// ═══════════════════════════════════════════════════════════════
+
+export class PoolSnapshotRecorder {
+  private static instance: PoolSnapshotRecorder;
+
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isRecording = false;
+  private lastCompactionAt = 0;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private dlmmInstances = new Map<string, any>();
+
+  private stats = { ticks: 0, rowsWritten: 0, errors: 0, lastTickAt: 0 };
+
+  private constructor() {}
+
+  static getInstance(): PoolSnapshotRecorder {
+    if (!PoolSnapshotRecorder.instance) {
+      PoolSnapshotRecorder.instance = new PoolSnapshotRecorder();
+    }
+    return PoolSnapshotRecorder.instance;
+  }
+
+  // ── Lifecycle ──
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(
+      () => this.tick(),
+      config.SNAPSHOT_INTERVAL_SECONDS * 1000
+    );
+
+    log.info(
+      {
+        intervalSeconds: config.SNAPSHOT_INTERVAL_SECONDS,
+        maxPools: config.SNAPSHOT_MAX_POOLS,
+        rawRetentionHours: config.SNAPSHOT_RAW_RETENTION_HOURS,
+        hourlyRetentionDays: config.SNAPSHOT_HOURLY_RETENTION_DAYS,
+      },
+      "Pool snapshot recorder started"
+    );
+
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      log.info("Pool snapshot recorder stopped");
+    }
+  }
+
+  get running(): boolean {
+    return this.interval !== null;
+  }
+
+  getStats() {
+    return { ...this.stats, running: this.running };
+  }
+
+  // ── Recording ──
+
+  private async tick(): Promise<void> {
+    if (this.isRecording) return;
+    this.isRecording = true;
+
+    try {
+      const recordedAt = new Date();
+      const pools = await this.selectPools();
+      const activeBins = await this.sampleActiveBins(
+        pools.slice(0, config.SNAPSHOT_ACTIVE_BIN_POOLS)
+      );
+
+      const rows = pools.map((pool) => {
+        const bin = activeBins.get(pool.address);
+        return {
+          poolAddress: pool.address,
+          recordedAt,
+          currentPrice: pool.current_price,
+          liquidity: parseFloat(pool.liquidity) || 0,
+          volume30m: pool.volume?.min_30 ?? 0,
+          volume1h: pool.volume?.hour_1 ?? 0,
+          volume24h: pool.trade_volume_24h ?? 0,
+          fees30m: pool.fees?.min_30 ?? 0,
+          fees1h: pool.fees?.hour_1 ?? 0,
+          fees24h: pool.fees_24h ?? 0,
+          apr: pool.apr ?? 0,
+          activeBinId: bin?.binId ?? null,
+          activeBinPrice: bin ? parseFloat(bin.pricePerToken) : null,
+          data: pool,
+        };
+      });
+
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await db.insert(poolSnapshots).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+
+      this.stats.ticks++;
+      this.stats.rowsWritten += rows.length;
+      this.stats.lastTickAt = recordedAt.getTime();
+
+      log.debug(
+        { pools: rows.length, activeBins: activeBins.size },
+        "Pool snapshot recorded"
+      );
+
+      if (Date.now() - this.lastCompactionAt >= COMPACTION_INTERVAL_MS) {
+        await this.compact();
+      }
+    } catch (err) {
+      this.stats.errors++;
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Pool snapshot tick failed"
+      );
+    } finally {
+      this.isRecording = false;
+    }
+  }
+
+  /**
+   * Top pools by 24h volume, with pools that have open positions first
+   * so they always get an active-bin sample.
+   */
+  private async selectPools(): Promise<MeteoraPairData[]> {
+    const allPools = await getSharedCache().getAllPools();
+
+    const held = await db
+      .selectDistinct({ poolAddress: positions.poolAddress })
+      .from(positions)
+      .where(eq(positions.status, "active"));
+    const heldAddresses = new Set(held.map((r) => r.poolAddress));
+
+    const heldPools = allPools.filter((p) => heldAddresses.has(p.address));
+    const topPools = allPools
+      .filter((p) => !heldAddresses.has(p.address) && !p.is_blacklisted)
+      .sort((a, b) => (b.trade_volume_24h ?? 0) - (a.trade_volume_24h ?? 0))
+      .slice(0, Math.max(0, config.SNAPSHOT_MAX_POOLS - heldPools.length));
+
+    return [...heldPools, ...topPools];
+  }
+
+  /**
+   * Read active bins on-chain (or from the shared cache if a bot just did).
+   * Failures are per-pool — the row is still written with a null bin.
+   */
+  private async sampleActiveBins(
+    pools: MeteoraPairData[]
+  ): Promise<Map<string, BinLiquidity>> {
+    const result = new Map<string, BinLiquidity>();
+    const cache = getSharedCache();
+
+    for (const pool of pools) {
+      const cached = cache.getCachedActiveBin(pool.address);
+      if (cached) {
+        result.set(pool.address, cached);
+        continue;
+      }
+
+      try {
+        let dlmm = this.dlmmInstances.get(pool.address);
+        if (!dlmm) {
+          dlmm = await loadDLMM(getConnection(), pool.address);
+          this.dlmmInstances.set(pool.address, dlmm);
+        }
+        const bin: BinLiquidity = await dlmm.getActiveBin();
+        cache.cacheActiveBin(pool.address, bin);
+        result.set(pool.address, bin);
+      } catch (err) {
+        log.debug(
+          {
+            pool: pool.address,
+            err: err instanceof Error ? err.message : String(err),
+          },
+          "Active bin sample failed"
+        );
+      }
+    }
+
+    // Drop DLMM instances for pools that fell out of the sample set
+    const sampled = new Set(pools.map((p) => p.address));
+    for (const address of this.dlmmInstances.keys()) {
+      if (!sampled.has(address)) this.dlmmInstances.delete(address);
+    }
+
+    return result;
+  }
+
+  // ── Retention / Downsampling ──
+
+  /**
+   * Fold whole hours of raw samples older than the raw retention window
+   * into hourly rows, then apply hourly retention.
+   */
+  async compact(): Promise<void> {
+    this.lastCompactionAt = Date.now();
+
+    const rawCutoff = new Date(
+      Date.now() - config.SNAPSHOT_RAW_RETENTION_HOURS * 60 * 60 * 1000
+    );
+    rawCutoff.setUTCMinutes(0, 0, 0); // only whole hours
+    const hourlyCutoff = new Date(
+      Date.now() - config.SNAPSHOT_HOURLY_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    const result = await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        INSERT INTO pool_snapshots_hourly (
+          pool_address, bucket_start, samples,
+          price_open, price_high, price_low, price_close,
+          liquidity_avg, volume_1h_avg, fees_1h_avg, apr_avg,
+          active_bin_id, data
+        )
+        SELECT
+          pool_address,
+          date_trunc('hour', recorded_at) AS bucket_start,
+          count(*),
+          (array_agg(current_price ORDER BY recorded_at ASC))[1],
+          max(current_price),
+          min(current_price),
+          (array_agg(current_price ORDER BY recorded_at DESC))[1],
+          avg(liquidity),
+          avg(volume_1h),
+          avg(fees_1h),
+          avg(apr),
+          (array_agg(active_bin_id ORDER BY recorded_at DESC) FILTER (WHERE active_bin_id IS NOT NULL))[1],
+          (array_agg(data ORDER BY recorded_at DESC))[1]
+        FROM pool_snapshots
+        WHERE recorded_at < ${rawCutoff}
+        GROUP BY pool_address, date_trunc('hour', recorded_at)
+        ON CONFLICT (pool_address, bucket_start) DO NOTHING
+      `);
+
+      const rawDeleted = await tx
+        .delete(poolSnapshots)
+        .where(sql`${poolSnapshots.recordedAt} < ${rawCutoff}`)
+        .returning({ id: poolSnapshots.id });
+
+      const hourlyDeleted = await tx
+        .delete(poolSnapshotsHourly)
+        .where(sql`${poolSnapshotsHourly.bucketStart} < ${hourlyCutoff}`)
+        .returning({ id: poolSnapshotsHourly.id });
+
+      return { rawDownsampled: rawDeleted.length, hourlyExpired: hourlyDeleted.length };
+    });
+
+    if (result.rawDownsampled > 0 || result.hourlyExpired > 0) {
+      log.info(result, "Pool snapshot retention applied");
+    }
+  }
+
+  // ── Queries ──
+
+  /**
+   * Pool history between `from` and `to`, oldest first.
+   * Resolution "auto" reads raw samples when the window is inside raw
+   * retention, hourly rollups otherwise. Hourly history includes the hours
+   * compaction hasn't folded yet (everything still in raw retention, down
+   * to the current partial hour), rolled up from raw samples on the fly.
+   */
+  async getPoolHistory(
+    poolAddress: string,
+    options: {
+      from: Date;
+      to: Date;
+      resolution: HistoryResolution | "auto";
+      limit: number;
+    }
+  ): Promise<{ resolution: HistoryResolution; points: PoolHistoryPoint[] }> {
+    const rawWindowStart =
+      Date.now() - config.SNAPSHOT_RAW_RETENTION_HOURS * 60 * 60 * 1000;
+    const resolution: HistoryResolution =
+      options.resolution === "auto"
+        ? options.from.getTime() >= rawWindowStart ? "raw" : "hourly"
+        : options.resolution;
+
+    if (resolution === "raw") {
+      const rows = await db
+        .select()
+        .from(poolSnapshots)
+        .where(
+          and(
+            eq(poolSnapshots.poolAddress, poolAddress),
+            gte(poolSnapshots.recordedAt, options.from),
+            lte(poolSnapshots.recordedAt, options.to)
+          )
+        )
+        .orderBy(asc(poolSnapshots.recordedAt))
+        .limit(options.limit);
+
+      return {
+        resolution,
+        points: rows.map((r) => ({
+          timestamp: r.recordedAt.toISOString(),
+          price: r.currentPrice,
+          priceHigh: null,
+          priceLow: null,
+          liquidity: r.liquidity,
+          volume1h: r.volume1h,
+          fees1h: r.fees1h,
+          apr: r.apr,
+          activeBinId: r.activeBinId,
+          samples: 1,
+        })),
+      };
+    }
+
+    const [rows, uncompacted] = await Promise.all([
+      db
+        .select()
+        .from(poolSnapshotsHourly)
+        .where(
+          and(
+            eq(poolSnapshotsHourly.poolAddress, poolAddress),
+            gte(poolSnapshotsHourly.bucketStart, options.from),
+            lte(poolSnapshotsHourly.bucketStart, options.to)
+          )
+        )
+        .orderBy(asc(poolSnapshotsHourly.bucketStart))
+        .limit(options.limit),
+      this.rollUpRawHours(poolAddress, options.from, options.to, options.limit),
+    ]);
+
+    const points: PoolHistoryPoint[] = rows.map((r) => ({
+      timestamp: r.bucketStart.toISOString(),
+      price: r.priceClose,
+      priceHigh: r.priceHigh,
+      priceLow: r.priceLow,
+      liquidity: r.liquidityAvg,
+      volume1h: r.volume1hAvg,
+      fees1h: r.fees1hAvg,
+      apr: r.aprAvg,
+      activeBinId: r.activeBinId,
+      samples: r.samples,
+    }));
+    // A stored rollup wins over raw rows left in the same hour
+    const stored = new Set(points.map((p) => p.timestamp));
+    points.push(...uncompacted.filter((p) => !stored.has(p.timestamp)));
+    points.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    return { resolution, points: points.slice(0, options.limit) };
+  }
+
+  /** Raw samples between `from` and `to` rolled up per hour, like compact() does. */
+  private async rollUpRawHours(
+    poolAddress: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<PoolHistoryPoint[]> {
+    const bucketStart = sql`date_trunc('hour', ${poolSnapshots.recordedAt})`;
+    const rows = await db
+      .select({
+        bucketStart: bucketStart.mapWith(poolSnapshots.recordedAt),
+        samples: sql<number>`count(*)::int`,
+        priceClose: sql<number>`(array_agg(${poolSnapshots.currentPrice} ORDER BY ${poolSnapshots.recordedAt} DESC))[1]`,
+        priceHigh: sql<number>`max(${poolSnapshots.currentPrice})`,
+        priceLow: sql<number>`min(${poolSnapshots.currentPrice})`,
+        liquidityAvg: sql<number>`avg(${poolSnapshots.liquidity})`,
+        volume1hAvg: sql<number>`avg(${poolSnapshots.volume1h})`,
+        fees1hAvg: sql<number>`avg(${poolSnapshots.fees1h})`,
+        aprAvg: sql<number>`avg(${poolSnapshots.apr})`,
+        activeBinId: sql<number | null>`(array_agg(${poolSnapshots.activeBinId} ORDER BY ${poolSnapshots.recordedAt} DESC) FILTER (WHERE ${poolSnapshots.activeBinId} IS NOT NULL))[1]`,
+      })
+      .from(poolSnapshots)
+      .where(
+        and(
+          eq(poolSnapshots.poolAddress, poolAddress),
+          gte(poolSnapshots.recordedAt, from),
+          lte(poolSnapshots.recordedAt, to)
+        )
+      )
+      .groupBy(bucketStart)
+      .orderBy(asc(bucketStart))
+      .limit(limit);
+
+    return rows.map((r) => ({
+      timestamp: r.bucketStart.toISOString(),
+      price: r.priceClose,
+      priceHigh: r.priceHigh,
+      priceLow: r.priceLow,
+      liquidity: r.liquidityAvg,
+      volume1h: r.volume1hAvg,
+      fees1h: r.fees1hAvg,
+      apr: r.aprAvg,
+      activeBinId: r.activeBinId,
+      samples: r.samples,
+    }));
+  }
+
+  /** Reset singleton (for testing) */
+  static reset(): void {
+    if (PoolSnapshotRecorder.instance) {
+      PoolSnapshotRecorder.instance.stop();
+      PoolSnapshotRecorder.instance = null as unknown as PoolSnapshotRecorder;
+    }
+  }
+}
+
+export const poolRecorder = PoolSnapshotRecorder.getInstance();
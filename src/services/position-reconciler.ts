@@ -0,0 +1,415 @@
+/**
+ * Position reconciler — keeps `positions` in line with the chain.
+ *
+ * Every RECONCILE_INTERVAL_SECONDS (and on POST /position/reconcile for one
+ * user) each `active` / `closing` / `orphaned` row is checked:
+ *
+ *  - position account gone        → `closed` as RECONCILED_MISSING; the
+ *                                   exit signature and time are backfilled
+ *                                   from the account's tx history, the P&L
+ *                                   is left unknown (null) and analytics /
+ *                                   export keep such rows out of their
+ *                                   totals. A bot still tracking it is
+ *                                   never second-guessed: the position is
+ *                                   flagged (`reconcile:missing`) for a
+ *                                   human instead
+ *  - account exists, bot runs here → re-attached to the bot's engine
+ *                                   (`active` again, exit rules apply)
+ *  - account exists, no bot       → `orphaned`
+ *
+ * An account only counts as gone once it is missing at `finalized`
+ * commitment on MISSING_PASSES_REQUIRED passes in a row — a lagging RPC
+ * node or a null from a flaky batch read must not close a live position.
+ *
+ * Rows without an on-chain key (simulation) are orphaned when no engine
+ * tracks them. Bots leased by another live instance are left to that
+ * instance, and positions with an in-flight position job are skipped.
+ * Changes are published as reconcile:* events.
+ */
+
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { PublicKey, type AccountInfo, type Commitment } from "@solana/web3.js";
+import config from "../config.js";
+import db from "../db/index.js";
+import { botLeases, bots, positionJobs, positions } from "../db/schema.js";
+import { botLeaseManager } from "../engine/bot-lease.js";
+import { eventBus } from "../engine/event-bus.js";
+import { eventJournal } from "../engine/event-journal.js";
+import { orchestrator } from "../engine/orchestrator.js";
+import type { BotEventType } from "../engine/types.js";
+import { getConnection } from "./solana.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "position-reconciler" });
+
+/** getMultipleAccountsInfo accepts at most 100 keys */
+const ACCOUNT_BATCH_SIZE = 100;
+
+/** Consecutive passes an account must be missing before it counts as gone */
+const MISSING_PASSES_REQUIRED = 3;
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export type ReconcileAction = "ok" | "closed" | "reattached" | "orphaned" | "missing" | "skipped";
+
+export interface ReconcileOutcome {
+  positionId: string;
+  botId: string;
+  poolName: string;
+  action: ReconcileAction;
+  detail?: string;
+}
+
+export interface ReconcileReport {
+  checked: number;
+  closed: number;
+  reattached: number;
+  orphaned: number;
+  missing: number;
+  details: ReconcileOutcome[];
+}
+
+type PositionRow = typeof positions.$inferSelect;
+
+interface Candidate {
+  row: PositionRow;
+  botMode: "simulation" | "live";
+  account: AccountInfo<Buffer> | null | undefined;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// PositionReconciler
+// ═══════════════════════════════════════════════════════════════
+
+export class PositionReconciler {
+  private static instance: PositionReconciler | null = null;
+
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isReconciling = false;
+  /** positionId → consecutive passes its account was missing */
+  private readonly missingPasses = new Map<string, number>();
+
+  private constructor() {}
+
+  static getInstance(): PositionReconciler {
+    if (!PositionReconciler.instance) {
+      PositionReconciler.instance = new PositionReconciler();
+    }
+    return PositionReconciler.instance;
+  }
+
+  // ── Lifecycle ──
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(
+      () => void this.tick(),
+      config.RECONCILE_INTERVAL_SECONDS * 1000
+    );
+    this.interval.unref();
+    log.info({ intervalSeconds: config.RECONCILE_INTERVAL_SECONDS }, "Position reconciler started");
+
+    // First pass right away — re-attaches positions of just-recovered bots
+    void this.tick();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isReconciling) return;
+    this.isReconciling = true;
+    try {
+      const report = await this.reconcile();
+      if (report.closed + report.reattached + report.orphaned + report.missing > 0) {
+        log.info(
+          {
+            checked: report.checked,
+            closed: report.closed,
+            reattached: report.reattached,
+            orphaned: report.orphaned,
+            missing: report.missing,
+          },
+          "Reconciliation pass changed positions"
+        );
+      }
+    } catch (err) {
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Reconciliation pass failed"
+      );
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  // ── Reconcile ──
+
+  /**
+   * One pass over every open-looking position, or just one user's.
+   */
+  async reconcile(filter: { userId?: number } = {}): Promise<ReconcileReport> {
+    const rows = await db
+      .select({
+        position: positions,
+        botMode: bots.mode,
+        leaseInstanceId: botLeases.instanceId,
+        leaseLive: sql<boolean>`coalesce(${botLeases.expiresAt} > now(), false)`,
+      })
+      .from(positions)
+      .innerJoin(bots, eq(bots.botId, positions.botId))
+      .leftJoin(botLeases, eq(botLeases.botId, positions.botId))
+      .where(
+        and(
+          inArray(positions.status, ["active", "closing", "orphaned"]),
+          filter.userId !== undefined ? eq(positions.userId, filter.userId) : undefined
+        )
+      );
+
+    const report: ReconcileReport = {
+      checked: 0,
+      closed: 0,
+      reattached: 0,
+      orphaned: 0,
+      missing: 0,
+      details: [],
+    };
+
+    // Forget miss counts of positions that are no longer open
+    if (filter.userId === undefined) {
+      const open = new Set(rows.map((r) => r.position.positionId));
+      for (const positionId of this.missingPasses.keys()) {
+        if (!open.has(positionId)) this.missingPasses.delete(positionId);
+      }
+    }
+    if (rows.length === 0) return report;
+
+    const inFlight = await this.positionsWithInFlightJobs(
+      rows.map((r) => r.position.positionId)
+    );
+
+    const candidates: Candidate[] = [];
+    for (const { position, botMode, leaseInstanceId, leaseLive } of rows) {
+      const heldElsewhere =
+        leaseLive &&
+        leaseInstanceId !== botLeaseManager.instanceId &&
+        !orchestrator.isRunning(position.botId);
+      if (heldElsewhere || inFlight.has(position.positionId)) {
+        report.details.push(outcome(position, "skipped",
+          heldElsewhere ? "Bot runs on another instance" : "Position job in flight"));
+        continue;
+      }
+      candidates.push({ row: position, botMode, account: undefined });
+    }
+
+    await this.loadAccounts(candidates);
+
+    for (const candidate of candidates) {
+      report.checked++;
+      try {
+        const result = await this.reconcileOne(candidate);
+        report.details.push(result);
+        if (result.action === "closed") report.closed++;
+        else if (result.action === "reattached") report.reattached++;
+        else if (result.action === "orphaned") report.orphaned++;
+        else if (result.action === "missing") report.missing++;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        log.error({ positionId: candidate.row.positionId, err: message }, "Failed to reconcile position");
+        report.details.push(outcome(candidate.row, "skipped", message));
+      }
+    }
+
+    return report;
+  }
+
+  private async reconcileOne({ row, botMode, account }: Candidate): Promise<ReconcileOutcome> {
+    const tracked = orchestrator.isTracking(row.botId, row.positionId);
+
+    // No on-chain key: only an engine's memory can vouch for it
+    if (!row.onChainPositionKey) {
+      if (tracked) return outcome(row, "ok");
+      return this.orphan(row, "Not tracked by any running bot");
+    }
+
+    if (!account) {
+      const misses = (this.missingPasses.get(row.positionId) ?? 0) + 1;
+      this.missingPasses.set(row.positionId, misses);
+      if (misses < MISSING_PASSES_REQUIRED) {
+        return outcome(row, "skipped", `Account not found (${misses}/${MISSING_PASSES_REQUIRED} checks)`);
+      }
+
+      if (tracked) {
+        // The engine still manages it — flag it once, never close it from here
+        if (misses === MISSING_PASSES_REQUIRED) {
+          log.error(
+            { positionId: row.positionId, botId: row.botId, onChainPositionKey: row.onChainPositionKey },
+            "Tracked position's account not found on chain"
+          );
+          await this.publish("reconcile:missing", row, { onChainPositionKey: row.onChainPositionKey });
+        }
+        return outcome(row, "missing", "Account not found on chain; bot still tracks the position");
+      }
+
+      const exit = await this.findExitTx(row.onChainPositionKey);
+      const [closed] = await db
+        .update(positions)
+        .set({
+          status: "closed",
+          exitTimestamp: exit?.timestamp ?? Date.now(),
+          exitTxSignature: exit?.signature ?? null,
+          exitReason: "RECONCILED_MISSING",
+          updatedAt: new Date(),
+        })
+        .where(and(eq(positions.positionId, row.positionId), eq(positions.status, row.status)))
+        .returning({ id: positions.id });
+      if (!closed) return outcome(row, "skipped", "Status changed during reconciliation");
+      this.missingPasses.delete(row.positionId);
+
+      await this.publish("reconcile:closed", row, { exitTxSignature: exit?.signature ?? null });
+      return outcome(row, "closed", exit ? undefined : "No close transaction found in history");
+    }
+
+    this.missingPasses.delete(row.positionId);
+
+    if (tracked) {
+      if (row.status === "orphaned") await this.setStatus(row, "active");
+      return outcome(row, "ok");
+    }
+
+    if (botMode === "live" && orchestrator.isRunning(row.botId)) {
+      const attached = await orchestrator.reattachPosition(row);
+      if (attached) {
+        await this.setStatus(row, "active");
+        await this.publish("reconcile:reattached", row);
+        return outcome(row, "reattached");
+      }
+      return this.orphan(row, "Bot wallet does not own the position account");
+    }
+
+    return this.orphan(row, "Bot is not running");
+  }
+
+  // ── Helpers ──
+
+  /**
+   * Batch-fetch position accounts for every candidate with a key. Accounts
+   * that come back missing are read again at `finalized`, so only a close
+   * the cluster has finalized leaves `account` null.
+   */
+  private async loadAccounts(candidates: Candidate[]): Promise<void> {
+    await this.fetchAccounts(candidates.filter((c) => c.row.onChainPositionKey));
+    await this.fetchAccounts(
+      candidates.filter((c) => c.row.onChainPositionKey && !c.account),
+      "finalized"
+    );
+  }
+
+  private async fetchAccounts(candidates: Candidate[], commitment?: Commitment): Promise<void> {
+    const connection = getConnection();
+
+    for (let i = 0; i < candidates.length; i += ACCOUNT_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + ACCOUNT_BATCH_SIZE);
+      const accounts = await connection.getMultipleAccountsInfo(
+        batch.map((c) => new PublicKey(c.row.onChainPositionKey!)),
+        commitment
+      );
+      batch.forEach((c, j) => {
+        c.account = accounts[j];
+      });
+    }
+  }
+
+  private async positionsWithInFlightJobs(positionIds: string[]): Promise<Set<string>> {
+    const rows = await db
+      .select({ positionId: positionJobs.positionId })
+      .from(positionJobs)
+      .where(
+        and(
+          inArray(positionJobs.positionId, positionIds),
+          inArray(positionJobs.status, ["queued", "submitted"])
+        )
+      );
+    return new Set(rows.map((r) => r.positionId).filter((id): id is string => id !== null));
+  }
+
+  /**
+   * The newest successful transaction that touched the position account —
+   * the one that closed it.
+   */
+  private async findExitTx(
+    positionKey: string
+  ): Promise<{ signature: string; timestamp: number } | null> {
+    const signatures = await getConnection().getSignaturesForAddress(
+      new PublicKey(positionKey),
+      { limit: 10 }
+    );
+    const exit = signatures.find((s) => s.err === null);
+    if (!exit) return null;
+    return {
+      signature: exit.signature,
+      timestamp: exit.blockTime ? exit.blockTime * 1000 : Date.now(),
+    };
+  }
+
+  private async orphan(row: PositionRow, reason: string): Promise<ReconcileOutcome> {
+    if (row.status === "orphaned") return outcome(row, "ok", reason);
+    await this.setStatus(row, "orphaned");
+    await this.publish("reconcile:orphaned", row, { reason });
+    return outcome(row, "orphaned", reason);
+  }
+
+  private async setStatus(row: PositionRow, status: "active" | "orphaned"): Promise<void> {
+    await db
+      .update(positions)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(positions.positionId, row.positionId), eq(positions.status, row.status)));
+  }
+
+  private async publish(
+    type: BotEventType,
+    row: PositionRow,
+    data: Record<string, unknown> = {}
+  ): Promise<void> {
+    const payload = {
+      positionId: row.positionId,
+      pool: row.poolName,
+      poolAddress: row.poolAddress,
+      previousStatus: row.status,
+      ...data,
+    };
+    const seq = await eventJournal.record(type, row.botId, row.userId, payload);
+    eventBus.emitBotEvent(type, row.botId, row.userId, payload, seq);
+  }
+
+  /**
+   * Reset the singleton (for testing).
+   */
+  static reset(): void {
+    PositionReconciler.instance?.stop();
+    PositionReconciler.instance = null;
+  }
+}
+
+function outcome(
+  row: PositionRow,
+  action: ReconcileAction,
+  detail?: string
+): ReconcileOutcome {
+  return {
+    positionId: row.positionId,
+    botId: row.botId,
+    poolName: row.poolName,
+    action,
+    ...(detail ? { detail } : {}),
+  };
+}
+
+export const positionReconciler = PositionReconciler.getInstance();
@@ -0,0 +1,219 @@
+/**
+ * Shared store — short-lived state every backend replica must agree on.
+ *
+ * Holds the rate-limit counters (middleware/rate-limit.ts) and the
+ * address-free sign-in nonces (services/auth.ts). Kept in process memory,
+ * a client could multiply its rate limit by the number of replicas, and a
+ * nonce issued by one replica couldn't be verified on another.
+ *
+ * Two backends, chosen by SHARED_STORE:
+ *  - postgres: the `shared_store` table. Each operation is one statement,
+ *    timed with the database clock, so replicas can't race or skew.
+ *  - memory: per-process maps — tests and single-instance development.
+ */
+
+import { eq, lt, sql } from "drizzle-orm";
+import config from "../config.js";
+import db from "../db/index.js";
+import { sharedStoreEntries } from "../db/schema.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "shared-store" });
+
+/** Expired entries are swept this often */
+const PURGE_INTERVAL_MS = 60_000;
+
+export interface CounterHit {
+  /** Hits in the current window, including this one */
+  count: number;
+  /** When the window ends and the count starts again */
+  resetAt: Date;
+}
+
+export interface SharedStore {
+  /**
+   * Count a hit on a fixed-window counter. The first hit (or the first
+   * after the window ends) starts a new window of `windowMs`.
+   */
+  increment(key: string, windowMs: number): Promise<CounterHit>;
+  /** Take back a hit (never below zero). */
+  decrement(key: string): Promise<void>;
+  /**
+   * Store `value` under `key` for `ttlMs`. False — and nothing written —
+   * if the key already holds an unexpired value.
+   */
+  putIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+  /** Read and delete in one step; null if absent or expired. */
+  take(key: string): Promise<string | null>;
+  delete(key: string): Promise<void>;
+  /** Drop expired entries. Returns how many were removed. */
+  purgeExpired(): Promise<number>;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Postgres
+// ═══════════════════════════════════════════════════════════════
+
+function expiryIn(ms: number) {
+  return sql`now() + make_interval(secs => ${ms / 1000})`;
+}
+
+export class PostgresStore implements SharedStore {
+  async increment(key: string, windowMs: number): Promise<CounterHit> {
+    const expired = lt(sharedStoreEntries.expiresAt, sql`now()`);
+    const [row] = await db
+      .insert(sharedStoreEntries)
+      .values({ key, hits: 1, expiresAt: expiryIn(windowMs) })
+      .onConflictDoUpdate({
+        target: sharedStoreEntries.key,
+        set: {
+          hits: sql`CASE WHEN ${expired} THEN 1 ELSE ${sharedStoreEntries.hits} + 1 END`,
+          expiresAt: sql`CASE WHEN ${expired} THEN excluded.expires_at ELSE ${sharedStoreEntries.expiresAt} END`,
+        },
+      })
+      .returning({ hits: sharedStoreEntries.hits, expiresAt: sharedStoreEntries.expiresAt });
+    return { count: row!.hits, resetAt: row!.expiresAt };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await db
+      .update(sharedStoreEntries)
+      .set({ hits: sql`greatest(${sharedStoreEntries.hits} - 1, 0)` })
+      .where(eq(sharedStoreEntries.key, key));
+  }
+
+  async putIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    const rows = await db
+      .insert(sharedStoreEntries)
+      .values({ key, value, expiresAt: expiryIn(ttlMs) })
+      .onConflictDoUpdate({
+        target: sharedStoreEntries.key,
+        set: { value, hits: 0, expiresAt: expiryIn(ttlMs) },
+        setWhere: lt(sharedStoreEntries.expiresAt, sql`now()`),
+      })
+      .returning({ key: sharedStoreEntries.key });
+    return rows.length > 0;
+  }
+
+  async take(key: string): Promise<string | null> {
+    // Delete unconditionally (an expired row is garbage anyway), but only
+    // hand back a value that was still live.
+    const [row] = await db
+      .delete(sharedStoreEntries)
+      .where(eq(sharedStoreEntries.key, key))
+      .returning({
+        value: sharedStoreEntries.value,
+        live: sql<boolean>`${sharedStoreEntries.expiresAt} > now()`,
+      });
+    return row?.live ? row.value : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await db.delete(sharedStoreEntries).where(eq(sharedStoreEntries.key, key));
+  }
+
+  async purgeExpired(): Promise<number> {
+    const rows = await db
+      .delete(sharedStoreEntries)
+      .where(lt(sharedStoreEntries.expiresAt, sql`now()`))
+      .returning({ key: sharedStoreEntries.key });
+    return rows.length;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Memory
+// ═══════════════════════════════════════════════════════════════
+
+interface MemoryEntry {
+  value: string | null;
+  hits: number;
+  expiresAt: number;
+}
+
+export class MemoryStore implements SharedStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  private live(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async increment(key: string, windowMs: number): Promise<CounterHit> {
+    let entry = this.live(key);
+    if (!entry) {
+      entry = { value: null, hits: 0, expiresAt: Date.now() + windowMs };
+      this.entries.set(key, entry);
+    }
+    entry.hits += 1;
+    return { count: entry.hits, resetAt: new Date(entry.expiresAt) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const entry = this.live(key);
+    if (entry) entry.hits = Math.max(entry.hits - 1, 0);
+  }
+
+  async putIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    if (this.live(key)) return false;
+    this.entries.set(key, { value, hits: 0, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async take(key: string): Promise<string | null> {
+    const entry = this.live(key);
+    this.entries.delete(key);
+    return entry?.value ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Active store
+// ═══════════════════════════════════════════════════════════════
+
+let store: SharedStore | null = null;
+let purgeTimer: ReturnType<typeof setInterval> | null = null;
+
+/** The configured store, created on first use with a background purge. */
+export function sharedStore(): SharedStore {
+  if (!store) {
+    store = config.SHARED_STORE === "memory" ? new MemoryStore() : new PostgresStore();
+  }
+  if (!purgeTimer) {
+    purgeTimer = setInterval(() => {
+      store?.purgeExpired().catch((err) => {
+        log.warn(
+          { error: err instanceof Error ? err.message : String(err) },
+          "Shared store purge failed"
+        );
+      });
+    }, PURGE_INTERVAL_MS);
+    purgeTimer.unref();
+  }
+  return store;
+}
+
+/** Swap the store (tests). Null goes back to the configured one. */
+export function setSharedStore(next: SharedStore | null): void {
+  store = next;
+}
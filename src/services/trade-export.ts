@@ -0,0 +1,341 @@
+/**
+ * Trade export — closed positions as CSV or JSON for tax and accounting.
+ *
+ * Rows are read in keyset-paginated batches and written to the response as
+ * they arrive, so memory stays flat however long the history is.
+ *
+ * The optional FIFO cost-basis summary treats every position as a lot of
+ * its token X mint, acquired at entry for its SOL cost and disposed of at
+ * exit. Disposals (in exit order) consume the oldest open lots of the same
+ * mint first, which decides the holding period — and so whether a gain is
+ * short-term (≤ 365 days) or long-term. LP fees are reported separately as
+ * income; tx costs reduce proceeds.
+ *
+ * Closed rows with no realized P&L (closes found by the reconciler or
+ * recovered by a position job) are exported with `pnlStatus` "unknown" and
+ * empty P&L columns, and are left out of the cost-basis summary.
+ */
+
+import { and, asc, eq, gt, gte, isNotNull, lte } from "drizzle-orm";
+import db from "../db/index.js";
+import { bots, positions } from "../db/schema.js";
+import { LAMPORTS_PER_SOL } from "../engine/types.js";
+import { splitPnl } from "./analytics.js";
+
+const BATCH_SIZE = 500;
+const LONG_TERM_MS = 365 * 24 * 60 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportFilter {
+  userId: number;
+  /** Exit time lower bound (epoch ms) */
+  from?: number;
+  /** Exit time upper bound (epoch ms) */
+  to?: number;
+  botId?: string;
+}
+
+export interface CostBasisSummary {
+  mint: string;
+  positions: number;
+  costBasisSol: number;
+  proceedsSol: number;
+  capitalGainSol: number;
+  shortTermGainSol: number;
+  longTermGainSol: number;
+  feeIncomeSol: number;
+}
+
+/** Column order for CSV — also the key order of each JSON row. */
+export const EXPORT_COLUMNS = [
+  "positionId",
+  "botId",
+  "botMode",
+  "poolName",
+  "poolAddress",
+  "tokenXMint",
+  "tokenYMint",
+  "entryTime",
+  "exitTime",
+  "holdMinutes",
+  "entryAmountXSol",
+  "entryAmountYSol",
+  "entryValueSol",
+  "entryPrice",
+  "exitPrice",
+  "exitReason",
+  "feesEarnedXLamports",
+  "feesEarnedYLamports",
+  "txCostLamports",
+  "realizedPnlLamports",
+  "pricePnlSol",
+  "feesSol",
+  "netPnlSol",
+  "pnlStatus",
+  "entryTxSignature",
+  "exitTxSignature",
+] as const;
+
+export type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | number | null>;
+
+interface Lot {
+  acquiredAt: number;
+  remainingLamports: number;
+}
+
+interface Disposal {
+  disposedAt: number;
+  costLamports: number;
+  gainLamports: number;
+  feesLamports: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Rows
+// ═══════════════════════════════════════════════════════════════
+
+const exportSelection = {
+  id: positions.id,
+  positionId: positions.positionId,
+  botId: positions.botId,
+  botMode: bots.mode,
+  poolName: positions.poolName,
+  poolAddress: positions.poolAddress,
+  tokenXMint: positions.tokenXMint,
+  tokenYMint: positions.tokenYMint,
+  entryTimestamp: positions.entryTimestamp,
+  exitTimestamp: positions.exitTimestamp,
+  entryAmountXLamports: positions.entryAmountXLamports,
+  entryAmountYLamports: positions.entryAmountYLamports,
+  entryPricePerToken: positions.entryPricePerToken,
+  exitPricePerToken: positions.exitPricePerToken,
+  exitReason: positions.exitReason,
+  feesEarnedXLamports: positions.feesEarnedXLamports,
+  feesEarnedYLamports: positions.feesEarnedYLamports,
+  txCostLamports: positions.txCostLamports,
+  realizedPnlLamports: positions.realizedPnlLamports,
+  entryTxSignature: positions.entryTxSignature,
+  exitTxSignature: positions.exitTxSignature,
+};
+
+function conditionsFor(filter: ExportFilter) {
+  const conditions = [
+    eq(positions.userId, filter.userId),
+    eq(positions.status, "closed"),
+    isNotNull(positions.exitTimestamp),
+  ];
+  if (filter.from !== undefined) conditions.push(gte(positions.exitTimestamp, filter.from));
+  if (filter.to !== undefined) conditions.push(lte(positions.exitTimestamp, filter.to));
+  if (filter.botId) conditions.push(eq(positions.botId, filter.botId));
+  return conditions;
+}
+
+function selectBatch(filter: ExportFilter, afterId: number) {
+  return db
+    .select(exportSelection)
+    .from(positions)
+    .innerJoin(bots, eq(bots.botId, positions.botId))
+    .where(and(...conditionsFor(filter), gt(positions.id, afterId)))
+    .orderBy(asc(positions.id))
+    .limit(BATCH_SIZE);
+}
+
+type SelectedRow = Awaited<ReturnType<typeof selectBatch>>[number];
+
+/**
+ * Closed positions in id order, BATCH_SIZE rows at a time.
+ */
+export async function* iterateExportRows(
+  filter: ExportFilter
+): AsyncGenerator<ExportRow[]> {
+  let afterId = 0;
+  for (;;) {
+    const batch = await selectBatch(filter, afterId);
+
+    if (batch.length === 0) return;
+    yield batch.map(toExportRow);
+    if (batch.length < BATCH_SIZE) return;
+    afterId = batch[batch.length - 1].id;
+  }
+}
+
+function toExportRow(row: SelectedRow): ExportRow {
+  const exitTimestamp = row.exitTimestamp ?? row.entryTimestamp;
+  const pnl = row.realizedPnlLamports === null ? null : splitPnl(row);
+
+  return {
+    positionId: row.positionId,
+    botId: row.botId,
+    botMode: row.botMode,
+    poolName: row.poolName,
+    poolAddress: row.poolAddress,
+    tokenXMint: row.tokenXMint,
+    tokenYMint: row.tokenYMint,
+    entryTime: new Date(row.entryTimestamp).toISOString(),
+    exitTime: new Date(exitTimestamp).toISOString(),
+    holdMinutes: Math.round((exitTimestamp - row.entryTimestamp) / 60_000),
+    entryAmountXSol: toSol(row.entryAmountXLamports),
+    entryAmountYSol: toSol(row.entryAmountYLamports),
+    entryValueSol: toSol(row.entryAmountXLamports + row.entryAmountYLamports),
+    entryPrice: row.entryPricePerToken,
+    exitPrice: row.exitPricePerToken,
+    exitReason: row.exitReason,
+    feesEarnedXLamports: pnl ? row.feesEarnedXLamports ?? 0 : row.feesEarnedXLamports,
+    feesEarnedYLamports: pnl ? row.feesEarnedYLamports ?? 0 : row.feesEarnedYLamports,
+    txCostLamports: pnl ? row.txCostLamports ?? 0 : row.txCostLamports,
+    realizedPnlLamports: row.realizedPnlLamports,
+    pricePnlSol: pnl ? toSol(pnl.priceLamports) : null,
+    feesSol: pnl ? toSol(pnl.feesLamports) : null,
+    netPnlSol: pnl ? toSol(pnl.netLamports) : null,
+    pnlStatus: pnl ? "realized" : "unknown",
+    entryTxSignature: row.entryTxSignature,
+    exitTxSignature: row.exitTxSignature,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// CSV
+// ═══════════════════════════════════════════════════════════════
+
+export function csvLine(values: ReadonlyArray<string | number | null>): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+/** RFC 4180 quoting, plus a leading ' on cells a spreadsheet would run as a formula. */
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(row: ExportRow): string {
+  return csvLine(EXPORT_COLUMNS.map((col) => row[col]));
+}
+
+export const COST_BASIS_COLUMNS = [
+  "mint",
+  "positions",
+  "costBasisSol",
+  "proceedsSol",
+  "capitalGainSol",
+  "shortTermGainSol",
+  "longTermGainSol",
+  "feeIncomeSol",
+] as const satisfies ReadonlyArray<keyof CostBasisSummary>;
+
+// ═══════════════════════════════════════════════════════════════
+// FIFO cost basis
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * FIFO summary per token X mint for the same positions as the export.
+ * Only the handful of numeric columns needed are loaded.
+ */
+export async function computeCostBasis(filter: ExportFilter): Promise<CostBasisSummary[]> {
+  const rows = await db
+    .select({
+      mint: positions.tokenXMint,
+      botMode: bots.mode,
+      entryTimestamp: positions.entryTimestamp,
+      exitTimestamp: positions.exitTimestamp,
+      entryAmountXLamports: positions.entryAmountXLamports,
+      entryAmountYLamports: positions.entryAmountYLamports,
+      exitPricePerToken: positions.exitPricePerToken,
+      realizedPnlLamports: positions.realizedPnlLamports,
+      feesEarnedXLamports: positions.feesEarnedXLamports,
+      feesEarnedYLamports: positions.feesEarnedYLamports,
+      txCostLamports: positions.txCostLamports,
+    })
+    .from(positions)
+    .innerJoin(bots, eq(bots.botId, positions.botId))
+    .where(and(...conditionsFor(filter), isNotNull(positions.realizedPnlLamports)));
+
+  const byMint = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const list = byMint.get(row.mint) ?? [];
+    list.push(row);
+    byMint.set(row.mint, list);
+  }
+
+  const summaries: CostBasisSummary[] = [];
+  for (const [mint, mintRows] of byMint) {
+    const lots: Lot[] = mintRows
+      .map((r) => ({
+        acquiredAt: r.entryTimestamp,
+        remainingLamports: r.entryAmountXLamports + r.entryAmountYLamports,
+      }))
+      .sort((a, b) => a.acquiredAt - b.acquiredAt);
+
+    const disposals: Disposal[] = mintRows
+      .map((r) => {
+        const pnl = splitPnl(r);
+        return {
+          disposedAt: r.exitTimestamp ?? r.entryTimestamp,
+          costLamports: r.entryAmountXLamports + r.entryAmountYLamports,
+          gainLamports: pnl.priceLamports - pnl.txCostLamports,
+          feesLamports: pnl.feesLamports,
+        };
+      })
+      .sort((a, b) => a.disposedAt - b.disposedAt);
+
+    summaries.push(summarizeFifo(mint, lots, disposals));
+  }
+
+  return summaries.sort((a, b) => a.mint.localeCompare(b.mint));
+}
+
+function summarizeFifo(mint: string, lots: Lot[], disposals: Disposal[]): CostBasisSummary {
+  let cost = 0;
+  let gain = 0;
+  let shortTerm = 0;
+  let longTerm = 0;
+  let fees = 0;
+  let head = 0;
+
+  for (const disposal of disposals) {
+    cost += disposal.costLamports;
+    gain += disposal.gainLamports;
+    fees += disposal.feesLamports;
+
+    // Split the gain across the oldest lots by the share of basis each supplies
+    let needed = disposal.costLamports;
+    while (needed > 0 && head < lots.length) {
+      const lot = lots[head];
+      const used = Math.min(lot.remainingLamports, needed);
+      const share = disposal.costLamports > 0 ? used / disposal.costLamports : 0;
+      if (disposal.disposedAt - lot.acquiredAt > LONG_TERM_MS) {
+        longTerm += disposal.gainLamports * share;
+      } else {
+        shortTerm += disposal.gainLamports * share;
+      }
+      lot.remainingLamports -= used;
+      needed -= used;
+      if (lot.remainingLamports <= 0) head++;
+    }
+    // Zero-cost disposals (no basis to match) count as short-term
+    if (disposal.costLamports <= 0) shortTerm += disposal.gainLamports;
+  }
+
+  return {
+    mint,
+    positions: disposals.length,
+    costBasisSol: toSol(cost),
+    proceedsSol: toSol(cost + gain),
+    capitalGainSol: toSol(gain),
+    shortTermGainSol: toSol(shortTerm),
+    longTermGainSol: toSol(longTerm),
+    feeIncomeSol: toSol(fees),
+  };
+}
+
+function toSol(lamports: number): number {
+  return lamports / LAMPORTS_PER_SOL;
+}
@@ -0,0 +1,619 @@
+/**
+ * Webhook dispatcher — delivers bot events to user-registered endpoints.
+ *
+ * For every EventBus event, each active webhook of the event's user whose
+ * event filter (and optional bot filter) matches gets one webhook_deliveries
+ * row and an immediate POST. Failed attempts are retried with backoff by a
+ * poller that reads due rows from Postgres, so retries survive restarts.
+ * Every HTTP attempt is stored in webhook_delivery_attempts.
+ *
+ * Each attempt runs under a claim: the row is `sending` with nextAttemptAt
+ * set to when the claim lapses. A new row starts claimed by the inline
+ * send; the poller claims due rows in one UPDATE … SKIP LOCKED. An attempt
+ * only records its result while its claim is still the row's, so a crashed
+ * or stalled attempt is retried once and never double-counted.
+ *
+ * Request format:
+ *   POST <url>
+ *   Content-Type: application/json
+ *   X-Sage-Event:     position:closed
+ *   X-Sage-Delivery:  <uuid, stable across retries>
+ *   X-Sage-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+ *   { id, event, botId, seq, timestamp, data }
+ *
+ * An engine:error with severity "critical" (EmergencyStop tripped) is
+ * delivered as "emergency:stop".
+ */
+
+import crypto from "node:crypto";
+import { lookup as dnsLookup } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { and, eq, inArray, lte, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import config from "../config.js";
+import db from "../db/index.js";
+import {
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  webhooks,
+} from "../db/schema.js";
+import { eventBus } from "../engine/event-bus.js";
+import { BOT_EVENT_TYPES, type BotEvent, type BotEventType } from "../engine/types.js";
+import { logger } from "../middleware/logger.js";
+
+const log = logger.child({ module: "webhooks" });
+
+/** Total attempts per delivery (first try + retries) */
+const MAX_ATTEMPTS = 6;
+/** Delay before retry N (after attempt N failed) */
+const RETRY_BACKOFF_MS = [
+  10_000, // 10s
+  60_000, // 1m
+  5 * 60_000, // 5m
+  30 * 60_000, // 30m
+  2 * 60 * 60_000, // 2h
+];
+/** Deliveries failing for good in a row before the webhook is disabled */
+const MAX_CONSECUTIVE_FAILURES = 10;
+const RETRY_POLL_INTERVAL_MS = 10_000;
+const RETRY_BATCH_SIZE = 50;
+/** How long an attempt owns its delivery before the poller may retry it */
+const CLAIM_TIMEOUT_MS = config.WEBHOOK_TIMEOUT_MS + 60_000;
+const RESPONSE_BODY_LIMIT = 1024;
+
+// ═══════════════════════════════════════════════════════════════
+// Event names + helpers
+// ═══════════════════════════════════════════════════════════════
+
+export type WebhookEventType = BotEventType | "emergency:stop";
+export const WEBHOOK_EVENT_TYPES: [WebhookEventType, ...WebhookEventType[]] = [
+  "emergency:stop",
+  ...BOT_EVENT_TYPES,
+];
+
+export const DEFAULT_WEBHOOK_EVENTS: WebhookEventType[] = [
+  "position:opened",
+  "position:closed",
+  "emergency:stop",
+];
+
+type WebhookRow = typeof webhooks.$inferSelect;
+type DeliveryRow = typeof webhookDeliveries.$inferSelect;
+
+/** nextAttemptAt for a delivery claimed now */
+function claimExpiry(): Date {
+  return new Date(Date.now() + CLAIM_TIMEOUT_MS);
+}
+
+/** Webhook event name for a bot event. */
+function webhookEventName(event: BotEvent): WebhookEventType {
+  if (event.type === "engine:error" && event.data.severity === "critical") {
+    return "emergency:stop";
+  }
+  return event.type;
+}
+
+/** `whsec_` + 32 random bytes, base64url. */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+/** X-Sage-Signature header value for a body. */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestampSec: number
+): string {
+  const mac = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestampSec}.${body}`)
+    .digest("hex");
+  return `t=${timestampSec},v1=${mac}`;
+}
+
+/**
+ * Addresses a webhook may never reach: private, loopback, link-local,
+ * CGNAT, multicast, documentation / benchmarking and other reserved ranges.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // CGNAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved + broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["64:ff9b:1::", 48],
+  ["100::", 64], // discard
+  ["2001::", 32], // Teredo
+  ["2001:db8::", 32], // documentation
+  ["2002::", 16], // 6to4
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["fec0::", 10], // site-local
+  ["ff00::", 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(net, prefix, "ipv6");
+}
+
+/** The 16 bytes of a valid IPv6 address (zone id dropped). */
+function ipv6Bytes(address: string): number[] {
+  let addr = address.split("%")[0]!;
+  // Trailing dotted quad (::ffff:1.2.3.4) → two hex groups
+  const dotted = addr.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2]!.split(".").map(Number) as [number, number, number, number];
+    addr = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head = "", tail] = addr.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+        ...headGroups,
+        ...Array<string>(8 - headGroups.length - tailGroups.length).fill("0"),
+        ...tailGroups,
+      ];
+  return groups.flatMap((g) => {
+    const n = parseInt(g, 16);
+    return [n >> 8, n & 0xff];
+  });
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return BLOCKED_ADDRESSES.check(address, "ipv4");
+  if (family !== 6) return true;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  // reach the embedded IPv4 address, in whatever notation they were written
+  const bytes = ipv6Bytes(address);
+  const marker = (bytes[10]! << 8) | bytes[11]!;
+  if (bytes.slice(0, 10).every((b) => b === 0) && (marker === 0xffff || marker === 0)) {
+    return BLOCKED_ADDRESSES.check(bytes.slice(12).join("."), "ipv4");
+  }
+  return BLOCKED_ADDRESSES.check(address.split("%")[0]!, "ipv6");
+}
+
+/**
+ * dns.lookup for webhook sockets: rejects the connection if the name
+ * resolves to a blocked address and otherwise connects to the addresses
+ * it just checked, so a DNS answer that changes between the check and the
+ * connect (rebinding) can't redirect the request.
+ */
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (
+      !config.WEBHOOK_ALLOW_PRIVATE_URLS &&
+      addresses.some((a) => isPrivateAddress(a.address))
+    ) {
+      return callback(
+        Object.assign(new Error("Webhook URL must resolve to a public address"), {
+          code: "EBLOCKED",
+        }),
+        "",
+        0
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    const first = addresses[0];
+    if (!first) return callback(new Error(`Could not resolve ${hostname}`), "", 0);
+    callback(null, first.address, first.family);
+  });
+};
+
+/**
+ * POST a webhook body. Plain http(s) rather than fetch so the socket goes
+ * through checkedLookup. Redirects are not followed.
+ */
+function postWebhook(
+  rawUrl: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> {
+  const url = new URL(rawUrl);
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: checkedLookup,
+        signal: AbortSignal.timeout(config.WEBHOOK_TIMEOUT_MS),
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (text.length < RESPONSE_BODY_LIMIT) text += chunk;
+        });
+        res.on("end", () =>
+          resolve({ status: res.statusCode ?? 0, body: text.slice(0, RESPONSE_BODY_LIMIT) })
+        );
+        res.on("error", reject);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Throw if a webhook URL isn't allowed. Unless WEBHOOK_ALLOW_PRIVATE_URLS,
+ * URLs must be https and every resolved address must be public — checked
+ * at registration and again before each attempt. The attempt itself
+ * connects only to addresses that pass the same check (checkedLookup).
+ */
+export async function assertWebhookUrl(rawUrl: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Webhook URL must be http(s)");
+  }
+  if (url.username || url.password) {
+    throw new Error("Webhook URL must not contain credentials");
+  }
+  if (config.WEBHOOK_ALLOW_PRIVATE_URLS) return;
+
+  if (url.protocol !== "https:") {
+    throw new Error("Webhook URL must use https");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new Error("Webhook URL must not point to localhost");
+  }
+  const addresses = isIP(host)
+    ? [{ address: host }]
+    : await lookup(host, { all: true }).catch(() => {
+      throw new Error(`Could not resolve ${host}`);
+    });
+  if (addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new Error("Webhook URL must resolve to a public address");
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// WebhookDispatcher
+// ═══════════════════════════════════════════════════════════════
+
+export class WebhookDispatcher {
+  private static instance: WebhookDispatcher;
+
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private isPolling = false;
+
+  private constructor() {}
+
+  static getInstance(): WebhookDispatcher {
+    if (!WebhookDispatcher.instance) {
+      WebhookDispatcher.instance = new WebhookDispatcher();
+    }
+    return WebhookDispatcher.instance;
+  }
+
+  // ── Lifecycle ──
+
+  start(): void {
+    if (this.interval) return;
+
+    const handler = (event: BotEvent) => {
+      this.dispatch(event).catch((err) => {
+        log.error(
+          { botId: event.botId, err: err instanceof Error ? err.message : String(err) },
+          "Webhook dispatch failed"
+        );
+      });
+    };
+    for (const type of BOT_EVENT_TYPES) eventBus.on(type, handler);
+    this.unsubscribe = () => {
+      for (const type of BOT_EVENT_TYPES) eventBus.off(type, handler);
+    };
+
+    this.interval = setInterval(() => this.retryDue(), RETRY_POLL_INTERVAL_MS);
+    this.interval.unref();
+
+    log.info("Webhook dispatcher started");
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // ── Dispatch ──
+
+  /**
+   * Fan an event out to the user's matching webhooks.
+   */
+  async dispatch(event: BotEvent): Promise<void> {
+    const name = webhookEventName(event);
+    const hooks = await db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.userId, event.userId), eq(webhooks.isActive, true)));
+
+    const matching = hooks.filter(
+      (h) =>
+        h.events.includes(name) &&
+        (!h.botIds?.length || h.botIds.includes(event.botId))
+    );
+
+    await Promise.all(
+      matching.map((hook) =>
+        this.enqueue(hook, name, {
+          botId: event.botId,
+          seq: event.seq ?? null,
+          timestamp: event.timestamp,
+          data: event.data,
+        })
+      )
+    );
+  }
+
+  /**
+   * Send a "webhook:test" event to one webhook. Returns the delivery after
+   * its first attempt.
+   */
+  async sendTest(hook: WebhookRow): Promise<DeliveryRow | undefined> {
+    const delivery = await this.createDelivery(hook, "webhook:test", {
+      botId: null,
+      seq: null,
+      timestamp: Date.now(),
+      data: { message: "Test delivery from Sage" },
+    });
+    return this.attempt(delivery, hook);
+  }
+
+  private async enqueue(
+    hook: WebhookRow,
+    event: string,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    const delivery = await this.createDelivery(hook, event, body);
+    await this.attempt(delivery, hook);
+  }
+
+  private async createDelivery(
+    hook: WebhookRow,
+    event: string,
+    body: Record<string, unknown>
+  ): Promise<DeliveryRow> {
+    const deliveryId = uuidv4();
+    const payload = JSON.stringify({ id: deliveryId, event, ...body });
+
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values({
+        deliveryId,
+        webhookId: hook.id,
+        userId: hook.userId,
+        event,
+        payload,
+        // Claimed by the caller's inline attempt
+        status: "sending",
+        nextAttemptAt: claimExpiry(),
+      })
+      .returning();
+    return delivery;
+  }
+
+  // ── Attempts ──
+
+  /**
+   * POST a claimed delivery once, record the attempt and schedule the next
+   * one. Returns the updated delivery row (undefined if the claim lapsed
+   * and another attempt took the delivery over).
+   */
+  private async attempt(
+    delivery: DeliveryRow,
+    hook: WebhookRow
+  ): Promise<DeliveryRow | undefined> {
+    const attempt = delivery.attempts + 1;
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      await assertWebhookUrl(hook.url);
+      const timestampSec = Math.floor(startedAt / 1000);
+      const res = await postWebhook(
+        hook.url,
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "Sage-Webhooks/1.0",
+          "X-Sage-Event": delivery.event,
+          "X-Sage-Delivery": delivery.deliveryId,
+          "X-Sage-Signature": signWebhookPayload(
+            hook.secret,
+            delivery.payload,
+            timestampSec
+          ),
+        },
+        delivery.payload
+      );
+      responseStatus = res.status;
+      responseBody = res.body;
+      if (res.status < 200 || res.status > 299) error = `HTTP ${res.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const delivered = error === null;
+    const exhausted = !delivered && attempt >= MAX_ATTEMPTS;
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({
+        attempts: attempt,
+        status: delivered ? "delivered" : exhausted ? "failed" : "retrying",
+        deliveredAt: delivered ? new Date() : null,
+        nextAttemptAt:
+          delivered || exhausted
+            ? null
+            : new Date(Date.now() + RETRY_BACKOFF_MS[attempt - 1]),
+      })
+      .where(
+        and(
+          eq(webhookDeliveries.id, delivery.id),
+          eq(webhookDeliveries.status, "sending"),
+          eq(webhookDeliveries.nextAttemptAt, delivery.nextAttemptAt!)
+        )
+      )
+      .returning();
+
+    if (!updated) {
+      log.warn(
+        { webhookId: hook.id, deliveryId: delivery.deliveryId, attempt },
+        "Webhook delivery claim lapsed mid-attempt — result discarded"
+      );
+      return undefined;
+    }
+
+    await db.insert(webhookDeliveryAttempts).values({
+      deliveryId: delivery.id,
+      attempt,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (delivered && hook.consecutiveFailures > 0) {
+      await db
+        .update(webhooks)
+        .set({ consecutiveFailures: 0 })
+        .where(eq(webhooks.id, hook.id));
+    } else if (exhausted) {
+      await this.recordExhausted(hook);
+    }
+
+    if (!delivered) {
+      log.warn(
+        { webhookId: hook.id, deliveryId: delivery.deliveryId, attempt, error },
+        exhausted ? "Webhook delivery failed permanently" : "Webhook delivery failed — will retry"
+      );
+    }
+
+    return updated;
+  }
+
+  private async recordExhausted(hook: WebhookRow): Promise<void> {
+    const [row] = await db
+      .update(webhooks)
+      .set({
+        consecutiveFailures: sql`${webhooks.consecutiveFailures} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(webhooks.id, hook.id))
+      .returning({ consecutiveFailures: webhooks.consecutiveFailures });
+
+    if (row && row.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      await db
+        .update(webhooks)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(webhooks.id, hook.id));
+      log.warn(
+        { webhookId: hook.id, failures: row.consecutiveFailures },
+        "Webhook disabled after repeated failed deliveries"
+      );
+    }
+  }
+
+  /**
+   * Claim the most overdue delivery (skipping rows another replica is
+   * claiming right now).
+   */
+  private async claimNextDue(): Promise<DeliveryRow | undefined> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          inArray(webhookDeliveries.status, ["pending", "sending", "retrying"]),
+          lte(webhookDeliveries.nextAttemptAt, new Date())
+        )
+      )
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [claimed] = await db
+      .update(webhookDeliveries)
+      .set({ status: "sending", nextAttemptAt: claimExpiry() })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+    return claimed;
+  }
+
+  /**
+   * Claim and retry deliveries whose backoff has elapsed. Also picks up
+   * claims that lapsed — an attempt cut short by a crash or restart.
+   */
+  private async retryDue(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      // One claim at a time, so no claim lapses while earlier rows are sent
+      for (let i = 0; i < RETRY_BATCH_SIZE; i++) {
+        const delivery = await this.claimNextDue();
+        if (!delivery) break;
+
+        const [hook] = await db
+          .select()
+          .from(webhooks)
+          .where(eq(webhooks.id, delivery.webhookId));
+        if (!hook?.isActive) {
+          await db
+            .update(webhookDeliveries)
+            .set({ status: "failed", nextAttemptAt: null })
+            .where(eq(webhookDeliveries.id, delivery.id));
+          continue;
+        }
+        await this.attempt(delivery, hook);
+      }
+    } catch (err) {
+      log.error(
+        { err: err instanceof Error ? err.message : String(err) },
+        "Webhook retry poll failed"
+      );
+    } finally {
+      this.isPolling = false;
+    }
+  }
+}
+
+export const webhookDispatcher = WebhookDispatcher.getInstance();